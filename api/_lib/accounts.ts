@@ -0,0 +1,14 @@
+// /api/_lib/accounts.ts
+// What still points at an account before it may be deleted: see
+// offboard_summary() in the migrations. The User Management wizard transfers
+// it all first.
+import { supabaseAdmin } from './auth.js';
+
+const OWNED = ['dealers', 'open_tasks', 'upcoming_stops', 'presets', 'direct_reports'] as const;
+
+/** The kinds of record the user still owns (empty when none). Throws on failure. */
+export async function ownedLeftovers(userId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin.rpc('offboard_summary', { p_user_id: userId });
+  if (error) throw new Error(error.message);
+  return OWNED.filter((k) => Number(data?.[k]) > 0);
+}
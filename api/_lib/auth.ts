@@ -0,0 +1,151 @@
+// /api/_lib/auth.ts
+// Shared caller checks for the serverless handlers. Files under /api/_lib are
+// not deployed as routes. Every handler runs with the service-role key, so it
+// must know who is calling before it touches anything.
+import { createClient } from '@supabase/supabase-js';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const url = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL!;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY!; // service role
+
+export const supabaseAdmin = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+
+export type Role = 'Admin' | 'Manager' | 'Regional Manager' | 'Rep' | 'Viewer';
+
+export type Caller = {
+  id: string;
+  email: string;
+  username: string;
+  role: Role;
+};
+
+/** Send the JSON error shape every handler uses. */
+export const sendError = (res: VercelResponse, status: number, error: string) => res.status(status).json({ error });
+
+/** The message of a thrown Error (or Supabase error object), else `fallback`. */
+export function errorMessage(e: unknown, fallback: string): string {
+  const message = e instanceof Error ? e.message : (e as { message?: unknown } | null | undefined)?.message;
+  return typeof message === 'string' && message ? message : fallback;
+}
+
+/**
+ * Resolve the caller from the `Authorization: Bearer <access token>` header.
+ * Replies 401 (no/invalid session) or 403 (no profile, inactive) itself and
+ * returns null.
+ */
+async function resolveCaller(req: VercelRequest, res: VercelResponse): Promise<Caller | null> {
+  const auth = String(req.headers.authorization || '');
+  const token = auth.startsWith('Bearer ') ? auth.slice(7).trim() : '';
+  if (!token) {
+    sendError(res, 401, 'Missing Authorization Bearer token');
+    return null;
+  }
+
+  const { data: u, error: uErr } = await supabaseAdmin.auth.getUser(token);
+  if (uErr || !u?.user?.id) {
+    sendError(res, 401, 'Invalid session');
+    return null;
+  }
+
+  const { data: prof, error: pErr } = await supabaseAdmin
+    .from('profiles')
+    .select('id, username, email, role, status')
+    .eq('id', u.user.id)
+    .maybeSingle();
+
+  if (pErr || !prof) {
+    sendError(res, 403, 'Profile not found');
+    return null;
+  }
+  // Bans stop new sessions; this also shuts out a token issued before deactivation
+  if (prof.status === 'Inactive') {
+    sendError(res, 403, 'Account is inactive');
+    return null;
+  }
+
+  return {
+    id: prof.id,
+    email: prof.email || u.user.email || '',
+    username: prof.username || '',
+    role: prof.role as Role,
+  };
+}
+
+/**
+ * Resolve the caller and check their profile role. Replies with the error
+ * itself and returns null, so handlers do:
+ *
+ *   const caller = await requireRole(req, res, ['Admin']);
+ *   if (!caller) return;
+ */
+export async function requireRole(req: VercelRequest, res: VercelResponse, roles: Role[]): Promise<Caller | null> {
+  const caller = await resolveCaller(req, res);
+  if (!caller) return null;
+  if (!roles.includes(caller.role)) {
+    sendError(res, 403, 'Not authorized');
+    return null;
+  }
+  return caller;
+}
+
+/** Shorthand for the admin-only endpoints. */
+export const requireAdmin = (req: VercelRequest, res: VercelResponse) => requireRole(req, res, ['Admin']);
+
+/**
+ * Resolve the caller and check the role_capabilities matrix (see
+ * src/permissions.ts for the keys). Admin holds every capability.
+ */
+export async function requireCapability(req: VercelRequest, res: VercelResponse, capability: string): Promise<Caller | null> {
+  const caller = await resolveCaller(req, res);
+  if (!caller) return null;
+  if (caller.role === 'Admin') return caller;
+
+  const { data, error } = await supabaseAdmin
+    .from('role_capabilities')
+    .select('capability')
+    .eq('role', caller.role)
+    .eq('capability', capability)
+    .maybeSingle();
+  if (error) {
+    sendError(res, 500, error.message);
+    return null;
+  }
+  if (!data) {
+    sendError(res, 403, 'Not authorized');
+    return null;
+  }
+  return caller;
+}
+
+/**
+ * users.manage stops short of Admin accounts: invite and recovery links sign
+ * the holder in, so only an Admin may mint them for (or delete) an Admin.
+ * `target` is the account by id or email plus any role being granted. Replies
+ * 403 itself and returns false.
+ */
+export async function canManageAccount(
+  res: VercelResponse,
+  caller: Caller,
+  target: { id?: string | null; email?: string | null; role?: string | null }
+): Promise<boolean> {
+  if (caller.role === 'Admin') return true;
+
+  let isAdmin = target.role === 'Admin';
+  if (!isAdmin && (target.id || target.email)) {
+    const query = supabaseAdmin.from('profiles').select('role');
+    const { data, error } = await (target.id
+      ? query.eq('id', target.id)
+      : query.eq('email', String(target.email).trim().toLowerCase())
+    ).maybeSingle();
+    if (error) {
+      sendError(res, 500, error.message);
+      return false;
+    }
+    isAdmin = data?.role === 'Admin';
+  }
+  if (isAdmin) {
+    sendError(res, 403, 'Only an Admin can manage an Admin account');
+    return false;
+  }
+  return true;
+}
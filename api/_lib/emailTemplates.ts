@@ -0,0 +1,73 @@
+// /api/_lib/emailTemplates.ts
+// Branded bodies for the emails we send. Each returns subject, plain text and
+// HTML; keep the two bodies saying the same thing.
+import { mailSettings } from './mailer.js';
+
+export type InviteEmailInput = {
+  link: string;
+  mode: 'invite' | 'recovery';
+  username?: string | null;
+  role?: string | null;
+  expiresAt: string; // ISO
+};
+
+const BRAND_COLOR = '#2563eb'; // brand.primary in the app (bg-blue-600)
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const supportLine = () => {
+  const { supportEmail, supportPhone } = mailSettings();
+  const parts = [supportEmail, supportPhone].filter(Boolean);
+  return parts.length ? `Questions? Contact support at ${parts.join(' or ')}.` : '';
+};
+
+/** Invite to a new account, or a password-reset link for an existing one. */
+export function inviteEmail(input: InviteEmailInput) {
+  const { appName } = mailSettings();
+  const isInvite = input.mode === 'invite';
+  const expires = new Date(input.expiresAt).toUTCString();
+  const subject = isInvite ? `You're invited to ${appName}` : `Set your ${appName} password`;
+  const intro = isInvite
+    ? `An administrator has created an account for you in ${appName}.`
+    : `An administrator sent you a link to set a new password for ${appName}.`;
+  const details = [
+    input.username ? `Username: ${input.username}` : '',
+    input.role ? `Role: ${input.role}` : '',
+  ].filter(Boolean);
+  const action = isInvite ? 'Accept invite and set password' : 'Set new password';
+  const support = supportLine();
+
+  const text = [
+    'Hello,',
+    '',
+    intro,
+    ...(details.length ? ['', ...details] : []),
+    '',
+    `${action}: ${input.link}`,
+    '',
+    `This link expires ${expires}. If you weren't expecting this email you can ignore it.`,
+    ...(support ? ['', support] : []),
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;overflow:hidden">
+      <tr><td style="background:${BRAND_COLOR};color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold">${escapeHtml(appName)}</td></tr>
+      <tr><td style="padding:24px">
+        <p style="margin:0 0 12px">Hello,</p>
+        <p style="margin:0 0 12px">${escapeHtml(intro)}</p>
+        ${details.length ? `<p style="margin:0 0 12px">${details.map(escapeHtml).join('<br>')}</p>` : ''}
+        <p style="margin:24px 0">
+          <a href="${escapeHtml(input.link)}" style="background:${BRAND_COLOR};color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:8px;display:inline-block">${escapeHtml(action)}</a>
+        </p>
+        <p style="margin:0 0 12px;font-size:13px;color:#475569">This link expires ${escapeHtml(expires)}. If you weren't expecting this email you can ignore it.</p>
+        ${support ? `<p style="margin:0;font-size:13px;color:#475569">${escapeHtml(support)}</p>` : ''}
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
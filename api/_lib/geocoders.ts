@@ -0,0 +1,68 @@
+// /api/_lib/geocoders.ts
+// Address -> lat/lng providers for /api/geocode-dealers. Configure with env vars:
+//   GEOCODER = google | nominatim | zip (default: google when a key is set, else zip)
+//   GOOGLE_MAPS_API_KEY (Geocoding API enabled),
+//   NOMINATIM_URL (default https://nominatim.openstreetmap.org) and
+//   NOMINATIM_EMAIL (contact address their usage policy asks for).
+// Whatever is picked, the bundled ZIP-centroid geocoder runs last, so every
+// dealer with a ZIP or state gets at least an approximate position offline.
+import { formatAddress, zipCentroidGeocoder, type Geocoder } from '../../src/geo.js';
+import { mailSettings } from './mailer.js';
+
+type LatLngJson = { lat: string | number; lng: string | number };
+type GoogleReply = {
+  status?: string;
+  error_message?: string;
+  results?: { geometry?: { location?: LatLngJson } }[];
+};
+type NominatimHit = { lat: string; lon: string };
+
+const googleGeocoder = (apiKey: string): Geocoder => ({
+  name: 'google',
+  geocode: async (a) => {
+    const url = new URL('https://maps.googleapis.com/maps/api/geocode/json');
+    url.searchParams.set('address', formatAddress(a));
+    url.searchParams.set('components', 'country:US');
+    url.searchParams.set('key', apiKey);
+    const r = await fetch(url);
+    const j: GoogleReply = await r.json().catch(() => ({}));
+    if (j.status === 'ZERO_RESULTS') return null;
+    if (!r.ok || j.status !== 'OK') throw new Error(`Google geocoding failed: ${j.error_message || j.status || r.status}`);
+    const loc = j.results?.[0]?.geometry?.location;
+    return loc ? { lat: Number(loc.lat), lng: Number(loc.lng) } : null;
+  },
+});
+
+// Nominatim allows one request a second; callers run sequentially, this spaces them.
+let lastNominatimAt = 0;
+const nominatimGeocoder = (baseUrl: string): Geocoder => ({
+  name: 'nominatim',
+  geocode: async (a) => {
+    const wait = lastNominatimAt + 1100 - Date.now();
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+    lastNominatimAt = Date.now();
+
+    const url = new URL('/search', baseUrl);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('limit', '1');
+    url.searchParams.set('countrycodes', 'us');
+    url.searchParams.set('q', formatAddress(a));
+    if (process.env.NOMINATIM_EMAIL) url.searchParams.set('email', process.env.NOMINATIM_EMAIL);
+    const r = await fetch(url, { headers: { 'User-Agent': mailSettings().appName } });
+    if (!r.ok) throw new Error(`Nominatim geocoding failed: HTTP ${r.status}`);
+    const j: unknown = await r.json();
+    const hit = Array.isArray(j) ? (j[0] as NominatimHit | undefined) : null;
+    return hit ? { lat: Number(hit.lat), lng: Number(hit.lon) } : null;
+  },
+});
+
+/** The configured provider (if any) followed by the ZIP fallback. */
+export function configuredGeocoders(): Geocoder[] {
+  const key = process.env.GOOGLE_MAPS_API_KEY || '';
+  const choice = (process.env.GEOCODER || (key ? 'google' : 'zip')).toLowerCase();
+  if (choice === 'google' && key) return [googleGeocoder(key), zipCentroidGeocoder];
+  if (choice === 'nominatim') {
+    return [nominatimGeocoder(process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org'), zipCentroidGeocoder];
+  }
+  return [zipCentroidGeocoder];
+}
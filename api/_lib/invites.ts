@@ -0,0 +1,209 @@
+// /api/_lib/invites.ts
+// Link minting and bookkeeping shared by the invite endpoints. Every link an
+// Admin hands out is recorded in public.user_invites.
+import { ownedLeftovers } from './accounts.js';
+import { supabaseAdmin, type Caller } from './auth.js';
+import { inviteEmail } from './emailTemplates.js';
+import { sendMail } from './mailer.js';
+
+const SITE_URL = process.env.SITE_URL!;
+
+/** Our expiry for a link. Keep it at or under the Supabase email OTP expiry. */
+export const INVITE_TTL_HOURS = Number(process.env.INVITE_TTL_HOURS) || 24;
+
+export type InviteMode = 'invite' | 'recovery';
+
+export type InviteRow = {
+  id: string;
+  email: string;
+  username: string | null;
+  role: string | null;
+  user_id: string | null;
+  mode: InviteMode;
+  status: 'pending' | 'accepted' | 'expired' | 'revoked';
+  invited_by: string | null;
+  invited_by_username: string | null;
+  created_at: string;
+  last_sent_at: string;
+  send_count: number;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  revoked_by_username: string | null;
+  last_emailed_at: string | null;
+};
+
+export type IssuedLink = { link?: string; mode: InviteMode; userId: string | null };
+
+// Normalize Supabase link responses (older versions nest the link differently)
+type LinkData = {
+  properties?: { action_link?: string } | null;
+  action_link?: string;
+  email_otp?: { action_link?: string };
+};
+const extractLink = (data: LinkData | null | undefined): string | undefined =>
+  data?.properties?.action_link || data?.action_link || data?.email_otp?.action_link || undefined;
+
+const expiresAt = () => new Date(Date.now() + INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+/**
+ * Mint an invite link, or a recovery link when the address already has an
+ * account. Throws with the Supabase message on failure.
+ */
+export async function issueLink(email: string, username: string): Promise<IssuedLink> {
+  const redirectTo = `${SITE_URL}/auth/callback?next=/reset`;
+
+  // 1) Try an INVITE link first
+  const inviteResp = await supabaseAdmin.auth.admin.generateLink({
+    type: 'invite',
+    email,
+    options: {
+      redirectTo,
+      data: username ? { username } : undefined, // carry username metadata on invite
+    },
+  });
+  if (!inviteResp.error) {
+    return { link: extractLink(inviteResp.data), mode: 'invite', userId: inviteResp.data?.user?.id ?? null };
+  }
+
+  // 2) If invite failed because user already exists, fallback to RECOVERY
+  const msg = String(inviteResp.error.message || '').toLowerCase();
+  const isAlreadyRegistered =
+    msg.includes('already been registered') ||
+    msg.includes('user already registered') ||
+    inviteResp.error.status === 422 ||
+    inviteResp.error.status === 409;
+  if (!isAlreadyRegistered) throw new Error(inviteResp.error.message);
+
+  const recoveryResp = await supabaseAdmin.auth.admin.generateLink({
+    type: 'recovery',
+    email,
+    options: { redirectTo },
+  });
+  if (recoveryResp.error) throw new Error(recoveryResp.error.message);
+  return { link: extractLink(recoveryResp.data), mode: 'recovery', userId: recoveryResp.data?.user?.id ?? null };
+}
+
+/** Flip lapsed pending invites to expired so they don't block a new one. */
+export async function expireStaleInvites() {
+  const { error } = await supabaseAdmin.rpc('expire_user_invites');
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Record a freshly sent link. Re-inviting an address that already has a
+ * pending invite updates that row (new expiry, send count + 1) instead of
+ * adding a second one.
+ */
+export async function recordInvite(
+  email: string,
+  username: string,
+  role: string,
+  issued: IssuedLink,
+  caller: Caller
+): Promise<InviteRow> {
+  await expireStaleInvites();
+
+  const { data: existing, error: findErr } = await supabaseAdmin
+    .from('user_invites')
+    .select('id, send_count')
+    .eq('email', email)
+    .eq('status', 'pending')
+    .maybeSingle();
+  if (findErr) throw new Error(findErr.message);
+
+  const sent = {
+    username: username || null,
+    role: role || null,
+    user_id: issued.userId,
+    mode: issued.mode,
+    last_sent_at: new Date().toISOString(),
+    expires_at: expiresAt(),
+  };
+  const query = existing
+    ? supabaseAdmin
+        .from('user_invites')
+        .update({ ...sent, send_count: (existing.send_count || 0) + 1 })
+        .eq('id', existing.id)
+    : supabaseAdmin
+        .from('user_invites')
+        .insert({ ...sent, email, invited_by: caller.id, invited_by_username: caller.username || null });
+
+  const { data, error } = await query.select('*').single();
+  if (error) throw new Error(error.message);
+  return data as InviteRow;
+}
+
+/** Re-send an existing invite: a new link, a new expiry, back to pending. */
+export async function resendInvite(invite: InviteRow): Promise<{ link?: string; invite: InviteRow }> {
+  const issued = await issueLink(invite.email, invite.username || '');
+  const { data, error } = await supabaseAdmin
+    .from('user_invites')
+    .update({
+      status: 'pending',
+      user_id: issued.userId,
+      mode: issued.mode,
+      last_sent_at: new Date().toISOString(),
+      expires_at: expiresAt(),
+      send_count: invite.send_count + 1,
+    })
+    .eq('id', invite.id)
+    .select('*')
+    .single();
+  if (error) {
+    // 23505: another pending invite for this address already exists
+    throw new Error(error.code === '23505' ? 'This address already has a pending invite.' : error.message);
+  }
+  return { link: issued.link, invite: data as InviteRow };
+}
+
+/**
+ * Make an outstanding link unusable. An invited account that never signed in
+ * and owns nothing yet is deleted outright (the same leftover check as
+ * /api/admin-delete-user); otherwise minting a throwaway recovery link replaces
+ * the token the old link carried and the account stays.
+ */
+export async function invalidateLink(invite: InviteRow) {
+  if (!invite.user_id) return;
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(invite.user_id);
+  if (error || !data?.user) return; // account already gone
+
+  if (invite.mode === 'invite' && !data.user.last_sign_in_at && !(await ownedLeftovers(invite.user_id)).length) {
+    const { error: delErr } = await supabaseAdmin.auth.admin.deleteUser(invite.user_id);
+    if (delErr) throw new Error(delErr.message);
+    return;
+  }
+  const { error: rotErr } = await supabaseAdmin.auth.admin.generateLink({ type: 'recovery', email: invite.email });
+  if (rotErr) throw new Error(rotErr.message);
+}
+
+/**
+ * Email the link using the invite template and stamp last_emailed_at.
+ * Returns the updated row; throws with the SMTP error if sending fails.
+ */
+export async function emailInvite(invite: InviteRow, link: string): Promise<InviteRow> {
+  const { subject, text, html } = inviteEmail({
+    link,
+    mode: invite.mode,
+    username: invite.username,
+    role: invite.role,
+    expiresAt: invite.expires_at,
+  });
+  await sendMail({ to: invite.email, subject, text, html });
+
+  const { data, error } = await supabaseAdmin
+    .from('user_invites')
+    .update({ last_emailed_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .select('*')
+    .single();
+  if (error) throw new Error(error.message);
+  return data as InviteRow;
+}
+
+/** Load one invite by id, or null. */
+export async function getInvite(id: string): Promise<InviteRow | null> {
+  const { data, error } = await supabaseAdmin.from('user_invites').select('*').eq('id', id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as InviteRow) || null;
+}
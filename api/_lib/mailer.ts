@@ -0,0 +1,42 @@
+// /api/_lib/mailer.ts
+// Outgoing mail over SMTP. Configure with env vars:
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS, usually port 465),
+//   SMTP_USER / SMTP_PASS (omit both for an open relay or a local catcher),
+//   MAIL_FROM (e.g. "Dealer Notes <no-reply@example.com>"),
+//   SUPPORT_EMAIL / SUPPORT_PHONE (shown in every email), APP_NAME.
+// For development point SMTP_HOST/SMTP_PORT at a local catcher such as Mailpit
+// (`docker run -p 1025:1025 -p 8025:8025 axllent/mailpit`, SMTP_PORT=1025) and
+// read the messages at http://localhost:8025.
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export type MailMessage = { to: string; subject: string; text: string; html: string };
+
+export const mailSettings = () => ({
+  appName: process.env.APP_NAME || 'Dealer Notes Portal',
+  from: process.env.MAIL_FROM || '',
+  supportEmail: process.env.SUPPORT_EMAIL || '',
+  supportPhone: process.env.SUPPORT_PHONE || '',
+});
+
+/** True when SMTP_HOST and MAIL_FROM are set; callers should refuse to "send" otherwise. */
+export const isMailConfigured = () => Boolean(process.env.SMTP_HOST && process.env.MAIL_FROM);
+
+let transport: Transporter | null = null;
+
+const getTransport = (): Transporter => {
+  if (transport) return transport;
+  const user = process.env.SMTP_USER;
+  transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: user ? { user, pass: process.env.SMTP_PASS || '' } : undefined,
+  });
+  return transport;
+};
+
+/** Send one message; throws with the SMTP error on failure. */
+export async function sendMail(msg: MailMessage) {
+  if (!isMailConfigured()) throw new Error('Email is not configured (set SMTP_HOST and MAIL_FROM)');
+  await getTransport().sendMail({ from: mailSettings().from, ...msg });
+}
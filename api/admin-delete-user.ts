@@ -1,35 +1,49 @@
 // /api/admin-delete-user.ts
-// Minimal server-side delete (Auth user + cascades profiles via FK)
+// Server-side delete (Auth user + cascades profiles via FK). Refuses while the
+// user still owns dealers, open tasks, upcoming stops, presets or reports.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ownedLeftovers } from './_lib/accounts.js';
+import { canManageAccount, errorMessage, requireCapability, sendError, supabaseAdmin } from './_lib/auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method Not Allowed');
+
+    // Deleting accounts is part of managing users
+    const caller = await requireCapability(req, res, 'users.manage');
+    if (!caller) return;
 
-export default async function handler(req: any, res: any) {
-    const { createClient } = await import('@supabase/supabase-js');
-  
-    if (req.method !== 'POST') {
-      return res.status(405).json({ error: 'Method Not Allowed' });
-    }
-  
     // Accept JSON { id: "<auth UUID>" }
     const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
     const id = body?.id as string;
-  
+
     if (!id || !/^[0-9a-fA-F-]{36}$/.test(id)) {
-      return res.status(400).json({ error: 'Missing or invalid user id' });
+      return sendError(res, 400, 'Missing or invalid user id');
     }
-  
-    const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL || '';
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-    if (!supabaseUrl || !serviceRoleKey) {
-      return res.status(500).json({ error: 'Supabase env vars not set' });
+    if (id === caller.id) return sendError(res, 400, 'You cannot delete your own account');
+    if (!(await canManageAccount(res, caller, { id }))) return;
+
+    // Nothing may be left pointing at the account
+    let leftover: string[];
+    try {
+      leftover = await ownedLeftovers(id);
+    } catch (e: unknown) {
+      return sendError(res, 400, errorMessage(e, 'Failed to check what this user owns'));
     }
-  
-    const admin = createClient(supabaseUrl, serviceRoleKey, {
-      auth: { autoRefreshToken: false, persistSession: false },
-    });
-  
+    if (leftover.length) {
+      return sendError(res, 409, `Transfer this user's ${leftover.join(', ').replace(/_/g, ' ')} before removing them`);
+    }
+
+    // Past route stops are only their own history
+    const { error: routesErr } = await supabaseAdmin.from('dealer_routes').delete().eq('user_id', id);
+    if (routesErr) return sendError(res, 400, routesErr.message);
+
     // Delete the Auth user (profiles row will be removed via ON DELETE CASCADE)
-    const { error } = await admin.auth.admin.deleteUser(id);
-    if (error) return res.status(400).json({ error: error.message });
-  
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(id);
+    if (error) return sendError(res, 400, error.message);
+
     return res.status(200).json({ ok: true });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
   }
-  
\ No newline at end of file
+}
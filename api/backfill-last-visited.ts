@@ -0,0 +1,23 @@
+// /api/backfill-last-visited.ts
+// One-shot rebuild of dealers.last_visited from Visit notes. The
+// dealer_notes trigger keeps it current afterwards; this only fixes history.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { errorMessage, requireAdmin, sendError, supabaseAdmin } from './_lib/auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    // 1) Admin session only
+    const caller = await requireAdmin(req, res);
+    if (!caller) return;
+
+    // 2) recompute in one statement on the server
+    const { data, error } = await supabaseAdmin.rpc('backfill_dealer_last_visited');
+    if (error) return sendError(res, 500, error.message);
+
+    return res.status(200).json({ ok: true, updated: Number(data) || 0 });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
+  }
+}
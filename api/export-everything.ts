@@ -1,45 +1,38 @@
 // /api/export-everything.ts
-import { createClient } from '@supabase/supabase-js';
+// ZIP of every table as CSV, for holders of export.all. Seeded for Manager (who
+// had it before capabilities) and Regional Manager (scoped to their coverage
+// below). Rows in the Trash are left out.
 import JSZip from 'jszip';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { errorMessage, requireCapability, sendError, supabaseAdmin } from './_lib/auth.js';
 
-const url = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL!;
-const key = process.env.SUPABASE_SERVICE_ROLE_KEY!; // service role
-const supabaseAdmin = createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+// Every column goes out as-is; these are the ones the handler reads
+type Row = { id: string; [column: string]: unknown };
+type DealerRow = Row & { state: string; region: string | null; assigned_rep_username: string | null };
+type DealerChildRow = Row & { dealer_id: string };
+type ProfileRow = Row & { username: string | null; email: string | null; role: string | null };
+type CoverageRow = Row & { user_id: string; state: string; region: string | null; valid_to: string | null };
 
-export default async function handler(req: any, res: any) {
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
 
-    // 1) authenticate caller (bearer token from front-end)
-    const auth = String(req.headers.authorization || '');
-    const token = auth.startsWith('Bearer ') ? auth.slice(7) : '';
-    if (!token) return res.status(401).json({ error: 'Missing Authorization Bearer token' });
-
-    const { data: u, error: uErr } = await supabaseAdmin.auth.getUser(token);
-    if (uErr || !u?.user?.id) return res.status(401).json({ error: 'Invalid session' });
-
-    const uid = u.user.id;
-    const { data: prof, error: pErr } = await supabaseAdmin
-      .from('profiles')
-      .select('id, role')
-      .eq('id', uid)
-      .single();
-
-    if (pErr || !prof) return res.status(403).json({ error: 'Profile not found' });
-    if (!(prof.role === 'Admin' || prof.role === 'Manager')) {
-      return res.status(403).json({ error: 'Not authorized' });
-    }
+    // 1) export.all only (the export includes every profile and note)
+    const caller = await requireCapability(req, res, 'export.all');
+    if (!caller) return;
 
     // 2) pull all rows from each table (paged)
-    async function fetchAll(table: string) {
+    async function fetchAll<T extends Row>(table: string, softDeleted = false): Promise<T[]> {
       const page = 1000;
       let from = 0;
-      let out: any[] = [];
+      let out: T[] = [];
       while (true) {
         const to = from + page - 1;
-        const { data, error } = await supabaseAdmin.from(table).select('*').range(from, to);
+        let query = supabaseAdmin.from(table).select('*');
+        if (softDeleted) query = query.is('deleted_at', null);
+        const { data, error } = await query.order('id').range(from, to);
         if (error) throw error;
-        const rows = data || [];
+        const rows = (data || []) as T[];
         out = out.concat(rows);
         if (rows.length < page) break;
         from += page;
@@ -47,20 +40,43 @@ export default async function handler(req: any, res: any) {
       return out;
     }
 
-    const [dealers, dealer_notes, dealer_tasks, profiles, rep_coverage, dealer_routes] =
+    let [dealers, dealer_notes, dealer_tasks, profiles, rep_coverage, dealer_routes] =
       await Promise.all([
-        fetchAll('dealers'),
-        fetchAll('dealer_notes'),
-        fetchAll('dealer_tasks'),
-        fetchAll('profiles'),
-        fetchAll('rep_coverage'),
-        fetchAll('dealer_routes'),
+        fetchAll<DealerRow>('dealers', true),
+        fetchAll<DealerChildRow>('dealer_notes', true),
+        fetchAll<DealerChildRow>('dealer_tasks'),
+        fetchAll<ProfileRow>('profiles'),
+        fetchAll<CoverageRow>('rep_coverage'),
+        fetchAll<DealerChildRow>('dealer_routes'),
       ]);
 
-    // 3) enrich dealers with rep email/role (by username)
-    const byUsername: Record<string, any> = {};
+    // 3) Regional Managers get their own coverage only, the same slice RLS shows
+    //    them in the app (the service role bypasses RLS, so filter here)
+    if (caller.role === 'Regional Manager') {
+      const current = rep_coverage.filter((c) => c.valid_to == null);
+      const mine = current.filter((c) => c.user_id === caller.id);
+      const overlaps = (state: string, region: string | null) =>
+        mine.some((m) => m.state === state && (m.region == null || region == null || m.region === region));
+
+      dealers = dealers.filter((d) => overlaps(d.state, d.region));
+
+      // Themselves plus everyone whose coverage overlaps theirs
+      const userIds = new Set<string>([caller.id]);
+      for (const c of current) if (overlaps(c.state, c.region)) userIds.add(c.user_id);
+      profiles = profiles.filter((p) => userIds.has(p.id));
+      rep_coverage = rep_coverage.filter((c) => userIds.has(c.user_id));
+    }
+
+    // Notes, tasks and stops follow their dealer out (Trash or coverage)
+    const dealerIds = new Set(dealers.map((d) => d.id));
+    dealer_notes = dealer_notes.filter((n) => dealerIds.has(n.dealer_id));
+    dealer_tasks = dealer_tasks.filter((t) => dealerIds.has(t.dealer_id));
+    dealer_routes = dealer_routes.filter((r) => dealerIds.has(r.dealer_id));
+
+    // 4) enrich dealers with rep email/role (by username)
+    const byUsername: Record<string, ProfileRow> = {};
     for (const p of profiles) if (p?.username) byUsername[p.username] = p;
-    const dealersExport = dealers.map((d: any) => {
+    const dealersExport = dealers.map((d) => {
       const rep = d.assigned_rep_username ? byUsername[d.assigned_rep_username] : null;
       return {
         ...d,                                  // includes d.id (Dealer ID UUID)
@@ -69,14 +85,14 @@ export default async function handler(req: any, res: any) {
       };
     });
 
-    // 4) tiny CSV helper
-    const csvEscape = (v: any) => {
+    // 5) tiny CSV helper
+    const csvEscape = (v: unknown) => {
       if (v === null || v === undefined) return '';
       let s = typeof v === 'object' ? JSON.stringify(v) : String(v);
       if (s.includes('"')) s = s.replace(/"/g, '""');
       return /[",\n]/.test(s) ? `"${s}"` : s;
     };
-    function toCSV(rows: any[], preferFirst: string[] = []) {
+    function toCSV(rows: Row[], preferFirst: string[] = []) {
       if (!rows?.length) return '';
       const keySet = new Set<string>();
       rows.forEach((r) => Object.keys(r || {}).forEach((k) => keySet.add(k)));
@@ -89,7 +105,7 @@ export default async function handler(req: any, res: any) {
       return [header, ...lines].join('\n');
     }
 
-    // 5) build the zip
+    // 6) build the zip
     const zip = new JSZip();
     zip.file(
       'dealers.csv',
@@ -104,7 +120,7 @@ export default async function handler(req: any, res: any) {
     zip.file('dealer_notes.csv',  toCSV(dealer_notes,  ['id','dealer_id','category','text','author_username','created_at']));
     zip.file('dealer_tasks.csv',  toCSV(dealer_tasks,  ['id','dealer_id','rep_username','text','created_at','completed_at']));
     zip.file('profiles.csv',      toCSV(profiles,      ['id','username','email','role','status','created_at']));
-    zip.file('rep_coverage.csv',  toCSV(rep_coverage,  ['id','user_id','state','region','created_at']));
+    zip.file('rep_coverage.csv',  toCSV(rep_coverage,  ['id','user_id','state','region','valid_from','valid_to','created_at']));
     zip.file('dealer_routes.csv', toCSV(dealer_routes, ['id','user_id','dealer_id','date','position','created_at']));
 
     const buf = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
@@ -112,7 +128,7 @@ export default async function handler(req: any, res: any) {
     res.setHeader('Content-Type', 'application/zip');
     res.setHeader('Content-Disposition', `attachment; filename="dealernotes-export_${stamp}.zip"`);
     return res.status(200).send(buf);
-  } catch (e: any) {
-    return res.status(500).json({ error: e?.message || 'Server error' });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
   }
 }
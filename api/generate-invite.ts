@@ -1,70 +1,58 @@
 // /api/generate-invite.ts
-// Works on Vercel without extra types. If you want types later, import from '@vercel/node'.
-import { createClient } from '@supabase/supabase-js';
-
-const url = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL!;
-const key = process.env.SUPABASE_SERVICE_ROLE_KEY!; // service role
-const SITE_URL = process.env.SITE_URL!;
-
-const supabaseAdmin = createClient(url, key, {
-  auth: { autoRefreshToken: false, persistSession: false },
-});
-
-export default async function handler(req: any, res: any) {
+// Body: { email, metadata: { username?, role? }, send?: boolean }. With `send`,
+// the link is also emailed to the user (see _lib/mailer.ts for SMTP settings).
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { canManageAccount, errorMessage, requireCapability, sendError } from './_lib/auth.js';
+import { emailInvite, issueLink, recordInvite } from './_lib/invites.js';
+import { isMailConfigured } from './_lib/mailer.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
-
-    const { email, metadata } = (req.body || {}) as { email?: string; metadata?: { username?: string } };
-    if (!email || !email.includes('@')) return res.status(400).json({ error: 'Valid email required' });
-
-    const username = (metadata?.username || '').trim();
-    const redirectTo = `${SITE_URL}/auth/callback?next=/reset`;
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
 
-    // Helper to normalize Supabase link responses
-    const extractLink = (data: any) =>
-      data?.properties?.action_link || data?.action_link || data?.email_otp?.action_link || undefined;
+    // Invite and recovery links sign the holder in, so only user managers may mint them
+    const caller = await requireCapability(req, res, 'users.manage');
+    if (!caller) return;
 
-    // 1) Try an INVITE link first
-    const inviteResp = await supabaseAdmin.auth.admin.generateLink({
-      type: 'invite',
-      email,
-      options: {
-        redirectTo,
-        data: username ? { username } : undefined, // carry username metadata on invite
-      },
-    });
+    const { email: rawEmail, metadata, send } = (req.body || {}) as {
+      email?: string;
+      metadata?: { username?: string; role?: string };
+      send?: boolean;
+    };
+    const email = String(rawEmail || '').trim().toLowerCase();
+    if (!email || !email.includes('@')) return sendError(res, 400, 'Valid email required');
+    if (send && !isMailConfigured()) return sendError(res, 503, 'Email is not configured on the server');
 
-    if (!inviteResp.error) {
-      const link = extractLink(inviteResp.data);
-      return res.status(200).json({ link, mode: 'invite', data: inviteResp.data });
+    const username = (metadata?.username || '').trim();
+    const role = (metadata?.role || '').trim();
+    if (!(await canManageAccount(res, caller, { email, role }))) return;
+
+    // 1) Mint the link (invite, or recovery if the account exists)
+    let issued;
+    try {
+      issued = await issueLink(email, username);
+    } catch (e: unknown) {
+      return sendError(res, 400, errorMessage(e, 'Failed to generate link'));
     }
 
-    // 2) If invite failed because user already exists, fallback to RECOVERY
-    const msg = String(inviteResp.error.message || '').toLowerCase();
-    const isAlreadyRegistered =
-      msg.includes('already been registered') ||
-      msg.includes('user already registered') ||
-      inviteResp.error.status === 422 ||
-      inviteResp.error.status === 409;
-
-    if (isAlreadyRegistered) {
-      const recoveryResp = await supabaseAdmin.auth.admin.generateLink({
-        type: 'recovery',
-        email,
-        options: { redirectTo },
-      });
-
-      if (recoveryResp.error) {
-        return res.status(400).json({ error: recoveryResp.error.message });
+    // 2) Track it so the Pending Invites list can show, resend and revoke it
+    let invite = await recordInvite(email, username, role, issued, caller);
+
+    // 3) Optionally email it. The link is valid either way, so an SMTP failure
+    //    is reported alongside it and the admin can still copy it.
+    let emailed = false;
+    let emailError: string | undefined;
+    if (send && issued.link) {
+      try {
+        invite = await emailInvite(invite, issued.link);
+        emailed = true;
+      } catch (e: unknown) {
+        emailError = errorMessage(e, 'Failed to send email');
       }
-
-      const link = extractLink(recoveryResp.data);
-      return res.status(200).json({ link, mode: 'recovery', data: recoveryResp.data });
     }
 
-    // Other errors
-    return res.status(400).json({ error: inviteResp.error.message });
-  } catch (e: any) {
-    return res.status(500).json({ error: e?.message || 'Server error' });
+    return res.status(200).json({ link: issued.link, mode: issued.mode, invite, emailed, emailError });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
   }
 }
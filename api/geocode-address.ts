@@ -0,0 +1,32 @@
+// /api/geocode-address.ts
+// Place one address that isn't a dealer (a rep's home or office for the route
+// optimizer). Body: { address1?, city?, state?, zip? }. Replies
+// { lat, lng, source } or { lat: null, lng: null } when nothing places it.
+// Same providers and capability as /api/geocode-dealers; nothing is stored.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { errorMessage, requireCapability, sendError } from './_lib/auth.js';
+import { configuredGeocoders } from './_lib/geocoders.js';
+import { geocodeWith } from '../src/geo.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    const caller = await requireCapability(req, res, 'dealer.edit');
+    if (!caller) return;
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+    const address = {
+      address1: String(body?.address1 || '').trim(),
+      city: String(body?.city || '').trim(),
+      state: String(body?.state || '').trim().toUpperCase(),
+      zip: String(body?.zip || '').trim(),
+    };
+    if (!address.address1 && !address.city && !address.zip) return sendError(res, 400, 'Enter an address');
+
+    const hit = await geocodeWith(configuredGeocoders(), address);
+    return res.status(200).json(hit ?? { lat: null, lng: null });
+  } catch (e: unknown) {
+    return sendError(res, 502, errorMessage(e, 'Geocoding failed'));
+  }
+}
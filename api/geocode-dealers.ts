@@ -0,0 +1,97 @@
+// /api/geocode-dealers.ts
+// Fill dealers.lat/lng for dealers that haven't been geocoded since their
+// address last changed. Body: { ids?: string[], retryBefore?: string }.
+// With `ids` only those dealers are considered, and ones that only have a
+// ZIP-centroid position are retried with the real provider, once: the reply
+// carries `retryBefore`, which the client sends back on follow-up calls.
+// Each call stops after a time budget and reports how many are left, so the
+// client calls again while `remaining` > 0. Providers: _lib/geocoders.ts.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { errorMessage, requireCapability, sendError, supabaseAdmin } from './_lib/auth.js';
+import { configuredGeocoders } from './_lib/geocoders.js';
+import { ZIP_CENTROID_SOURCE, geocodeWith } from '../src/geo.js';
+
+const BATCH = 100;
+const TIME_BUDGET_MS = 8000; // stay well inside the function timeout
+const MAX_IDS = 1000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    // Anyone who can edit dealers; this only ever writes the geocode columns
+    const caller = await requireCapability(req, res, 'dealer.edit');
+    if (!caller) return;
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+    const ids = Array.isArray(body?.ids) ? (body.ids as unknown[]).map(String).slice(0, MAX_IDS) : null;
+
+    const geocoders = configuredGeocoders();
+    const retryBefore = !Number.isNaN(Date.parse(body?.retryBefore)) ? String(body.retryBefore) : new Date().toISOString();
+    const retryApproximate = !!ids && geocoders[0].name !== ZIP_CENTROID_SOURCE;
+
+    // geocoded_at stays null until an attempt was made, so addresses nobody
+    // can place aren't retried on every call. An attempt also moves an
+    // approximate one's geocoded_at past retryBefore.
+    const pending = () => {
+      let q = supabaseAdmin
+        .from('dealers')
+        .select('id,address1,city,state,zip,updated_at', { count: 'exact' })
+        .is('deleted_at', null);
+      q = retryApproximate
+        ? q.or(`geocoded_at.is.null,and(geocode_source.eq.${ZIP_CENTROID_SOURCE},geocoded_at.lt.${retryBefore})`)
+        : q.is('geocoded_at', null);
+      if (ids) q = q.in('id', ids);
+      return q;
+    };
+
+    const { data: rows, error } = await pending().limit(BATCH);
+    if (error) return sendError(res, 500, error.message);
+
+    const started = Date.now();
+    let geocoded = 0;
+    let approximate = 0;
+    let unplaced = 0;
+    let providerError: string | undefined;
+
+    for (const d of rows || []) {
+      if (Date.now() - started > TIME_BUDGET_MS) break;
+      let hit = null;
+      try {
+        hit = await geocodeWith(geocoders, d);
+      } catch (e: unknown) {
+        providerError ??= errorMessage(e, 'Geocoding failed');
+        continue; // leave it for the next run
+      }
+      // Only if the address is still the one we geocoded (an edit bumps updated_at)
+      const { error: upErr } = await supabaseAdmin
+        .from('dealers')
+        .update({
+          lat: hit?.lat ?? null,
+          lng: hit?.lng ?? null,
+          geocode_source: hit?.source ?? null,
+          geocoded_at: new Date().toISOString(),
+        })
+        .eq('id', d.id)
+        .eq('updated_at', d.updated_at);
+      if (upErr) return sendError(res, 500, upErr.message);
+      if (!hit) unplaced++;
+      else if (hit.source === ZIP_CENTROID_SOURCE) approximate++;
+      else geocoded++;
+    }
+
+    const { count, error: cErr } = await pending().limit(1);
+    if (cErr) return sendError(res, 500, cErr.message);
+
+    return res.status(200).json({
+      geocoded,
+      approximate,
+      unplaced,
+      remaining: count ?? 0,
+      retryBefore,
+      ...(providerError ? { error: providerError } : {}),
+    });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
+  }
+}
@@ -0,0 +1,174 @@
+// /api/import-users.ts
+// Bulk create/update users from the User Management CSV import.
+// Body: { users: ImportUser[], invite?: 'none' | 'link' | 'email' }.
+// Rows are matched to existing profiles by email. New addresses get an auth
+// account (through an invite link when `invite` is set), then the profile and
+// current rep_coverage are written. A state listed without regions covers all
+// of its catalog regions. Each row succeeds or fails on its own; the reply
+// lists one result per row in request order. Rows take several round trips
+// each, so a call takes at most MAX_ROWS and the client sends a file in chunks
+// that each finish well inside the function timeout.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { errorMessage, requireCapability, sendError, supabaseAdmin, type Caller, type Role } from './_lib/auth.js';
+import { emailInvite, issueLink, recordInvite } from './_lib/invites.js';
+import { isMailConfigured } from './_lib/mailer.js';
+
+const ROLES: Role[] = ['Admin', 'Manager', 'Regional Manager', 'Rep', 'Viewer'];
+const MAX_ROWS = 10;
+
+type ImportUser = {
+  name: string;
+  username: string;
+  email: string;
+  role: Role;
+  phone?: string;
+  regionsByState: Record<string, string[]>;
+};
+
+type InviteOption = 'none' | 'link' | 'email';
+
+// regions_catalog: state -> its regions
+type Catalog = Map<string, string[]>;
+
+type RowResult = {
+  email: string;
+  username: string;
+  status: 'created' | 'updated' | 'error';
+  id?: string;
+  error?: string;
+  link?: string;
+  emailed?: boolean;
+};
+
+async function importOne(u: ImportUser, invite: InviteOption, caller: Caller, catalog: Catalog): Promise<RowResult> {
+  const email = String(u.email || '').trim().toLowerCase();
+  const username = String(u.username || '').trim();
+  const base = { email, username };
+  if (!email.includes('@') || !username || !String(u.name || '').trim()) {
+    return { ...base, status: 'error', error: 'Name, username and a valid email are required' };
+  }
+  if (!ROLES.includes(u.role)) return { ...base, status: 'error', error: `Unknown role "${u.role}"` };
+  // users.manage alone doesn't let someone mint Admins
+  if (u.role === 'Admin' && caller.role !== 'Admin') {
+    return { ...base, status: 'error', error: 'Only an Admin can import Admin accounts' };
+  }
+
+  // Checked before anything is written, so a bad row leaves no account behind
+  const coverage: { state: string; region: string }[] = [];
+  for (const [state, regions] of Object.entries(u.regionsByState || {})) {
+    const list = regions?.length ? regions : catalog.get(state) || [];
+    if (!list.length) return { ...base, status: 'error', error: `No regions known for ${state}` };
+    for (const region of list) coverage.push({ state, region });
+  }
+
+  const { data: existing, error: findErr } = await supabaseAdmin
+    .from('profiles')
+    .select('id, role')
+    .eq('email', email)
+    .maybeSingle();
+  if (findErr) return { ...base, status: 'error', error: findErr.message };
+  // ...nor rewrite (or demote) one that already exists
+  if (existing?.role === 'Admin' && caller.role !== 'Admin') {
+    return { ...base, status: 'error', error: 'Only an Admin can update Admin accounts' };
+  }
+
+  const { data: clash, error: clashErr } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('username', username)
+    .maybeSingle();
+  if (clashErr) return { ...base, status: 'error', error: clashErr.message };
+  if (clash && clash.id !== existing?.id) return { ...base, status: 'error', error: `Username "${username}" is taken` };
+
+  // 1) Find or create the auth account
+  let id: string | null = existing?.id ?? null;
+  let link: string | undefined;
+  let emailed = false;
+  let emailError: string | undefined;
+  if (!id && invite !== 'none') {
+    try {
+      const issued = await issueLink(email, username);
+      id = issued.userId;
+      link = issued.link;
+      const row = await recordInvite(email, username, u.role, issued, caller);
+      if (invite === 'email' && link) {
+        try {
+          await emailInvite(row, link);
+          emailed = true;
+        } catch (e: unknown) {
+          emailError = errorMessage(e, 'Failed to send email');
+        }
+      }
+    } catch (e: unknown) {
+      return { ...base, status: 'error', error: errorMessage(e, 'Failed to create invite') };
+    }
+  } else if (!id) {
+    const { data, error } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      email_confirm: false,
+      user_metadata: { username },
+    });
+    if (error) return { ...base, status: 'error', error: error.message };
+    id = data.user?.id ?? null;
+  }
+  if (!id) return { ...base, status: 'error', error: 'Account was not created' };
+
+  // 2) Profile
+  const { error: profErr } = await supabaseAdmin.from('profiles').upsert(
+    {
+      id,
+      username,
+      email,
+      role: u.role,
+      name: String(u.name).trim(),
+      phone: String(u.phone || '').trim() || null,
+      ...(existing ? {} : { status: 'Active' }),
+    },
+    { onConflict: 'id' }
+  );
+  if (profErr) return { ...base, id, status: 'error', error: profErr.message, link };
+
+  // 3) Coverage replaces whatever they had; the old rows are closed, not deleted
+  const { error: covErr } = await supabaseAdmin.rpc('set_rep_coverage', { p_user_id: id, p_rows: coverage });
+  if (covErr) return { ...base, id, status: 'error', error: covErr.message, link };
+
+  return {
+    ...base,
+    id,
+    status: existing ? 'updated' : 'created',
+    link,
+    emailed,
+    ...(emailError ? { error: `Saved, but the email failed: ${emailError}` } : {}),
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    const caller = await requireCapability(req, res, 'users.manage');
+    if (!caller) return;
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+    const users = Array.isArray(body?.users) ? (body.users as ImportUser[]) : [];
+    const invite: InviteOption = body?.invite === 'link' || body?.invite === 'email' ? body.invite : 'none';
+    if (!users.length) return sendError(res, 400, 'No users to import');
+    if (users.length > MAX_ROWS) return sendError(res, 400, `Import at most ${MAX_ROWS} users at a time`);
+    if (invite === 'email' && !isMailConfigured()) return sendError(res, 503, 'Email is not configured on the server');
+
+    const { data: cat, error: catErr } = await supabaseAdmin.from('regions_catalog').select('state, region');
+    if (catErr) return sendError(res, 500, catErr.message);
+    const catalog: Catalog = new Map();
+    for (const { state, region } of (cat || []) as { state: string; region: string }[]) {
+      catalog.set(state, [...(catalog.get(state) || []), region]);
+    }
+
+    // One at a time: rows may share an address with an earlier row's invite
+    const results: RowResult[] = [];
+    for (const u of users) results.push(await importOne(u, invite, caller, catalog));
+
+    return res.status(200).json({ results });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
+  }
+}
@@ -0,0 +1,50 @@
+// /api/resend-invite.ts
+// Mint a fresh link for a pending or expired invite and restart its expiry.
+// Body: { id, send?: boolean }; with `send` the new link is emailed too.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { canManageAccount, errorMessage, requireCapability, sendError } from './_lib/auth.js';
+import { emailInvite, getInvite, resendInvite } from './_lib/invites.js';
+import { isMailConfigured } from './_lib/mailer.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    const caller = await requireCapability(req, res, 'users.manage');
+    if (!caller) return;
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+    const id = String(body?.id || '');
+    if (!id) return sendError(res, 400, 'Missing invite id');
+    const send = Boolean(body?.send);
+    if (send && !isMailConfigured()) return sendError(res, 503, 'Email is not configured on the server');
+
+    const invite = await getInvite(id);
+    if (!invite) return sendError(res, 404, 'Invite not found');
+    if (!(await canManageAccount(res, caller, { email: invite.email, role: invite.role }))) return;
+    if (invite.status === 'accepted') return sendError(res, 409, 'This invite was already accepted');
+    if (invite.status === 'revoked') return sendError(res, 409, 'This invite was revoked; send a new one instead');
+
+    let link: string | undefined;
+    let updated;
+    try {
+      ({ link, invite: updated } = await resendInvite(invite));
+    } catch (e: unknown) {
+      return sendError(res, 409, errorMessage(e, 'Failed to resend invite'));
+    }
+
+    let emailed = false;
+    let emailError: string | undefined;
+    if (send && link) {
+      try {
+        updated = await emailInvite(updated, link);
+        emailed = true;
+      } catch (e: unknown) {
+        emailError = errorMessage(e, 'Failed to send email');
+      }
+    }
+    return res.status(200).json({ link, invite: updated, emailed, emailError });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
+  }
+}
@@ -0,0 +1,39 @@
+// /api/revoke-invite.ts
+// Cancel a pending invite and make its link unusable.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { canManageAccount, errorMessage, requireCapability, sendError, supabaseAdmin } from './_lib/auth.js';
+import { getInvite, invalidateLink } from './_lib/invites.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+
+    const caller = await requireCapability(req, res, 'users.manage');
+    if (!caller) return;
+
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : (req.body || {});
+    const id = String(body?.id || '');
+    if (!id) return sendError(res, 400, 'Missing invite id');
+
+    const invite = await getInvite(id);
+    if (!invite) return sendError(res, 404, 'Invite not found');
+    if (!(await canManageAccount(res, caller, { email: invite.email, role: invite.role }))) return;
+    if (invite.status !== 'pending') return sendError(res, 409, `This invite is already ${invite.status}`);
+
+    await invalidateLink(invite);
+
+    const { data, error } = await supabaseAdmin
+      .from('user_invites')
+      .update({ status: 'revoked', revoked_at: new Date().toISOString(), revoked_by_username: caller.username || null })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+    if (error) return sendError(res, 500, error.message);
+    if (!data) return sendError(res, 409, 'This invite changed while revoking; refresh and try again');
+
+    return res.status(200).json({ ok: true, invite: data });
+  } catch (e: unknown) {
+    return sendError(res, 500, errorMessage(e, 'Server error'));
+  }
+}
@@ -5,8 +5,87 @@
     invite/password storage scaffolding, and login enhancements.)
 =========================================================================== */
 import { supabase } from './supabaseClient';
+import { apiPost } from './apiClient';
+import { countQueuedNotes, enqueueNote, flushNoteOutbox, listQueuedNotes, onOutboxChange, removeQueuedNote } from './noteOutbox';
+import type { OutboxEntry } from './noteOutbox';
+import type {
+  Contact,
+  Dealer,
+  DealerAuditEntry,
+  DealerStatus,
+  ImpersonationSession,
+  Invite,
+  OffboardResult,
+  OffboardSummary,
+  InviteStatus,
+  DealerType,
+  Note,
+  NoteCategory,
+  Role,
+  RouteByDate,
+  RoutePreset,
+  RouteStop,
+  Task,
+  Trashed,
+  User,
+  UserStatus,
+} from './types';
+import {
+  CAPABILITIES,
+  DEFAULT_CAPABILITIES,
+  LOCKED_ROLES,
+  ROLES,
+  TERRITORY_ROLES,
+  coversDealer,
+  hasCapability,
+  sharesTerritory,
+  teamUsernames,
+} from './permissions';
+import type { Can, Capability, CapabilityMatrix } from './permissions';
+import {
+  ROAD_FACTOR,
+  ZIP_CENTROID_SOURCE,
+  TILE_SIZE,
+  boundsCenter,
+  clusterByGrid,
+  fitZoom,
+  optimizeRouteOrder,
+  project,
+  routeMiles,
+  unproject,
+  zipCentroid,
+} from './geo';
+import type { GeocodeAddress, LatLng, RouteEnds } from './geo';
+import { DEALER_EDIT_FIELDS, dealerEditChanges, dealerFieldContested, dealerFieldValue } from './dealerMerge';
+import type { DealerEditField } from './dealerMerge';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  auditRepo,
+  capabilitiesRepo,
+  coverageAsOf,
+  coverageByUserId,
+  coverageRepo,
+  dealersRepo,
+  impersonationRepo,
+  invitesRepo,
+  offboardRegionKey,
+  offboardRepo,
+  noteFromRow,
+  noteToRow,
+  notesRepo,
+  presetsRepo,
+  profileFromRow,
+  profilesRepo,
+  routesRepo,
+  settingsRepo,
+  taskFromRow,
+  tasksRepo,
+  dealerFromRow,
+} from './repository';
+import type { CoverageHistoryRow, DealerRow, NoteRow, PlannedStop, TaskRow } from './repository';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import * as React from "react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 // ---- Polyfill & types for String.replaceAll (to support older TS libs) ----
 declare global {
@@ -48,75 +127,7 @@ if (!(String.prototype as any).replaceAll) {
  */
 
  /* ----------------------------- Types & Models ----------------------------- */
-type Role = "Admin" | "Manager" | "Rep";
-type UserStatus = "Active" | "Inactive";
-
-type User = {
-  id: string;
-  name: string;
-  username: string;
-  email?: string;
-  role: Role;
-  states: string[];
-  regionsByState: Record<string, string[]>;
-  phone?: string; // ← NEW
-  status?: UserStatus; // ← NEW (login gating)
-  reportUrl?: string; // ← NEW (external report dashboard for Reps)
-};
-
-type Contact = { name: string; phone: string };
-
-type DealerStatus = "Active" | "Pending" | "Prospect" | "Inactive" | "Black Listed";
-type DealerType = "Franchise" | "Independent";
-
-type Dealer = {
-  id: string;
-  name: string;
-  state: string;
-  region: string;
-  type: DealerType;
-  status: DealerStatus;
-  address1?: string;
-  address2?: string;
-  city?: string;
-  zip?: string;
-  contacts: Contact[];
-  assignedRepUsername?: string; // override
-  lastVisited?: string; // YYYY-MM-DD
-  sendingDeals?: boolean;
-  noDealReasons?: {
-    funding?: boolean;
-    agreement?: boolean;
-    feesRates?: boolean;
-    programDiff?: boolean;
-    eContracting?: boolean;
-    notSigned?: boolean;
-    other?: string;
-  };
-};
-/* ----------------- Note type (extended for optimistic UI) ----------------- */
-type NoteCategory = "Visit" | "Problem" | "Other" | "Manager";
-type Note = {
-  id: string;                 // can be temp like "temp_..."
-  dealerId: string;
-  authorUsername: string;
-  tsISO: string;
-  category: NoteCategory;
-  text: string;
-  pending?: boolean;          // true while saving
-  failed?: boolean;           // true if last save failed
-};
-
-type Task = {
-  id: string;
-  dealerId: string;
-  repUsername: string;
-  text: string; // dealer name for quick glance
-  createdAtISO: string;
-  completedAtISO?: string; // ← NEW (for “Complete Task”)
-};
-
-type RouteKey = "login" | "dealer-search" | "dealer-notes" | "reporting" | "user-management" | "rep-route" | "reports" | "reset";
+type RouteKey = "login" | "dealer-search" | "dealer-notes" | "reporting" | "user-management" | "trash" | "rep-route" | "reports" | "reset";
 /* ------------------------------- Persistence ------------------------------ */
 const LS_USERS = "demo_users";
 const LS_DEALERS = "demo_dealers";
@@ -126,13 +137,14 @@ const LS_NOTES = "demo_notes";
 const LS_LAST_SELECTED_DEALER = "demo_last_selected_dealer";
 const LS_REP_ROUTE = "demo_rep_route"; // per-user routes (local preview)
 const LS_DEALER_FILTERS = "demo_dealer_filters"; // persist search filters
-// NEW: simple auth-related storage (demo-level)
-const LS_INVITES = "demo_invites";     // token -> { userId, createdAtISO }
-const LS_PASSWORDS = "demo_passwords"; // username -> password (demo only)
+const LS_ROUTE_PLACES = "demo_route_places"; // per-user home/office for the route optimizer
+const LS_ALL_TEAMS = "demo_all_teams"; // Admin "All teams" toggle
+// Older builds kept invites and plaintext passwords here; cleared once on load
+const LS_LEGACY_AUTH_KEYS = ["demo_invites", "demo_passwords", "demo_passwords_disabled"];
+const LS_LEGACY_AUTH_CLEARED = "demo_legacy_auth_cleared";
 
 type RegionsCatalog = Record<string, string[]>;
-type InviteMap = Record<string, { userId: string; createdAtISO: string }>;
-type PasswordMap = Record<string, string>;
+type NoDealReasons = NonNullable<Dealer["noDealReasons"]>;
 
 const loadLS = <T,>(key: string, fallback: T): T => {
   try {
@@ -235,11 +247,21 @@ function seedIfNeeded() {
 
   if (loadLS<Task[]>(LS_TASKS, []).length === 0) saveLS(LS_TASKS, []);
   if (loadLS<Note[]>(LS_NOTES, []).length === 0) saveLS(LS_NOTES, []);
-  if (Object.keys(loadLS<InviteMap>(LS_INVITES, {})).length === 0) saveLS(LS_INVITES, {});     // NEW
-  if (Object.keys(loadLS<PasswordMap>(LS_PASSWORDS, {})).length === 0) saveLS(LS_PASSWORDS, {}); // NEW
 }
 seedIfNeeded();
 
+// One-time migration: sign-in is Supabase-only, so drop the legacy password stores
+function clearLegacyAuthStorage() {
+  try {
+    if (localStorage.getItem(LS_LEGACY_AUTH_CLEARED)) return;
+    for (const key of LS_LEGACY_AUTH_KEYS) localStorage.removeItem(key);
+    localStorage.setItem(LS_LEGACY_AUTH_CLEARED, new Date().toISOString());
+  } catch {
+    // storage unavailable (private mode); nothing to clear
+  }
+}
+clearLegacyAuthStorage();
+
 /* --------------------------------- Toasts --------------------------------- */
 type ToastKind = "success" | "error" | "info";
 
@@ -253,34 +275,47 @@ type Toast = {
   onSecondary?: () => void;
 };
 
+/** The message of a caught error (or Supabase error object), else `fallback`. */
+const errorMessage = (e: unknown, fallback: string): string => {
+  const message = e instanceof Error ? e.message : (e as { message?: unknown } | null | undefined)?.message;
+  return typeof message === "string" && message ? message : fallback;
+};
+
 const useToasts = () => {
   const [toasts, setToasts] = useState<Toast[]>([]);
   const timers = useRef<Record<string, number>>({});
 
   const uid = () => Math.random().toString(36).slice(2);
 
-  const showToast = (message: string, kind: ToastKind = "success") => {
-    const id = uid();
-    setToasts((p) => [{ id, kind, message }, ...p]);
-    const timeout = window.setTimeout(() => dismiss(id), 3500);
-    timers.current[id] = timeout as unknown as number;
-  };
-
-  const showActionToast = (t: Omit<Toast, "id">) => {
-    const id = uid();
-    setToasts((p) => [{ id, ...t }, ...p]);
-    const timeout = window.setTimeout(() => dismiss(id), 8000);
-    timers.current[id] = timeout as unknown as number;
-    return id;
-  };
-
-  const dismiss = (id: string) => {
+  // Stable across renders, so effects can list them as dependencies
+  const dismiss = useCallback((id: string) => {
     setToasts((p) => p.filter((t) => t.id !== id));
     if (timers.current[id]) {
       clearTimeout(timers.current[id]);
       delete timers.current[id];
     }
-  };
+  }, []);
+
+  const showToast = useCallback(
+    (message: string, kind: ToastKind = "success") => {
+      const id = uid();
+      setToasts((p) => [{ id, kind, message }, ...p]);
+      const timeout = window.setTimeout(() => dismiss(id), 3500);
+      timers.current[id] = timeout as unknown as number;
+    },
+    [dismiss]
+  );
+
+  const showActionToast = useCallback(
+    (t: Omit<Toast, "id">) => {
+      const id = uid();
+      setToasts((p) => [{ id, ...t }, ...p]);
+      const timeout = window.setTimeout(() => dismiss(id), 8000);
+      timers.current[id] = timeout as unknown as number;
+      return id;
+    },
+    [dismiss]
+  );
 
   return { toasts, showToast, showActionToast, dismiss };
 };
@@ -320,6 +355,19 @@ const ToastHost: React.FC<{ toasts: Toast[]; dismiss: (id: string) => void }> =
 /* ------------------------------- Auth / App ------------------------------- */
 type Session = { username: string; role: Role } | null;
 
+// Whose activity the team-scoped views show (see teamUsernames; null = everyone).
+// setAllTeams is only set for Admins who have a team of their own to widen from.
+type TeamView = { members: Set<string> | null; allTeams: boolean; setAllTeams: ((v: boolean) => void) | null };
+
+const AllTeamsToggle: React.FC<{ team: TeamView }> = ({ team }) =>
+  team.setAllTeams ? (
+    <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+      <input type="checkbox" checked={team.allTeams} onChange={(e) => team.setAllTeams?.(e.target.checked)} />
+      All teams
+    </label>
+  ) : null;
+
+
 const useData = () => {
   const [users, setUsers] = useState<User[]>(() => loadLS<User[]>(LS_USERS, []));
   const [dealers, setDealers] = useState<Dealer[]>(() => loadLS<Dealer[]>(LS_DEALERS, []));
@@ -357,8 +405,8 @@ const brand = {
 };
 
 /* ------------------------------- UI Shell --------------------------------- */
-// Enhanced login: supports demo creds OR user passwords saved via invite/reset.
-// Also enforces user.status !== "Inactive" for LS-password users.
+// Supabase-only login. Inactive users are banned in Supabase auth, so sign-in
+// fails for them on the server; the profile status check below is a backstop.
 const LoginView: React.FC<{
   onLogin: (s: Session) => void;
   showToast: (m: string, k?: ToastKind) => void;
@@ -376,86 +424,55 @@ const LoginView: React.FC<{
       return;
     }
   
-    // In production, supabase.auth.signInWithPassword exists.
-    // In StackBlitz (stub client), it may not exist; we'll fall back to the legacy local login below.
-    const canSupabase: boolean =
-      typeof (supabase as any)?.auth?.signInWithPassword === "function";
-  
-    if (canSupabase) {
-      try {
-        // 1) Real Supabase login
-        const { data, error } = await supabase.auth.signInWithPassword({ email, password });
-        if (error) throw error;
-  
-        const user = data.user;
-        const userId = user?.id as string;
-  
-        // 2) Read the user's profile (username/role/status) from Supabase
-        let chosenUsername = (user?.user_metadata?.username as string) || email.split("@")[0];
-        let role: Role = "Rep";
-        let status: UserStatus = "Active";
-  
-        try {
-          const { data: prof } = await supabase
-            .from("profiles")
-            .select("username, role, status")
-            .eq("id", userId)
-            .maybeSingle();
-  
-          if (prof) {
-            chosenUsername = (prof.username as string) || chosenUsername;
-            role = (prof.role as Role) || role;
-            status = (prof.status as UserStatus) || status;
-          } else {
-            // 3) If no row yet, create it (RLS policy lets users insert their own row)
-            await supabase.from("profiles").upsert(
-              { id: userId, email, username: chosenUsername, role, status },
-              { onConflict: "id" }
-            );
-          }
-        } catch {
-          // Table might not exist yet or RLS blocked — continue with defaults
-        }
-  
-        // 4) Block inactive users
-        if (status === "Inactive") {
+    try {
+      // 1) Real Supabase login
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        // A deactivated user is banned in Supabase auth
+        if (/banned/i.test(error.message || "")) {
           showToast("Your account is inactive. Contact an administrator.", "error");
-          await supabase.auth.signOut();
-          return;
+        } else {
+          showToast("Invalid credentials.", "error");
         }
-  
-        // 5) Success — enter app with role from profiles (or default)
-        onLogin({ username: chosenUsername, role });
-        showToast(`Welcome, ${chosenUsername}!`, "success");
-        return; // end after successful Supabase path
-      } catch (err: any) {
-        // If Supabase rejects, fall through to local legacy login so nobody is blocked
+        return;
       }
-    }
-  
-    // === Legacy local fallback (StackBlitz preview / old demo accounts) ===
-    try {
-      const users = loadLS<User[]>(LS_USERS, []);
-      const pwMap = loadLS<PasswordMap>(LS_PASSWORDS, {});
-      const u =
-        users.find(
-          (x) =>
-            (x.email || "").toLowerCase() === email ||
-            (x.username || "").toLowerCase() === email ||
-            (x.username || "").toLowerCase() === email.split("@")[0]
-        ) || null;
-  
-      if (!u) return showToast("Invalid credentials.", "error");
-      if ((u.status ?? "Active") === "Inactive") {
-        return showToast("Your account is inactive. Please contact an administrator.", "error");
+
+      const user = data.user;
+      const userId = user?.id as string;
+
+      // 2) Read the user's profile (username/role/status) from Supabase
+      let chosenUsername = (user?.user_metadata?.username as string) || email.split("@")[0];
+      let role: Role = "Rep";
+      let status: UserStatus = "Active";
+
+      try {
+        const { data: prof } = await profilesRepo.get(userId);
+
+        if (prof) {
+          chosenUsername = (prof.username as string) || chosenUsername;
+          // A role this build doesn't know gets the least access, not the default
+          role = prof.role ? (ROLES.includes(prof.role as Role) ? (prof.role as Role) : "Viewer") : role;
+          status = (prof.status as UserStatus) || status;
+        } else {
+          // 3) If no row yet, create it (RLS policy lets users insert their own row)
+          await profilesRepo.upsert({ id: userId, email, username: chosenUsername, role, status });
+        }
+      } catch {
+        // Table might not exist yet or RLS blocked — continue with defaults
       }
-      const storedPw = pwMap[u.username];
-      if (!storedPw || storedPw !== password) return showToast("Invalid credentials.", "error");
-  
-      onLogin({ username: u.username, role: u.role });
-      showToast(`Welcome, ${u.username}!`, "success");
-    } catch {
-      showToast("Invalid credentials.", "error");
+
+      // 4) Block inactive users
+      if (status === "Inactive") {
+        showToast("Your account is inactive. Contact an administrator.", "error");
+        await supabase.auth.signOut();
+        return;
+      }
+
+      // 5) Success — enter app with role from profiles (or default)
+      onLogin({ username: chosenUsername, role });
+      showToast(`Welcome, ${chosenUsername}!`, "success");
+    } catch (err) {
+      showToast(errorMessage(err, "Sign-in failed. Check your connection and try again."), "error");
     }
   };  
 
@@ -528,10 +545,13 @@ const TopBar: React.FC<{
   route: RouteKey;
   setRoute: (r: RouteKey) => void;
   onLogout: () => void;
-  can: { reporting: boolean; userMgmt: boolean };
+  can: Can;
   tasksForUser: Task[];
   onClickTask: (t: Task) => void;
-}> = ({ session, route, setRoute, onLogout, can, tasksForUser, onClickTask }) => {
+  queuedNoteCount: number;
+  rejectedNoteCount?: number;
+  onSyncNotes: () => void;
+}> = ({ session, route, setRoute, onLogout, can, tasksForUser, onClickTask, queuedNoteCount, rejectedNoteCount = 0, onSyncNotes }) => {
   return (
     <header className="w-full bg-white border-b sticky top-0 z-40">
       <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
@@ -555,17 +575,39 @@ const TopBar: React.FC<{
     onClick={() => setRoute("reports")}
   />
 )}
-              {(session?.role === "Admin" || session?.role === "Manager") && (
+              {can("reporting.view") && (
   <Tab label="Reporting" active={route === "reporting"} onClick={() => setRoute("reporting")} />
 )}
-             {session?.role === "Admin" && (
+             {can("users.manage") && (
   <Tab label="User Management" active={route === "user-management"} onClick={() => setRoute("user-management")} />
+)}
+             {can("trash.manage") && (
+  <Tab label="Trash" active={route === "trash"} onClick={() => setRoute("trash")} />
 )}
             </nav>
           )}
         </div>
         {session ? (
           <div className="flex items-center gap-2">
+            {/* Notes saved offline that haven't reached Supabase yet */}
+            {queuedNoteCount > 0 && (
+              <button
+                onClick={onSyncNotes}
+                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-amber-100 text-amber-800 rounded-full hover:bg-amber-200"
+                title="Try to sync now"
+              >
+                {queuedNoteCount} note{queuedNoteCount === 1 ? "" : "s"} waiting to sync
+              </button>
+            )}
+            {/* Refused by the server; they stay on the dealer's page until deleted */}
+            {rejectedNoteCount > 0 && (
+              <span
+                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full"
+                title="The server refused these notes. Open the dealer to copy or delete them."
+              >
+                {rejectedNoteCount} note{rejectedNoteCount === 1 ? "" : "s"} couldn't sync
+              </span>
+            )}
             {/* Show ONLY incomplete tasks as chips */}
             {tasksForUser
               .filter((t) => !t.completedAtISO)
@@ -610,11 +652,14 @@ const TopBar: React.FC<{
     onClick={() => setRoute("reports")}
   />
 )}
-           {(session?.role === "Admin" || session?.role === "Manager") && (
+           {can("reporting.view") && (
   <MobileTab label="Reporting" active={route === "reporting"} onClick={() => setRoute("reporting")} />
 )}
-           {session?.role === "Admin" && (
+           {can("users.manage") && (
   <MobileTab label="Users" active={route === "user-management"} onClick={() => setRoute("user-management")} />
+)}
+           {can("trash.manage") && (
+  <MobileTab label="Trash" active={route === "trash"} onClick={() => setRoute("trash")} />
 )}
             <button className="ml-auto px-3 py-2 text-sm text-blue-600" onClick={onLogout}>
               Log Off
@@ -695,6 +740,325 @@ const statusBadge = (s: DealerStatus) => {
   }
 };
 
+// Map marker fill per status (same hues as statusBadge)
+const STATUS_MARKER_COLORS: Record<DealerStatus, string> = {
+  Active: "#16a34a",
+  Pending: "#2563eb",
+  Prospect: "#ca8a04",
+  Inactive: "#64748b",
+  "Black Listed": "#dc2626",
+};
+
+// Ask the server to geocode dealers (all pending ones when `ids` is omitted).
+// Best effort: until it runs, the map places them by ZIP.
+const requestGeocoding = (ids?: string[]) => {
+  apiPost("/api/geocode-dealers", ids ? { ids } : {}).catch(() => {});
+};
+
+/** Does a dealer patch move the dealer (so its position must be redone)? */
+const movesDealer = (patch: Partial<Dealer>) => (["address1", "city", "state", "zip"] as const).some((k) => k in patch);
+
+// Realtime sends the whole row, Trash columns included
+type LiveRow<R> = R & { deleted_at?: string | null };
+
+/**
+ * `dealers` in App is a cache of the rows fetched so far, not the whole book.
+ * Fresh rows replace cached copies; new ones are added.
+ */
+const mergeDealers = (cached: Dealer[], fresh: Dealer[]): Dealer[] => {
+  if (!fresh.length) return cached;
+  const byId = new Map(fresh.map((d) => [d.id, d]));
+  const kept = cached.map((d) => byId.get(d.id) ?? d);
+  const known = new Set(cached.map((d) => d.id));
+  return [...kept, ...fresh.filter((d) => !known.has(d.id))];
+};
+
+// Google Maps search for a dealer's address (directions on phones)
+const mapUrl = (d: Dealer) => {
+  const q = [d.name, d.address1, d.address2, d.city, d.state, d.zip]
+    .filter(Boolean)
+    .join(", ");
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(q)}`;
+};
+
+// ========================= Dealer map (Dealer Search) =========================
+type MapPin = { dealer: Dealer; point: LatLng; approximate: boolean };
+
+/** Where to draw a dealer: its geocode, else its ZIP (or state) centroid. */
+const dealerMapPin = (d: Dealer): MapPin | null => {
+  if (d.lat != null && d.lng != null) {
+    return { dealer: d, point: { lat: d.lat, lng: d.lng }, approximate: d.geocodeSource === ZIP_CENTROID_SOURCE };
+  }
+  const c = zipCentroid(d.zip, d.state);
+  return c ? { dealer: d, point: c, approximate: true } : null;
+};
+
+const MAP_MIN_ZOOM = 2;
+const MAP_MAX_ZOOM = 18;
+const MAP_CLUSTER_MAX_ZOOM = 11; // pins are grouped at this zoom and below
+const MAP_CLUSTER_CELL_PX = 60;
+
+const DealerMap: React.FC<{ dealers: Dealer[]; onOpen: (dealerId: string) => void }> = ({ dealers, onOpen }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ w: number; h: number } | null>(null);
+  const [view, setView] = useState<{ center: LatLng; zoom: number } | null>(null);
+  const [selected, setSelected] = useState<MapPin | null>(null);
+  const drag = useRef<{ px: number; py: number; cx: number; cy: number } | null>(null);
+
+  const pins = useMemo(() => dealers.map(dealerMapPin).filter((p): p is MapPin => !!p), [dealers]);
+  const pinsKey = pins.map((p) => p.dealer.id).join(",");
+
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const measure = () => setSize({ w: el.clientWidth, h: el.clientHeight });
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // Fit the results whenever the set of dealers changes (not on every realtime edit or resize)
+  const fittedKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (!size || fittedKey.current === pinsKey) return;
+    fittedKey.current = pinsKey;
+    setSelected(null);
+    if (!pins.length) return setView(null);
+    const points = pins.map((p) => p.point);
+    setView({ center: boundsCenter(points), zoom: fitZoom(points, size.w, size.h) });
+  }, [pins, pinsKey, size]);
+
+  // Zoom by `dz` keeping the pixel at (mx, my) (default: the middle) in place
+  const zoomBy = (dz: number, mx?: number, my?: number) => {
+    if (!size) return;
+    setView((v) => {
+      if (!v) return v;
+      const zoom = Math.max(MAP_MIN_ZOOM, Math.min(MAP_MAX_ZOOM, v.zoom + dz));
+      if (zoom === v.zoom) return v;
+      const ox = (mx ?? size.w / 2) - size.w / 2;
+      const oy = (my ?? size.h / 2) - size.h / 2;
+      const c = project(v.center, v.zoom);
+      const scale = 2 ** (zoom - v.zoom);
+      return { zoom, center: unproject((c.x + ox) * scale - ox, (c.y + oy) * scale - oy, zoom) };
+    });
+  };
+  const zoomByRef = useRef(zoomBy);
+  zoomByRef.current = zoomBy;
+
+  // React's wheel handler is passive, so the page would scroll too
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const r = el.getBoundingClientRect();
+      zoomByRef.current(e.deltaY < 0 ? 1 : -1, e.clientX - r.left, e.clientY - r.top);
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view) return;
+    const c = project(view.center, view.zoom);
+    drag.current = { px: e.clientX, py: e.clientY, cx: c.x, cy: c.y };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d) return;
+    setView((v) => (v ? { ...v, center: unproject(d.cx - (e.clientX - d.px), d.cy - (e.clientY - d.py), v.zoom) } : v));
+  };
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<DealerStatus, number>> = {};
+    for (const p of pins) counts[p.dealer.status] = (counts[p.dealer.status] || 0) + 1;
+    return counts;
+  }, [pins]);
+  const approximateCount = pins.filter((p) => p.approximate).length;
+  const unplacedCount = dealers.length - pins.length;
+
+  const tiles: React.ReactNode[] = [];
+  let markers: React.ReactNode[] = [];
+  if (view && size) {
+    const { zoom } = view;
+    const c = project(view.center, zoom);
+    const left = c.x - size.w / 2;
+    const top = c.y - size.h / 2;
+    const n = 2 ** zoom;
+
+    for (let ty = Math.max(0, Math.floor(top / TILE_SIZE)); ty <= Math.min(n - 1, Math.floor((top + size.h) / TILE_SIZE)); ty++) {
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + size.w) / TILE_SIZE); tx++) {
+        const wx = ((tx % n) + n) % n;
+        tiles.push(
+          <img
+            key={`${zoom}/${tx}/${ty}`}
+            src={`https://tile.openstreetmap.org/${zoom}/${wx}/${ty}.png`}
+            alt=""
+            draggable={false}
+            className="absolute select-none"
+            style={{ left: tx * TILE_SIZE - left, top: ty * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        );
+      }
+    }
+
+    const projected = pins.map((p) => ({ ...project(p.point, zoom), item: p }));
+    const clusters =
+      zoom <= MAP_CLUSTER_MAX_ZOOM
+        ? clusterByGrid(projected, MAP_CLUSTER_CELL_PX)
+        : projected.map(({ x, y, item }) => ({ x, y, items: [item] }));
+    const visible = clusters.filter(
+      (cl) => cl.x >= left - 40 && cl.x <= left + size.w + 40 && cl.y >= top - 40 && cl.y <= top + size.h + 40
+    );
+
+    markers = visible.map((cl) => {
+      const x = cl.x - left;
+      const y = cl.y - top;
+      if (cl.items.length === 1) {
+        const pin = cl.items[0];
+        const color = STATUS_MARKER_COLORS[pin.dealer.status];
+        return (
+          <button
+            key={pin.dealer.id}
+            type="button"
+            title={`${pin.dealer.name} (${pin.dealer.status})${pin.approximate ? " — approximate location" : ""}`}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => setSelected(pin)}
+            className="absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full shadow"
+            style={{
+              left: x,
+              top: y,
+              background: pin.approximate ? "#ffffff" : color,
+              border: `3px ${pin.approximate ? "dashed" : "solid"} ${pin.approximate ? color : "#ffffff"}`,
+            }}
+          />
+        );
+      }
+      // Cluster: a ring split by status, with the count in the middle
+      const byStatus = new Map<DealerStatus, number>();
+      for (const p of cl.items) byStatus.set(p.dealer.status, (byStatus.get(p.dealer.status) || 0) + 1);
+      let acc = 0;
+      const stops = Array.from(byStatus.entries()).map(([st, count]) => {
+        const from = (acc / cl.items.length) * 100;
+        acc += count;
+        return `${STATUS_MARKER_COLORS[st]} ${from}% ${(acc / cl.items.length) * 100}%`;
+      });
+      const d = Math.min(56, 28 + Math.log2(cl.items.length) * 5);
+      return (
+        <button
+          key={`c-${cl.items[0].dealer.id}`}
+          type="button"
+          title={Array.from(byStatus.entries()).map(([st, count]) => `${st}: ${count}`).join("\n")}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() =>
+            setView((v) => (v ? { zoom: Math.min(MAP_MAX_ZOOM, v.zoom + 2), center: unproject(cl.x, cl.y, v.zoom) } : v))
+          }
+          className="absolute -translate-x-1/2 -translate-y-1/2 rounded-full shadow flex items-center justify-center"
+          style={{ left: x, top: y, width: d, height: d, background: `conic-gradient(${stops.join(", ")})` }}
+        >
+          <span className="rounded-full bg-white text-[11px] font-semibold text-slate-800 flex items-center justify-center" style={{ width: d - 10, height: d - 10 }}>
+            {cl.items.length}
+          </span>
+        </button>
+      );
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={boxRef}
+        className="relative h-[480px] overflow-hidden rounded-xl border bg-slate-100 touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={(e) => {
+          const r = e.currentTarget.getBoundingClientRect();
+          zoomBy(1, e.clientX - r.left, e.clientY - r.top);
+        }}
+      >
+        {tiles}
+        {markers}
+        {!view && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+            No dealers to plot.
+          </div>
+        )}
+
+        <div className="absolute top-2 right-2 flex flex-col rounded-lg border bg-white shadow" onPointerDown={(e) => e.stopPropagation()}>
+          <button type="button" className="px-2.5 py-1 text-lg leading-none hover:bg-slate-50" onClick={() => zoomBy(1)} aria-label="Zoom in">
+            +
+          </button>
+          <button type="button" className="px-2.5 py-1 text-lg leading-none border-t hover:bg-slate-50" onClick={() => zoomBy(-1)} aria-label="Zoom out">
+            −
+          </button>
+        </div>
+
+        {selected && (
+          <div
+            className="absolute top-2 left-2 w-72 rounded-xl border bg-white p-3 shadow text-sm space-y-1"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="font-semibold text-slate-800">{selected.dealer.name}</div>
+              <button type="button" className="text-slate-400 hover:text-slate-600" onClick={() => setSelected(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${statusBadge(selected.dealer.status)}`}>
+              {selected.dealer.status}
+            </span>
+            <div className="text-slate-600">
+              {[selected.dealer.address1, selected.dealer.city, [selected.dealer.state, selected.dealer.zip].filter(Boolean).join(" ")]
+                .filter(Boolean)
+                .join(", ") || `${selected.dealer.region}, ${selected.dealer.state}`}
+            </div>
+            {selected.approximate && <div className="text-xs text-amber-700">Approximate location (ZIP area)</div>}
+            <div className="flex gap-3 pt-1">
+              <button type="button" className="text-blue-700 hover:underline" onClick={() => onOpen(selected.dealer.id)}>
+                Open dealer
+              </button>
+              <a href={mapUrl(selected.dealer)} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline">
+                Directions
+              </a>
+            </div>
+          </div>
+        )}
+
+        <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 text-[10px] text-slate-600">
+          ©{" "}
+          <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" className="underline">
+            OpenStreetMap
+          </a>{" "}
+          contributors
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-600">
+        {(Object.keys(STATUS_MARKER_COLORS) as DealerStatus[]).map((st) => (
+          <span key={st} className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ background: STATUS_MARKER_COLORS[st] }} />
+            {st} ({statusCounts[st] || 0})
+          </span>
+        ))}
+        {approximateCount > 0 && (
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full border-2 border-dashed border-slate-500 bg-white" />
+            Approximate ({approximateCount})
+          </span>
+        )}
+        {unplacedCount > 0 && <span className="text-amber-700">{unplacedCount} without a usable address</span>}
+      </div>
+    </div>
+  );
+};
+
 // Shared quick note key (HOME & NOTES share the same per-user scratchpad)
 const quickNoteKey = (username?: string | null) => `quicknote_shared_${username || "anon"}`;
 
@@ -705,12 +1069,13 @@ const DealerSearchView: React.FC<{
   setDealers: React.Dispatch<React.SetStateAction<Dealer[]>>;
   regions: RegionsCatalog;
   setRegions: React.Dispatch<React.SetStateAction<RegionsCatalog>>;
-  can: { reporting: boolean; userMgmt: boolean };
+  can: Can;
   setRoute: (r: RouteKey) => void;
   showToast: (m: string, k?: ToastKind) => void;
   tasksForUser: Task[];
   onClickTask: (t: Task) => void;
   notes: Note[]; // used for Daily Summary
+  team: TeamView;
 }> = ({
   session,
   users,
@@ -724,9 +1089,10 @@ const DealerSearchView: React.FC<{
   tasksForUser,
   onClickTask,
   notes,
+  team,
 }) => {
   // Load persisted filters from localStorage
-  const savedFilters = loadLS<{q?: string; fRep?: string; fState?: string; fRegion?: string; fType?: string; fStatus?: string}>(LS_DEALER_FILTERS, {});
+  const savedFilters = loadLS<{q?: string; fRep?: string; fState?: string; fRegion?: string; fType?: string; fStatus?: string; mode?: "list" | "map"}>(LS_DEALER_FILTERS, {});
   
   const [q, setQ] = useState(savedFilters.q || "");
   const [fRep, setFRep] = useState<string>(savedFilters.fRep || "");
@@ -734,11 +1100,12 @@ const DealerSearchView: React.FC<{
   const [fRegion, setFRegion] = useState<string>(savedFilters.fRegion || "");
   const [fType, setFType] = useState<string>(savedFilters.fType || "");
   const [fStatus, setFStatus] = useState<string>(savedFilters.fStatus || "");
+  const [mode, setMode] = useState<"list" | "map">(savedFilters.mode === "map" ? "map" : "list");
 
   // Save filters to localStorage whenever they change
   useEffect(() => {
-    saveLS(LS_DEALER_FILTERS, { q, fRep, fState, fRegion, fType, fStatus });
-  }, [q, fRep, fState, fRegion, fType, fStatus]);
+    saveLS(LS_DEALER_FILTERS, { q, fRep, fState, fRegion, fType, fStatus, mode });
+  }, [q, fRep, fState, fRegion, fType, fStatus, mode]);
 
   // --- paging + searching flags ---
   const PAGE_SIZE = 10;
@@ -762,10 +1129,11 @@ const DealerSearchView: React.FC<{
     localStorage.setItem(sKey, JSON.stringify(scratch));
   }, [sKey, scratch]);
 
-  // Daily Summary (now for Rep + Admin/Manager) with range toggle
+  // Daily Summary with range toggle. team.view covers every rep (with a rep
+  // filter); without it the summary is the user's own notes.
   const role = session?.role;
   const isRep = role === "Rep";
-  const isAdminManager = role === "Admin" || role === "Manager";
+  const seesTeam = can("team.view");
 
   const [dailyOpen, setDailyOpen] = useState(false);
   const [summaryRange, setSummaryRange] = useState<"today" | "yesterday" | "7d">("today"); // ← add "yesterday"
@@ -781,31 +1149,6 @@ const [homeRangeLabel, setHomeRangeLabel] = useState<string>("");
 useEffect(() => {
   if (!dailyOpen) return;
 
-  // Refresh dealers list to ensure we have current names (in case any were renamed)
-  const refreshDealers = async () => {
-    const { data, error } = await supabase
-      .from("dealers")
-      .select("id, name, state, region, city, address1, type, status, contacts, assigned_rep_username, last_visited, sending_deals, no_deal_reasons");
-    if (!error && data) {
-      setDealers(data.map((d: any) => ({
-        id: d.id,
-        name: d.name,
-        state: d.state,
-        region: d.region,
-        city: d.city,
-        address1: d.address1,
-        type: d.type,
-        status: d.status,
-        contacts: d.contacts || [],
-        assignedRepUsername: d.assigned_rep_username,
-        lastVisited: d.last_visited,
-        sendingDeals: d.sending_deals,
-        noDealReasons: d.no_deal_reasons,
-      })));
-    }
-  };
-  refreshDealers();
-
   // Compute [start, endExclusive] in LOCAL timezone (not UTC) to match user's clock
   const now = new Date();
   const startOfToday = new Date(now);
@@ -866,80 +1209,38 @@ useEffect(() => {
   const startISO = start.toISOString();
   const endISO = endExclusive.toISOString();
 
-  // Build query
-  setLoadingHomeSummary(true);
-  let q = supabase
-    .from("dealer_notes")
-    .select("id,dealer_id,author_username,created_at,category,text")
-    .gte("created_at", startISO)
-    .lt("created_at", endISO)
-    .order("created_at", { ascending: false });
-
-  // Reps see their own (RLS also applies). Admin/Manager can filter by rep.
-  if (isRep) {
-    q = q.eq("author_username", session!.username);
-  } else if (isAdminManager && summaryRep !== "ALL") {
-    q = q.eq("author_username", summaryRep);
-  }
+  // Own notes unless team.view (RLS also applies), which can filter by rep.
+  const author = !seesTeam
+    ? session?.username
+    : summaryRep !== "ALL"
+      ? summaryRep
+      : undefined;
 
+  setLoadingHomeSummary(true);
   (async () => {
-    const { data, error } = await q;
+    const { data, error } = await notesRepo.list({ since: startISO, until: endISO, author });
     if (error) {
       console.error("Daily Summary fetch failed:", error);
       setHomeSummaryNotes([]);
     } else {
-      const mapped: Note[] = (data || []).map((r: any) => ({
-        id: String(r.id),
-        dealerId: r.dealer_id,
-        authorUsername: r.author_username,
-        tsISO: new Date(r.created_at).toISOString(),
-        category: r.category,
-        text: r.text,
-      }));
-      setHomeSummaryNotes(mapped);
+      // "All" means the manager's team when they have one
+      const members = author ? null : team.members;
+      setHomeSummaryNotes(members ? data.filter((n) => members.has(n.authorUsername)) : data);
     }
     setLoadingHomeSummary(false);
   })();
-}, [dailyOpen, summaryRange, summaryRep, customDate, startDate, endDate, isRep, isAdminManager, session?.username]);
+}, [dailyOpen, summaryRange, summaryRep, customDate, startDate, endDate, seesTeam, session?.username, team.members]);
 
-// Fetch missing dealers for Daily Summary notes (handles renamed dealers)
+// Fetch just the dealers the Daily Summary notes mention (current names, even if renamed)
 useEffect(() => {
   if (!dailyOpen || homeSummaryNotes.length === 0) return;
-  
+
   (async () => {
-    // Find dealer IDs that are in notes but not in dealers list
-    const missingDealerIds = new Set<string>();
-    for (const note of homeSummaryNotes) {
-      if (note.dealerId && !dealers.find(d => d.id === note.dealerId)) {
-        missingDealerIds.add(note.dealerId);
-      }
-    }
-    
-    if (missingDealerIds.size === 0) return; // All dealers found
-    
-    // Fetch missing dealers from database
-    const { data, error } = await supabase
-      .from("dealers")
-      .select("id, name, state, region, city, address1, type, status, contacts")
-      .in("id", Array.from(missingDealerIds));
-    
-    if (!error && data && data.length > 0) {
-      // Add fetched dealers to the list
-      const newDealers = data.map((d: any) => ({
-        id: d.id,
-        name: d.name,
-        state: d.state,
-        region: d.region,
-        city: d.city || "",
-        address1: d.address1 || "",
-        type: d.type || ("Independent" as DealerType),
-        status: d.status || ("Active" as DealerStatus),
-        contacts: d.contacts || [],
-      }));
-      setDealers([...dealers, ...newDealers]);
-    }
+    const ids = Array.from(new Set(homeSummaryNotes.map((n) => n.dealerId).filter(Boolean)));
+    const { data: fresh, error } = await dealersRepo.byIds(ids);
+    if (!error && fresh.length > 0) setDealers((prev) => mergeDealers(prev, fresh));
   })();
-}, [dailyOpen, homeSummaryNotes, dealers]);
+}, [dailyOpen, homeSummaryNotes, setDealers]);
 
 // Copy Home summary (uses fetched homeSummaryNotes)
 const copyHomeDailySummary = async () => {
@@ -981,13 +1282,19 @@ const exportHomeDailySummaryCSV = () => {
 };
 
   // helpers
-  const repOptions = users.filter((u) => u.role === "Rep" || u.role === "Manager");
+  // Regional Managers work inside their own coverage: reps and states are limited to it
+  const me = users.find((u) => u.username === session?.username) || null;
+  const isRegional = role === "Regional Manager";
+  const repOptions = users.filter(
+    (u) => (u.role === "Rep" || u.role === "Manager") && (!isRegional || (!!me && sharesTerritory(me, u)))
+  );
 
   const stateOptions = useMemo(() => {
+    if (isRegional) return (me?.states || []).slice().sort();
     const set = new Set<string>(Object.keys(regions));
     for (const d of dealers) set.add(d.state);
     return Array.from(set).sort();
-  }, [regions, dealers]);
+  }, [regions, dealers, isRegional, me]);
 
   const allRegions = useMemo(() => {
     const set = new Set<string>();
@@ -1009,94 +1316,142 @@ const exportHomeDailySummaryCSV = () => {
     return "—";
   };
 
-  // Derived filtered list (NOTE: override-only filter removed)
-  const filtered = useMemo(() => {
-    // Helper: Check if Rep covers this dealer (either explicit assignment OR territory)
-    const repCoversDealer = (d: Dealer): boolean => {
-      if (!isRep || !session) return true; // Managers/Admins see everything
-      
-      // Option 1: Explicit assignment (override)
-      if (d.assignedRepUsername === session.username) return true;
-      
-      // Option 2: Territory coverage
-      const me = users.find(u => u.username === session.username);
-      if (me && me.states.includes(d.state) && (me.regionsByState[d.state]?.includes(d.region) ?? false)) {
-        return true;
+  // Results come from Supabase one page at a time. With no search/filters we show
+  // the 10 most recently visited (never-visited dealers float to the top).
+  // Reps are scoped to dealers they cover (assignment OR territory) inside the query.
+  // Fetched rows go into the shared dealer cache and are shown from there, so edits
+  // and realtime changes show up without asking the server for the page again.
+  const [pageRows, setPageRows] = useState<Dealer[]>([]);
+  const [searchReload, setSearchReload] = useState(0);
+  const cachedById = useMemo(() => new Map(dealers.map((d) => [d.id, d])), [dealers]);
+  const results = useMemo(() => pageRows.flatMap((r) => cachedById.get(r.id) ?? []), [pageRows, cachedById]);
+  const [resultTotal, setResultTotal] = useState(0);
+  const [loadingResults, setLoadingResults] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    let isCancelled = false;
+
+    // debounce typing; filter picks go out immediately
+    const timer = window.setTimeout(async () => {
+      setLoadingResults(true);
+      const { data, error } = await dealersRepo.search({
+        q,
+        rep: isRep ? undefined : fRep,
+        state: fState,
+        region: fRegion,
+        type: fType,
+        status: fStatus,
+        scopeUsername: TERRITORY_ROLES.includes(session.role) ? session.username : undefined,
+        sort: isSearching ? "name" : "recent",
+        page: isSearching ? page : 1,
+        pageSize: PAGE_SIZE,
+      });
+      if (isCancelled) return;
+      setLoadingResults(false);
+      if (error) {
+        console.error("dealer search failed:", error);
+        showToast(error.message || "Dealer search failed.", "error");
+        return;
       }
-      
-      return false;
+      setDealers((prev) => mergeDealers(prev, data.rows));
+      setPageRows(data.rows);
+      setResultTotal(data.total);
+    }, q ? 250 : 0);
+
+    return () => {
+      isCancelled = true;
+      window.clearTimeout(timer);
     };
-    
-    return dealers
-      .filter((d) => {
-        // CHANGE 1: Reps only see dealers they cover (assignment OR territory)
-        if (!repCoversDealer(d)) return false;
-        
-        if (q) {
-          const s = q.toLowerCase();
-          const hay = [d.name, d.city || "", d.state, d.region].join(" ").toLowerCase();
-          if (!hay.includes(s)) return false;
-        }
-        if (fRep) {
-          if (d.assignedRepUsername) {
-            if (d.assignedRepUsername !== fRep) return false;
-          } else {
-            const repUser = users.find((u) => u.username === fRep);
-            if (!repUser) return false;
-            const covers = repUser.states.includes(d.state) && (repUser.regionsByState[d.state]?.includes(d.region) ?? false);
-            if (!covers) return false;
-          }
-        }
-        if (fState && d.state !== fState) return false;
-        if (fRegion && d.region !== fRegion) return false;
-        if (fType && d.type !== fType) return false;
-        if (fStatus && d.status !== fStatus) return false;
-        return true;
-      })
-      .sort((a, b) => a.name.localeCompare(b.name));
-  }, [dealers, q, fRep, fState, fRegion, fType, fStatus, users, isRep, session]);
-
-  // Default (no search/filters): show only the 10 most recently visited
-const recentTop10 = useMemo(() => {
-  return [...dealers]
-    .filter((d) => {
-      // CHANGE 1: Reps only see dealers they cover (assignment OR territory)
-      if (!isRep || !session) return true; // Managers/Admins see everything
-      
-      // Option 1: Explicit assignment (override)
-      if (d.assignedRepUsername === session.username) return true;
-      
-      // Option 2: Territory coverage
-      const me = users.find(u => u.username === session.username);
-      if (me && me.states.includes(d.state) && (me.regionsByState[d.state]?.includes(d.region) ?? false)) {
-        return true;
-      }
-      
-      return false;
-    })
-    .sort((a, b) => {
-      // CHANGE 2: Dealers with no lastVisited (new dealers) float to top
-      const ta = a.lastVisited ? Date.parse(a.lastVisited) : Infinity;
-      const tb = b.lastVisited ? Date.parse(b.lastVisited) : Infinity;
-      if (tb !== ta) return tb - ta; // newest first (Infinity beats timestamps)
-      return a.name.localeCompare(b.name); // tie-breaker
-    })
-    .slice(0, 10);
-}, [dealers, isRep, session, users]);
+  }, [q, fRep, fState, fRegion, fType, fStatus, page, isSearching, isRep, session, searchReload, setDealers, showToast]);
 
 // Pagination for search results
-const totalPages = isSearching ? Math.max(1, Math.ceil(filtered.length / PAGE_SIZE)) : 1;
+const totalPages = isSearching ? Math.max(1, Math.ceil(resultTotal / PAGE_SIZE)) : 1;
 
-const paged = useMemo(() => {
-  if (!isSearching) return recentTop10;
-  const start = (page - 1) * PAGE_SIZE;
-  return filtered.slice(start, start + PAGE_SIZE);
-}, [isSearching, filtered, page, recentTop10]);
+  // Map mode plots every match (up to MAP_LIMIT), not just the current page
+  const MAP_LIMIT = 1000;
+  const [mapRows, setMapRows] = useState<Dealer[]>([]);
+  const [mapTotal, setMapTotal] = useState(0);
+  const [loadingMap, setLoadingMap] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [mapReload, setMapReload] = useState(0);
 
-  // Typeahead (mobile only): show top 6 matches under the search input
-  const suggestions = useMemo(() => filtered.slice(0, 6), [filtered]);
+  useEffect(() => {
+    if (!session || mode !== "map") return;
+    let isCancelled = false;
+    const timer = window.setTimeout(async () => {
+      setLoadingMap(true);
+      const { data, error } = await dealersRepo.search({
+        q,
+        rep: isRep ? undefined : fRep,
+        state: fState,
+        region: fRegion,
+        type: fType,
+        status: fStatus,
+        scopeUsername: TERRITORY_ROLES.includes(session.role) ? session.username : undefined,
+        sort: "name",
+        page: 1,
+        pageSize: MAP_LIMIT,
+      });
+      if (isCancelled) return;
+      setLoadingMap(false);
+      if (error) {
+        console.error("dealer map search failed:", error);
+        showToast(error.message || "Dealer search failed.", "error");
+        return;
+      }
+      setMapRows(data.rows);
+      setMapTotal(data.total);
+    }, q ? 250 : 0);
+    return () => {
+      isCancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [mode, q, fRep, fState, fRegion, fType, fStatus, isRep, session, searchReload, mapReload, showToast]);
+  const mapResults = useMemo(() => mapRows.map((r) => cachedById.get(r.id) ?? r), [mapRows, cachedById]);
 
-  const regionListForState = (state: string) => (regions[state] || []).slice().sort();
+  // Dealers on the map that only have a ZIP-centroid (or no) position yet
+  const unlocated = mapResults.filter((d) => d.lat == null || d.geocodeSource === ZIP_CENTROID_SOURCE);
+
+  // Run the server geocoder over the mapped dealers it hasn't placed exactly
+  const locateDealers = async () => {
+    const ids = unlocated.map((d) => d.id);
+    if (!ids.length) return;
+    setLocating(true);
+    try {
+      let placed = 0;
+      let approximate = 0;
+      // The endpoint stops after a time budget; keep going while it makes progress
+      let retryBefore: string | undefined;
+      for (let round = 0; round < 10; round++) {
+        const r = await apiPost("/api/geocode-dealers", { ids, retryBefore });
+        const j = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(j?.error || `HTTP ${r.status}`);
+        retryBefore = j.retryBefore;
+        placed += j.geocoded || 0;
+        approximate += j.approximate || 0;
+        const progressed = (j.geocoded || 0) + (j.approximate || 0) + (j.unplaced || 0) > 0;
+        if (!j.remaining || !progressed) {
+          if (j.error) showToast(`Geocoder: ${j.error}`, "error");
+          break;
+        }
+      }
+      showToast(
+        approximate ? `Located ${placed} dealer(s); ${approximate} placed by ZIP only.` : `Located ${placed} dealer(s).`,
+        "success"
+      );
+      setMapReload((n) => n + 1);
+    } catch (e) {
+      showToast(errorMessage(e, "Geocoding failed."), "error");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  // Typeahead (mobile only): show top 6 matches under the search input
+  const suggestions = useMemo(() => results.slice(0, 6), [results]);
+
+  const regionListForState = (state: string) => (regions[state] || []).slice().sort();
 
   const goToDealer = (dealerId: string) => {
     saveLS(LS_LAST_SELECTED_DEALER, dealerId);
@@ -1126,6 +1481,7 @@ const paged = useMemo(() => {
   };
 
   const addDealer = async () => {
+    if (!can("dealer.create")) return showToast("You don't have permission to add dealers.", "error");
     const err = validateForm();
     if (err) return showToast(err, "error");
   
@@ -1138,56 +1494,32 @@ const paged = useMemo(() => {
   
     try {
       // 1) Insert into Supabase (shared DB)
-      const payload = {
+      const { data: newDealer, error } = await dealersRepo.insert({
         name: form.name.trim(),
         state: form.state,
         region: form.region,
-        type: form.type,         // "Franchise" | "Independent"
-        status: form.status,     // "Active" | "Pending" | "Prospect" | "Inactive" | "Black Listed"
-        address1: form.address1?.trim() || null,
-        address2: form.address2?.trim() || null,
-        city: form.city?.trim() || null,
-        zip: form.zip?.trim() || null,
+        type: form.type,
+        status: form.status,
+        address1: form.address1?.trim(),
+        address2: form.address2?.trim(),
+        city: form.city?.trim(),
+        zip: form.zip?.trim(),
         contacts: form.contacts
           .filter((c) => c.name || c.phone)
           .map((c) => ({ name: c.name.trim(), phone: c.phone.trim() })),
-        assigned_rep_username: assignedRep || null,
-        last_visited: null,
-        sending_deals: null,
-        no_deal_reasons: null,
-      };
-  
-      const { data, error } = await supabase
-        .from("dealers")
-        .insert([payload])
-        .select(
-          "id,name,state,region,type,status,address1,address2,city,zip,contacts,assigned_rep_username,last_visited,sending_deals,no_deal_reasons"
-        )
-        .single();
+        assignedRepUsername: assignedRep || undefined,
+        lastVisited: undefined,
+        sendingDeals: undefined,
+        noDealReasons: undefined,
+      });
   
       if (error) throw error;
+      if (!newDealer) throw new Error("Dealer was not returned after insert.");
   
       // 2) Reflect the saved row in the UI (using Supabase's UUID id)
-      const row = data as any;
-      const newDealer: Dealer = {
-        id: row.id,
-        name: row.name,
-        state: row.state,
-        region: row.region,
-        type: row.type,
-        status: row.status,
-        address1: row.address1 || "",
-        address2: row.address2 || "",
-        city: row.city || "",
-        zip: row.zip || "",
-        contacts: Array.isArray(row.contacts) ? row.contacts : [],
-        assignedRepUsername: row.assigned_rep_username || undefined,
-        lastVisited: row.last_visited ? String(row.last_visited) : undefined,
-        sendingDeals: typeof row.sending_deals === "boolean" ? row.sending_deals : undefined,
-        noDealReasons: row.no_deal_reasons || undefined,
-      };
-  
       setDealers((prev) => [newDealer, ...prev]);
+      setSearchReload((n) => n + 1);
+      requestGeocoding([newDealer.id]);
       showToast(`Dealer "${newDealer.name}" added.`, "success");
       setAddOpen(false);
       resetForm();
@@ -1196,8 +1528,8 @@ const paged = useMemo(() => {
     }
   };  
 
-  const canSeeReporting = can.reporting && (session?.role === "Admin" || session?.role === "Manager");
-  const canSeeUserMgmt = can.userMgmt && session?.role === "Admin";
+  const canSeeReporting = can("reporting.view");
+  const canSeeUserMgmt = can("users.manage");
 
   // ===== Daily Summary helpers =====
   const isToday = (iso: string) => {
@@ -1232,12 +1564,13 @@ const paged = useMemo(() => {
   // Scoped summary notes per role/range/rep
   const summaryNotes = useMemo(() => {
     let scoped = notes.slice();
-    // Role scoping
-    if (isRep) {
+    // Capability scoping
+    if (!seesTeam) {
       scoped = scoped.filter((n) => n.authorUsername === session!.username);
-    } else if (isAdminManager) {
-      if (summaryRep !== "ALL") scoped = scoped.filter((n) => n.authorUsername === summaryRep);
-      // else: all reps
+    } else if (summaryRep !== "ALL") {
+      scoped = scoped.filter((n) => n.authorUsername === summaryRep);
+    } else if (team.members) {
+      scoped = scoped.filter((n) => team.members!.has(n.authorUsername));
     }
     // Range scoping
     if (summaryRange === "today") {
@@ -1249,7 +1582,7 @@ const paged = useMemo(() => {
     }
     // Sort recent first
     return scoped.sort((a, b) => (a.tsISO > b.tsISO ? -1 : 1));
-  }, [notes, isRep, isAdminManager, session, summaryRep, summaryRange]);
+  }, [notes, seesTeam, session, summaryRep, summaryRange, team.members]);
 
   const buildSummaryPlainText = () => {
     if (summaryNotes.length === 0) return "No notes in selected range.";
@@ -1292,7 +1625,7 @@ const paged = useMemo(() => {
     });
     const today = new Date().toISOString().slice(0, 10);
     const scope =
-      isRep ? session?.username :
+      !seesTeam ? session?.username :
       summaryRep === "ALL" ? "all" : summaryRep;
     downloadCSV(`daily_summary_${summaryRange}_${today}_${scope}.csv`, rows);
   };
@@ -1301,9 +1634,11 @@ const paged = useMemo(() => {
     <div className="space-y-4 pb-16 md:pb-0">{/* pb for mobile FAB clearance */}
       {/* Top actions row */}
       <div className="flex items-center gap-2 justify-center md:justify-start">
-        <button onClick={() => setAddOpen(true)} className={`${brand.primary} text-white px-4 py-2 rounded-lg focus:outline-none focus:ring-2`}>
-          ➕ Add Dealer
-        </button>
+        {can("dealer.create") && (
+          <button onClick={() => setAddOpen(true)} className={`${brand.primary} text-white px-4 py-2 rounded-lg focus:outline-none focus:ring-2`}>
+            ➕ Add Dealer
+          </button>
+        )}
         {canSeeReporting && (
           <button onClick={() => setRoute("reporting")} className={`px-3 py-2 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50`}>
             Reporting
@@ -1315,8 +1650,8 @@ const paged = useMemo(() => {
           </button>
         )}
 
-        {/* Daily Summary — now for Rep + Admin/Manager with range & rep controls */}
-        {(isRep || isAdminManager) && (
+        {/* Daily Summary — everyone; team.view adds the rep control */}
+        {session && (
           <button
             onClick={() => setDailyOpen(true)}
             className="ml-auto inline-flex items-center gap-2 px-4 py-2 rounded-full bg-indigo-500 hover:bg-indigo-600 text-white shadow"
@@ -1460,6 +1795,23 @@ const paged = useMemo(() => {
     >
       Clear filters
     </button>
+    {isSearching && mode === "list" && (
+      <span className="text-sm text-slate-500">
+        {loadingResults ? "Searching…" : `${resultTotal} ${resultTotal === 1 ? "dealer" : "dealers"} found`}
+      </span>
+    )}
+    <div className="ml-auto inline-flex rounded-lg border overflow-hidden text-sm">
+      {(["list", "map"] as const).map((m) => (
+        <button
+          key={m}
+          type="button"
+          onClick={() => setMode(m)}
+          className={`px-3 py-1.5 ${mode === m ? "bg-blue-600 text-white" : "bg-white text-slate-700 hover:bg-slate-50"}`}
+        >
+          {m === "list" ? "List" : "Map"}
+        </button>
+      ))}
+    </div>
   </div>
 </div>
 
@@ -1479,7 +1831,34 @@ const paged = useMemo(() => {
         </div>
       )}
 
+      {mode === "map" && (
+        <div className="rounded-xl border bg-white p-3 shadow-sm space-y-2">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+            <span>
+              {loadingMap
+                ? "Loading…"
+                : mapTotal > mapResults.length
+                  ? `Showing the first ${mapResults.length} of ${mapTotal} dealers; narrow the filters to see the rest`
+                  : `${mapResults.length} ${mapResults.length === 1 ? "dealer" : "dealers"}`}
+            </span>
+            {can("dealer.edit") && unlocated.length > 0 && (
+              <button
+                type="button"
+                onClick={locateDealers}
+                disabled={locating}
+                className="ml-auto px-3 py-1.5 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                title="Geocode the addresses of dealers placed by ZIP only"
+              >
+                {locating ? "Locating…" : `Locate ${unlocated.length} approximate`}
+              </button>
+            )}
+          </div>
+          <DealerMap dealers={mapResults} onOpen={goToDealer} />
+        </div>
+      )}
+
       {/* Results (Last Note column removed) */}
+      {mode === "list" && (
       <div className="rounded-xl border bg-white p-0 shadow-sm overflow-x-auto md:overflow-visible">
         <table className="min-w-[700px] md:min-w-[900px] w-full text-sm">
           <thead className="bg-slate-50 text-slate-500">
@@ -1495,7 +1874,7 @@ const paged = useMemo(() => {
           </thead>
 
           <tbody>
-          {paged.map((d) => {
+          {results.map((d) => {
               const hasOverride = Boolean(d.assignedRepUsername);
               return (
                 <tr
@@ -1525,7 +1904,7 @@ const paged = useMemo(() => {
               );
             })}
 
-{isSearching && filtered.length === 0 && (
+{isSearching && !loadingResults && resultTotal === 0 && (
   <tr>
     <td colSpan={7} className="py-6 text-center text-slate-500">
       No dealers match your search.
@@ -1533,7 +1912,7 @@ const paged = useMemo(() => {
   </tr>
 )}
 
-{!isSearching && recentTop10.length === 0 && (
+{!isSearching && !loadingResults && results.length === 0 && (
   <tr>
     <td colSpan={7} className="py-6 text-center text-slate-500">
       No recently visited dealers yet.
@@ -1545,7 +1924,7 @@ const paged = useMemo(() => {
         {isSearching && totalPages > 1 && (
   <div className="mt-3 flex items-center justify-between">
     <div className="text-sm text-slate-600">
-      Page {page} of {totalPages}
+      Page {page} of {totalPages} · {resultTotal} dealers
     </div>
     <div className="flex items-center gap-2">
       <button
@@ -1566,6 +1945,7 @@ const paged = useMemo(() => {
   </div>
 )}
       </div>
+      )}
 
       {/* Add Dealer Modal */}
       {addOpen && (
@@ -1689,8 +2069,8 @@ const paged = useMemo(() => {
         </Modal>
       )}
 
-      {/* Daily Summary Modal (Rep + Admin/Manager) */}
-      {dailyOpen && (isRep || isAdminManager) && (
+      {/* Daily Summary Modal */}
+      {dailyOpen && (
         <Modal title="Daily Summary" onClose={() => setDailyOpen(false)}>
           {/* Controls */}
           <div className="flex flex-col md:flex-row md:items-end gap-3 mb-3">
@@ -1780,8 +2160,8 @@ const paged = useMemo(() => {
     </div>
   </div>
 
-  {/* Rep filter (Admin/Manager only) */}
-  {(session?.role === 'Admin' || session?.role === 'Manager') && (
+  {/* Rep filter (team.view only) */}
+  {seesTeam && (
     <div className="flex items-center gap-2">
       <label className="text-xs text-slate-600">Rep:</label>
       <select
@@ -1789,11 +2169,15 @@ const paged = useMemo(() => {
         value={summaryRep}
         onChange={(e) => setSummaryRep(e.target.value)}
       >
-        <option value="ALL">All</option>
-        {Array.from(new Set((users || []).map(u => u.username))).sort().map(u => (
+        <option value="ALL">{team.members ? "My team" : "All"}</option>
+        {Array.from(new Set((users || []).map(u => u.username)))
+          .filter((u) => !team.members || team.members.has(u))
+          .sort()
+          .map(u => (
           <option key={u} value={u}>{u}</option>
         ))}
       </select>
+      <AllTeamsToggle team={team} />
     </div>
   )}
 
@@ -1801,7 +2185,7 @@ const paged = useMemo(() => {
   <div className="ml-auto flex items-center gap-2">
     <div className="text-xs text-slate-500">
       Showing: {homeRangeLabel}
-      {(session?.role === 'Admin' || session?.role === 'Manager') && summaryRep !== 'ALL' ? ` • ${summaryRep}` : ''}
+      {seesTeam && summaryRep !== 'ALL' ? ` • ${summaryRep}` : ''}
     </div>
     <button
       className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50"
@@ -1924,7 +2308,199 @@ const noteBadgeLocal = (c: NoteCategory) => {
   }
 };
 
-const DealerNotesView: React.FC<{
+// Outbox rows keep their client_id as the note id until the server assigns one
+const queuedToNote = (q: OutboxEntry): Note => ({
+  id: q.client_id,
+  dealerId: q.dealer_id,
+  authorUsername: q.author_username,
+  tsISO: q.created_at,
+  category: q.category as NoteCategory,
+  text: q.text,
+  queued: !q.rejected,
+  failed: !!q.rejected,
+});
+
+/* ------------------------------ Dealer history ------------------------------ */
+// dealer_audit stores DB column names and raw JSON values; these make them readable.
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  state: "State",
+  region: "Region",
+  type: "Type",
+  status: "Status",
+  address1: "Address 1",
+  address2: "Address 2",
+  city: "City",
+  zip: "ZIP",
+  contacts: "Contacts",
+  assigned_rep_username: "Rep override",
+  sending_deals: "Sending deals",
+  no_deal_reasons: "No-deal reasons",
+};
+
+const NO_DEAL_REASON_LABELS: Record<string, string> = {
+  funding: "Funding",
+  agreement: "Dealer Agreement",
+  feesRates: "Fees & Rates",
+  programDiff: "Program Differences",
+  eContracting: "E-contracting",
+  notSigned: "Not signed up",
+};
+
+const auditFieldLabel = (field?: string) => (field ? AUDIT_FIELD_LABELS[field] || field : "");
+
+const formatAuditValue = (field: string | undefined, v: unknown): string => {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (field === "contacts" && Array.isArray(v)) {
+    return v.map((c: Partial<Contact>) => [c?.name, c?.phone].filter(Boolean).join(" ")).filter(Boolean).join("; ") || "—";
+  }
+  if (field === "no_deal_reasons" && typeof v === "object") {
+    const r = v as Record<string, unknown>;
+    const picked = Object.keys(NO_DEAL_REASON_LABELS).filter((k) => r[k]).map((k) => NO_DEAL_REASON_LABELS[k]);
+    if (typeof r.other === "string" && r.other.trim()) picked.push(`Other: ${r.other.trim()}`);
+    return picked.join(", ") || "—";
+  }
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+};
+
+const describeAudit = (e: DealerAuditEntry) => {
+  if (e.action === "insert") return "Created dealer";
+  if (e.action === "delete") return "Deleted dealer";
+  if (e.field === "deleted_at") return e.newValue ? "Moved to trash" : "Restored from trash";
+  return `${auditFieldLabel(e.field)}: ${formatAuditValue(e.field, e.oldValue)} → ${formatAuditValue(e.field, e.newValue)}`;
+};
+
+const DealerHistoryModal: React.FC<{ dealer: Dealer; onClose: () => void }> = ({ dealer, onClose }) => {
+  const [entries, setEntries] = useState<DealerAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    (async () => {
+      const { data, error } = await auditRepo.forDealer(dealer.id);
+      if (isCancelled) return;
+      if (error) setError(error.message || "Failed to load history.");
+      else setEntries(data);
+      setLoading(false);
+    })();
+    return () => {
+      isCancelled = true;
+    };
+    // refetch when the dealer row changes (our own save or a realtime update)
+  }, [dealer]);
+
+  return (
+    <Modal title={`History — ${dealer.name}`} onClose={onClose}>
+      {loading && <div className="text-sm text-slate-500">Loading…</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!loading && !error && entries.length === 0 && (
+        <div className="text-sm text-slate-500">No recorded changes yet.</div>
+      )}
+      <ul className="divide-y max-h-[60vh] overflow-y-auto">
+        {entries.map((e) => (
+          <li key={e.id} className="py-2 text-sm">
+            <div className="text-slate-800">{describeAudit(e)}</div>
+            <div className="text-xs text-slate-500">
+              {new Date(e.changedAtISO).toLocaleString()} · {e.actorUsername || "system"}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Modal>
+  );
+};
+
+/**
+ * Shown when a dealer save was rejected because someone else saved first.
+ * Lists each field this user changed next to the server's current value;
+ * the user picks which one wins per field.
+ */
+const DealerMergeModal: React.FC<{
+  base: Dealer;
+  mine: Partial<Dealer>;
+  server: Dealer;
+  saving: boolean;
+  onSave: (patch: Partial<Dealer>) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}> = ({ base, mine, server, saving, onSave, onDiscard, onClose }) => {
+  const fields = DEALER_EDIT_FIELDS.filter((f) => f.key in mine);
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(fields.map((f) => [f.key, true]))
+  );
+  // Fields the other person didn't touch, or touched the same way, need no decision
+  const contested = (f: DealerEditField) => dealerFieldContested(base, mine, server, f);
+
+  const save = () => {
+    const patch: Partial<Dealer> = {};
+    for (const f of fields) if (keepMine[f.key]) Object.assign(patch, { [f.key]: mine[f.key] });
+    onSave(patch);
+  };
+
+  return (
+    <Modal title={`Someone else updated ${server.name}`} onClose={onClose}>
+      <p className="text-sm text-slate-600 mb-3">
+        This dealer was saved by someone else after you started editing. Nothing of yours was saved yet. Choose
+        which value to keep for each field you changed; everything else keeps the current saved value.
+      </p>
+      <div className="overflow-auto rounded-lg border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium">Field</th>
+              <th className="text-left py-2 px-3 font-medium">Your change</th>
+              <th className="text-left py-2 px-3 font-medium">Current saved value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((f) => (
+              <tr key={f.key} className={`border-t ${contested(f) ? "bg-amber-50" : ""}`}>
+                <td className="py-2 px-3 font-medium text-slate-800">
+                  {auditFieldLabel(f.column)}
+                  {contested(f) && <div className="text-xs font-normal text-amber-700">Changed by both of you</div>}
+                </td>
+                <td className="py-2 px-3">
+                  <label className="inline-flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name={`merge-${f.key}`}
+                      checked={keepMine[f.key]}
+                      onChange={() => setKeepMine((m) => ({ ...m, [f.key]: true }))}
+                    />
+                    <span>{formatAuditValue(f.column, dealerFieldValue(mine, f))}</span>
+                  </label>
+                </td>
+                <td className="py-2 px-3">
+                  <label className="inline-flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name={`merge-${f.key}`}
+                      checked={!keepMine[f.key]}
+                      onChange={() => setKeepMine((m) => ({ ...m, [f.key]: false }))}
+                    />
+                    <span>{formatAuditValue(f.column, dealerFieldValue(server, f))}</span>
+                  </label>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-4 flex flex-wrap justify-end gap-2">
+        <button className="px-4 py-2 rounded-lg border border-slate-300" onClick={onDiscard} disabled={saving}>
+          Discard my changes
+        </button>
+        <button className={`${brand.primary} text-white px-4 py-2 rounded-lg disabled:opacity-60`} onClick={save} disabled={saving}>
+          {saving ? "Saving…" : "Save merged"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+type DealerNotesViewProps = {
   session: Session;
   users: User[];
   dealers: Dealer[];
@@ -1935,9 +2511,67 @@ const DealerNotesView: React.FC<{
   setRoute: (r: RouteKey) => void;
   showToast: (m: string, k?: ToastKind) => void;
   showActionToast: (t: Omit<Toast, "id">) => string;
-}> = ({ session, users, dealers, setDealers, tasks, setTasks, regions, setRoute, showToast, showActionToast }) => {
+  can: Can;
+};
+
+// Resolves the selected dealer; the page itself always has one, so its hooks run unconditionally
+const DealerNotesView: React.FC<DealerNotesViewProps> = (props) => {
+  const { dealers, setDealers, setRoute, showToast } = props;
   const dealerId = loadLS<string | null>(LS_LAST_SELECTED_DEALER, null);
   const dealer = dealers.find((d) => d.id === dealerId) || null;
+
+  // Opened from a task or a route stop: the dealer may not be in the cache yet
+  const [fetchingDealer, setFetchingDealer] = useState(() => !!dealerId && !dealer);
+  const cached = !!dealer;
+  useEffect(() => {
+    if (!dealerId || cached) return;
+    let cancelled = false;
+    setFetchingDealer(true);
+    (async () => {
+      const { data, error } = await dealersRepo.byIds([dealerId]);
+      if (cancelled) return;
+      setFetchingDealer(false);
+      if (error) showToast(error.message || "Failed to load the dealer.", "error");
+      else setDealers((prev) => mergeDealers(prev, data));
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [dealerId, cached, setDealers, showToast]);
+
+  if (!dealer && fetchingDealer) {
+    return <div className="rounded-xl border bg-white p-6 shadow-sm text-slate-500">Loading dealer…</div>;
+  }
+
+  // If no dealer selected, bail early with a safe card
+  if (!dealer) {
+    return (
+      <div className="rounded-xl border bg-white p-6 shadow-sm">
+        <div className="text-slate-700 mb-3">No dealer selected.</div>
+        <button className={`${brand.primary} text-white px-4 py-2 rounded-lg`} onClick={() => setRoute("dealer-search")}>
+          Back to Dealer Search
+        </button>
+      </div>
+    );
+  }
+
+  // Keyed so drafts and edit state start over for another dealer
+  return <DealerNotesPage key={dealer.id} {...props} dealer={dealer} />;
+};
+
+const DealerNotesPage: React.FC<DealerNotesViewProps & { dealer: Dealer }> = ({
+  session,
+  users,
+  dealer,
+  setDealers,
+  tasks,
+  setTasks,
+  regions,
+  setRoute,
+  showToast,
+  showActionToast,
+  can,
+}) => {
   const me = users.find((u) => u.username === session?.username) || null;
 
   // Local notes state - only for this dealer
@@ -1948,6 +2582,9 @@ const DealerNotesView: React.FC<{
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [confirmText, setConfirmText] = useState("");
 
+  // Change history modal
+  const [historyOpen, setHistoryOpen] = useState(false);
+
   // Quick Notes (same scratch key as home)
   const [scratchOpen, setScratchOpen] = useState(false);
   const sKey = quickNoteKey(session?.username);
@@ -1956,33 +2593,25 @@ const DealerNotesView: React.FC<{
     localStorage.setItem(sKey, JSON.stringify(scratch));
   }, [sKey, scratch]);
 
-  // If no dealer selected, bail early with a safe card
-  if (!dealer) {
-    return (
-      <div className="rounded-xl border bg-white p-6 shadow-sm">
-        <div className="text-slate-700 mb-3">No dealer selected.</div>
-        <button className={`${brand.primary} text-white px-4 py-2 rounded-lg`} onClick={() => setRoute("dealer-search")}>
-          Back to Dealer Search
-        </button>
-      </div>
-    );
-  }
-
   /* ------------------------ Permissions (DEFENSIVE) ------------------------ */
+  // What each role may do comes from the capability matrix (src/permissions.ts);
+  // dealer.edit.any edits everything visible, dealer.edit only assigned / covered
+  // dealers, and neither (Viewer) leaves the page read-only.
   const role = session?.role ?? "";
-  const isAdminManager = role === "Admin" || role === "Manager";
   const isRep = role === "Rep";
+  const editsAnyDealer = can("dealer.edit.any");
 
-  const assignedToMe = isRep && dealer.assignedRepUsername === session?.username;
-  const coversState = isRep && !!me?.states?.includes?.(dealer.state);
+  const assignedToMe = dealer.assignedRepUsername === session?.username;
+  const coversState = !!me?.states?.includes?.(dealer.state);
   const coversRegion =
-    isRep &&
     !!me?.regionsByState?.[dealer.state] &&
     !!me?.regionsByState?.[dealer.state]?.includes?.(dealer.region);
 
-  // Reps can access any dealer in states they cover (state-level access, not region-specific)
-  const repHasCoverage = isRep && coversState;
-  const repCanAccess = Boolean(isAdminManager || assignedToMe || repHasCoverage);
+  // Coverage is state-level (any dealer in a covered state), not region-specific
+  const repHasCoverage = coversState;
+  const repCanAccess = Boolean(editsAnyDealer || (can("dealer.edit") && (assignedToMe || repHasCoverage)));
+  const canDeleteAnyNote = can("note.delete.any");
+  const canDeleteOwnNote = can("note.delete.own");
 
   /* -------------------------- Status / Details ------------------------- */
   const updateDealer = async (patch: Partial<Dealer>) => {
@@ -1996,28 +2625,17 @@ const DealerNotesView: React.FC<{
       return;
     }
   
-    // 3) Map our patch keys to DB column names
-    const dbPatch: any = {};
-    if ("name" in patch) dbPatch.name = patch.name;
-    if ("state" in patch) dbPatch.state = patch.state;
-    if ("region" in patch) dbPatch.region = patch.region;
-    if ("type" in patch) dbPatch.type = patch.type;
-    if ("status" in patch) dbPatch.status = patch.status;
-    if ("address1" in patch) dbPatch.address1 = patch.address1 ?? null;
-    if ("address2" in patch) dbPatch.address2 = patch.address2 ?? null;
-    if ("city" in patch) dbPatch.city = patch.city ?? null;
-    if ("zip" in patch) dbPatch.zip = patch.zip ?? null;
-    if ("contacts" in patch) dbPatch.contacts = patch.contacts ?? [];
-    if ("assignedRepUsername" in patch)
-      dbPatch.assigned_rep_username = patch.assignedRepUsername || null;
-    if ("lastVisited" in patch) dbPatch.last_visited = patch.lastVisited || null;
-    if ("sendingDeals" in patch) dbPatch.sending_deals = patch.sendingDeals ?? null;
-    if ("noDealReasons" in patch) dbPatch.no_deal_reasons = patch.noDealReasons ?? null;
-  
-    // 4) Persist to Supabase
+    // 3) Persist to Supabase (the repository maps keys to DB columns)
+    const versionBefore = dealer.updatedAt;
     try {
-      const { error } = await supabase.from("dealers").update(dbPatch).eq("id", dealer.id);
+      const { data: saved, error } = await dealersRepo.update(dealer.id, patch);
       if (error) throw error;
+      if (saved) {
+        setDealers((prev) => prev.map((d) => (d.id === saved.id ? saved : d)));
+        if (movesDealer(patch)) requestGeocoding([saved.id]);
+        // Our own quick edit shouldn't make an open edit look stale
+        setEditBase((b) => (b && b.updatedAt === versionBefore ? { ...b, ...patch, updatedAt: saved.updatedAt } : b));
+      }
     } catch (e: any) {
       showToast(e?.message || "Saved locally, but failed to save dealer to Supabase.", "error");
     }
@@ -2030,9 +2648,9 @@ const DealerNotesView: React.FC<{
 // allow anyone to edit the dealer name
 const [nameDraft, setNameDraft] = useState(dealer.name);
 
-// keep the input in sync if the dealer changes
+// keep the input in sync if the dealer changes (but never under an open edit)
 useEffect(() => {
-  setNameDraft(dealer.name);
+  if (!isEditing) setNameDraft(dealer.name);
 }, [dealer.name]);
 
 // --- Edit mode + who is allowed to edit ---
@@ -2040,6 +2658,31 @@ useEffect(() => {
 const [isEditing, setIsEditing] = useState(false);
 const canEditOwner = repCanAccess;
 
+// The dealer as it was when editing started; its updatedAt is the version the save must match
+const [editBase, setEditBase] = useState<Dealer | null>(null);
+const [merge, setMerge] = useState<{ base: Dealer; mine: Partial<Dealer>; server: Dealer } | null>(null);
+const [savingEdit, setSavingEdit] = useState(false);
+
+const resetEditDraft = (d: Dealer) => {
+  setNameDraft(d.name);
+  setEditDetails({
+    ...d,
+    contacts: d.contacts?.length ? d.contacts.map((c) => ({ ...c })) : [{ name: "", phone: "" }],
+  });
+};
+
+const startEditing = () => {
+  resetEditDraft(dealer);
+  setEditBase(dealer);
+  setIsEditing(true);
+};
+
+const stopEditing = () => {
+  setEditBase(null);
+  setMerge(null);
+  setIsEditing(false);
+};
+
 // Only enable inputs when we're in edit mode AND the viewer is allowed
 const canEditSection = isEditing && repCanAccess;
 
@@ -2049,7 +2692,7 @@ const canEditSection = isEditing && repCanAccess;
       contacts: dealer.contacts?.length ? dealer.contacts.map((c) => ({ ...c })) : [{ name: "", phone: "" }],
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dealerId]);
+  }, [dealer.id]);
 
   const saveDetails = () => {
     if (!repCanAccess) return showToast("You don't have permission to edit details.", "error");
@@ -2068,7 +2711,7 @@ const canEditSection = isEditing && repCanAccess;
   };
 
   const changeAssignedRep = (username: string) => {
-    if (!isAdminManager) return; // reps cannot reassign
+    if (!can("dealer.reassign")) return showToast("You don't have permission to reassign dealers.", "error");
     updateDealer({ assignedRepUsername: username || undefined });
     showToast("Assigned rep updated.", "success");
   };
@@ -2107,35 +2750,63 @@ const saveName = () => {
   showToast(`Dealer name updated to "${newName}".`, "success");
 };
 
+  // Sending status and reasons are part of the edit draft and go out with Save
   const toggleSendingDeals = (val: boolean) => {
     if (!repCanAccess) return showToast("You don't have permission to update this.", "error");
     if (val) {
-      updateDealer({ sendingDeals: true, noDealReasons: undefined });
+      setEditDetails((x) => ({ ...x, sendingDeals: true, noDealReasons: undefined }));
     } else {
-      updateDealer({ sendingDeals: false, noDealReasons: { ...(dealer.noDealReasons || {}) } });
+      setEditDetails((x) => ({ ...x, sendingDeals: false, noDealReasons: { ...(x.noDealReasons || {}) } }));
     }
   };
 
-  const setReason = (key: keyof NonNullable <Dealer["noDealReasons"]>, v: boolean | string) => {
+  const setReason = (key: keyof NoDealReasons, v: boolean | string) => {
     if (!repCanAccess) return;
-    const current = dealer.noDealReasons || {};
-    updateDealer({ noDealReasons: { ...current, [key]: v as any } });
+    setEditDetails((x) => ({ ...x, noDealReasons: { ...(x.noDealReasons || {}), [key]: v } as NoDealReasons }));
   };
+  const sendingView = isEditing ? editDetails : dealer;
+// Save only what this user changed, and only if nobody saved the dealer since
+// `base` was read; otherwise hand the user a field-by-field merge against it
+const saveEdit = async (changes: Partial<Dealer>, base: Dealer) => {
+  setSavingEdit(true);
+  const { data, error } = await dealersRepo.updateIfUnchanged(dealer.id, changes, base.updatedAt);
+  setSavingEdit(false);
+  if (error) return showToast(error.message || "Failed to save dealer.", "error");
+
+  if (data.saved) {
+    const saved = data.saved;
+    setDealers((prev) => prev.map((d) => (d.id === saved.id ? saved : d)));
+    if (movesDealer(changes)) requestGeocoding([saved.id]);
+    showToast("Dealer saved.", "success");
+    stopEditing();
+    return;
+  }
+  if (!data.current) {
+    showToast("This dealer was deleted or is no longer available to you. Nothing was saved.", "error");
+    stopEditing();
+    return;
+  }
+  const current = data.current;
+  setDealers((prev) => prev.map((d) => (d.id === current.id ? current : d)));
+  setMerge({ base, mine: changes, server: current });
+};
+
 // Save everything and exit edit mode (single success toast)
 const saveAllAndClose = () => {
   if (!repCanAccess) return showToast("You don't have permission to edit.", "error");
+  if (!editBase) return;
 
   const newName = (nameDraft || "").trim();
   if (!newName) return showToast("Dealer name is required.", "error");
 // normalize types for TS: use undefined (not null)
 const sending: boolean | undefined =
-  typeof dealer.sendingDeals === "boolean" ? dealer.sendingDeals : undefined;
+  typeof editDetails.sendingDeals === "boolean" ? editDetails.sendingDeals : undefined;
 
 const reasons /*: Dealer["noDealReasons"] | undefined*/ =
-  dealer.noDealReasons && Object.keys(dealer.noDealReasons as any).length
-    ? dealer.noDealReasons
+  editDetails.noDealReasons && Object.keys(editDetails.noDealReasons).length
+    ? editDetails.noDealReasons
     : undefined;
-  updateDealer({
+  const changes = dealerEditChanges(editBase, {
     name: newName,
     address1: editDetails.address1?.trim(),
     address2: editDetails.address2?.trim(),
@@ -2152,8 +2823,12 @@ const reasons /*: Dealer["noDealReasons"] | undefined*/ =
     noDealReasons: reasons,    
   });
 
-  showToast("Dealer saved.", "success");
-  setIsEditing(false);
+  if (!Object.keys(changes).length) {
+    showToast("No changes to save.", "info");
+    stopEditing();
+    return;
+  }
+  saveEdit(changes, editBase);
 };
 
   /* ------------------------------- Notes -------------------------------- */
@@ -2195,40 +2870,116 @@ const reasons /*: Dealer["noDealReasons"] | undefined*/ =
   const [noteText, setNoteText] = useState("");
   const [isSavingNote, setIsSavingNote] = useState(false);
 
-  const canUseManagerNote = isAdminManager;
+  const canUseManagerNote = can("note.manager");
 // Load notes for this dealer from Supabase whenever the dealer changes
 useEffect(() => {
   if (!dealer) return;
   
   setLoadingNotes(true);
   (async () => {
-    const { data, error } = await supabase
-      .from('dealer_notes')
-      .select('id,dealer_id,author_username,created_at,category,text')
-      .eq('dealer_id', dealer.id)
-      .order('created_at', { ascending: false });
+    const queued = await listQueuedNotes(dealer.id);
+    const { data, error } = await notesRepo.rowsForDealer(dealer.id);
 
     if (error) {
       console.error(error);
+      // Still show anything sitting in the outbox so offline notes aren't "lost"
+      setLocalNotes(queued.map(queuedToNote));
       setLoadingNotes(false);
       return;
     }
 
     // Convert DB rows → our Note shape
-    const mapped: Note[] = (data || []).map((r: any) => ({
-      id: String(r.id),
-      dealerId: r.dealer_id,
-      authorUsername: r.author_username,
-      tsISO: new Date(r.created_at).toISOString(),
-      category: r.category,
-      text: r.text,
-    }));
+    const mapped: Note[] = data.map(noteFromRow);
+
+    // Outbox rows the server already has (saved, but not yet cleared locally) are skipped
+    const serverClientIds = new Set(data.map((r) => r.client_id).filter(Boolean));
+    const waiting = queued.filter((q) => !serverClientIds.has(q.client_id)).map(queuedToNote);
 
     // Set local notes (don't accumulate in global state)
-    setLocalNotes(mapped);
+    setLocalNotes([...waiting, ...mapped]);
     setLoadingNotes(false);
   })();
 }, [dealer?.id]);
+
+// When the outbox replays, swap synced temp notes for their server rows
+// (the page is keyed by dealer, so this subscribes once per dealer)
+useEffect(() => {
+  return onOutboxChange(async ({ synced = [], failed = [], rejected = [] }) => {
+    if (failed.length) {
+      setLocalNotes(prev => prev.map(n => (failed.includes(n.id) ? { ...n, pending: false, queued: true } : n)));
+    }
+    if (rejected.length) {
+      setLocalNotes(prev => prev.map(n => (rejected.includes(n.id) ? { ...n, pending: false, queued: false, failed: true } : n)));
+    }
+    if (!synced.length) return;
+    const { data, error } = await notesRepo.byClientIds(synced);
+    if (error) {
+      console.debug("[outbox] refresh synced notes failed", error);
+      return;
+    }
+    const byClientId = new Map(data.map((r) => [r.client_id, r]));
+    setLocalNotes(prev =>
+      prev.map(n => {
+        const r = byClientId.get(n.id);
+        return r ? noteFromRow(r) : n;
+      })
+    );
+  });
+}, []);
+// Live notes from other users (and our own, arriving before the save round-trip finishes)
+useEffect(() => {
+  const dealerIdLive = dealer.id;
+
+  const channel = supabase
+    .channel(`dealer-notes-${dealerIdLive}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "dealer_notes", filter: `dealer_id=eq.${dealerIdLive}` },
+      (payload: RealtimePostgresChangesPayload<LiveRow<NoteRow>>) => {
+        if (payload.eventType !== "INSERT") return;
+        const row = payload.new;
+        const next = noteFromRow(row);
+        setLocalNotes(prev => {
+          if (prev.some(n => n.id === next.id)) return prev;
+          // Our own optimistic note is keyed by client_id until the save returns
+          if (row.client_id && prev.some(n => n.id === row.client_id)) {
+            return prev.map(n => (n.id === row.client_id ? next : n));
+          }
+          return [next, ...prev];
+        });
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "dealer_notes", filter: `dealer_id=eq.${dealerIdLive}` },
+      (payload: RealtimePostgresChangesPayload<LiveRow<NoteRow>>) => {
+        if (payload.eventType !== "UPDATE") return;
+        const next = noteFromRow(payload.new);
+        // Moved to the trash elsewhere: treat like a delete
+        if (payload.new.deleted_at) {
+          setLocalNotes(prev => prev.filter(n => n.id !== next.id));
+          return;
+        }
+        setLocalNotes(prev =>
+          prev.some(n => n.id === next.id)
+            ? prev.map(n => (n.id === next.id ? next : n))
+            : [next, ...prev].sort((a, b) => (a.tsISO > b.tsISO ? -1 : 1))
+        );
+      }
+    )
+    // DELETE payloads only carry the primary key, so they can't be filtered by dealer
+    .on("postgres_changes", { event: "DELETE", schema: "public", table: "dealer_notes" }, (payload: RealtimePostgresChangesPayload<NoteRow>) => {
+      if (payload.eventType !== "DELETE") return;
+      const id = payload.old.id;
+      if (id) setLocalNotes(prev => prev.filter(n => n.id !== String(id)));
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}, [dealer.id]);
+
 const addNote = async () => {
   if (!repCanAccess) return showToast("You don't have access to add notes.", "error");
   if (isSavingNote) return;
@@ -2236,9 +2987,10 @@ const addNote = async () => {
   const text = (noteText || "").trim();
   if (!text) return showToast("Please enter a note.", "error");
 
-  const { data: authData, error: authErr } = await supabase.auth.getUser();
-  if (authErr || !authData?.user) return showToast("You're not signed in.", "error");
-  const authUserId = authData.user.id;
+  // getSession reads the cached session, so this still works with no signal
+  const { data: authData, error: authErr } = await supabase.auth.getSession();
+  if (authErr || !authData?.session?.user) return showToast("You're not signed in.", "error");
+  const authUserId = authData.session.user.id;
 
   setIsSavingNote(true);
   
@@ -2258,53 +3010,41 @@ const addNote = async () => {
   setLocalNotes(prev => [optimistic, ...prev]);
   setNoteText("");
 
-  const saveOnce = async () => {
-    const payload = {
-      dealer_id: dealer.id,
-      user_id: authUserId,
-      author_username: optimistic.authorUsername,
-      category: noteCategory,
-      text,
-      created_at: optimistic.tsISO,
-      client_id: tempId,
-    };
+  const payload = noteToRow(optimistic, { user_id: authUserId, client_id: tempId });
+
+  // Persist to the outbox first so the note survives a dropped connection or a reload
+  try {
+    await enqueueNote(payload);
+  } catch (e) {
+    console.warn("[outbox] enqueue failed", e);
+  }
+
+  if (!navigator.onLine) {
+    setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: false, queued: true } : n)));
+    showToast("You're offline. Note saved on this device and will sync automatically.", "info");
+    setIsSavingNote(false);
+    return;
+  }
 
+  const saveOnce = async () => {
     const doSave = async () => {
-      // Step 1: upsert the note
-      const { error: upsertErr } = await supabase
-        .from("dealer_notes")
-        .upsert(payload, { onConflict: "client_id" });
-      if (upsertErr) throw upsertErr;
-
-      // Step 2: fetch it back using client_id to get the real id
-      const { data, error: fetchErr } = await supabase
-        .from("dealer_notes")
-        .select("id,dealer_id,author_username,created_at,category,text")
-        .eq("client_id", tempId)
-        .single();
-      if (fetchErr) throw fetchErr;
+      // Upsert on client_id, then read back the row to get the real id
+      const { data, error } = await notesRepo.upsertByClientId(payload);
+      if (error) throw error;
+      if (!data) throw new Error("Note was not returned after save.");
       return data;
     };
 
     const saveWithTimeout = Promise.race([
       doSave(),
-      new Promise((_, reject) =>
+      new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error("timeout")), 10000)
       ),
     ]);
 
-    const data = (await saveWithTimeout) as any;
-
-    const saved: Note = {
-      id: String(data.id),
-      dealerId: data.dealer_id,
-      authorUsername: data.author_username,
-      tsISO: new Date(data.created_at).toISOString(),
-      category: data.category as NoteCategory,
-      text: data.text,
-      pending: false,
-    };
+    const saved: Note = { ...(await saveWithTimeout), pending: false };
     setLocalNotes(prev => prev.map(n => (n.id === tempId ? saved : n)));
+    await removeQueuedNote(tempId);
     showToast("Note saved successfully!", "success");
   };
 
@@ -2356,32 +3096,29 @@ const addNote = async () => {
     }, 1000);
     // ============ END DETAILED LOGGING ============
     
-    setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: false, failed: true } : n)));
+    // The note is already in the outbox; it will replay when the connection returns
+    setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: false, queued: true } : n)));
 
     const errorMsg = e.message?.includes("timeout")
-      ? "Save timed out - check your connection and retry"
-      : "Failed to save note - please retry";
+      ? "Save timed out - note kept on this device and will sync automatically"
+      : "Couldn't reach the server - note kept on this device and will sync automatically";
 
     showActionToast({
       kind: "error",
       message: errorMsg,
-      actionLabel: "Retry",
+      actionLabel: "Retry now",
       onAction: async () => {
-        setIsSavingNote(true);
-        setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: true, failed: false } : n)));
-        try {
-          await saveOnce();
-        } catch {
-          setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: false, failed: true } : n)));
-          showToast("Still failed. Check your internet connection.", "error");
-        } finally {
-          setIsSavingNote(false);
+        setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: true, queued: false } : n)));
+        const { failed } = await flushNoteOutbox();
+        if (failed.includes(tempId) || !navigator.onLine) {
+          setLocalNotes(prev => prev.map(n => (n.id === tempId ? { ...n, pending: false, queued: true } : n)));
+          showToast("Still offline. The note will sync when you're back online.", "error");
         }
       },
       secondaryLabel: "Undo",
-      onSecondary: () => {
+      onSecondary: async () => {
+        await removeQueuedNote(tempId);
         setLocalNotes(prev => prev.filter(n => n.id !== tempId));
-        setIsSavingNote(false);
       },
     });
   } finally {
@@ -2404,10 +3141,7 @@ const addNote = async () => {
       prev.map(t => t.id === myOpenTaskForDealer.id ? { ...t, completedAtISO: when } : t)
     );
   
-    const { error } = await supabase
-      .from('dealer_tasks')
-      .update({ completed_at: when })
-      .eq('id', myOpenTaskForDealer.id);
+    const { error } = await tasksRepo.update(myOpenTaskForDealer.id, { completedAtISO: when });
   
     if (error) {
       // roll back if DB failed
@@ -2422,26 +3156,31 @@ const addNote = async () => {
 
   /* ---------------------------- Delete Note ----------------------------- */
   const deleteNote = async (noteId: string, noteAuthor: string) => {
-    // Permission check: Managers/Admins can delete any note, Reps can only delete their own
-    const canDelete = isAdminManager || (isRep && noteAuthor === session?.username);
+    // note.delete.any covers every note; note.delete.own only the caller's
+    const canDelete = canDeleteAnyNote || (canDeleteOwnNote && noteAuthor === session?.username);
     
     if (!canDelete) {
       return showToast("You don't have permission to delete this note.", "error");
     }
 
     // Confirmation
-    if (!window.confirm("Delete this note? This cannot be undone.")) {
+    if (!window.confirm("Delete this note? An Admin can restore it from the Trash.")) {
       return;
     }
 
     // Optimistic UI - remove from local state immediately
+    const target = localNotes.find(n => n.id === noteId);
     setLocalNotes(prev => prev.filter(n => n.id !== noteId));
 
-    // Delete from Supabase
-    const { error } = await supabase
-      .from('dealer_notes')
-      .delete()
-      .eq('id', noteId);
+    // Never reached the server: just drop it from the outbox
+    if (target?.queued || target?.failed) {
+      await removeQueuedNote(noteId);
+      showToast("Note deleted successfully.", "success");
+      return;
+    }
+
+    // Soft delete in Supabase (moves it to the Trash)
+    const { error } = await notesRepo.trash(noteId);
 
     if (error) {
       console.error("Failed to delete note:", error);
@@ -2449,23 +3188,32 @@ const addNote = async () => {
       // Note: We don't restore the note to local state since it's gone from UI
       // User can refresh to see it again if delete failed
     } else {
-      showToast("Note deleted successfully.", "success");
+      showActionToast({
+        kind: "success",
+        message: "Note moved to trash.",
+        actionLabel: "Undo",
+        onAction: async () => {
+          const { error: restoreErr } = await notesRepo.restore(noteId);
+          if (restoreErr) return showToast(restoreErr.message || "Couldn't restore the note.", "error");
+          if (target) setLocalNotes(prev => (prev.some(n => n.id === noteId) ? prev : [target, ...prev].sort((a, b) => (a.tsISO > b.tsISO ? -1 : 1))));
+        },
+      });
     }
   };
   
   /* ------------------------------ Delete -------------------------------- */
  // Delete from Supabase first (if this has a real DB id), then clean up locally
 const doDeleteDealer = async () => {
-  if (!(isAdminManager || repCanAccess))
+  if (!(repCanAccess && can("dealer.delete")))
     return showToast("You don't have permission to delete this dealer.", "error");
   if (confirmText !== dealer.name)
     return showToast("Type the dealer name exactly to confirm.", "error");
 
-  // Try server delete when this dealer has a Supabase UUID
+  // Soft delete on the server when this dealer has a Supabase UUID (notes go with it)
   const isUUID = /^[0-9a-fA-F-]{36}$/.test(dealer.id);
   if (isUUID) {
     try {
-      const { error } = await supabase.from("dealers").delete().eq("id", dealer.id);
+      const { error } = await dealersRepo.trash(dealer.id);
       if (error) throw error;
     } catch (e: any) {
       // We still remove locally so UI is consistent, but let the user know
@@ -2478,7 +3226,7 @@ const doDeleteDealer = async () => {
   setTasks((prev) => prev.filter((t) => t.dealerId !== dealer.id));
   // Note: localNotes cleanup not needed - we're navigating away
 
-  showToast(`Dealer "${dealer.name}" deleted.`, "success");
+  showToast(`Dealer "${dealer.name}" moved to trash.`, "success");
   setDeleteOpen(false);
   setRoute("dealer-search");
 };
@@ -2565,9 +3313,17 @@ const doDeleteDealer = async () => {
           </svg>
         </a>
 
+        <button
+          onClick={() => setHistoryOpen(true)}
+          className="px-4 py-2 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50"
+          title="Who changed this dealer, and when"
+        >
+          History
+        </button>
+
         {!isEditing && repCanAccess && (
           <button
-            onClick={() => setIsEditing(true)}
+            onClick={startEditing}
             className={`${brand.primary} text-white px-4 py-2 rounded-lg`}
           >
             Edit
@@ -2578,20 +3334,15 @@ const doDeleteDealer = async () => {
           <>
             <button
               onClick={saveAllAndClose}
-              className={`${brand.primary} text-white px-4 py-2 rounded-lg`}
+              disabled={savingEdit}
+              className={`${brand.primary} text-white px-4 py-2 rounded-lg disabled:opacity-60`}
             >
-              Save
+              {savingEdit ? "Saving…" : "Save"}
             </button>
             <button
               onClick={() => {
-                setNameDraft(dealer.name);
-                setEditDetails({
-                  ...dealer,
-                  contacts: dealer.contacts?.length
-                    ? dealer.contacts.map((c) => ({ ...c }))
-                    : [{ name: "", phone: "" }],
-                });
-                setIsEditing(false);
+                resetEditDraft(dealer);
+                stopEditing();
               }}
               className="px-4 py-2 rounded-lg border border-slate-300"
             >
@@ -2706,7 +3457,7 @@ const doDeleteDealer = async () => {
 
         {/* Assignment & Sending */}
         <div className="rounded-xl border bg-white p-5 shadow-sm space-y-4">
-        {isAdminManager && (
+        {can("dealer.reassign") && (
   <div>
     <div className="text-slate-800 font-semibold mb-2">Assigned Rep</div>
     <SelectField
@@ -2722,37 +3473,39 @@ const doDeleteDealer = async () => {
             <div className="text-slate-800 font-semibold mb-2">Are they sending deals?</div>
             <div className="flex items-center gap-3">
               <label className="inline-flex items-center gap-2 text-sm">
-                <input type="radio" name="sending" checked={dealer.sendingDeals === true} onChange={() => toggleSendingDeals(true)} disabled={!canEditSection} />
+                <input type="radio" name="sending" checked={sendingView.sendingDeals === true} onChange={() => toggleSendingDeals(true)} disabled={!canEditSection} />
                 Yes
               </label>
               <label className="inline-flex items-center gap-2 text-sm">
-                <input type="radio" name="sending" checked={dealer.sendingDeals === false} onChange={() => toggleSendingDeals(false)} disabled={!canEditSection}/>
+                <input type="radio" name="sending" checked={sendingView.sendingDeals === false} onChange={() => toggleSendingDeals(false)} disabled={!canEditSection}/>
                 No
               </label>
             </div>
 
-            {dealer.sendingDeals === false && (
+            {sendingView.sendingDeals === false && (
               <div className="mt-3 space-y-2">
-                {[
-                  ["funding", "Funding"],
-                  ["agreement", "Dealer Agreement"],
-                  ["feesRates", "Fees & Rates"],
-                  ["programDiff", "Program Differences"],
-                  ["eContracting", "E-contracting"],
-                  ["notSigned", "Not signed up"],
-                ].map(([key, label]) => (
+                {(
+                  [
+                    ["funding", "Funding"],
+                    ["agreement", "Dealer Agreement"],
+                    ["feesRates", "Fees & Rates"],
+                    ["programDiff", "Program Differences"],
+                    ["eContracting", "E-contracting"],
+                    ["notSigned", "Not signed up"],
+                  ] as [keyof NoDealReasons, string][]
+                ).map(([key, label]) => (
                   <label key={key} className="flex items-center gap-2 text-sm">
                     <input
                       type="checkbox"
-                      checked={Boolean((dealer.noDealReasons as any)?.[key])}
-                      onChange={(e) => setReason(key as any, e.target.checked)}
+                      checked={Boolean(sendingView.noDealReasons?.[key])}
+                      onChange={(e) => setReason(key, e.target.checked)}
                       disabled={!canEditSection}
                     />
                     {label}
                   </label>
                 ))}
                 <div>
-                  <TextField label="Other" value={dealer.noDealReasons?.other || ""} onChange={(v) => setReason("other", v)} disabled={!canEditSection}/>
+                  <TextField label="Other" value={sendingView.noDealReasons?.other || ""} onChange={(v) => setReason("other", v)} disabled={!canEditSection}/>
                 </div>
               </div>
             )}
@@ -2845,8 +3598,8 @@ const doDeleteDealer = async () => {
               dealer.assignedRepUsername === session?.username &&
               !!myOpenTaskForDealer;
 
-            // Show delete button if: (1) Manager/Admin can delete any note, (2) Rep can delete their own notes
-            const canDeleteNote = isAdminManager || (isRep && n.authorUsername === session?.username);
+            // Show delete button if: (1) note.delete.any, (2) note.delete.own and it's theirs
+            const canDeleteNote = canDeleteAnyNote || (canDeleteOwnNote && n.authorUsername === session?.username);
 
             return (
               <div key={n.id} className="border rounded-lg p-3">
@@ -2856,6 +3609,17 @@ const doDeleteDealer = async () => {
                     <span className="text-xs text-slate-500">
                       by <strong>{n.authorUsername}</strong> • {new Date(n.tsISO).toLocaleString()}
                     </span>
+                    {n.pending && <span className="px-2 py-0.5 rounded-full text-[11px] bg-slate-100 text-slate-600">Saving…</span>}
+                    {n.queued && (
+                      <span className="px-2 py-0.5 rounded-full text-[11px] bg-amber-100 text-amber-700" title="Saved on this device; will upload when you're back online">
+                        Waiting to sync
+                      </span>
+                    )}
+                    {n.failed && (
+                      <span className="px-2 py-0.5 rounded-full text-[11px] bg-red-100 text-red-700" title="The server refused this note, so it won't be retried. Copy the text and delete it.">
+                        Couldn't sync
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     {showComplete && (
@@ -2919,7 +3683,7 @@ const doDeleteDealer = async () => {
       </div>
 
       {/* Delete button moved to bottom (smaller, red) */}
-      {(isAdminManager || repCanAccess) && (
+      {repCanAccess && can("dealer.delete") && (
         <div className="flex justify-end">
           <button
             className="px-3 py-2 rounded-lg border border-red-600 text-red-700 hover:bg-red-50"
@@ -2962,12 +3726,41 @@ const doDeleteDealer = async () => {
         </Modal>
       )}
 
+      {/* Change history */}
+      {historyOpen && <DealerHistoryModal dealer={dealer} onClose={() => setHistoryOpen(false)} />}
+      {merge && (
+        <DealerMergeModal
+          base={merge.base}
+          mine={merge.mine}
+          server={merge.server}
+          saving={savingEdit}
+          onSave={(patch) => {
+            setMerge(null);
+            if (!Object.keys(patch).length) {
+              showToast("Kept the saved values.", "info");
+              resetEditDraft(merge.server);
+              stopEditing();
+              return;
+            }
+            // The retry must match the copy just merged against
+            saveEdit(patch, merge.server);
+          }}
+          onDiscard={() => {
+            resetEditDraft(merge.server);
+            stopEditing();
+            showToast("Your changes were discarded.", "info");
+          }}
+          onClose={() => setMerge(null)}
+        />
+      )}
+
       {/* Delete confirm modal */}
       {deleteOpen && (
         <Modal title="Delete Dealer (danger)" onClose={() => setDeleteOpen(false)}>
           <div className="space-y-3">
             <p className="text-sm text-slate-700">
-              This will permanently delete <strong>{dealer.name}</strong>, its notes, and tasks. Type the dealer name to confirm.
+              This moves <strong>{dealer.name}</strong> and its notes to the Trash. An Admin can restore it until the
+              retention period runs out. Type the dealer name to confirm.
             </p>
             <TextField label="Type dealer name to confirm" value={confirmText} onChange={setConfirmText} />
             <div className="flex justify-end gap-2">
@@ -3291,31 +4084,368 @@ const RepReportsView: React.FC<{
    Reporting view (unchanged logic, kept intact per your request)
 =========================================================================== */
 
-const ReportingView: React.FC<{
-  dealers: Dealer[];
-  users: User[];
-  notes: Note[];
-  session: { username: string; role: Role } | null;
-}> = ({ dealers, users, notes, session }) => {
-  const reps = users.filter((u) => u.role === "Rep");
-  const [repFilter, setRepFilter] = useState<RepFilter>("ALL");
-  const selectedRep = reps.find((r) => r.username === repFilter) || null;
+/* ---------------------------- Route adherence ----------------------------- */
+
+// Planned stops (dealer_routes) against Visit notes, per rep and day. A planned
+// stop counts as completed when the rep wrote a Visit note for that dealer that
+// day or checked out of the stop.
+type AdherenceDay = {
+  date: string;
+  completed: string[]; // dealer ids
+  skipped: string[];
+  unplanned: string[];
+  stops: Map<string, PlannedStop>;
+};
+type AdherenceRow = { rep: User; days: AdherenceDay[]; planned: number; completed: number; skipped: number; unplanned: number };
 
-  // NEW: modal controls for “Not Visited”
-  const [nvOpen, setNvOpen] = useState(false);
-  const [sendNoOpen, setSendNoOpen] = useState(false);
-  const [sendNoSearch, setSendNoSearch] = useState("");
-  // NEW: Dealer List modal
-  const [dlOpen, setDlOpen] = useState(false);
-  const [nvSort, setNvSort] = useState<"longest" | "recent">("longest"); // longest = oldest visit first
+const ADHERENCE_MAX_DAYS = 92;
 
-  // Helper: does rep "cover" dealer (override OR state/region coverage)
-  const repCoversDealer = (rep: User, d: Dealer) =>
-    d.assignedRepUsername === rep.username ||
-    (rep.states.includes(d.state) && (rep.regionsByState[d.state]?.includes(d.region) ?? false));
+const addDaysISO = (iso: string, delta: number) => {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + delta);
+  return d.toISOString().slice(0, 10);
+};
 
-  // Helper: pick the rep for a dealer (prefer explicit override; otherwise first covering rep)
-  const getRepForDealer = (d: Dealer): User | null => {
+const adherencePct = (completed: number, planned: number) => (planned ? `${Math.round((completed / planned) * 100)}%` : "—");
+
+const RouteAdherenceCard: React.FC<{
+  reps: User[];
+  dealers: Dealer[];
+  showToast: (m: string, k?: ToastKind) => void;
+}> = ({ reps, dealers, showToast }) => {
+  const today = todayISO();
+  const [from, setFrom] = useState(addDaysISO(today, -6));
+  const [to, setTo] = useState(today);
+  const [stops, setStops] = useState<PlannedStop[]>([]);
+  const [visits, setVisits] = useState<Note[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [openRep, setOpenRep] = useState<string | null>(null);
+  const [openDay, setOpenDay] = useState<string | null>(null);
+
+  const repKey = reps.map((r) => r.id).sort().join(",");
+  const authorKey = reps.map((r) => r.username).sort().join(",");
+  const tooLong = from > to || addDaysISO(from, ADHERENCE_MAX_DAYS) <= to;
+
+  useEffect(() => {
+    if (tooLong || !repKey) {
+      setStops([]);
+      setVisits([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      const [planned, notes] = await Promise.all([
+        routesRepo.listRange(repKey.split(","), from, to),
+        // Day boundaries match the route dates (UTC calendar days)
+        notesRepo.list({
+          category: "Visit",
+          authors: authorKey.split(","),
+          since: `${from}T00:00:00.000Z`,
+          until: `${addDaysISO(to, 1)}T00:00:00.000Z`,
+        }),
+      ]);
+      if (cancelled) return;
+      setLoading(false);
+      const error = planned.error || notes.error;
+      if (error) {
+        showToast(`Couldn't load route adherence: ${error.message}`, "error");
+        return;
+      }
+      setStops(planned.data);
+      setVisits(notes.data);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [repKey, authorKey, from, to, tooLong, showToast]);
+
+  const rows = useMemo<AdherenceRow[]>(() => {
+    return reps
+      .map((rep) => {
+        const byDay = new Map<string, { stops: Map<string, PlannedStop>; visited: Set<string> }>();
+        const day = (date: string) => {
+          let d = byDay.get(date);
+          if (!d) byDay.set(date, (d = { stops: new Map(), visited: new Set() }));
+          return d;
+        };
+        for (const s of stops) {
+          if (s.userId !== rep.id) continue;
+          day(s.date).stops.set(s.dealerId, s);
+          if (s.checkedOutAtISO) day(s.date).visited.add(s.dealerId);
+        }
+        for (const n of visits) {
+          if (n.authorUsername !== rep.username) continue;
+          day(n.tsISO.slice(0, 10)).visited.add(n.dealerId);
+        }
+
+        const days: AdherenceDay[] = Array.from(byDay.entries())
+          .sort(([a], [b]) => b.localeCompare(a))
+          .map(([date, d]) => {
+            const planned = Array.from(d.stops.values()).sort((a, b) => a.position - b.position).map((s) => s.dealerId);
+            return {
+              date,
+              completed: planned.filter((id) => d.visited.has(id)),
+              skipped: planned.filter((id) => !d.visited.has(id)),
+              unplanned: Array.from(d.visited).filter((id) => !d.stops.has(id)),
+              stops: d.stops,
+            };
+          });
+        const sum = (k: "completed" | "skipped" | "unplanned") => days.reduce((n, d) => n + d[k].length, 0);
+        return {
+          rep,
+          days,
+          planned: days.reduce((n, d) => n + d.stops.size, 0),
+          completed: sum("completed"),
+          skipped: sum("skipped"),
+          unplanned: sum("unplanned"),
+        };
+      })
+      .sort((a, b) => a.rep.name.localeCompare(b.rep.name));
+  }, [reps, stops, visits]);
+
+  const dealerName = (id: string) => dealers.find((d) => d.id === id)?.name || "(unknown dealer)";
+
+  const exportCSV = () => {
+    const out: (string | number)[][] = [
+      ["Date", "Rep", "Dealer", "City", "State", "Outcome", "Planned Position", "Checked In", "Checked Out"],
+    ];
+    for (const r of rows) {
+      for (const d of [...r.days].reverse()) {
+        const line = (id: string, outcome: string) => {
+          const dealer = dealers.find((x) => x.id === id);
+          const stop = d.stops.get(id);
+          out.push([
+            d.date,
+            r.rep.username,
+            dealer?.name || "",
+            dealer?.city || "",
+            dealer?.state || "",
+            outcome,
+            stop?.position ?? "",
+            stop?.checkedInAtISO || "",
+            stop?.checkedOutAtISO || "",
+          ]);
+        };
+        for (const id of d.stops.keys()) line(id, d.completed.includes(id) ? "Completed" : "Skipped");
+        for (const id of d.unplanned) line(id, "Unplanned");
+      }
+    }
+    const csv = out.map((row) => row.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(",")).join("\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `route-adherence-${from}-to-${to}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const totals = rows.reduce(
+    (t, r) => ({ planned: t.planned + r.planned, completed: t.completed + r.completed, unplanned: t.unplanned + r.unplanned }),
+    { planned: 0, completed: 0, unplanned: 0 }
+  );
+
+  const dealerList = (label: string, ids: string[], tone: string) =>
+    ids.length > 0 && (
+      <div>
+        <div className={`text-xs font-medium ${tone}`}>{label} ({ids.length})</div>
+        <ul className="text-sm text-slate-700 list-disc ml-5">
+          {ids.map((id) => (
+            <li key={id}>{dealerName(id)}</li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <Card
+      title="Route Adherence"
+      subtitle="Planned route stops against Visit notes and check-outs. Click a rep for their days, a day for its dealers."
+    >
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <TextField label="From" type="date" value={from} onChange={(v) => v && setFrom(v)} />
+        <TextField label="To" type="date" value={to} onChange={(v) => v && setTo(v)} />
+        <button
+          type="button"
+          onClick={exportCSV}
+          disabled={loading || rows.every((r) => !r.days.length)}
+          className="px-3 py-2 rounded-lg bg-slate-700 text-white text-xs sm:text-sm disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+        <div className="text-xs text-slate-500 ml-auto">
+          {loading
+            ? "Loading…"
+            : `${totals.completed} of ${totals.planned} planned stops completed (${adherencePct(totals.completed, totals.planned)}) · ${totals.unplanned} unplanned visits`}
+        </div>
+      </div>
+      {tooLong && (
+        <div className="text-sm text-amber-700 mb-2">Pick a range of up to {ADHERENCE_MAX_DAYS} days, ending on or after the start.</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b">
+              <th className="py-2 pr-3">Rep / Day</th>
+              <th className="py-2 pr-3 text-right">Planned</th>
+              <th className="py-2 pr-3 text-right">Completed</th>
+              <th className="py-2 pr-3 text-right">Skipped</th>
+              <th className="py-2 pr-3 text-right">Unplanned</th>
+              <th className="py-2 text-right">Adherence</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <React.Fragment key={r.rep.id}>
+                <tr
+                  className="border-b cursor-pointer hover:bg-slate-50"
+                  onClick={() => {
+                    setOpenRep(openRep === r.rep.id ? null : r.rep.id);
+                    setOpenDay(null);
+                  }}
+                >
+                  <td className="py-2 pr-3 font-medium">
+                    {openRep === r.rep.id ? "▾" : "▸"} {r.rep.name} <span className="text-slate-400">({r.rep.username})</span>
+                  </td>
+                  <td className="py-2 pr-3 text-right">{r.planned}</td>
+                  <td className="py-2 pr-3 text-right">{r.completed}</td>
+                  <td className="py-2 pr-3 text-right">{r.skipped}</td>
+                  <td className="py-2 pr-3 text-right">{r.unplanned}</td>
+                  <td className="py-2 text-right font-semibold">{adherencePct(r.completed, r.planned)}</td>
+                </tr>
+                {openRep === r.rep.id && r.days.length === 0 && (
+                  <tr className="border-b bg-slate-50">
+                    <td colSpan={6} className="py-2 pl-6 text-slate-500">No planned stops or visits in this range.</td>
+                  </tr>
+                )}
+                {openRep === r.rep.id &&
+                  r.days.map((d) => (
+                    <React.Fragment key={d.date}>
+                      <tr
+                        className="border-b bg-slate-50 cursor-pointer hover:bg-slate-100"
+                        onClick={() => setOpenDay(openDay === d.date ? null : d.date)}
+                      >
+                        <td className="py-1.5 pr-3 pl-6">{openDay === d.date ? "▾" : "▸"} {d.date}</td>
+                        <td className="py-1.5 pr-3 text-right">{d.stops.size}</td>
+                        <td className="py-1.5 pr-3 text-right">{d.completed.length}</td>
+                        <td className="py-1.5 pr-3 text-right">{d.skipped.length}</td>
+                        <td className="py-1.5 pr-3 text-right">{d.unplanned.length}</td>
+                        <td className="py-1.5 text-right">{adherencePct(d.completed.length, d.stops.size)}</td>
+                      </tr>
+                      {openDay === d.date && (
+                        <tr className="border-b">
+                          <td colSpan={6} className="py-2 pl-10">
+                            <div className="grid gap-3 md:grid-cols-3">
+                              {dealerList("Completed", d.completed, "text-emerald-700")}
+                              {dealerList("Skipped", d.skipped, "text-red-700")}
+                              {dealerList("Unplanned", d.unplanned, "text-indigo-700")}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+              </React.Fragment>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-4 text-center text-slate-500">No reps in view.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+const ReportingView: React.FC<{
+  dealers: Dealer[];
+  users: User[];
+  notes: Note[];
+  session: { username: string; role: Role } | null;
+  can: Can;
+  showToast: (m: string, k?: ToastKind) => void;
+  team: TeamView;
+  regions: RegionsCatalog;
+}> = ({ dealers: allDealers, users, notes: allNotes, session, can, showToast, team, regions }) => {
+  // Regional Managers report on their own coverage (RLS scopes the server reads
+  // the same way); everyone else sees the whole book.
+  const me = users.find((u) => u.username === session?.username) || null;
+  const isRegional = session?.role === "Regional Manager";
+  const dealers = useMemo(
+    () => (isRegional ? allDealers.filter((d) => !!me && coversDealer(me, d)) : allDealers),
+    [allDealers, isRegional, me]
+  );
+  const inScopeNotes = useCallback(
+    (list: Note[]) => {
+      if (!isRegional) return list;
+      const ids = new Set(dealers.map((d) => d.id));
+      return list.filter((n) => ids.has(n.dealerId));
+    },
+    [dealers, isRegional]
+  );
+  const notes = useMemo(() => inScopeNotes(allNotes), [allNotes, inScopeNotes]);
+  // ...and managers to their own team ("All Reps" = the team)
+  const reps = useMemo(
+    () =>
+      users.filter(
+        (u) =>
+          u.role === "Rep" &&
+          (!isRegional || (!!me && sharesTerritory(me, u))) &&
+          (!team.members || team.members.has(u.username))
+      ),
+    [users, isRegional, me, team.members]
+  );
+  const [repFilter, setRepFilter] = useState<RepFilter>("ALL");
+  const selectedRep = reps.find((r) => r.username === repFilter) || null;
+
+  // NEW: modal controls for “Not Visited”
+  const [nvOpen, setNvOpen] = useState(false);
+  const [sendNoOpen, setSendNoOpen] = useState(false);
+  const [sendNoSearch, setSendNoSearch] = useState("");
+  // NEW: Dealer List modal
+  const [dlOpen, setDlOpen] = useState(false);
+  const [nvSort, setNvSort] = useState<"longest" | "recent">("longest"); // longest = oldest visit first
+
+  // Territories as of a past date come from the closed rep_coverage rows;
+  // today's are already on the User objects.
+  const today = todayISO();
+  const [asOf, setAsOf] = useState(today);
+  const [coverageHistory, setCoverageHistory] = useState<CoverageHistoryRow[] | null>(null);
+  const isPast = !!asOf && asOf < today;
+  useEffect(() => {
+    if (!isPast || coverageHistory) return;
+    let cancelled = false;
+    (async () => {
+      const { data, error } = await coverageRepo.history();
+      if (cancelled) return;
+      if (error) {
+        showToast(`Couldn't load coverage history: ${error.message}`, "error");
+        setAsOf(today);
+        return;
+      }
+      setCoverageHistory(data);
+    })();
+    return () => { cancelled = true; };
+  }, [isPast, coverageHistory, showToast, today]);
+  const pastCoverage = useMemo(
+    () => (isPast && coverageHistory ? coverageAsOf(coverageHistory, asOf, regions) : null),
+    [isPast, coverageHistory, asOf, regions]
+  );
+
+  // Helper: does rep "cover" dealer (override OR state/region coverage)
+  const repCoversDealer = useCallback(
+    (rep: User, d: Dealer) =>
+      d.assignedRepUsername === rep.username ||
+      coversDealer(pastCoverage ? pastCoverage.get(rep.id) ?? { states: [], regionsByState: {} } : rep, d),
+    [pastCoverage]
+  );
+
+  // Helper: pick the rep for a dealer (prefer explicit override; otherwise first covering rep)
+  const getRepForDealer = (d: Dealer): User | null => {
     if (d.assignedRepUsername) {
       const u = reps.find((r) => r.username === d.assignedRepUsername);
       if (u) return u;
@@ -3325,10 +4455,10 @@ const ReportingView: React.FC<{
 
   // Dealers considered in current view
   const scopedDealers = useMemo(() => {
-    if (repFilter === "ALL") return dealers;
+    if (repFilter === "ALL") return team.members ? dealers.filter((d) => reps.some((r) => repCoversDealer(r, d))) : dealers;
     if (!selectedRep) return [];
     return dealers.filter((d) => repCoversDealer(selectedRep, d));
-  }, [dealers, repFilter, selectedRep]);
+  }, [dealers, repFilter, selectedRep, team.members, reps, repCoversDealer]);
 
   const statuses: DealerStatus[] = ["Active", "Pending", "Prospect", "Inactive", "Black Listed"];
 
@@ -3365,33 +4495,15 @@ useEffect(() => {
       const since = new Date(now.getFullYear(), now.getMonth() - 5, 1);
       const sinceISO = since.toISOString();
 
-      // Base query: last 6 months of Visit notes (small projection only)
-      let q = supabase
-        .from("dealer_notes")
-        .select("id,dealer_id,author_username,created_at,category,text", { count: "exact" })
-        .eq("category", "Visit")
-        .gte("created_at", sinceISO);
-
-      // (Optional) if a specific rep is selected, filter server-side
-      if (repFilter !== "ALL" && selectedRep) {
-        q = q.eq("author_username", selectedRep.username);
-      }
-
-      const { data, error } = await q;
+      // Last 6 months of Visit notes; if a specific rep is selected, filter server-side
+      const { data, error } = await notesRepo.list({
+        category: "Visit",
+        since: sinceISO,
+        author: repFilter !== "ALL" && selectedRep ? selectedRep.username : undefined,
+      });
       if (error) throw error;
 
-      if (!isCancelled) {
-        const mapped: Note[] =
-          (data || []).map((r: any) => ({
-            id: r.id,
-            dealerId: r.dealer_id,
-            authorUsername: r.author_username,
-            tsISO: r.created_at,
-            category: r.category,
-            text: r.text ?? ""
-          }));
-        setReportNotes(mapped);
-      }
+      if (!isCancelled) setReportNotes(data);
     } catch (e: any) {
       if (!isCancelled) setReportError(e.message || String(e));
     } finally {
@@ -3406,11 +4518,11 @@ useEffect(() => {
  // Notes scoped by selected rep (authored)
 // Prefer freshly-fetched reportNotes; fall back to existing notes while loading.
 const scopedNotes = useMemo(() => {
-  const source = reportNotes.length ? reportNotes : notes;
-  if (repFilter === "ALL") return source;
+  const source = reportNotes.length ? inScopeNotes(reportNotes) : notes;
+  if (repFilter === "ALL") return team.members ? source.filter((n) => team.members!.has(n.authorUsername)) : source;
   if (!selectedRep) return [];
   return source.filter((n) => n.authorUsername === selectedRep.username);
-}, [repFilter, selectedRep, reportNotes, notes]);
+}, [repFilter, selectedRep, reportNotes, notes, inScopeNotes, team.members]);
 
   // Visits last 30 days (authored)
   const visitsLast30 = useMemo(() => {
@@ -3726,15 +4838,22 @@ const monthlyVisits = useMemo(() => {
         <div>
           <div className="text-xl font-semibold text-slate-800">Reporting</div>
           <div className="text-sm text-slate-500">Activity, coverage, and visit cadence</div>
+          {isPast && (
+            <div className="text-xs text-amber-700 mt-1">
+              Territories as of {asOf}{coverageHistory ? "" : " (loading…)"}. Dealer assignment overrides are today's.
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          <AllTeamsToggle team={team} />
+          <TextField label="Coverage as of" type="date" value={asOf} onChange={(v) => setAsOf(v && v <= today ? v : today)} />
           <label className="text-sm text-slate-600">View:</label>
           <SelectField
             label="Rep"
             value={repFilter}
             onChange={(v) => setRepFilter((v || "ALL") as RepFilter)}
             options={[
-              { label: "All Reps", value: "ALL" },
+              { label: team.members ? "My Team" : "All Reps", value: "ALL" },
               ...reps.map((r) => ({
                 label: `${r.name} (${r.username})`,
                 value: r.username,
@@ -3748,6 +4867,8 @@ const monthlyVisits = useMemo(() => {
           >
             Dealer List
           </button>
+          {/* User managers also have it under User Management */}
+          {can("export.all") && !can("users.manage") && <ExportEverythingButton showToast={showToast} />}
         </div>
       </div>
 
@@ -3829,6 +4950,8 @@ const monthlyVisits = useMemo(() => {
         </div>
       </Card>
 
+      <RouteAdherenceCard reps={repFilter === "ALL" ? reps : selectedRep ? [selectedRep] : []} dealers={allDealers} showToast={showToast} />
+
       {/* Trends */}
       <div className="grid md:grid-cols-2 gap-4">
         <Card title="Visits — Last 6 Months">
@@ -3972,7 +5095,7 @@ const monthlyVisits = useMemo(() => {
         </Card>
       </div>
 {/* My Report Dashboard - for Managers/Admins */}
-{session && (session.role === "Manager" || session.role === "Admin") && (() => {
+{session && (() => {
   const currentUser = users.find(u => u.username === session.username);
   const hasReport = !!currentUser?.reportUrl;
   
@@ -4143,9 +5266,940 @@ const monthlyVisits = useMemo(() => {
 /* ---------------------------- User Management ----------------------------- */
 
 
+/* ------------------------------- Admin: trash ------------------------------- */
+const TrashView: React.FC<{
+  dealers: Dealer[];
+  setDealers: React.Dispatch<React.SetStateAction<Dealer[]>>;
+  showToast: (m: string, k?: ToastKind) => void;
+}> = ({ dealers, setDealers, showToast }) => {
+  const [trashedDealers, setTrashedDealers] = useState<Trashed<Dealer>[]>([]);
+  const [trashedNotes, setTrashedNotes] = useState<Trashed<Note>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [retentionDraft, setRetentionDraft] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [d, n, r] = await Promise.all([dealersRepo.listTrashed(), notesRepo.listTrashed(), settingsRepo.trashRetentionDays()]);
+    const err = d.error || n.error;
+    if (err) showToast(err.message || "Failed to load the trash.", "error");
+    setTrashedDealers(d.data);
+    setTrashedNotes(n.data);
+    setRetentionDays(r.data);
+    setRetentionDraft(String(r.data));
+    setLoading(false);
+  }, [showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const dealerName = (id: string) =>
+    dealers.find((d) => d.id === id)?.name || trashedDealers.find((d) => d.id === id)?.name || "Unknown dealer";
+  // Notes trashed along with their dealer come back when the dealer is restored
+  const trashedDealerIds = new Set(trashedDealers.map((d) => d.id));
+  const purgeDate = (iso: string) => new Date(Date.parse(iso) + retentionDays * 24 * 60 * 60 * 1000).toLocaleDateString();
+
+  const restoreDealer = async (d: Trashed<Dealer>) => {
+    const { error } = await dealersRepo.restore(d.id);
+    if (error) return showToast(error.message || "Restore failed.", "error");
+    const live: Dealer = { ...d };
+    delete (live as Partial<Trashed<Dealer>>).deletedAtISO;
+    delete (live as Partial<Trashed<Dealer>>).deletedBy;
+    setDealers((prev) => (prev.some((x) => x.id === d.id) ? prev : [...prev, live]));
+    setTrashedDealers((prev) => prev.filter((x) => x.id !== d.id));
+    setTrashedNotes((prev) => prev.filter((n) => !(n.dealerId === d.id && n.deletedAtISO === d.deletedAtISO)));
+    showToast(`Dealer "${d.name}" restored.`, "success");
+  };
+
+  const purgeDealer = async (d: Trashed<Dealer>) => {
+    if (!window.confirm(`Permanently delete "${d.name}", its notes and tasks? This cannot be undone.`)) return;
+    const { error } = await dealersRepo.remove(d.id);
+    if (error) return showToast(error.message || "Delete failed.", "error");
+    setTrashedDealers((prev) => prev.filter((x) => x.id !== d.id));
+    setTrashedNotes((prev) => prev.filter((n) => n.dealerId !== d.id));
+    showToast(`Dealer "${d.name}" permanently deleted.`, "success");
+  };
+
+  const restoreNote = async (n: Trashed<Note>) => {
+    const { error } = await notesRepo.restore(n.id);
+    if (error) return showToast(error.message || "Restore failed.", "error");
+    setTrashedNotes((prev) => prev.filter((x) => x.id !== n.id));
+    showToast("Note restored.", "success");
+  };
+
+  const purgeNote = async (n: Trashed<Note>) => {
+    if (!window.confirm("Permanently delete this note? This cannot be undone.")) return;
+    const { error } = await notesRepo.remove(n.id);
+    if (error) return showToast(error.message || "Delete failed.", "error");
+    setTrashedNotes((prev) => prev.filter((x) => x.id !== n.id));
+    showToast("Note permanently deleted.", "success");
+  };
+
+  const saveRetention = async () => {
+    const days = Math.floor(Number(retentionDraft));
+    if (!Number.isFinite(days) || days < 1 || days > 3650) {
+      return showToast("Retention must be between 1 and 3650 days.", "error");
+    }
+    const { error } = await settingsRepo.setTrashRetentionDays(days);
+    if (error) return showToast(error.message || "Failed to save retention.", "error");
+    setRetentionDays(days);
+    showToast(`Trash is now kept for ${days} days.`, "success");
+  };
+
+  const purgeExpired = async () => {
+    setBusy(true);
+    const { data, error } = await settingsRepo.purgeExpiredTrash();
+    setBusy(false);
+    if (error) return showToast(error.message || "Purge failed.", "error");
+    showToast(`Purged ${data?.dealers ?? 0} dealer(s) and ${data?.notes ?? 0} note(s).`, "success");
+    load();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card title="Trash" subtitle="Deleted dealers and notes are hidden everywhere else until restored or purged">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-40">
+            <TextField label="Keep deleted items (days)" type="number" value={retentionDraft} onChange={setRetentionDraft} />
+          </div>
+          <button className={`${brand.primary} text-white px-3 py-2 rounded-lg`} onClick={saveRetention}>
+            Save
+          </button>
+          <button
+            className="px-3 py-2 rounded-lg border border-red-600 text-red-700 hover:bg-red-50 disabled:opacity-60"
+            onClick={purgeExpired}
+            disabled={busy}
+            title="Items older than the retention window are also purged automatically every night"
+          >
+            {busy ? "Purging…" : "Purge expired now"}
+          </button>
+        </div>
+      </Card>
+
+      <Card title={`Dealers (${trashedDealers.length})`}>
+        <div className="overflow-auto rounded-lg border bg-white">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="text-left py-2 px-3 font-medium">Dealer</th>
+                <th className="text-left py-2 px-3 font-medium">Region</th>
+                <th className="text-left py-2 px-3 font-medium">Deleted by</th>
+                <th className="text-left py-2 px-3 font-medium">Deleted</th>
+                <th className="text-left py-2 px-3 font-medium">Purged on</th>
+                <th className="text-right py-2 px-3 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trashedDealers.map((d) => (
+                <tr key={d.id} className="border-t">
+                  <td className="py-1.5 px-2 md:py-2 md:px-3 font-medium text-slate-800">{d.name}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{d.region}, {d.state}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{d.deletedBy || "—"}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{new Date(d.deletedAtISO).toLocaleString()}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{purgeDate(d.deletedAtISO)}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3 text-right whitespace-nowrap">
+                    <button className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2" onClick={() => restoreDealer(d)}>
+                      Restore
+                    </button>
+                    <button className="px-2 py-1 rounded border border-red-600 text-red-700 hover:bg-red-50" onClick={() => purgeDealer(d)}>
+                      Delete forever
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!loading && trashedDealers.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-slate-500" colSpan={6}>
+                    No deleted dealers.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card title={`Notes (${trashedNotes.length})`}>
+        <div className="overflow-auto rounded-lg border bg-white">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="text-left py-2 px-3 font-medium">Dealer</th>
+                <th className="text-left py-2 px-3 font-medium">Note</th>
+                <th className="text-left py-2 px-3 font-medium">Author</th>
+                <th className="text-left py-2 px-3 font-medium">Deleted by</th>
+                <th className="text-left py-2 px-3 font-medium">Deleted</th>
+                <th className="text-right py-2 px-3 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trashedNotes.map((n) => {
+                const withDealer = trashedDealerIds.has(n.dealerId);
+                return (
+                  <tr key={n.id} className="border-t">
+                    <td className="py-1.5 px-2 md:py-2 md:px-3">{dealerName(n.dealerId)}</td>
+                    <td className="py-1.5 px-2 md:py-2 md:px-3">
+                      <span className="text-xs text-slate-500 mr-1">{n.category}</span>
+                      {n.text.length > 80 ? n.text.slice(0, 80) + "…" : n.text}
+                    </td>
+                    <td className="py-1.5 px-2 md:py-2 md:px-3">{n.authorUsername}</td>
+                    <td className="py-1.5 px-2 md:py-2 md:px-3">{n.deletedBy || "—"}</td>
+                    <td className="py-1.5 px-2 md:py-2 md:px-3">{new Date(n.deletedAtISO).toLocaleString()}</td>
+                    <td className="py-1.5 px-2 md:py-2 md:px-3 text-right whitespace-nowrap">
+                      {withDealer ? (
+                        <span className="text-xs text-slate-500">Restore the dealer</span>
+                      ) : (
+                        <>
+                          <button className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2" onClick={() => restoreNote(n)}>
+                            Restore
+                          </button>
+                          <button className="px-2 py-1 rounded border border-red-600 text-red-700 hover:bg-red-50" onClick={() => purgeNote(n)}>
+                            Delete forever
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {!loading && trashedNotes.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-slate-500" colSpan={6}>
+                    No deleted notes.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+/* --------------------------- Admin: dealer audit --------------------------- */
+const AUDIT_PAGE_SIZE = 25;
+
+const DealerAuditSearch: React.FC<{ users: User[] }> = ({ users }) => {
+  const [dealerQ, setDealerQ] = useState("");
+  const [actor, setActor] = useState("");
+  const [field, setField] = useState("");
+  const [fromDate, setFromDate] = useState(""); // YYYY-MM-DD, local
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [rows, setRows] = useState<DealerAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPage(1);
+  }, [dealerQ, actor, field, fromDate, toDate]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const localDay = (ymd: string, addDays = 0) => {
+      const [y, m, d] = ymd.split("-").map(Number);
+      return new Date(y, m - 1, d + addDays).toISOString();
+    };
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      const { data, error } = await auditRepo.search({
+        dealerName: dealerQ,
+        actor,
+        field,
+        since: fromDate ? localDay(fromDate) : undefined,
+        until: toDate ? localDay(toDate, 1) : undefined,
+        page,
+        pageSize: AUDIT_PAGE_SIZE,
+      });
+      if (isCancelled) return;
+      setLoading(false);
+      setError(error ? error.message || "Failed to load audit log." : null);
+      setRows(data.rows);
+      setTotal(data.total);
+    }, dealerQ ? 250 : 0);
+    return () => {
+      isCancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [dealerQ, actor, field, fromDate, toDate, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  return (
+    <Card title="Dealer Audit Log" subtitle="Every change to a dealer record, newest first">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-3">
+        <TextField label="Dealer" value={dealerQ} onChange={setDealerQ} placeholder="Name contains…" />
+        <SelectField
+          label="Changed by"
+          value={actor}
+          onChange={setActor}
+          options={[
+            { label: "Anyone", value: "" },
+            ...users.map((u) => ({ label: `${u.name || u.username} (${u.username})`, value: u.username })),
+          ]}
+        />
+        <SelectField
+          label="Field"
+          value={field}
+          onChange={setField}
+          options={[
+            { label: "Any field", value: "" },
+            ...Object.entries(AUDIT_FIELD_LABELS).map(([value, label]) => ({ label, value })),
+          ]}
+        />
+        <TextField label="From" type="date" value={fromDate} onChange={setFromDate} />
+        <TextField label="To" type="date" value={toDate} onChange={setToDate} />
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+
+      <div className="overflow-auto rounded-lg border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium">When</th>
+              <th className="text-left py-2 px-3 font-medium">Dealer</th>
+              <th className="text-left py-2 px-3 font-medium">Changed by</th>
+              <th className="text-left py-2 px-3 font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((e) => (
+              <tr key={e.id} className="border-t">
+                <td className="py-1.5 px-2 md:py-2 md:px-3 whitespace-nowrap">{new Date(e.changedAtISO).toLocaleString()}</td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3">{e.dealerName || e.dealerId}</td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3">{e.actorUsername || "system"}</td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3">{describeAudit(e)}</td>
+              </tr>
+            ))}
+            {!loading && rows.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-slate-500" colSpan={4}>
+                  No changes match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between">
+        <div className="text-sm text-slate-600">
+          {loading ? "Loading…" : `${total} change${total === 1 ? "" : "s"} · Page ${page} of ${pageCount}`}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            className="px-3 py-2 rounded-lg border border-slate-300 disabled:opacity-50"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+          >
+            Previous
+          </button>
+          <button
+            className="px-3 py-2 rounded-lg border border-slate-300 disabled:opacity-50"
+            onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+            disabled={page >= pageCount}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+/* -------------------------- Admin: pending invites -------------------------- */
+const INVITE_STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: "bg-blue-100 text-blue-700",
+  accepted: "bg-green-100 text-green-700",
+  expired: "bg-amber-100 text-amber-700",
+  revoked: "bg-slate-200 text-slate-700",
+};
+
+const PendingInvites: React.FC<{
+  refreshKey: number;
+  showToast: (m: string, k?: "success" | "error") => void;
+}> = ({ refreshKey, showToast }) => {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [includeClosed, setIncludeClosed] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await invitesRepo.list({ includeClosed });
+    setLoading(false);
+    if (error) return showToast(error.message || "Failed to load invites.", "error");
+    setInvites(data);
+  }, [includeClosed, showToast]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const callInviteApi = async (path: string, id: string, extra: Record<string, unknown> = {}) => {
+    setBusyId(id);
+    try {
+      const r = await apiPost(path, { id, ...extra });
+      const json: { error?: string; link?: string; emailed?: boolean; emailError?: string } = await r
+        .json()
+        .catch(() => ({}));
+      if (!r.ok) throw new Error(json?.error || "Request failed");
+      return json;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resend = async (inv: Invite, send = false) => {
+    try {
+      const json = await callInviteApi("/api/resend-invite", inv.id, { send });
+      if (json?.emailed) {
+        showToast(`New link emailed to ${inv.email}.`, "success");
+        return load();
+      }
+      try {
+        if (json?.link) await navigator.clipboard.writeText(json.link);
+        if (json?.emailError) showToast(`Email failed (${json.emailError}); link copied instead.`, "error");
+        else showToast(`New link for ${inv.email} copied to clipboard.`, "success");
+      } catch {
+        window.prompt(`New invite link for ${inv.email}:`, json?.link || "");
+      }
+      load();
+    } catch (e) {
+      showToast(errorMessage(e, "Resend failed."), "error");
+    }
+  };
+
+  const revoke = async (inv: Invite) => {
+    if (!window.confirm(`Revoke the invite for ${inv.email}? The link they have will stop working.`)) return;
+    try {
+      await callInviteApi("/api/revoke-invite", inv.id);
+      showToast(`Invite for ${inv.email} revoked.`, "success");
+      load();
+    } catch (e) {
+      showToast(errorMessage(e, "Revoke failed."), "error");
+    }
+  };
+
+  return (
+    <Card title="Pending Invites" subtitle="Links sent from Add/Edit User. Expired invites can be re-sent.">
+      <label className="inline-flex items-center gap-2 text-sm mb-3">
+        <input type="checkbox" checked={includeClosed} onChange={(e) => setIncludeClosed(e.target.checked)} />
+        Show accepted and revoked
+      </label>
+      <div className="overflow-auto rounded-lg border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium">Email</th>
+              <th className="text-left py-2 px-3 font-medium">Username</th>
+              <th className="text-left py-2 px-3 font-medium">Invited by</th>
+              <th className="text-left py-2 px-3 font-medium">Last sent</th>
+              <th className="text-left py-2 px-3 font-medium">Expires</th>
+              <th className="text-left py-2 px-3 font-medium">Status</th>
+              <th className="text-right py-2 px-3 font-medium">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invites.map((inv) => {
+              const canResend = inv.status === "pending" || inv.status === "expired";
+              return (
+                <tr key={inv.id} className="border-t">
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">
+                    {inv.email}
+                    {inv.mode === "recovery" && <div className="text-xs text-slate-500">Existing account (password reset link)</div>}
+                  </td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{inv.username || "—"}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">{inv.invitedByUsername || "—"}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3 whitespace-nowrap">
+                    {new Date(inv.lastSentAtISO).toLocaleString()}
+                    {inv.sendCount > 1 && <span className="text-xs text-slate-500"> · sent {inv.sendCount}×</span>}
+                    {inv.lastEmailedAtISO && (
+                      <div className="text-xs text-slate-500">Emailed {new Date(inv.lastEmailedAtISO).toLocaleString()}</div>
+                    )}
+                  </td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3 whitespace-nowrap">
+                    {inv.status === "accepted" && inv.acceptedAtISO
+                      ? `Accepted ${new Date(inv.acceptedAtISO).toLocaleDateString()}`
+                      : inv.status === "revoked"
+                        ? `Revoked${inv.revokedByUsername ? ` by ${inv.revokedByUsername}` : ""}`
+                        : new Date(inv.expiresAtISO).toLocaleString()}
+                  </td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${INVITE_STATUS_STYLES[inv.status]}`}>
+                      {inv.status}
+                    </span>
+                  </td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3 text-right whitespace-nowrap">
+                    {canResend && (
+                      <button
+                        className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2 disabled:opacity-50"
+                        onClick={() => resend(inv)}
+                        disabled={busyId === inv.id}
+                      >
+                        Resend
+                      </button>
+                    )}
+                    {canResend && (
+                      <button
+                        className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2 disabled:opacity-50"
+                        onClick={() => resend(inv, true)}
+                        disabled={busyId === inv.id}
+                        title="Send a new link to this address by email"
+                      >
+                        Email
+                      </button>
+                    )}
+                    {inv.status === "pending" && (
+                      <button
+                        className="px-2 py-1 rounded border border-red-600 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                        onClick={() => revoke(inv)}
+                        disabled={busyId === inv.id}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {!loading && invites.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-slate-500" colSpan={7}>
+                  No invites waiting to be accepted.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+// Offboarding: shows what a user owns and hands it to a successor (optionally
+// per region) in one offboard_user() call, then deactivates or removes them.
+type OffboardPlan = {
+  successorId: string;
+  regionSuccessors: Record<string, string>; // offboardRegionKey -> profile id
+  then: "deactivate" | "remove";
+};
+
+const OffboardWizard: React.FC<{
+  user: User;
+  users: User[];
+  showToast: (m: string, k?: "success" | "error") => void;
+  onClose: () => void;
+  onDone: (plan: OffboardPlan, result: OffboardResult | null) => Promise<void>;
+}> = ({ user, users, showToast, onClose, onDone }) => {
+  const [summary, setSummary] = useState<OffboardSummary | null>(null);
+  const [step, setStep] = useState<1 | 2>(1);
+  const [successorId, setSuccessorId] = useState("");
+  const [regionSuccessors, setRegionSuccessors] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    offboardRepo.summary(user.id).then(({ data, error }) => {
+      if (error || !data) {
+        showToast(error?.message || "Couldn't load what this user owns.", "error");
+        return onClose();
+      }
+      setSummary(data);
+    });
+  }, [user.id, onClose, showToast]);
+
+  const successors = users.filter(
+    (u) => u.id !== user.id && (u.role === "Rep" || u.role === "Manager") && (u.status || "Active") === "Active"
+  );
+  const nameOf = (id: string) => {
+    const u = users.find((x) => x.id === id);
+    return u ? u.name?.trim() || u.username : "—";
+  };
+  const owns =
+    !!summary &&
+    summary.dealers + summary.openTasks + summary.upcomingStops + summary.presets + summary.directReports > 0;
+  const remapped = Object.values(regionSuccessors).filter(Boolean).length;
+
+  const finish = async (then: OffboardPlan["then"]) => {
+    if (then === "remove" && !window.confirm(`Permanently remove ${user.name || user.username}? This can't be undone.`)) return;
+    const plan: OffboardPlan = {
+      successorId,
+      // Drop "use the default" entries; the server maps the rest
+      regionSuccessors: Object.fromEntries(Object.entries(regionSuccessors).filter(([, id]) => id)),
+      then,
+    };
+    setBusy(true);
+    try {
+      let result: OffboardResult | null = null;
+      if (owns) {
+        const { data, error } = await offboardRepo.transfer(user.id, plan.successorId, plan.regionSuccessors, then === "deactivate");
+        if (error) throw error;
+        result = data;
+      }
+      await onDone(plan, result);
+      onClose();
+    } catch (e) {
+      // offboard_user is one transaction: on failure nothing moved
+      showToast(errorMessage(e, "Transfer failed; nothing was changed."), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const countRow = (label: string, n: number) => (
+    <li className="flex justify-between border-b last:border-b-0 py-1.5">
+      <span>{label}</span>
+      <span className={n ? "font-semibold" : "text-slate-400"}>{n}</span>
+    </li>
+  );
+
+  return (
+    <Modal title={`Offboard ${user.name?.trim() || user.username}`} onClose={busy ? () => {} : onClose}>
+      {!summary ? (
+        <div className="text-slate-500">Loading what {user.username} owns…</div>
+      ) : step === 1 ? (
+        <div className="space-y-4">
+          <ul className="text-sm rounded-lg border bg-white px-3">
+            {countRow("Dealers assigned", summary.dealers)}
+            {countRow("Open tasks", summary.openTasks)}
+            {countRow("Upcoming route stops", summary.upcomingStops)}
+            {countRow("Route presets", summary.presets)}
+            {countRow("Direct reports", summary.directReports)}
+          </ul>
+
+          {owns ? (
+            <>
+              <SelectField
+                label="Successor (gets everything not re-mapped below)"
+                value={successorId}
+                onChange={setSuccessorId}
+                options={[
+                  { label: "Choose a rep…", value: "" },
+                  ...successors.map((u) => ({ label: `${u.name?.trim() || u.username} (${u.role})`, value: u.id })),
+                ]}
+              />
+
+              {summary.dealersByRegion.length > 1 && (
+                <div>
+                  <div className="text-sm font-medium text-slate-700 mb-1">Re-map by region (optional)</div>
+                  <div className="overflow-auto rounded-lg border bg-white max-h-64">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-50 text-slate-600">
+                        <tr>
+                          <th className="text-left py-2 px-3 font-medium">Region</th>
+                          <th className="text-left py-2 px-3 font-medium">Dealers</th>
+                          <th className="text-left py-2 px-3 font-medium">Goes to</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {summary.dealersByRegion.map((g) => {
+                          const key = offboardRegionKey(g.state, g.region);
+                          return (
+                            <tr key={key} className="border-t">
+                              <td className="py-1.5 px-2 md:py-2 md:px-3">
+                                {g.region} — {g.state}
+                              </td>
+                              <td className="py-1.5 px-2 md:py-2 md:px-3">{g.count}</td>
+                              <td className="py-1.5 px-2 md:py-2 md:px-3">
+                                <select
+                                  className="border rounded-lg px-2 py-1 text-sm"
+                                  value={regionSuccessors[key] || ""}
+                                  onChange={(e) => setRegionSuccessors((m) => ({ ...m, [key]: e.target.value }))}
+                                >
+                                  <option value="">Successor</option>
+                                  {successors.map((u) => (
+                                    <option key={u.id} value={u.id}>
+                                      {u.name?.trim() || u.username}
+                                    </option>
+                                  ))}
+                                </select>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">Open tasks follow their dealer's region.</div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-sm text-slate-600">Nothing to transfer.</div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className={`${brand.primary} text-white px-3 py-2 rounded-lg disabled:opacity-50`}
+              disabled={owns && !successorId}
+              onClick={() => setStep(2)}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {owns ? (
+            <div className="text-sm text-slate-700">
+              Everything {user.username} owns goes to <span className="font-semibold">{nameOf(successorId)}</span>
+              {remapped > 0 && <> except dealers and tasks in the {remapped} re-mapped region{remapped === 1 ? "" : "s"}</>}. Upcoming
+              stops are added after the successor's own; completed tasks and past stops stay as history. The transfer is
+              all-or-nothing.
+            </div>
+          ) : (
+            <div className="text-sm text-slate-700">{user.username} owns nothing, so there is nothing to transfer.</div>
+          )}
+          <div className="flex flex-wrap justify-end gap-2">
+            <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" disabled={busy} onClick={() => setStep(1)}>
+              Back
+            </button>
+            <button
+              className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              disabled={busy}
+              onClick={() => finish("deactivate")}
+            >
+              {owns ? "Transfer & deactivate" : "Deactivate"}
+            </button>
+            <button
+              className="px-3 py-2 rounded-lg border border-red-600 text-red-700 hover:bg-red-50 disabled:opacity-50"
+              disabled={busy}
+              onClick={() => finish("remove")}
+            >
+              {owns ? "Transfer & remove" : "Remove"}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// Audit trail for "View as" (impersonation_sessions), newest first.
+const ViewAsHistory: React.FC<{ showToast: (m: string, k?: "success" | "error") => void }> = ({ showToast }) => {
+  const [sessions, setSessions] = useState<ImpersonationSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    impersonationRepo.list().then(({ data, error }) => {
+      setLoading(false);
+      if (error) return showToast(error.message || "Failed to load View as history.", "error");
+      setSessions(data);
+    });
+  }, [showToast]);
+
+  return (
+    <Card title="View as History" subtitle="Every time an Admin browsed as another user.">
+      <div className="overflow-auto rounded-lg border bg-white max-h-72">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium">Admin</th>
+              <th className="text-left py-2 px-3 font-medium">Viewed as</th>
+              <th className="text-left py-2 px-3 font-medium">Started</th>
+              <th className="text-left py-2 px-3 font-medium">Ended</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.map((s) => (
+              <tr key={s.id} className="border-t">
+                <td className="py-1.5 px-2 md:py-2 md:px-3">{s.adminUsername}</td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3">
+                  {s.targetUsername}
+                  {s.targetRole && <span className="text-xs text-slate-500"> · {s.targetRole}</span>}
+                </td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3 whitespace-nowrap">{new Date(s.startedAtISO).toLocaleString()}</td>
+                <td className="py-1.5 px-2 md:py-2 md:px-3 whitespace-nowrap">
+                  {s.endedAtISO ? new Date(s.endedAtISO).toLocaleString() : <span className="text-slate-500">Not exited</span>}
+                </td>
+              </tr>
+            ))}
+            {!loading && sessions.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-slate-500" colSpan={4}>
+                  Nobody has used View as yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+// Admin editor for role_capabilities. Toggles save immediately; the API and
+// RLS read the same rows, so a change applies to the next request.
+const CapabilityMatrixCard: React.FC<{
+  capabilities: CapabilityMatrix;
+  setCapabilities: React.Dispatch<React.SetStateAction<CapabilityMatrix>>;
+  showToast: (m: string, k?: "success" | "error") => void;
+}> = ({ capabilities, setCapabilities, showToast }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const toggle = async (role: Role, cap: Capability, grant: boolean) => {
+    const key = `${role}:${cap}`;
+    setBusy(key);
+    const { error } = grant ? await capabilitiesRepo.grant(role, cap) : await capabilitiesRepo.revoke(role, cap);
+    setBusy(null);
+    if (error) return showToast(error.message || "Could not update permissions.", "error");
+    setCapabilities((prev) => ({
+      ...prev,
+      [role]: grant ? [...prev[role].filter((c) => c !== cap), cap] : prev[role].filter((c) => c !== cap),
+    }));
+  };
+
+  return (
+    <Card title="Role Permissions" subtitle="What each role can do. Admins always have every permission.">
+      <div className="overflow-auto rounded-lg border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium">Permission</th>
+              {ROLES.map((r) => (
+                <th key={r} className="text-center py-2 px-3 font-medium">{r}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {CAPABILITIES.map((c) => (
+              <tr key={c.key} className="border-t">
+                <td className="py-1.5 px-2 md:py-2 md:px-3">
+                  <div className="text-slate-800">{c.label}</div>
+                  {c.description && <div className="text-xs text-slate-500">{c.description}</div>}
+                </td>
+                {ROLES.map((r) => {
+                  const locked = LOCKED_ROLES.includes(r);
+                  return (
+                    <td key={r} className="py-1.5 px-2 md:py-2 md:px-3 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${c.label} for ${r}`}
+                        checked={locked || capabilities[r].includes(c.key)}
+                        disabled={locked || busy === `${r}:${c.key}`}
+                        onChange={(e) => toggle(r, c.key, e.target.checked)}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+// ---- Export Everything (ZIP) ----
+// export.all only. The server scopes a Regional Manager's export to their coverage.
+const ExportEverythingButton: React.FC<{ showToast: (m: string, k?: "success" | "error") => void }> = ({ showToast }) => {
+  const [exportingAll, setExportingAll] = useState(false);
+
+  async function exportEverythingZip() {
+    try {
+      setExportingAll(true);
+      const resp = await apiPost("/api/export-everything");
+
+      if (!resp.ok) {
+        let msg = "Export failed.";
+        try {
+          const j: { error?: string } = await resp.json();
+          if (j?.error) msg = j.error;
+        } catch {
+          // Not JSON (e.g. a platform timeout page): keep the generic message
+        }
+        showToast(msg, "error");
+        return;
+      }
+
+      const blob = await resp.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-");
+      a.download = `dealernotes-export_${stamp}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      showToast("Export ready.", "success");
+    } catch (e) {
+      showToast(errorMessage(e, "Export failed."), "error");
+    } finally {
+      setExportingAll(false);
+    }
+  }
+
+  return (
+    <button
+      className="px-3 py-2 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50 disabled:opacity-60"
+      onClick={exportEverythingZip}
+      disabled={exportingAll}
+      type="button"
+      title="Download all tables (CSV) inside one .zip"
+    >
+      {exportingAll ? "Exporting…" : "Export Everything"}
+    </button>
+  );
+};
+
+// Minimal RFC-4180 CSV parser (handles quotes and commas) for the CSV imports
+const parseCSV = (src: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let i = 0;
+  let inQuotes = false;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        const next = src[i + 1];
+        if (next === '"') {
+          // Escaped quote
+          field += '"';
+          i += 2;
+          continue;
+        } else {
+          inQuotes = false;
+          i += 1;
+          continue;
+        }
+      } else {
+        field += ch;
+        i += 1;
+        continue;
+      }
+    } else {
+      if (ch === '"') { inQuotes = true; i += 1; continue; }
+      if (ch === ',')  { row.push(field); field = ""; i += 1; continue; }
+      if (ch === '\r') { i += 1; continue; }
+      if (ch === '\n') { row.push(field); rows.push(row); row = []; field = ""; i += 1; continue; }
+      field += ch; i += 1; continue;
+    }
+  }
+  // flush last field/row
+  row.push(field);
+  rows.push(row);
+  return rows
+    .map(r => r.map(c => c.replace(/^\s+|\s+$/g, ""))) // trim
+    .filter(r => r.some(c => c.length > 0));           // drop empty rows
+};
+
 function UserManagementView(
   {
-    users, setUsers, regions, setRegions, dealers, setDealers, notes, showToast
+    users, setUsers, regions, setRegions, dealers, setDealers, notes, showToast, can, capabilities, setCapabilities, onViewAs
   }: {
     users: User[];
     setUsers: React.Dispatch<React.SetStateAction<User[]>>;
@@ -4155,6 +6209,10 @@ function UserManagementView(
     setDealers: React.Dispatch<React.SetStateAction<Dealer[]>>;
     notes: Note[];
     showToast: (m: string, k?: "success" | "error") => void;
+    can: Can;
+    capabilities: CapabilityMatrix;
+    setCapabilities: React.Dispatch<React.SetStateAction<CapabilityMatrix>>;
+    onViewAs: (u: User) => void;
   }
 ) {
   // ---------- Utils: CSV ----------
@@ -4173,52 +6231,6 @@ function UserManagementView(
     URL.revokeObjectURL(url);
   };
 
-// ---- Export Everything (ZIP) ----
-const [exportingAll, setExportingAll] = useState(false);
-
-async function exportEverythingZip() {
-  try {
-    setExportingAll(true);
-    // get current Supabase access token so the API knows who we are
-    const { data: sess } = await supabase.auth.getSession();
-    const token = sess?.session?.access_token;
-    if (!token) {
-      showToast("Please log in again.", "error");
-      setExportingAll(false);
-      return;
-    }
-
-    const resp = await fetch("/api/export-everything", {
-      method: "POST",
-      headers: { Authorization: `Bearer ${token}` },
-    });
-
-    if (!resp.ok) {
-      let msg = "Export failed.";
-      try { const j = await resp.json(); if (j?.error) msg = j.error; } catch {}
-      showToast(msg, "error");
-      setExportingAll(false);
-      return;
-    }
-
-    const blob = await resp.blob();
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-");
-    a.download = `dealernotes-export_${stamp}.zip`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
-    showToast("Export ready.", "success");
-  } catch (e: any) {
-    showToast(e?.message || "Export failed.", "error");
-  } finally {
-    setExportingAll(false);
-  }
-}
-
   // ---------- Status & auth side-maps ----------
   const [statusMap, setStatusMap] = useState<Record<string, "Active" | "Inactive">>(() => loadLS(LS_USER_STATUS, {}));
   useEffect(() => saveLS(LS_USER_STATUS, statusMap), [statusMap]);
@@ -4375,34 +6387,21 @@ const saveUser = async () => {
 
     // 2a) Update basic profile fields (username/email/role/status)
     if (emailForProfile) {
+      const profilePatch: Partial<User> = {
+        username: draft.username,
+        email: emailForProfile,
+        role: draft.role,
+        status: chosenStatus,
+        name: draft.name,
+        reportUrl: draft.reportUrl,
+        managerId: draft.managerId,
+      };
       if (isUUID) {
-        const { error } = await supabase
-        .from("profiles")
-        .update({
-          username: draft.username,
-          email: emailForProfile || null,
-          role: draft.role,
-          status: chosenStatus,
-          name: draft.name,
-          report_url: draft.reportUrl || null,
-        })
-        .eq("id", editingId);        
+        const { error } = await profilesRepo.update(editingId!, profilePatch);
         if (error) throw error;
       } else {
    // Fallback: update by email and learn their id (tolerant of 0 rows)
-const { data, error, status } = await supabase
-.from("profiles")
-.update({
-  username: draft.username,
-  email: emailForProfile || null,
-  role: draft.role,
-  status: chosenStatus,
-  name: draft.name,
-  report_url: draft.reportUrl || null,
-})
-.eq("email", emailForProfile)
-.select("id")
-.maybeSingle();
+const { data, error } = await profilesRepo.updateByEmail(emailForProfile, profilePatch);
 
 if (error) {
 // If PostgREST hints multiple rows, tell the admin (shouldn’t happen after uniqueness)
@@ -4413,40 +6412,28 @@ showToast(error.message || "Profile update failed (email not unique?)", "error")
 showToast("User invited. Profile will appear after first login.", "success");
 targetUserId = null;
 } else {
-targetUserId = (data as any)?.id ?? null;
+targetUserId = data;
 }
       }
     }
 
     // 2b) Save Rep coverage (state+region) if we know their real user id
     if (targetUserId) {
-      // Remove old coverage rows
-      const { error: delErr } = await supabase.from("rep_coverage").delete().eq("user_id", targetUserId);
-      if (delErr) throw delErr;
-
-      // Build rows from the modal selections
-      const rows: { user_id: string; state: string; region: string }[] = [];
-      for (const st of draft.states || []) {
-        const rgs = draft.regionsByState?.[st] || [];
-        for (const rg of rgs) {
-          rows.push({ user_id: targetUserId, state: st, region: rg });
-        }
-      }
-
-      if (rows.length) {
-        const { error: upErr } = await supabase
-          .from("rep_coverage")
-          .upsert(rows, { onConflict: "user_id,state,region" });
-        if (upErr) throw upErr;
-      }
+      // Replace coverage rows with the modal selections
+      const { error: covErr } = await coverageRepo.replaceForUser(targetUserId, {
+        states: draft.states || [],
+        regionsByState: draft.regionsByState || {},
+      });
+      if (covErr) throw covErr;
     }
   } catch (err: any) {
     console.error(err);
     showToast(err?.message || "Failed to save to server.", "error");
   }
 };
-  // ---- NEW: Remove confirmation modal ----
-  const [confirmRemove, setConfirmRemove] = useState<User | null>(null);
+  // ---- Offboarding wizard (transfer, then deactivate or remove) ----
+  const [offboarding, setOffboarding] = useState<User | null>(null);
+  const closeOffboarding = useCallback(() => setOffboarding(null), []);
 
   // Was: removeUser(id) -> now internal “performRemove” used after confirm
   const performRemove = async (id: string) => {
@@ -4456,11 +6443,7 @@ targetUserId = (data as any)?.id ?? null;
     const isUUID = /^[0-9a-fA-F-]{36}$/.test(id);
     if (isUUID) {
       try {
-        const r = await fetch('/api/admin-delete-user', {
-          method: 'POST',
-          headers: { 'content-type': 'application/json' },
-          body: JSON.stringify({ id }),
-        });
+        const r = await apiPost('/api/admin-delete-user', { id });
         const json = (await r.json().catch(() => ({} as any))) as any;
         if (!r.ok) throw new Error(json?.error || 'Failed to delete on server');
       } catch (e: any) {
@@ -4469,14 +6452,8 @@ targetUserId = (data as any)?.id ?? null;
       }
     }
 
-    // 2) Local clean-up (your original logic)
+    // 2) Local clean-up
     if (u) {
-      const pwMap = loadLS<PasswordMap>(LS_PASSWORDS, {});
-      const disabledMap = loadLS<Record<string, string>>(LS_DISABLED_PASSWORDS, {});
-      delete pwMap[u.username];
-      delete disabledMap[u.username];
-      saveLS(LS_PASSWORDS, pwMap);
-      saveLS(LS_DISABLED_PASSWORDS, disabledMap);
       setStatusMap((m) => {
         const n = { ...m };
         delete n[u.username];
@@ -4487,8 +6464,43 @@ targetUserId = (data as any)?.id ?? null;
     showToast('User removed.', 'success');
   };
 
-// Only in EDIT: Generate + Copy invite link via serverless API
-const generateInvite = async () => {
+  // Mirror what offboard_user() did server-side, then deactivate or remove
+  const finishOffboarding = async (u: User, plan: OffboardPlan, result: OffboardResult | null) => {
+    const label = u.name?.trim() || u.username;
+    let moved = "";
+    if (result) {
+      const usernameOf = (id?: string) => users.find((x) => x.id === id)?.username;
+      const successor = usernameOf(plan.successorId);
+      setDealers((prev) =>
+        prev.map((d) =>
+          d.assignedRepUsername !== u.username
+            ? d
+            : { ...d, assignedRepUsername: usernameOf(plan.regionSuccessors[offboardRegionKey(d.state, d.region)]) || successor }
+        )
+      );
+      setUsers((prev) =>
+        prev.map((x) => (x.managerId !== u.id ? x : { ...x, managerId: x.id === plan.successorId ? u.managerId : plan.successorId }))
+      );
+      moved = `Moved ${result.dealers} dealers, ${result.openTasks} open tasks, ${result.stops} stops and ${result.presets} presets. `;
+    }
+
+    if (plan.then === "remove") {
+      if (moved) showToast(moved.trim(), "success");
+      return performRemove(u.id);
+    }
+    // offboard_user() deactivates in the same transaction; with nothing to move we do it here
+    if (!result) {
+      const { error } = await profilesRepo.update(u.id, { status: "Inactive" });
+      if (error) throw error;
+    }
+    setStatusMap((m) => ({ ...m, [u.username]: "Inactive" }));
+    setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, status: "Inactive" } : x)));
+    showToast(`${moved}${label} deactivated.`, "success");
+  };
+
+// Only in EDIT: Generate + Copy invite link via serverless API.
+// With send=true the server also emails the link (invite or reset template).
+const generateInvite = async (send = false) => {
   try {
     // get email from the new Email field; fall back to username only if it looks like an email
     const emailFromForm = (draft?.email || '').trim();
@@ -4501,13 +6513,10 @@ const generateInvite = async () => {
     }
 
    // Call the API route
-const r = await fetch('/api/generate-invite', {
-  method: 'POST',
-  headers: { 'content-type': 'application/json' },
-  body: JSON.stringify({
-    email,
-    metadata: { username: (draft.username || '').trim() }, // pass the admin-picked username
-  }),
+const r = await apiPost('/api/generate-invite', {
+  email,
+  metadata: { username: (draft.username || '').trim(), role: draft.role }, // shown in the email
+  send,
 });
 
 const json = (await r.json().catch(() => ({} as any))) as any;
@@ -4523,10 +6532,16 @@ const link: string | undefined =
     if (link) {
       // store full link; the inviteUrl getter above will use it directly
       setInviteToken(link);
+      setInvitesRefreshKey((k) => k + 1);
 
+      if (json?.emailed) {
+        showToast(`${json.mode === 'recovery' ? 'Password reset' : 'Invite'} email sent to ${email}.`, 'success');
+        return;
+      }
       try {
         await navigator.clipboard.writeText(link);
-        showToast('Invite link copied to clipboard.', 'success');
+        if (json?.emailError) showToast(`Email failed (${json.emailError}); link copied instead.`, 'error');
+        else showToast('Invite link copied to clipboard.', 'success');
       } catch {
         showToast('Invite created (copy failed). Link shown below.', 'success');
       }
@@ -4538,6 +6553,8 @@ const link: string | undefined =
   }
 };
 
+const [invitesRefreshKey, setInvitesRefreshKey] = useState(0);
+
 const copyInvite = async () => {
   if (!inviteUrl) return;
   try {
@@ -4547,29 +6564,11 @@ const copyInvite = async () => {
     showToast('Unable to copy; select and copy manually.', 'error');
   }
 };
-  // Activate/Deactivate: move password in/out of active store to block/allow login
+  // Activate/Deactivate: saved to profiles.status with the user; the server
+  // then bans (or unbans) the auth user and signs them out everywhere
   const setStatusForUser = (u: User, status: "Active" | "Inactive") => {
-    const pwMap = loadLS<PasswordMap>(LS_PASSWORDS, {});
-    const disabledMap = loadLS<Record<string, string>>(LS_DISABLED_PASSWORDS, {});
-    if (status === "Inactive") {
-      if (pwMap[u.username]) {
-        // move active pw -> disabled bucket
-        disabledMap[u.username] = pwMap[u.username];
-        delete pwMap[u.username];
-        saveLS(LS_PASSWORDS, pwMap);
-        saveLS(LS_DISABLED_PASSWORDS, disabledMap);
-      }
-    } else {
-      // Active: if has disabled pw, restore it
-      if (disabledMap[u.username]) {
-        pwMap[u.username] = disabledMap[u.username];
-        delete disabledMap[u.username];
-        saveLS(LS_PASSWORDS, pwMap);
-        saveLS(LS_DISABLED_PASSWORDS, disabledMap);
-      }
-    }
     setStatusMap((m) => ({ ...m, [u.username]: status }));
-    showToast(`Status set to ${status} for ${u.name}.`, "success");
+    showToast(`${u.name} will be ${status} once you save.`, "success");
   };
 
   // ---------- Regions catalog & Import/Export ----------
@@ -4685,17 +6684,13 @@ const moveDealers = async () => {
   try {
     // 1) Update matching dealers in Supabase
     // NOTE: this updates *all* dealers in the source state+region
-    const { data, error } = await supabase
-      .from("dealers")
-      .update({ state: toState, region: toRegion })
-      .eq("state", fromState)
-      .eq("region", fromRegion)
-      .select("id"); // return the ids we changed
+    const { data: movedIds, error } = await dealersRepo.moveRegion(
+      { state: fromState, region: fromRegion },
+      { state: toState, region: toRegion }
+    );
 
     if (error) throw error;
 
-    const movedIds = (data ?? []).map((r: any) => String(r.id));
-
     // 2) Mirror the changes in local React state, so the UI reflects immediately
     if (movedIds.length > 0) {
       setDealers(prev =>
@@ -4791,51 +6786,6 @@ const handleImportDealers = async (file?: File | null) => {
     // Remove BOM if present
     if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
 
-    // --- Minimal RFC-4180 CSV parser (handles quotes and commas) ---
-    const parseCSV = (src: string): string[][] => {
-      const rows: string[][] = [];
-      let row: string[] = [];
-      let field = "";
-      let i = 0;
-      let inQuotes = false;
-
-      while (i < src.length) {
-        const ch = src[i];
-
-        if (inQuotes) {
-          if (ch === '"') {
-            const next = src[i + 1];
-            if (next === '"') {
-              // Escaped quote
-              field += '"';
-              i += 2;
-              continue;
-            } else {
-              inQuotes = false;
-              i += 1;
-              continue;
-            }
-          } else {
-            field += ch;
-            i += 1;
-            continue;
-          }
-        } else {
-          if (ch === '"') { inQuotes = true; i += 1; continue; }
-          if (ch === ',')  { row.push(field); field = ""; i += 1; continue; }
-          if (ch === '\r') { i += 1; continue; }
-          if (ch === '\n') { row.push(field); rows.push(row); row = []; field = ""; i += 1; continue; }
-          field += ch; i += 1; continue;
-        }
-      }
-      // flush last field/row
-      row.push(field);
-      rows.push(row);
-      return rows
-        .map(r => r.map(c => c.replace(/^\s+|\s+$/g, ""))) // trim
-        .filter(r => r.some(c => c.length > 0));           // drop empty rows
-    };
-
     const rows = parseCSV(text);
     if (!rows.length) {
       showToast("CSV is empty.", "error");
@@ -4998,42 +6948,30 @@ const confirmImportDealers = async () => {
       return;
     }
 
-    // Remove preview-only flag
-    const payload = rowsToImport.map(({ _isUpdate, ...rest }) => rest);
+    // Shape as app dealers for the repository (the preview-only flag is left behind)
+    const payload: Partial<Dealer>[] = rowsToImport.map((r) => ({
+      name: r.name,
+      state: r.state,
+      region: r.region ?? undefined,
+      type: r.type as DealerType | undefined,
+      status: r.status as DealerStatus | undefined,
+      address1: r.address1 ?? undefined,
+      address2: r.address2 ?? undefined,
+      city: r.city ?? undefined,
+      zip: r.zip ?? undefined,
+    }));
 
-    const { error } = await supabase
-      .from("dealers")
-      .upsert(payload, { onConflict: "name,state", ignoreDuplicates: false });
+    const { error } = await dealersRepo.upsertMany(payload);
 
     if (error) throw error;
 
     // Refresh from Supabase
-    const { data, error: selErr } = await supabase
-      .from("dealers")
-      .select("id,name,state,region,type,status,address1,address2,city,zip,contacts,assigned_rep_username,last_visited,sending_deals,no_deal_reasons")
-      .order("name");
+    const { data: fromDb, error: selErr } = await dealersRepo.list();
 
     if (selErr) throw selErr;
 
-    const fromDb: Dealer[] = (data || []).map((r: any) => ({
-      id: r.id,
-      name: r.name,
-      state: r.state,
-      region: r.region,
-      type: r.type,
-      status: r.status,
-      address1: r.address1 || "",
-      address2: r.address2 || "",
-      city: r.city || "",
-      zip: r.zip || "",
-      contacts: Array.isArray(r.contacts) ? r.contacts : [],
-      assignedRepUsername: r.assigned_rep_username || undefined,
-      lastVisited: r.last_visited ? String(r.last_visited) : undefined,
-      sendingDeals: typeof r.sending_deals === "boolean" ? r.sending_deals : undefined,
-      noDealReasons: r.no_deal_reasons || undefined,
-    }));
-
     setDealers(fromDb);
+    requestGeocoding();
     setImportPreviewOpen(false);
     setImportPreview(null);
     showToast(`Imported ${payload.length} dealer(s).`, "success");
@@ -5041,6 +6979,223 @@ const confirmImportDealers = async () => {
     showToast(e?.message || "Import failed", "error");
   }
 };
+
+// ---------- Import Users (CSV): parse & preview, then /api/import-users ----------
+// Columns: Name, Username, Email, Role, Phone, States, Regions. States are
+// "IL; WI"; Regions are "IL:Chicago South; WI:Madison" (the state prefix may be
+// dropped when only one state is listed). A state with no regions listed gets
+// every region we know for it. The server takes USER_IMPORT_CHUNK rows per call.
+const USER_IMPORT_CHUNK = 10;
+type UserImportResult = { status: string; id?: string; error?: string; link?: string; emailed?: boolean };
+type UserImportRow = {
+  name: string;
+  username: string;
+  email: string;
+  role: Role;
+  phone: string;
+  regionsByState: Record<string, string[]>;
+  _row: number; // CSV line, for messages
+  _isUpdate: boolean; // preview only
+};
+const userFileInputRef = useRef<HTMLInputElement | null>(null);
+const [userImport, setUserImport] = useState<{
+  fileName: string;
+  rows: UserImportRow[];
+  issues: { row: number; message: string }[];
+  total: number;
+} | null>(null);
+const [userImportInvite, setUserImportInvite] = useState<"none" | "link" | "email">("none");
+const [userImporting, setUserImporting] = useState(false);
+const [userImportSent, setUserImportSent] = useState(0); // rows the server has answered for
+
+const handleImportUsers = async (file?: File | null) => {
+  try {
+    if (!file) return showToast("Please choose a CSV file.", "error");
+    let text = await file.text();
+    if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+
+    const rows = parseCSV(text);
+    if (rows.length < 2) return showToast("CSV has no user rows.", "error");
+
+    const lower = rows[0].map((h) => h.toLowerCase());
+    const idx = (...names: string[]) => lower.findIndex((h) => names.includes(h));
+    const iName = idx("name", "full name");
+    const iUsername = idx("username", "user");
+    const iEmail = idx("email", "e-mail");
+    const iRole = idx("role");
+    const iPhone = idx("phone", "mobile");
+    const iStates = idx("states", "state");
+    const iRegions = idx("regions", "region");
+    if (iName < 0 || iUsername < 0 || iEmail < 0) {
+      return showToast("CSV must include Name, Username and Email columns.", "error");
+    }
+
+    const byEmail = new Map(users.filter((u) => u.email).map((u) => [u.email!.toLowerCase(), u]));
+    const list = (v: string | undefined) => (v || "").split(/[;|]/).map((x) => x.trim()).filter(Boolean);
+
+    const valid: UserImportRow[] = [];
+    const issues: { row: number; message: string }[] = [];
+    const seenEmails = new Set<string>();
+    const seenUsernames = new Set<string>();
+
+    for (let r = 1; r < rows.length; r++) {
+      const cols = rows[r];
+      const rowNo = r + 1;
+      const name = (cols[iName] || "").trim();
+      const username = (cols[iUsername] || "").trim();
+      const email = (cols[iEmail] || "").trim().toLowerCase();
+      const roleRaw = iRole >= 0 ? (cols[iRole] || "").trim() : "";
+      const role = roleRaw ? ROLES.find((x) => x.toLowerCase() === roleRaw.toLowerCase()) : "Rep";
+
+      if (!name || !username || !email) { issues.push({ row: rowNo, message: "Missing Name, Username or Email" }); continue; }
+      if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) { issues.push({ row: rowNo, message: `Bad email "${email}"` }); continue; }
+      if (!role) { issues.push({ row: rowNo, message: `Unknown role "${roleRaw}"` }); continue; }
+      if (seenEmails.has(email) || seenUsernames.has(username)) {
+        issues.push({ row: rowNo, message: "Duplicate in file (same Email or Username as a previous row)" });
+        continue;
+      }
+      const existing = byEmail.get(email);
+      if (users.some((u) => u.username === username && u.id !== existing?.id)) {
+        issues.push({ row: rowNo, message: `Username "${username}" already belongs to someone else` });
+        continue;
+      }
+
+      // Coverage
+      const states = list(iStates >= 0 ? cols[iStates] : "").map((st) => st.toUpperCase());
+      const regionsByState: Record<string, string[]> = {};
+      let problem = "";
+      for (const entry of list(iRegions >= 0 ? cols[iRegions] : "")) {
+        const m = /^([A-Za-z]{2})\s*:\s*(.+)$/.exec(entry);
+        const st = m ? m[1].toUpperCase() : states.length === 1 ? states[0] : "";
+        const regionName = (m ? m[2] : entry).trim();
+        if (!st) { problem = `Region "${entry}" needs a state prefix, e.g. IL:${entry}`; break; }
+        const region = getRegionsForState(st).find((x) => x.toLowerCase() === regionName.toLowerCase());
+        if (!region) { problem = `"${regionName}" isn't a known ${st} region (add it to the Regions Catalog first)`; break; }
+        regionsByState[st] = Array.from(new Set([...(regionsByState[st] || []), region]));
+      }
+      for (const st of states) {
+        if (problem) break;
+        if (!/^[A-Z]{2}$/.test(st)) { problem = `Bad state code "${st}"`; break; }
+        if (regionsByState[st]) continue;
+        const all = getRegionsForState(st);
+        if (!all.length) { problem = `No regions known for ${st}`; break; }
+        regionsByState[st] = all;
+      }
+      if (problem) { issues.push({ row: rowNo, message: problem }); continue; }
+
+      seenEmails.add(email);
+      seenUsernames.add(username);
+      valid.push({
+        name,
+        username,
+        email,
+        role,
+        phone: iPhone >= 0 ? (cols[iPhone] || "").trim() : "",
+        regionsByState,
+        _row: rowNo,
+        _isUpdate: !!existing,
+      });
+    }
+
+    setUserImport({ fileName: file.name, rows: valid, issues, total: rows.length - 1 });
+    showToast(`Parsed ${rows.length - 1} row(s): ${valid.length} valid, ${issues.length} with issues.`, "success");
+  } catch (e) {
+    showToast(errorMessage(e, "Import failed"), "error");
+  }
+};
+
+const confirmImportUsers = async () => {
+  if (!userImport || !userImport.rows.length) return showToast("Nothing to import.", "error");
+  setUserImporting(true);
+  setUserImportSent(0);
+  try {
+    // A chunk at a time, so each call finishes inside the function timeout. If
+    // one fails, the rows from there on are reported as not imported.
+    const results: UserImportResult[] = [];
+    let stoppedBy = "";
+    for (let i = 0; i < userImport.rows.length; i += USER_IMPORT_CHUNK) {
+      try {
+        const r = await apiPost("/api/import-users", {
+          users: userImport.rows.slice(i, i + USER_IMPORT_CHUNK).map((u) => ({
+            name: u.name,
+            username: u.username,
+            email: u.email,
+            role: u.role,
+            phone: u.phone,
+            regionsByState: u.regionsByState,
+          })),
+          invite: userImportInvite,
+        });
+        const json: { error?: string; results?: UserImportResult[] } = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(json.error || "Import failed");
+        results.push(...(json.results || []));
+        setUserImportSent(results.length);
+      } catch (e) {
+        stoppedBy = errorMessage(e, "Import failed");
+        break;
+      }
+    }
+    if (!results.length && stoppedBy) throw new Error(stoppedBy);
+
+    // Merge what was saved into the on-screen list
+    const saved = new Map<string, User>();
+    userImport.rows.forEach((row, i) => {
+      const res = results[i];
+      if (!res?.id || res.status === "error") return;
+      const prev = users.find((u) => u.id === res.id || (u.email || "").toLowerCase() === row.email);
+      saved.set(res.id, {
+        ...(prev || { reportUrl: "", status: "Active" as UserStatus }),
+        id: res.id,
+        name: row.name,
+        username: row.username,
+        email: row.email,
+        role: row.role,
+        phone: row.phone,
+        states: Object.keys(row.regionsByState),
+        regionsByState: row.regionsByState,
+      });
+    });
+    setUsers((prev) => [...Array.from(saved.values()).filter((u) => !prev.some((p) => p.id === u.id)), ...prev.map((u) => saved.get(u.id) || u)]);
+    setStatusMap((m) => {
+      const next = { ...m };
+      for (const u of saved.values()) next[u.username] = m[u.username] || u.status || "Active";
+      return next;
+    });
+    setInvitesRefreshKey((k) => k + 1);
+
+    // Links that weren't emailed are only shown once, so hand them over as a file
+    const links = userImport.rows
+      .map((row, i) => ({ row, res: results[i] }))
+      .filter(({ res }) => res?.link && !res.emailed);
+    if (links.length) {
+      downloadCSV("user_invite_links.csv", [
+        ["Username", "Email", "Invite link"],
+        ...links.map(({ row, res }) => [row.username, row.email, res.link!]),
+      ]);
+    }
+
+    const created = results.filter((x) => x.status === "created").length;
+    const updated = results.filter((x) => x.status === "updated").length;
+    const failures = userImport.rows
+      .map((row, i) => ({
+        row: row._row,
+        message: results[i]?.error || (results[i] ? "" : stoppedBy ? `Not imported: ${stoppedBy}` : "No result"),
+      }))
+      .filter((f) => f.message);
+    if (failures.length) {
+      // Keep the modal open on just the rows that need attention
+      setUserImport({ ...userImport, rows: [], issues: failures });
+      showToast(`Imported ${created} new and ${updated} updated user(s); ${failures.length} need attention.`, "error");
+    } else {
+      setUserImport(null);
+      showToast(`Imported ${created} new and ${updated} updated user(s).`, "success");
+    }
+  } catch (e) {
+    showToast(errorMessage(e, "Import failed"), "error");
+  } finally {
+    setUserImporting(false);
+  }
+};
   return (
     <div className="space-y-4">
       {/* Users */}
@@ -5049,6 +7204,25 @@ const confirmImportDealers = async () => {
           <button className={`${brand.primary} text-white px-3 py-2 rounded-lg`} onClick={openAddUser}>
             ➕ Add User
           </button>
+          <input
+            ref={userFileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) handleImportUsers(f); // parse -> preview modal
+              e.currentTarget.value = "";
+            }}
+          />
+          <button
+            className="ml-2 px-3 py-2 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50"
+            onClick={() => userFileInputRef.current?.click()}
+            type="button"
+            title="Name, Username, Email, Role, Phone, States, Regions"
+          >
+            Import Users (CSV)
+          </button>
         </div>
 
         <div className="overflow-auto rounded-lg border bg-white">
@@ -5071,7 +7245,14 @@ const confirmImportDealers = async () => {
                   <td className="py-1.5 px-2 md:py-2 md:px-3">{u.name?.trim() || u.username}</td>
                   <td className="py-1.5 px-2 md:py-2 md:px-3">{u.username}</td>
                   <td className="py-1.5 px-2 md:py-2 md:px-3">{u.phone || "—"}</td>
-                  <td className="py-1.5 px-2 md:py-2 md:px-3">{u.role}</td>
+                  <td className="py-1.5 px-2 md:py-2 md:px-3">
+                    {u.role}
+                    {u.managerId && (
+                      <div className="text-xs text-slate-500">
+                        Team: {users.find((m) => m.id === u.managerId)?.username || "—"}
+                      </div>
+                    )}
+                  </td>
                   <td className="py-1.5 px-2 md:py-2 md:px-3">{u.states.join(", ") || "—"}</td>
                   <td className="py-1.5 px-2 md:py-2 md:px-3">
                     {u.states.length === 0 ? "—" : u.states.map((st) => `${st}: ${(u.regionsByState[st] || []).length}`).join("  •  ")}
@@ -5086,14 +7267,24 @@ const confirmImportDealers = async () => {
                     </span>
                   </td>
                   <td className="py-1.5 px-2 md:py-2 md:px-3 text-right">
+                    {/* Admins already see everything, so there's nothing to reproduce as one */}
+                    {can("users.impersonate") && u.role !== "Admin" && getStatus(u) === "Active" && (
+                      <button
+                        className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2"
+                        onClick={() => onViewAs(u)}
+                        title="See the app as this user, read-only"
+                      >
+                        View as
+                      </button>
+                    )}
                     <button className="px-2 py-1 rounded border text-slate-700 hover:bg-slate-50 mr-2" onClick={() => openEditUser(u)}>
                       Edit
                     </button>
                     <button
                       className="px-2 py-1 rounded border border-red-600 text-red-700 hover:bg-red-50"
-                      onClick={() => setConfirmRemove(u)} // NEW confirm
+                      onClick={() => setOffboarding(u)}
                     >
-                      Remove
+                      Offboard
                     </button>
                   </td>
                 </tr>
@@ -5110,6 +7301,12 @@ const confirmImportDealers = async () => {
         </div>
       </Card>
 
+      <PendingInvites refreshKey={invitesRefreshKey} showToast={showToast} />
+
+      <CapabilityMatrixCard capabilities={capabilities} setCapabilities={setCapabilities} showToast={showToast} />
+
+      {can("users.impersonate") && <ViewAsHistory showToast={showToast} />}
+
       {/* Regions Catalog */}
       <Card title="Regions Catalog">
         <div className="grid md:grid-cols-3 gap-3">
@@ -5258,17 +7455,12 @@ const confirmImportDealers = async () => {
         )}
       </Card>
 
+      {/* Dealer audit search */}
+      <DealerAuditSearch users={users} />
+
      {/* Export quick actions */}
      <div className="flex flex-wrap gap-2">
-     <button
-  className="px-3 py-2 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50 disabled:opacity-60"
-  onClick={exportEverythingZip}
-  disabled={exportingAll}
-  type="button"
-  title="Download all tables (CSV) inside one .zip"
->
-  {exportingAll ? "Exporting…" : "Export Everything"}
-</button>
+     {can("export.all") && <ExportEverythingButton showToast={showToast} />}
 <span className="relative inline-block">
   {/* Hidden file input used by the Import button */}
   <input
@@ -5431,11 +7623,24 @@ const confirmImportDealers = async () => {
               onChange={(v) => setDraft((d) => ({ ...d, role: v as Role }))}
               options={[
                 { label: "Rep", value: "Rep" },
+                { label: "Regional Manager", value: "Regional Manager" },
                 { label: "Manager", value: "Manager" },
+                { label: "Viewer (read-only)", value: "Viewer" },
                 { label: "Admin", value: "Admin" },
               ]}
             />
             <TextField label="Phone" value={draft.phone || ""} onChange={(v) => setDraft((d) => ({ ...d, phone: v }))} />
+            <SelectField
+              label="Reports to (team)"
+              value={draft.managerId || ""}
+              onChange={(v) => setDraft((d) => ({ ...d, managerId: v || undefined }))}
+              options={[
+                { label: "— No manager —", value: "" },
+                ...users
+                  .filter((u) => u.id !== draft.id && (u.role === "Manager" || u.role === "Regional Manager" || u.role === "Admin"))
+                  .map((u) => ({ label: `${u.name?.trim() || u.username} (${u.role})`, value: u.id })),
+              ]}
+            />
           </div>
 {/* Coverage (State → Regions) — compact, two-field UI */}
 {(() => {
@@ -5454,6 +7659,11 @@ const confirmImportDealers = async () => {
       <div className="text-sm font-semibold text-slate-700 mb-2">
         Coverage (State → Regions)
       </div>
+      {draft.role === "Regional Manager" && (
+        <div className="text-xs text-slate-500 -mt-1 mb-2">
+          Regional Managers only see dealers, reps and reports inside this coverage.
+        </div>
+      )}
 
       <div className="grid md:grid-cols-2 gap-3">
         {/* Left: State */}
@@ -5618,9 +7828,12 @@ const confirmImportDealers = async () => {
           {/* Invite link row — ONLY visible when editing an existing user */}
           {editingId && (
             <div className="mt-3 flex flex-col sm:flex-row gap-2 sm:items-end">
-              <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={generateInvite} type="button">
+              <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={() => generateInvite()} type="button">
                 Generate Invite Link
               </button>
+              <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={() => generateInvite(true)} type="button">
+                Email Invite
+              </button>
               <input className="flex-1 rounded-lg border px-3 py-2 text-sm" value={inviteUrl} readOnly placeholder="Invite link will appear here…" />
               <button className="px-3 py-2 rounded-lg border text-blue-700 border-blue-600 hover:bg-blue-50" onClick={copyInvite} disabled={!inviteUrl}>
                 Copy
@@ -5668,28 +7881,117 @@ const confirmImportDealers = async () => {
       )}
 
       {/* NEW: Confirm Remove User */}
-      {confirmRemove && (
-        <Modal title="Confirm Deletion" onClose={() => setConfirmRemove(null)}>
-          <div className="text-slate-700">
-            Are you sure you want to permanently remove <span className="font-semibold">{confirmRemove.name}</span>?
-          </div>
-          <div className="mt-4 flex justify-end gap-2">
-            <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={() => setConfirmRemove(null)}>
-              Cancel
-            </button>
-            <button
-              className="px-3 py-2 rounded-lg border border-red-600 text-red-700 hover:bg-red-50"
-              onClick={() => {
-                performRemove(confirmRemove.id);
-                setConfirmRemove(null);
-              }}
-            >
-              Yes, delete user
-            </button>
+      {userImport && (
+        <Modal title={`Import Users — ${userImport.fileName}`} onClose={() => !userImporting && setUserImport(null)}>
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-3 text-sm">
+              <div className="rounded-lg border p-3 bg-white">
+                <div className="font-medium text-slate-700 mb-1">Summary</div>
+                <div>Total rows (excluding header): <b>{userImport.total}</b></div>
+                <div>Valid rows: <b>{userImport.rows.length}</b></div>
+                <div>Issues: <b>{userImport.issues.length}</b></div>
+                <div className="mt-2">
+                  Will create: <b>{userImport.rows.filter((r) => !r._isUpdate).length}</b> • Will update:{" "}
+                  <b>{userImport.rows.filter((r) => r._isUpdate).length}</b>
+                </div>
+              </div>
+              <div className="rounded-lg border p-3 bg-white">
+                <div className="font-medium text-slate-700 mb-1">Invites for new users</div>
+                <div className="flex flex-col gap-1">
+                  <label className="inline-flex items-center gap-2">
+                    <input type="radio" name="userImportInvite" checked={userImportInvite === "none"} onChange={() => setUserImportInvite("none")} />
+                    Don't invite yet (send from Edit User later)
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    <input type="radio" name="userImportInvite" checked={userImportInvite === "link"} onChange={() => setUserImportInvite("link")} />
+                    Generate links (downloaded as a CSV)
+                  </label>
+                  <label className="inline-flex items-center gap-2">
+                    <input type="radio" name="userImportInvite" checked={userImportInvite === "email"} onChange={() => setUserImportInvite("email")} />
+                    Email each new user their invite
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            {userImport.rows.length > 0 && (
+              <div className="rounded-lg border overflow-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="text-left py-2 px-3 font-medium">Action</th>
+                      <th className="text-left py-2 px-3 font-medium">Name</th>
+                      <th className="text-left py-2 px-3 font-medium">Username</th>
+                      <th className="text-left py-2 px-3 font-medium">Email</th>
+                      <th className="text-left py-2 px-3 font-medium">Role</th>
+                      <th className="text-left py-2 px-3 font-medium">Coverage</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {userImport.rows.slice(0, 20).map((r) => (
+                      <tr key={r._row} className="border-t">
+                        <td className="py-1.5 px-3">{r._isUpdate ? "Update" : "Create"}</td>
+                        <td className="py-1.5 px-3">{r.name}</td>
+                        <td className="py-1.5 px-3">{r.username}</td>
+                        <td className="py-1.5 px-3">{r.email}</td>
+                        <td className="py-1.5 px-3">{r.role}</td>
+                        <td className="py-1.5 px-3">
+                          {Object.keys(r.regionsByState).length
+                            ? Object.entries(r.regionsByState).map(([st, rs]) => `${st}: ${rs.length}`).join("  •  ")
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                    {userImport.rows.length > 20 && (
+                      <tr className="border-t">
+                        <td colSpan={6} className="py-2 px-3 text-slate-500">…and {userImport.rows.length - 20} more row(s)</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {userImport.issues.length > 0 && (
+              <div className="rounded-lg border p-3 bg-amber-50 text-amber-800">
+                <div className="font-medium mb-1">
+                  {userImport.rows.length ? `Found ${userImport.issues.length} issue(s). These rows will not be imported:` : "These rows were not imported:"}
+                </div>
+                <ul className="list-disc pl-5 text-sm max-h-40 overflow-auto">
+                  {userImport.issues.slice(0, 30).map((iss, i) => (
+                    <li key={i}>Row {iss.row}: {iss.message}</li>
+                  ))}
+                  {userImport.issues.length > 30 && <li>…and {userImport.issues.length - 30} more</li>}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              <button className="px-3 py-2 rounded-lg border" disabled={userImporting} onClick={() => setUserImport(null)}>
+                {userImport.rows.length ? "Cancel" : "Close"}
+              </button>
+              {userImport.rows.length > 0 && (
+                <button className="px-3 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50" disabled={userImporting} onClick={confirmImportUsers}>
+                  {userImporting
+                    ? `Importing… ${userImportSent}/${userImport.rows.length}`
+                    : `Import ${userImport.rows.length} user(s)`}
+                </button>
+              )}
+            </div>
           </div>
         </Modal>
       )}
 
+      {offboarding && (
+        <OffboardWizard
+          user={offboarding}
+          users={users}
+          showToast={showToast}
+          onClose={closeOffboarding}
+          onDone={(plan, result) => finishOffboarding(offboarding, plan, result)}
+        />
+      )}
+
       {/* Region Details Modal */}
       {regionModal && (
         <Modal title={`${regionModal.region} — ${regionModal.state}`} onClose={() => setRegionModal(null)}>
@@ -5746,18 +8048,6 @@ const App: React.FC = () => {
   const [session, setSession] = useState<Session>(null);
   const { toasts, showToast, showActionToast, dismiss } = useToasts();
 
-  // RESET INVITE: show modal if visiting /reset
-  const [resetOpen, setResetOpen] = useState(false);
-  const [resetToken, setResetToken] = useState<string>("");
-
-  useEffect(() => {
-    if (window.location.pathname === "/reset") {
-      const params = new URLSearchParams(window.location.search);
-      const t = params.get("token") || "";
-      setResetToken(t);
-      setResetOpen(true);
-    }
-  }, []);
 // --- Supabase invite/recovery reset detection (TOP-LEVEL) ---
 // These states are the "light switches" we flip when a Supabase link is used.
 // (It's okay if your editor warns they're unused right now. In Step 2 we'll use them.)
@@ -5970,85 +8260,21 @@ useEffect(() => {
   (async () => {
     try {
       // 1) Load basic user profiles
-      const { data: profiles, error: pErr } = await supabase
-        .from('profiles')
-        .select('id, username, email, role, status, name, phone, report_url')
-.order('username', { ascending: true });
-
+      const { data: profiles, error: pErr } = await profilesRepo.list();
       if (pErr) throw pErr;
-      const idToUsername = new Map<string, string>();
-      for (const p of (profiles || []) as any[]) {
-        idToUsername.set(String(p.id), String(p.username));
-      }      
-      // 2) Load coverage rows: one row per (username, state, region?)
-      //    If region is NULL, it means "all regions in that state".
-      const { data: coverage, error: cErr } = await supabase
-      .from('rep_coverage')
-      .select('user_id, state, region');    
 
+      // 2) Load coverage rows: one row per (user, state, region?)
+      //    If region is NULL, it means "all regions in that state".
+      const { data: coverage, error: cErr } = await coverageRepo.list();
       if (cErr) throw cErr;
 
-      // 3) Build states[] and regionsByState{} for each user
-      //    We'll collect coverage into maps first, then turn into arrays.
-      const covByUser = new Map<
-        string,
-        { states: Set<string>; map: Record<string, Set<string>> }
-      >();
-
-      for (const row of coverage || []) {
-        const u = idToUsername.get(String((row as any).user_id)) || '';
-        const st = (row as any).state as string;
-        const rg = ((row as any).region as string | null) ?? null;
-
-        if (!u || !st) continue;
-
-        if (!covByUser.has(u)) {
-          covByUser.set(u, { states: new Set<string>(), map: {} });
-        }
-        const entry = covByUser.get(u)!;
-        entry.states.add(st);
-
-        // NULL region = "all regions in that state"
-        if (rg == null || rg === '') {
-          entry.map[st] = new Set<string>(regions[st] || []);
-        } else {
-          if (!entry.map[st]) entry.map[st] = new Set<string>();
-          entry.map[st]!.add(rg);
-        }
-      }
-
-      // 4) Merge profiles + coverage into your app's User[] shape
-      const mergedUsers: User[] = (profiles || []).map((p: any) => {
-        const cv =
-          covByUser.get(p.username) ||
-          ({ states: new Set<string>(), map: {} } as {
-            states: Set<string>;
-            map: Record<string, Set<string>>;
-          });
-
-        const statesArr = Array.from(cv.states).sort();
-        const rbs: Record<string, string[]> = {};
-        for (const st of Object.keys(cv.map)) {
-          rbs[st] = Array.from(cv.map[st]).sort();
-        }
-
-        return {
-          id: String(p.id),
-          username: String(p.username),
-          name: String(p.name || p.username || ''),
-          email: p.email || undefined,
-          role: (p.role || 'Rep') as Role,
-          states: statesArr,
-          regionsByState: rbs,
-          phone: p.phone || undefined,
-          status: (p.status || 'Active') as UserStatus,
-          reportUrl: p.report_url || undefined,
-        } as User;
-      });
+      // 3) Merge profiles + coverage into your app's User[] shape
+      const covByUser = coverageByUserId(coverage || [], regions);
+      const mergedUsers: User[] = (profiles || []).map((p) => profileFromRow(p, covByUser.get(String(p.id))));
 
       setUsers(mergedUsers);
 
-      // 5) Keep the status radio buttons in sync with Supabase
+      // 4) Keep the status radio buttons in sync with Supabase
       console.debug('[5B] Loaded profiles + coverage', { mergedUsers, coverage });
     } catch (e: any) {
       console.error('[5B] load coverage failed', e);
@@ -6057,25 +8283,161 @@ useEffect(() => {
   })();
 }, [session, regions]);
 
-  const can = useMemo(() => {
-    const role = session?.role;
-    return { reporting: role === "Admin" || role === "Manager", userMgmt: role === "Admin" };
+  // Capability matrix (role_capabilities); the shipped defaults until it loads
+  const [capabilities, setCapabilities] = useState<CapabilityMatrix>(DEFAULT_CAPABILITIES);
+  useEffect(() => {
+    if (!session) return;
+    capabilitiesRepo.matrix().then(({ data, error }) => {
+      if (error) console.debug("[capabilities] load failed, using defaults", error);
+      setCapabilities(data);
+    });
   }, [session]);
 
+  const can = useMemo<Can>(() => (cap) => hasCapability(capabilities, session?.role, cap), [capabilities, session]);
+  const seesTeam = can("team.view");
+
+  // Team scope (profiles.manager_id): managers default to their own reports
+  const [allTeams, setAllTeams] = useState<boolean>(() => loadLS<boolean>(LS_ALL_TEAMS, false));
+  useEffect(() => saveLS(LS_ALL_TEAMS, allTeams), [allTeams]);
+  const team = useMemo<TeamView>(() => {
+    const me = users.find((u) => u.username === session?.username) || null;
+    const leadsTeam = !!me && users.some((u) => u.managerId === me.id);
+    return {
+      members: teamUsernames(users, me, allTeams),
+      allTeams,
+      setAllTeams: me?.role === "Admin" && leadsTeam ? setAllTeams : null,
+    };
+  }, [users, session, allTeams]);
+  // Same membership, same Set: effects only re-run when the team actually changes
+  const teamKey = team.members ? Array.from(team.members).sort().join(",") : "";
+  const scopedToTeam = team.members !== null;
+  const teamMembers = useMemo(
+    () => (scopedToTeam ? new Set(teamKey ? teamKey.split(",") : []) : null),
+    [scopedToTeam, teamKey]
+  );
+
+  // "View as" (users.impersonate): render the rep-facing views with another
+  // user's session and coverage, read-only. The audit row is written before the
+  // view switches; ended_at stays empty if the tab closes without "Exit".
+  const [viewAs, setViewAs] = useState<{ user: User; auditId: string } | null>(null);
+  const startViewAs = async (target: User) => {
+    const me = users.find((u) => u.username === session?.username);
+    if (!me || !can("users.impersonate")) return;
+    const { data: auditId, error } = await impersonationRepo.start(me, target);
+    if (error || !auditId) {
+      showToast(error?.message || "Couldn't start View as.", "error");
+      return;
+    }
+    setViewAs({ user: target, auditId });
+    setRoute("dealer-search");
+  };
+  const endViewAs = () => {
+    if (!viewAs) return;
+    impersonationRepo.end(viewAs.auditId).then(({ error }) => {
+      if (error) console.debug("[view-as] failed to record end", error);
+    });
+    setViewAs(null);
+  };
+  const exitViewAs = () => {
+    endViewAs();
+    setRoute("user-management");
+  };
+
   const handleLogin = (s: Session) => {
     setSession(s);
     setRoute("dealer-search");
   };
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    endViewAs();
+    // Last chance to upload offline notes; whatever is left stays on this
+    // device under this user and goes out at their next sign-in
+    await flushNoteOutbox().catch(() => null);
+    const { waiting } = await countQueuedNotes().catch(() => ({ waiting: 0 }));
+    await supabase.auth.signOut().catch(() => {});
     setSession(null);
     setRoute("login");
-    showToast("You have been logged off.", "success");
+    showToast(
+      waiting ? `Logged off. ${waiting} unsynced note(s) stay on this device until you sign in again.` : "You have been logged off.",
+      waiting ? "info" : "success"
+    );
   };
 
+  // Deactivation revokes the user's sessions on the server; once the token can't
+  // refresh, supabase-js signs out and this drops them back to the login screen
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event !== "SIGNED_OUT") return;
+      setSession(null);
+      setViewAs(null);
+      setRoute("login");
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   const tasksForUser = useMemo(() => {
     if (!session || session.role !== "Rep") return [];
-    return tasks.filter((t) => t.repUsername === session.username && !t.completedAtISO);
-  }, [tasks, session]);
+    // Tasks on a dealer that's in the Trash stay hidden until it's restored
+    const liveDealerIds = new Set(dealers.map((d) => d.id));
+    return tasks.filter((t) => t.repUsername === session.username && !t.completedAtISO && liveDealerIds.has(t.dealerId));
+  }, [tasks, session, dealers]);
+
+  // What the View as target gets: their own tasks and team, and no write
+  // capabilities at all (team.view only widens what they can read)
+  const viewAsCan = useMemo<Can>(
+    () => (cap) => cap === "team.view" && hasCapability(capabilities, viewAs?.user.role, cap),
+    [capabilities, viewAs]
+  );
+  const viewAsTasks = useMemo(() => {
+    if (!viewAs || viewAs.user.role !== "Rep") return [];
+    const liveDealerIds = new Set(dealers.map((d) => d.id));
+    return tasks.filter((t) => t.repUsername === viewAs.user.username && !t.completedAtISO && liveDealerIds.has(t.dealerId));
+  }, [tasks, viewAs, dealers]);
+  const viewAsTeam = useMemo<TeamView>(
+    () => ({ members: teamUsernames(users, viewAs?.user || null, false), allTeams: false, setAllTeams: null }),
+    [users, viewAs]
+  );
+  const viewAsSetRoute = (r: RouteKey) => {
+    if (r === "dealer-search" || r === "rep-route" || r === "reports") setRoute(r);
+    else showToast("Exit View as to open that page.", "info");
+  };
+
+  // === Offline note outbox: count + replay when the connection returns ===
+  const [queuedNoteCount, setQueuedNoteCount] = useState(0);
+  const [rejectedNoteCount, setRejectedNoteCount] = useState(0);
+  useEffect(() => {
+    const refresh = () => {
+      countQueuedNotes()
+        .then(({ waiting, rejected }) => {
+          setQueuedNoteCount(waiting);
+          setRejectedNoteCount(rejected);
+        })
+        .catch(() => {});
+    };
+    refresh();
+    return onOutboxChange(({ rejected = [] }) => {
+      refresh();
+      if (rejected.length) showToast(`The server refused ${rejected.length} offline note(s). Open the dealer to copy or delete them.`, "error");
+    });
+  }, [session?.username, showToast]);
+
+  useEffect(() => {
+    if (!session) return;
+    const replay = () => {
+      flushNoteOutbox().catch((e) => console.debug("[outbox] replay failed", e));
+    };
+    replay();
+    window.addEventListener("online", replay);
+    return () => window.removeEventListener("online", replay);
+  }, [session]);
+
+  // navigator.onLine can be true on a dead connection, so keep retrying while notes wait
+  useEffect(() => {
+    if (!session || queuedNoteCount === 0) return;
+    const id = window.setInterval(() => {
+      flushNoteOutbox().catch(() => {});
+    }, 30000);
+    return () => window.clearInterval(id);
+  }, [session, queuedNoteCount]);
   // === Step 3A: Load live users from Supabase profiles (read-only) ===
   // We merge profiles (role/status/email) into our local users list.
   useEffect(() => {
@@ -6084,9 +8446,7 @@ useEffect(() => {
 
     (async () => {
       try {
-        const { data, error } = await supabase
-          .from("profiles")
-          .select("id, email, username, role, status");
+        const { data, error } = await profilesRepo.list();
 
         if (error) throw error;
 
@@ -6095,33 +8455,19 @@ useEffect(() => {
           const next = [...prev];
 
           for (const p of data || []) {
-            const pEmail = (p as any).email as string | null;
-            const pUsername =
-              ((p as any).username as string | undefined) ||
-              (pEmail ? pEmail.split("@")[0] : "");
-
-            const key = (pUsername || "").toLowerCase();
-            const existing = byUsername.get(key);
+            const u = profileFromRow(p);
+            const existing = byUsername.get(u.username.toLowerCase());
 
             if (existing) {
-// NEW: carry over the real Supabase UUID so saves can target the row
-if ((p as any).id) (existing as any).id = (p as any).id as string;
-              existing.email = pEmail || existing.email;
-              existing.role = ((p as any).role || existing.role) as Role;
-              existing.status = ((p as any).status || existing.status) as UserStatus;
+              // carry over the real Supabase UUID so saves can target the row
+              existing.id = u.id;
+              existing.email = u.email || existing.email;
+              existing.role = (p.role || existing.role) as Role;
+              existing.status = (p.status || existing.status) as UserStatus;
+              existing.managerId = u.managerId;
             } else {
               // Add a minimal new user record so the table can display it
-              next.push({
-                id: ((p as any).id as string) || uid(),
-                name: pUsername || pEmail || "User",
-                username: pUsername || (pEmail ? pEmail.split("@")[0] : "user"),
-                email: pEmail || undefined,
-                role: (((p as any).role as Role) ?? "Rep") as Role,
-                states: [],
-                regionsByState: {},
-                phone: "",
-                status: (((p as any).status as UserStatus) ?? "Active") as UserStatus,
-              });
+              next.push({ ...u, name: u.username || u.email || "User", phone: "" });
             }
           }
           return next;
@@ -6136,148 +8482,137 @@ if ((p as any).id) (existing as any).id = (p as any).id as string;
 useEffect(() => {
   if (!session) return;
 
-  const isAdminManager = session.role === 'Admin' || session.role === 'Manager';
-
   (async () => {
-    const base = supabase
-      .from('dealer_tasks')
-      .select('id,dealer_id,rep_username,text,created_at,completed_at')
-      .order('created_at', { ascending: false });
-
-    const { data, error } = isAdminManager
-      ? await base
-      : await base.eq('rep_username', session.username);
+    const { data, error } = await tasksRepo.list(seesTeam ? undefined : session.username);
 
     if (error) {
       showToast(error.message || 'Failed to load tasks', 'error');
       return;
     }
 
-    setTasks(
-      (data || []).map((r: any) => ({
-        id: r.id,
-        dealerId: r.dealer_id,
-        repUsername: r.rep_username,
-        text: r.text,
-        createdAtISO: r.created_at,
-        completedAtISO: r.completed_at || undefined,
-      }))
-    );
+    // Managers see their team's tasks (plus their own)
+    setTasks((data || []).filter((t) => !teamMembers || !seesTeam || teamMembers.has(t.repUsername)));
   })();
-}, [session]);
-    // === Step 4B: Load dealers from Supabase after login (shared across devices) ===
-   // Sync "lastVisited" for each dealer from notes with category Visit/Visited
-const syncLastVisitedFromNotes = async () => {
-  try {
-    // 1) Pull the latest visited timestamp per dealer from Supabase notes
-    //    (accepts both "Visit" and "Visited" just in case)
-    const { data, error } = await supabase
-      .from("dealer_notes")
-      .select("dealer_id, category, created_at")
-      .in("category", ["Visit", "Visited"])
-      .order("created_at", { ascending: false }); // newest first
-    if (error) throw error;
-
-    // Build a map dealer_id -> latest ISO date (YYYY-MM-DD)
-    const latest: Record<string, string> = {};
-    for (const row of data || []) {
-      const id = String((row as any).dealer_id);
-      const ts = new Date((row as any).created_at).toISOString().slice(0, 10);
-      if (!latest[id]) latest[id] = ts; // first seen is newest due to order desc
-    }
-
-    // 2) Update local UI dealers immediately
-    setDealers((prev) =>
-      prev.map((d) => (latest[d.id] ? { ...d, lastVisited: latest[d.id] } : d))
-    );
-
-    // 3) Persist back to dealers table so list loads fast next time
-    const updates = Object.entries(latest).map(([dealerId, ymd]) => ({
-      id: dealerId,
-      last_visited: ymd,
-    }));
-    for (const u of updates) {
-      await supabase
-        .from("dealers")
-        .update({ last_visited: u.last_visited })
-        .eq("id", u.id);
-    }
-  } catch (e) {
-    console.debug("syncLastVisitedFromNotes failed", e);
-  }
-};
-
+}, [session, seesTeam, teamMembers, setTasks, showToast]);
+    // === Step 4B: Load the regions catalog after login ===
+    // Dealers aren't downloaded here: search and Dealer Notes fetch the rows they show,
+    // and the views that total a whole book load it when opened (Step 4I).
     useEffect(() => {
       if (!session) return;
-  
+
       (async () => {
         try {
-          const { data, error } = await supabase
-            .from("dealers")
-            .select(
-              "id,name,state,region,type,status,address1,address2,city,zip,contacts,no_deal_reasons,assigned_rep_username,last_visited,sending_deals"
-            );
-  
-          if (error) throw error;
-  
-          const fromDb: Dealer[] = (data || []).map((r: any) => ({
-            id: r.id,
-            name: r.name,
-            state: r.state,
-            region: r.region,
-            type: r.type,
-            status: r.status,
-            address1: r.address1 || "",
-            address2: r.address2 || "",
-            city: r.city || "",
-            zip: r.zip || "",
-            contacts: Array.isArray(r.contacts) ? r.contacts : [],
-            assignedRepUsername: r.assigned_rep_username || undefined,
-            lastVisited: r.last_visited ? String(r.last_visited) : undefined, // keep YYYY-MM-DD
-            sendingDeals: typeof r.sending_deals === "boolean" ? r.sending_deals : undefined,
-            noDealReasons: r.no_deal_reasons || undefined,
-          }));
-  
-          // Replace local dealers with the shared list
-          setDealers(fromDb);
-  
-          // Rebuild regions from dealers (existing behavior)
-const rebuilt: RegionsCatalog = {};
-for (const d of fromDb) {
-  if (!rebuilt[d.state]) rebuilt[d.state] = [];
-  if (!rebuilt[d.state].includes(d.region)) rebuilt[d.state].push(d.region);
-}
-for (const st of Object.keys(rebuilt)) rebuilt[st].sort();
-
-// NEW: also load curated regions from regions_catalog and MERGE
-const { data: cat, error: catErr } = await supabase
-  .from("regions_catalog")
-  .select("state,region");
-if (catErr) throw catErr;
-
-const fromCatalog: RegionsCatalog = {};
-for (const row of cat || []) {
-  const st = String((row as any).state || "").toUpperCase();
-  const rg = String((row as any).region || "");
-  if (!st || !rg) continue;
-  if (!fromCatalog[st]) fromCatalog[st] = [];
-  if (!fromCatalog[st].includes(rg)) fromCatalog[st].push(rg);
-}
-for (const st of Object.keys(fromCatalog)) fromCatalog[st].sort();
-
-// Merge both so manual entries survive refresh even if no dealers there yet
-const merged: RegionsCatalog = {};
-const allKeys = new Set([...Object.keys(fromCatalog), ...Object.keys(rebuilt)]);
-for (const st of allKeys) {
-  merged[st] = Array.from(new Set([...(fromCatalog[st] || []), ...(rebuilt[st] || [])])).sort();
-}
-setRegions(merged);
-await syncLastVisitedFromNotes();
+          const { data: cat, error: catErr } = await supabase
+            .from("regions_catalog")
+            .select("state,region");
+          if (catErr) throw catErr;
+
+          const fromCatalog: RegionsCatalog = {};
+          for (const row of (cat || []) as { state: string | null; region: string | null }[]) {
+            const st = String(row.state || "").toUpperCase();
+            const rg = String(row.region || "");
+            if (!st || !rg) continue;
+            if (!fromCatalog[st]) fromCatalog[st] = [];
+            if (!fromCatalog[st].includes(rg)) fromCatalog[st].push(rg);
+          }
+          for (const st of Object.keys(fromCatalog)) fromCatalog[st].sort();
+          setRegions(fromCatalog);
         } catch (err) {
-          console.debug("[dealers] load failed", err);
+          console.debug("[regions] load failed", err);
+        }
+      })();
+    }, [session, setRegions]);
+
+  // === Step 4I: Load a whole dealer book for the views that total one ===
+  // Reps and Regional Managers (or the user being viewed as) get their territory;
+  // everyone else the book RLS lets them read. Once per owner per sign-in.
+  const bookOwner = viewAs?.user ?? session;
+  const bookScope = bookOwner && TERRITORY_ROLES.includes(bookOwner.role) ? bookOwner.username : "";
+  const needsBook = ["reports", "rep-route", "reporting", "user-management"].includes(route);
+  const loadedBook = useRef<string | null>(null);
+  useEffect(() => {
+    if (!session) {
+      loadedBook.current = null;
+      return;
+    }
+    if (!needsBook || loadedBook.current === bookScope) return;
+    loadedBook.current = bookScope;
+    (async () => {
+      const { data, error } = await dealersRepo.list(bookScope || undefined);
+      if (error) {
+        loadedBook.current = null;
+        showToast(error.message || "Failed to load dealers.", "error");
+        return;
+      }
+      setDealers((prev) => mergeDealers(prev, data));
+    })();
+  }, [session, needsBook, bookScope, setDealers, showToast]);
+
+  // === Step 4H: Realtime — merge dealer/note/task changes made on other devices ===
+  useEffect(() => {
+    if (!session) return;
+
+    const channel = supabase
+      .channel(`app-live-${session.username}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "dealers" }, (payload: RealtimePostgresChangesPayload<LiveRow<DealerRow>>) => {
+        if (payload.eventType === "DELETE") {
+          const id = payload.old.id;
+          if (id) setDealers((prev) => prev.filter((d) => d.id !== id));
+          return;
+        }
+        const next = dealerFromRow(payload.new);
+        if (payload.new.deleted_at) {
+          setDealers((prev) => prev.filter((d) => d.id !== next.id));
+          return;
+        }
+        setDealers((prev) =>
+          prev.some((d) => d.id === next.id)
+            ? prev.map((d) => (d.id === next.id ? { ...d, ...next } : d))
+            : [...prev, next]
+        );
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "dealer_tasks" }, (payload: RealtimePostgresChangesPayload<TaskRow>) => {
+        if (payload.eventType === "DELETE") {
+          const id = payload.old.id;
+          if (id) setTasks((prev) => prev.filter((t) => t.id !== id));
+          return;
         }
-      })();
-    }, [session]);  
+        const next = taskFromRow(payload.new);
+        // Reassigned out of what this viewer sees: drop it rather than ignore the event
+        const visible = seesTeam ? !teamMembers || teamMembers.has(next.repUsername) : next.repUsername === session.username;
+        if (!visible) {
+          setTasks((prev) => prev.filter((t) => t.id !== next.id));
+          return;
+        }
+        setTasks((prev) =>
+          prev.some((t) => t.id === next.id)
+            ? prev.map((t) => (t.id === next.id ? next : t))
+            : [next, ...prev]
+        );
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "dealer_notes" }, (payload: RealtimePostgresChangesPayload<LiveRow<NoteRow>>) => {
+        if (payload.eventType === "DELETE") {
+          const id = payload.old.id;
+          if (id) setNotes((prev) => prev.filter((n) => n.id !== String(id)));
+          return;
+        }
+        const next = noteFromRow(payload.new);
+        if (payload.new.deleted_at) {
+          setNotes((prev) => prev.filter((n) => n.id !== next.id));
+          return;
+        }
+        setNotes((prev) =>
+          prev.some((n) => n.id === next.id)
+            ? prev.map((n) => (n.id === next.id ? next : n))
+            : [next, ...prev]
+        );
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [session, seesTeam, teamMembers, setDealers, setNotes, setTasks]);
   const handleClickTask = (t: Task) => {
     saveLS(LS_LAST_SELECTED_DEALER, t.dealerId);
     setRoute("dealer-notes");
@@ -6299,6 +8634,65 @@ await syncLastVisitedFromNotes();
           </div>
         </div>
       );
+    } else if (viewAs) {
+      const target = viewAs.user;
+      body = (
+        <div className="min-h-screen bg-slate-50">
+          <TopBar
+            session={{ username: target.username, role: target.role }}
+            route={route}
+            setRoute={viewAsSetRoute}
+            onLogout={handleLogout}
+            can={viewAsCan}
+            tasksForUser={viewAsTasks}
+            onClickTask={() => showToast("Tasks open Dealer Notes, which isn't available in View as.", "info")}
+            queuedNoteCount={0}
+            onSyncNotes={() => {}}
+          />
+          <div className="bg-amber-100 border-b border-amber-300 text-amber-900">
+            <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-3 text-sm">
+              <div>
+                Viewing as <span className="font-semibold">{target.name?.trim() || target.username}</span> ({target.role}) — read-only.
+                <span className="hidden sm:inline"> This session is logged.</span>
+              </div>
+              <button className="px-3 py-1 rounded-lg border border-amber-600 bg-white hover:bg-amber-50" onClick={exitViewAs}>
+                Exit View as
+              </button>
+            </div>
+          </div>
+          <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+            {route === "dealer-search" && (
+              <DealerSearchView
+                session={{ username: target.username, role: target.role }}
+                users={users}
+                dealers={dealers}
+                setDealers={setDealers}
+                regions={regions}
+                setRegions={setRegions}
+                can={viewAsCan}
+                setRoute={viewAsSetRoute}
+                showToast={showToast}
+                tasksForUser={viewAsTasks}
+                onClickTask={() => showToast("Tasks open Dealer Notes, which isn't available in View as.", "info")}
+                notes={notes}
+                team={viewAsTeam}
+              />
+            )}
+            {route === "rep-route" && (
+              <RepRouteView
+                session={{ username: target.username, role: target.role }}
+                users={users}
+                dealers={dealers}
+                notes={notes}
+                setRoute={viewAsSetRoute}
+                showToast={showToast}
+                readOnly
+              />
+            )}
+            {route === "reports" && <RepReportsView session={target} dealers={dealers} users={users} />}
+          </main>
+        </div>
+      );
     } else {
       body = (
         <div className="min-h-screen bg-slate-50">
@@ -6310,6 +8704,11 @@ await syncLastVisitedFromNotes();
             can={can}
             tasksForUser={tasksForUser}
             onClickTask={handleClickTask}
+            queuedNoteCount={queuedNoteCount}
+            rejectedNoteCount={rejectedNoteCount}
+            onSyncNotes={() => {
+              flushNoteOutbox().catch(() => {});
+            }}
           />
           <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
             {route === "dealer-search" && (
@@ -6326,6 +8725,7 @@ await syncLastVisitedFromNotes();
                 tasksForUser={tasksForUser}
                 onClickTask={handleClickTask}
                 notes={notes}
+                team={team}
               />
             )}
 
@@ -6341,6 +8741,7 @@ await syncLastVisitedFromNotes();
                 setRoute={setRoute}
                 showToast={showToast}
                 showActionToast={showActionToast}
+                can={can}
               />
             )}
 {route === "rep-route" && (
@@ -6357,9 +8758,9 @@ await syncLastVisitedFromNotes();
   const currentUser = users.find(u => u.username === session.username);
   return currentUser ? <RepReportsView session={currentUser} dealers={dealers} users={users} /> : null;
 })()}
-           {route === "reporting" && <ReportingView dealers={dealers} users={users} notes={notes} session={session} />}
+           {route === "reporting" && can("reporting.view") && <ReportingView dealers={dealers} users={users} notes={notes} session={session} can={can} showToast={showToast} team={team} regions={regions} />}
             
-            {route === "user-management" && (
+            {route === "user-management" && can("users.manage") && (
               <UserManagementView
                 users={users}
                 setUsers={setUsers}
@@ -6369,14 +8770,22 @@ await syncLastVisitedFromNotes();
                 setDealers={setDealers}
                 notes={notes}
                 showToast={showToast}
+                can={can}
+                capabilities={capabilities}
+                setCapabilities={setCapabilities}
+                onViewAs={startViewAs}
               />
             )}
+
+            {route === "trash" && can("trash.manage") && (
+              <TrashView dealers={dealers} setDealers={setDealers} showToast={showToast} />
+            )}
           </main>
         </div>
       );
     }
   }
-// Save Password for Supabase invite/recovery + activate local user + log them in
+// Save Password for Supabase invite/recovery + log them in
 const handleSaveNewPassword = async () => {
   try {
     // 1) Basic validation
@@ -6418,14 +8827,7 @@ const u =
       return;
     }
 
-    // 6) Store password locally so your Login screen accepts it (username → password)
-    //    These helpers/constants already exist in your app; if TS complains, keep the casts.
-    const pwMap = loadLS<PasswordMap>(LS_PASSWORDS, {});
-    pwMap[u.username] = newPass;                       // original case
-    pwMap[u.username.toLowerCase()] = newPass;         // case-insensitive login
-    saveLS(LS_PASSWORDS, pwMap);    
-
-    // 7) Mark the user Active in your local list and ensure email is saved
+    // 6) Mark the user Active in your local list and ensure email is saved
     //    If your status field is named differently (e.g., is_active), tweak here.
     setUsers((prev: any[]) =>
       prev.map((x: any) =>
@@ -6439,7 +8841,7 @@ const u =
       )
     );
 
-    // 8) Close modal, clear fields, create a session, and route to Home
+    // 7) Close modal, clear fields, create a session, and route to Home
     setShowForceReset(false);
     setNewPass('');
     setNewPass2('');
@@ -6534,15 +8936,6 @@ const u =
     </div>
   </Modal>
 )}
-      {resetOpen && (
-        <ResetInviteModal
-          token={resetToken}
-          onClose={() => setResetOpen(false)}
-          users={users}
-          setUsers={setUsers}
-          showToast={showToast}
-        />
-      )}
     </>
   );
 };
@@ -6743,93 +9136,270 @@ const SelectField: React.FC<{
   );
 };
 
-/* ---------------------------- Reset Invite Modal -------------------------- */
-/**
- * New behavior:
- * - Read token -> invite map (LS_INVITES) to find the target user
- * - Prefill read-only: Full Name, Username, Phone
- * - Only allow setting New Password (+ confirm)
- * - On save: store to LS_PASSWORDS[username] = new password
- *            remove token from LS_INVITES
- *            mark user Active (via status map) so they can log in
- */
-const LS_DISABLED_PASSWORDS = "demo_passwords_disabled"; // username -> password (when Inactive)
-const LS_USER_STATUS = "demo_user_status"; // username -> "Active" | "Inactive"
+const LS_USER_STATUS = "demo_user_status"; // username -> "Active" | "Inactive" (edit modal radios)
+
+/* ---------------------------- Route optimizer ----------------------------- */
+
+// A rep's fixed start/end places, kept per user in this browser
+type RoutePlaceKey = "home" | "office";
+type RoutePlace = GeocodeAddress & { point: LatLng | null; approximate: boolean };
+const ROUTE_PLACE_LABELS: Record<RoutePlaceKey, string> = { home: "Home", office: "Office" };
+const EMPTY_ROUTE_PLACE: RoutePlace = { address1: "", city: "", state: "", zip: "", point: null, approximate: false };
+
+const routePlacesKey = (username?: string | null) => `${LS_ROUTE_PLACES}_${username || "anon"}`;
+
+const loadRoutePlaces = (username?: string | null): Partial<Record<RoutePlaceKey, RoutePlace>> => {
+  try {
+    return JSON.parse(localStorage.getItem(routePlacesKey(username)) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Server geocoder first; the bundled ZIP centroids when it can't be reached
+const locateRoutePlace = async (a: GeocodeAddress): Promise<Pick<RoutePlace, "point" | "approximate">> => {
+  try {
+    const r = await apiPost("/api/geocode-address", a);
+    const j = await r.json().catch(() => ({}));
+    if (r.ok) {
+      return j.lat != null
+        ? { point: { lat: j.lat, lng: j.lng }, approximate: j.source === ZIP_CENTROID_SOURCE }
+        : { point: null, approximate: false };
+    }
+  } catch {
+    // offline: fall through
+  }
+  const c = zipCentroid(a.zip, a.state);
+  return { point: c, approximate: !!c };
+};
 
-const ResetInviteModal: React.FC<{
-  token: string;
+const formatMiles = (mi: number) => `${mi < 10 ? mi.toFixed(1) : Math.round(mi)} mi`;
+
+type RouteOptimizerModalProps = {
+  username: string;
+  dateStr: string;
+  stops: Dealer[]; // in the current order
+  readOnly: boolean;
+  onApply: (dealerIds: string[]) => Promise<void>;
   onClose: () => void;
-  users: User[];
-  setUsers: React.Dispatch<React.SetStateAction<User[]>>;
   showToast: (m: string, k?: ToastKind) => void;
-}> = ({ token, onClose, users, setUsers, showToast }) => {
-  const invites = loadLS<InviteMap>(LS_INVITES, {});
-  const pw = loadLS<PasswordMap>(LS_PASSWORDS, {});
-  const statusMap = loadLS<Record<string, "Active" | "Inactive">>(LS_USER_STATUS, {});
-
-  const invite = token ? invites[token] : undefined;
-  const user = invite ? users.find((u) => u.id === invite.userId) || null : null;
-
-  const [pwd, setPwd] = useState("");
-  const [confirm, setConfirm] = useState("");
-
-  const doReset = () => {
-    if (!token || !invite || !user) return showToast("Invalid or expired invite link.", "error");
-    if (!pwd) return showToast("Please enter a new password.", "error");
-    if (pwd !== confirm) return showToast("Passwords do not match.", "error");
-
-    // Set password (replaces any previous)
-    const nextPw: PasswordMap = { ...pw, [user.username]: pwd };
-    saveLS(LS_PASSWORDS, nextPw);
-
-    // Mark Active (and ensure any disabled pw copy is removed)
-    const disabledMap = loadLS<Record<string, string>>(LS_DISABLED_PASSWORDS, {});
-    if (disabledMap[user.username]) {
-      delete disabledMap[user.username];
-      saveLS(LS_DISABLED_PASSWORDS, disabledMap);
-    }
-    const nextStatus = { ...statusMap, [user.username]: "Active" as const };
-    saveLS(LS_USER_STATUS, nextStatus);
+};
+
+const RouteOptimizerModal: React.FC<RouteOptimizerModalProps> = ({ username, dateStr, stops, readOnly, onApply, onClose, showToast }) => {
+  const [places, setPlaces] = useState(() => loadRoutePlaces(username));
+  const [startKey, setStartKey] = useState<"" | RoutePlaceKey>(() => (places.home?.point ? "home" : ""));
+  const [endKey, setEndKey] = useState<"" | RoutePlaceKey>(() => (places.home?.point ? "home" : ""));
+  const [editing, setEditing] = useState<RoutePlaceKey | null>(null);
+  const [draft, setDraft] = useState<RoutePlace>(EMPTY_ROUTE_PLACE);
+  const [locating, setLocating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Stops without any position can't be routed; they keep their order at the end
+  const { placed, unplaced } = useMemo(() => {
+    const pins = stops.map((d) => ({ dealer: d, pin: dealerMapPin(d) }));
+    return { placed: pins.filter((p) => p.pin), unplaced: pins.filter((p) => !p.pin).map((p) => p.dealer) };
+  }, [stops]);
+
+  const startPoint = startKey ? places[startKey]?.point : null;
+  const endPoint = endKey ? places[endKey]?.point : null;
+
+  const plan = useMemo(() => {
+    const ends: RouteEnds = { start: startPoint, end: endPoint };
+    const points = placed.map((p) => p.pin!.point);
+    const order = optimizeRouteOrder(points, ends);
+    return {
+      before: routeMiles(points, ends),
+      after: routeMiles(order.map((i) => points[i]), ends),
+      dealers: [...order.map((i) => placed[i].dealer), ...unplaced],
+    };
+  }, [placed, unplaced, startPoint, endPoint]);
+
+  const unchanged = plan.dealers.every((d, i) => d.id === stops[i]?.id);
+  const approximate = placed.some((p) => p.pin!.approximate) || (startKey && places[startKey]?.approximate) || (endKey && places[endKey]?.approximate);
 
-    // Remove invite token (one-time use)
-    const nextInv = { ...invites };
-    delete nextInv[token];
-    saveLS(LS_INVITES, nextInv);
+  const editPlace = (key: RoutePlaceKey) => {
+    setEditing(key);
+    setDraft({ ...EMPTY_ROUTE_PLACE, ...places[key] });
+  };
+
+  const savePlace = async () => {
+    if (!editing) return;
+    const address = { address1: draft.address1?.trim(), city: draft.city?.trim(), state: draft.state?.trim().toUpperCase(), zip: draft.zip?.trim() };
+    if (!address.address1 && !address.city && !address.zip) {
+      showToast("Enter an address or at least a ZIP.", "error");
+      return;
+    }
+    setLocating(true);
+    const located = await locateRoutePlace(address);
+    setLocating(false);
+    if (!located.point) {
+      showToast("Couldn't place that address. Check the ZIP.", "error");
+      return;
+    }
+    const next = { ...places, [editing]: { ...address, ...located } };
+    setPlaces(next);
+    localStorage.setItem(routePlacesKey(username), JSON.stringify(next));
+    if (located.approximate) showToast(`${ROUTE_PLACE_LABELS[editing]} placed by ZIP only.`, "info");
+    setEditing(null);
+  };
 
-    showToast("Password set. You can now log in.", "success");
-    onClose();
+  const apply = async () => {
+    setSaving(true);
+    await onApply(plan.dealers.map((d) => d.id));
+    setSaving(false);
   };
 
+  const placeOptions = (Object.keys(ROUTE_PLACE_LABELS) as RoutePlaceKey[])
+    .filter((k) => places[k]?.point)
+    .map((k) => ({ label: ROUTE_PLACE_LABELS[k], value: k }));
+
   return (
-    <Modal title="Create Your Account" onClose={onClose}>
-      {!user ? (
-        <div className="text-sm text-red-600">This invite link is invalid or has expired.</div>
-      ) : (
-        <div className="space-y-3">
-          {/* NOTE: per request, no token text shown */}
-          <div className="grid md:grid-cols-2 gap-3">
-            <TextField label="Full Name" value={user.name} onChange={() => {}} disabled />
-            <TextField label="Username" value={user.username} onChange={() => {}} disabled />
-            <TextField label="Phone" value={user.phone || ""} onChange={() => {}} disabled />
-            <TextField label="New Password" type="password" value={pwd} onChange={setPwd} />
-            <TextField label="Confirm New Password" type="password" value={confirm} onChange={setConfirm} />
-          </div>
-          <div className="mt-4 flex justify-end gap-2">
-            <button className="px-3 py-2 rounded-lg border text-slate-700 hover:bg-slate-50" onClick={onClose}>
-              Cancel
-            </button>
-            <button className={`${brand.primary} text-white px-4 py-2 rounded-lg`} onClick={doReset}>
-              Create Account
+    <Modal title={`Optimize route · ${dateStr}`} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <SelectField
+            label="Start from"
+            value={startKey}
+            onChange={(v) => setStartKey(v as "" | RoutePlaceKey)}
+            options={[{ label: "First stop (no fixed start)", value: "" }, ...placeOptions]}
+          />
+          <SelectField
+            label="End at"
+            value={endKey}
+            onChange={(v) => setEndKey(v as "" | RoutePlaceKey)}
+            options={[{ label: "Last stop (no fixed end)", value: "" }, ...placeOptions]}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {(Object.keys(ROUTE_PLACE_LABELS) as RoutePlaceKey[]).map((k) => (
+            <button key={k} className="px-3 py-1.5 rounded-lg border" onClick={() => editPlace(k)}>
+              {places[k]?.point ? `Edit ${ROUTE_PLACE_LABELS[k].toLowerCase()}` : `Set ${ROUTE_PLACE_LABELS[k].toLowerCase()}`}
             </button>
+          ))}
+          <span className="text-xs text-slate-500">Saved in this browser only.</span>
+        </div>
+
+        {editing && (
+          <div className="rounded-xl border bg-slate-50 p-3 space-y-3">
+            <div className="font-medium">{ROUTE_PLACE_LABELS[editing]} address</div>
+            <div className="grid gap-3 md:grid-cols-[2fr_1fr_auto_auto]">
+              <TextField label="Street" value={draft.address1 || ""} onChange={(v) => setDraft({ ...draft, address1: v })} />
+              <TextField label="City" value={draft.city || ""} onChange={(v) => setDraft({ ...draft, city: v })} />
+              <TextField label="State" value={draft.state || ""} onChange={(v) => setDraft({ ...draft, state: v })} placeholder="TX" />
+              <TextField label="ZIP" value={draft.zip || ""} onChange={(v) => setDraft({ ...draft, zip: v })} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button className="px-3 py-2 rounded-lg border" onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+              <button className={`${brand.primary} text-white px-3 py-2 rounded-lg disabled:opacity-50`} disabled={locating} onClick={savePlace}>
+                {locating ? "Locating…" : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-xl border p-3">
+            <div className="text-xs text-slate-500">Current order</div>
+            <div className="text-2xl font-semibold">{formatMiles(plan.before)}</div>
           </div>
-          <div className="text-xs text-slate-500">
-            After setting your password, return to the login screen to sign in.
+          <div className="rounded-xl border p-3">
+            <div className="text-xs text-slate-500">Optimized</div>
+            <div className="text-2xl font-semibold">{formatMiles(plan.after)}</div>
+            {plan.before - plan.after >= 0.1 && (
+              <div className="text-xs text-emerald-700">saves {formatMiles(plan.before - plan.after)}</div>
+            )}
           </div>
         </div>
-      )}
+        <div className="text-xs text-slate-500">
+          Estimated driving distance (straight lines × {ROAD_FACTOR}).
+          {approximate ? " Some positions are approximate (ZIP only)." : ""}
+        </div>
+
+        <ol className="divide-y rounded-xl border">
+          {startPoint && startKey && (
+            <li className="px-3 py-2 text-sm text-slate-500">Start: {ROUTE_PLACE_LABELS[startKey]}</li>
+          )}
+          {plan.dealers.map((d, i) => (
+            <li key={d.id} className="px-3 py-2 text-sm">
+              <span className="font-medium">{i + 1}. {d.name}</span>
+              <span className="text-slate-500"> · {[d.city, d.state].filter(Boolean).join(", ")}</span>
+              {unplaced.includes(d) && <span className="text-amber-700"> · no location, kept at the end</span>}
+            </li>
+          ))}
+          {endPoint && endKey && (
+            <li className="px-3 py-2 text-sm text-slate-500">End: {ROUTE_PLACE_LABELS[endKey]}</li>
+          )}
+        </ol>
+
+        <div className="flex justify-end gap-2">
+          <button className="px-4 py-2 rounded-lg border" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className={`${brand.primary} text-white px-4 py-2 rounded-lg disabled:opacity-50`}
+            disabled={readOnly || saving || unchanged}
+            onClick={apply}
+            title={unchanged ? "The current order is already the shortest found" : undefined}
+          >
+            {saving ? "Saving…" : "Apply new order"}
+          </button>
+        </div>
+      </div>
     </Modal>
   );
 };
+
+/* ------------------------------ Stop check-in ----------------------------- */
+
+// Browser position for a check-in, or null (denied, unsupported, too slow)
+const currentPosition = () =>
+  new Promise<LatLng | null>((resolve) => {
+    if (!navigator.geolocation) return resolve(null);
+    navigator.geolocation.getCurrentPosition(
+      (p) => resolve({ lat: p.coords.latitude, lng: p.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 8000, maximumAge: 60000 }
+    );
+  });
+
+const newNoteClientId = (username: string) => `${username}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Write a Visit note the way the notes page does: outbox first, then the
+ * idempotent upsert, so a check-out with no signal still lands (and the
+ * server bumps the dealer's Last Visited). Pass the same clientId when
+ * retrying a check-out, so the note is written once. Returns the clientId.
+ */
+const saveVisitNote = async (dealerId: string, username: string, text: string, clientId: string): Promise<string> => {
+  const { data: authData } = await supabase.auth.getSession();
+  const userId = authData?.session?.user?.id;
+  if (!userId) throw new Error("You're not signed in.");
+
+  const payload = noteToRow(
+    { dealerId, authorUsername: username, tsISO: new Date().toISOString(), category: "Visit", text },
+    { user_id: userId, client_id: clientId }
+  );
+  try {
+    await enqueueNote(payload);
+  } catch (e) {
+    console.warn("[outbox] enqueue failed", e);
+  }
+  if (navigator.onLine) {
+    const { error } = await notesRepo.upsertByClientId(payload);
+    if (!error) await removeQueuedNote(clientId);
+    // otherwise it stays queued and syncs with the rest of the outbox
+  }
+  return clientId;
+};
+
+const formatClock = (iso?: string) =>
+  iso ? new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }) : "";
+
+const LS_ROUTE_GEO = "demo_route_geo"; // per-user: record position on check-in/out
+
 /* ------------------------------- Rep Route -------------------------------- */
 
 type RepRouteViewProps = {
@@ -6839,35 +9409,27 @@ type RepRouteViewProps = {
   notes: Note[];
   setRoute: (r: RouteKey) => void;
   showToast: (m: string, k?: ToastKind) => void;
+  readOnly?: boolean; // "View as": browse the rep's route without touching it
 };
 
+// Gate to Reps only, ahead of the planner's hooks
 const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
-  const { session, users, dealers, notes, setRoute, showToast } = props;
-
-  // find current profile; gate to Reps only
-  const me = users.find((u) => u.username === session?.username) || null;
-  const isRep = session?.role === "Rep";
-  if (!isRep) {
+  const { session } = props;
+  if (session?.role !== "Rep") {
     return <div className="p-6 text-center text-slate-600">This page is only for reps.</div>;
   }
+  return <RepRoutePlanner {...props} session={session} />;
+};
+
+const RepRoutePlanner: React.FC<RepRouteViewProps & { session: NonNullable<Session> }> = (props) => {
+  const { session, users, dealers, notes, setRoute, showToast, readOnly = false } = props;
+
+  // find current profile
+  const me = users.find((u) => u.username === session?.username) || null;
 
   // LS key helper
   const routeKeyForUser = (username?: string | null) => `${LS_REP_ROUTE}_${username || "anon"}`;
 
-  // types
-  type RouteStop = { dealerId: string; position: number };
-  type RouteByDate = Record<string, RouteStop[]>;
-  
-  type RoutePreset = {
-    id: string;
-    rep_username: string;
-    name: string;
-    dealer_ids: string[];
-    created_at: string;
-    updated_at: string;
-    last_used_at: string | null;
-  };
-
   // state
   const [dateStr, setDateStr] = useState<string>(todayISO());
   const [routeByDate, setRouteByDate] = useState<RouteByDate>({});
@@ -6888,12 +9450,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
     let isCancelled = false;
 
     (async () => {
-      const { data, error } = await supabase
-        .from("dealer_routes")
-        .select("dealer_id, position")
-        .eq("user_id", me.id)
-        .eq("date", dateStr)
-        .order("position", { ascending: true });
+      const { data, error } = await routesRepo.listForDay(me.id, dateStr);
 
       if (error) {
         console.error("load route error:", error);
@@ -6901,11 +9458,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
       }
       if (isCancelled) return;
 
-      const rows: RouteStop[] = (data ?? []).map((r: any) => ({
-        dealerId: r.dealer_id,
-        position: r.position ?? 1,
-      }));
-      setRouteByDate((prev) => ({ ...prev, [dateStr]: rows }));
+      setRouteByDate((prev) => ({ ...prev, [dateStr]: data || [] }));
     })();
 
     return () => {
@@ -6920,11 +9473,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
     (async () => {
       setPresetsLoading(true);
-      const { data, error } = await supabase
-        .from("route_presets")
-        .select("*")
-        .eq("rep_username", me.username)
-        .order("updated_at", { ascending: false });
+      const { data, error } = await presetsRepo.listForRep(me.username);
 
       if (error) {
         console.error("load presets error:", error);
@@ -6933,16 +9482,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
       }
       if (isCancelled) return;
 
-      const mapped: RoutePreset[] = (data || []).map((r: any) => ({
-        id: r.id,
-        rep_username: r.rep_username,
-        name: r.name,
-        dealer_ids: r.dealer_ids || [],
-        created_at: r.created_at,
-        updated_at: r.updated_at,
-        last_used_at: r.last_used_at,
-      }));
-      setPresets(mapped);
+      setPresets(data || []);
       setPresetsLoading(false);
     })();
 
@@ -7007,11 +9547,19 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // persist route map per-user
   useEffect(() => {
+    if (readOnly) return;
     saveLS(routeKeyForUser(session?.username), routeByDate);
-  }, [routeByDate, session?.username]);
+  }, [routeByDate, session?.username, readOnly]);
+
+  // Every write below bails out first when read-only
+  const blockWrite = () => {
+    if (readOnly) showToast("Read-only while viewing as another user.", "info");
+    return readOnly;
+  };
 
   // add dealer to today’s route (local + supabase)
   const addDealer = async (d: Dealer) => {
+    if (blockWrite()) return;
     setRouteByDate((prev) => {
       const current = prev[dateStr] || [];
       if (current.some((r) => r.dealerId === d.id)) return prev;
@@ -7021,17 +9569,9 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
     });
 
     // upsert (ignore conflict via UNIQUE)
-    const { error } = await supabase
-      .from("dealer_routes")
-      .upsert(
-        {
-          user_id: me!.id,
-          dealer_id: d.id,
-          date: dateStr,
-          position: (routeByDate[dateStr]?.length || 0) + 1,
-        },
-        { onConflict: "user_id,date,dealer_id" }
-      );
+    const { error } = await routesRepo.upsertStops(me!.id, dateStr, [
+      { dealerId: d.id, position: (routeByDate[dateStr]?.length || 0) + 1 },
+    ]);
 
     if (error) {
       console.error("add route upsert error:", error);
@@ -7044,17 +9584,13 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // remove dealer
   const removeDealer = async (dealerId: string) => {
+    if (blockWrite()) return;
     setRouteByDate((prev) => {
       const next = (prev[dateStr] || []).filter((r) => r.dealerId !== dealerId);
       return { ...prev, [dateStr]: next };
     });
 
-    const { error } = await supabase
-      .from("dealer_routes")
-      .delete()
-      .eq("user_id", me!.id)
-      .eq("date", dateStr)
-      .eq("dealer_id", dealerId);
+    const { error } = await routesRepo.removeStop(me!.id, dateStr, dealerId);
 
     if (error) {
       console.error("remove route error:", error);
@@ -7064,51 +9600,159 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
     showToast("Removed from route.", "success");
   };
 
-  // move up/down
-  const move = async (dealerId: string, dir: "up" | "down") => {
-    setRouteByDate((prev) => {
-      const curr = [...(prev[dateStr] || [])];
-      const i = curr.findIndex((r) => r.dealerId === dealerId);
-      if (i < 0) return prev;
-      const j = dir === "up" ? i - 1 : i + 1;
-      if (j < 0 || j >= curr.length) return prev;
-      [curr[i], curr[j]] = [curr[j], curr[i]];
-      // re-number positions 1..N
-      const renum = curr.map((r, idx) => ({ dealerId: r.dealerId, position: idx + 1 }));
-      return { ...prev, [dateStr]: renum };
+  // Save the day's order in one request; the server renumbers 1..N
+  const saveOrder = async (dealerIds: string[]) => {
+    if (blockWrite()) return false;
+    const day = dateStr;
+    const before = routeByDate[day] || [];
+    setRouteByDate((prev) => ({
+      ...prev,
+      [day]: dealerIds.map((dealerId, idx) => ({ ...before.find((r) => r.dealerId === dealerId), dealerId, position: idx + 1 })),
+    }));
+
+    const { data, error } = await routesRepo.reorder(day, dealerIds);
+    if (error) {
+      console.error("reorder route error:", error);
+      setRouteByDate((prev) => ({ ...prev, [day]: before }));
+      showToast("Couldn't save the new order. Try again.", "error");
+      return false;
+    }
+    setRouteByDate((prev) => ({ ...prev, [day]: data }));
+    return true;
+  };
+
+  // move up/down (keyboard-friendly alternative to dragging)
+  const move = (dealerId: string, dir: "up" | "down") => {
+    const ids = sortedRoute.map((r) => r.dealerId);
+    const i = ids.indexOf(dealerId);
+    const j = dir === "up" ? i - 1 : i + 1;
+    if (i < 0 || j < 0 || j >= ids.length) return;
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+    saveOrder(ids);
+  };
+
+  // drag-and-drop: the handle captures the pointer (mouse or touch) and the
+  // list previews the order until it's dropped
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null);
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, dealerId: string) => {
+    if (blockWrite()) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragId(dealerId);
+    setDragOrder(sortedRoute.map((r) => r.dealerId));
+  };
+
+  const dragMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!dragId || !dragOrder) return;
+    // keep the list scrolling when the finger reaches the screen edge
+    if (e.clientY < 60) window.scrollBy(0, -12);
+    else if (e.clientY > window.innerHeight - 60) window.scrollBy(0, 12);
+
+    // slot = how many of the other stops sit above the pointer
+    const others = dragOrder.filter((id) => id !== dragId);
+    const slot = others.filter((id) => {
+      const box = rowRefs.current.get(id)?.getBoundingClientRect();
+      return !!box && box.top + box.height / 2 < e.clientY;
+    }).length;
+    const next = [...others.slice(0, slot), dragId, ...others.slice(slot)];
+    if (next.join() !== dragOrder.join()) setDragOrder(next);
+  };
+
+  const endDrag = (commit: boolean) => {
+    const order = dragOrder;
+    setDragId(null);
+    setDragOrder(null);
+    if (commit && order && order.join() !== sortedRoute.map((r) => r.dealerId).join()) saveOrder(order);
+  };
+
+  // check-in / check-out (today's route only)
+  const [recordPosition, setRecordPosition] = useState<boolean>(() => loadLS(`${LS_ROUTE_GEO}_${session?.username || "anon"}`, false));
+  // noteClientId is fixed for the whole check-out, so retries rewrite one Visit note
+  const [checkingOut, setCheckingOut] = useState<{ stop: RouteStop; dealer?: Dealer; text: string; noteClientId: string } | null>(
+    null
+  );
+  const [checkBusy, setCheckBusy] = useState(false);
+  const isToday = dateStr === todayISO();
+
+  const toggleRecordPosition = (on: boolean) => {
+    setRecordPosition(on);
+    saveLS(`${LS_ROUTE_GEO}_${session?.username || "anon"}`, on);
+  };
+
+  const replaceStop = (day: string, stop: RouteStop) =>
+    setRouteByDate((prev) => ({ ...prev, [day]: (prev[day] || []).map((r) => (r.dealerId === stop.dealerId ? stop : r)) }));
+
+  const checkIn = async (dealerId: string) => {
+    if (blockWrite()) return;
+    const day = dateStr;
+    setCheckBusy(true);
+    const point = recordPosition ? await currentPosition() : null;
+    const { data, error } = await routesRepo.checkIn(me!.id, day, dealerId, new Date().toISOString(), point);
+    setCheckBusy(false);
+    if (error || !data) {
+      console.error("check-in error:", error);
+      showToast("Check-in failed. Try again.", "error");
+      return;
+    }
+    replaceStop(day, data);
+    showToast(recordPosition && !point ? "Checked in (location unavailable)." : "Checked in.", "success");
+  };
+
+  const startCheckOut = (stop: RouteStop) => {
+    if (blockWrite()) return;
+    const dealer = dealers.find((x) => x.id === stop.dealerId);
+    const minutes = stop.checkedInAtISO ? Math.max(1, Math.round((Date.now() - Date.parse(stop.checkedInAtISO)) / 60000)) : 0;
+    setCheckingOut({
+      stop,
+      dealer,
+      noteClientId: newNoteClientId(session.username),
+      text: `Visited ${dealer?.name || "dealer"}${minutes ? ` (${formatClock(stop.checkedInAtISO)}, ${minutes} min)` : ""}.`,
     });
+  };
 
-    // best-effort position sync
-    const curr = routeByDate[dateStr] || [];
-    const idx = curr.findIndex((r) => r.dealerId === dealerId);
-    const targetIndex = dir === "up" ? idx - 1 : idx + 1;
-    const pair = [curr[idx]?.dealerId, curr[targetIndex]?.dealerId].filter(Boolean) as string[];
-    for (let k = 0; k < pair.length; k++) {
-      const id = pair[k];
-      // new position equals its new index + 1 after swap
-      const newPos = dir === "up" ? (id === dealerId ? idx : targetIndex) : (id === dealerId ? idx + 2 : idx + 1);
-      await supabase
-        .from("dealer_routes")
-        .update({ position: newPos })
-        .eq("user_id", me!.id)
-        .eq("date", dateStr)
-        .eq("dealer_id", id);
+  // withNote=false checks out without writing a Visit note
+  const finishCheckOut = async (withNote: boolean) => {
+    if (!checkingOut || blockWrite()) return;
+    const { stop, text, noteClientId } = checkingOut;
+    const day = dateStr;
+    if (withNote && !text.trim()) return showToast("Please enter a note.", "error");
+    setCheckBusy(true);
+    try {
+      const point = recordPosition ? await currentPosition() : null;
+      const noteId = withNote ? await saveVisitNote(stop.dealerId, session.username, text.trim(), noteClientId) : null;
+      const { data, error } = await routesRepo.checkOut(me!.id, day, stop.dealerId, new Date().toISOString(), point, noteId);
+      if (error || !data) throw error || new Error("Stop not found");
+      replaceStop(day, data);
+      setCheckingOut(null);
+      showToast(withNote ? "Checked out. Visit note saved." : "Checked out.", "success");
+    } catch (e) {
+      console.error("check-out error:", e);
+      showToast(errorMessage(e, "Check-out failed. Try again."), "error");
+    } finally {
+      setCheckBusy(false);
     }
   };
 
+  // Save an optimized order
+  const applyOrder = async (dealerIds: string[]) => {
+    if (!(await saveOrder(dealerIds))) return;
+    setOptimizeOpen(false);
+    showToast("Route reordered.", "success");
+  };
+
   // clear the whole day
   const clearDay = async () => {
+    if (blockWrite()) return;
     const current = routeByDate[dateStr] || [];
     if (!current.length) return;
     if (!confirm("Clear all stops for this day?")) return;
 
     setRouteByDate((prev) => ({ ...prev, [dateStr]: [] }));
 
-    const { error } = await supabase
-      .from("dealer_routes")
-      .delete()
-      .eq("user_id", me!.id)
-      .eq("date", dateStr);
+    const { error } = await routesRepo.clearDay(me!.id, dateStr);
 
     if (error) {
       console.error("clear day error:", error);
@@ -7121,6 +9765,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
   
   // Save current route as a new preset
   const savePreset = async () => {
+    if (blockWrite()) return;
     if (!presetName.trim()) {
       showToast("Please enter a preset name", "error");
       return;
@@ -7136,32 +9781,14 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
       .sort((a, b) => a.position - b.position)
       .map(r => r.dealerId);
 
-    const { data, error } = await supabase
-      .from("route_presets")
-      .insert({
-        rep_username: me!.username,
-        name: presetName.trim(),
-        dealer_ids: dealerIds,
-      })
-      .select()
-      .single();
+    const { data: newPreset, error } = await presetsRepo.insert(me!.username, presetName.trim(), dealerIds);
 
-    if (error) {
+    if (error || !newPreset) {
       console.error("save preset error:", error);
-      showToast(error.message.includes("unique") ? "A preset with that name already exists" : "Failed to save preset", "error");
+      showToast(error?.message.includes("unique") ? "A preset with that name already exists" : "Failed to save preset", "error");
       return;
     }
 
-    const newPreset: RoutePreset = {
-      id: data.id,
-      rep_username: data.rep_username,
-      name: data.name,
-      dealer_ids: data.dealer_ids,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-      last_used_at: data.last_used_at,
-    };
-
     setPresets(prev => [newPreset, ...prev]);
     showToast(`Preset "${presetName}" saved!`, "success");
     setSaveModalOpen(false);
@@ -7170,6 +9797,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // Load a preset into current route (adds to end)
   const loadPresetIntoRoute = async (presetId: string) => {
+    if (blockWrite()) return;
     const preset = presets.find(p => p.id === presetId);
     if (!preset) return;
 
@@ -7191,16 +9819,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
     }));
 
     // Save to Supabase
-    const inserts = newStops.map(stop => ({
-      user_id: me!.id,
-      date: dateStr,
-      dealer_id: stop.dealerId,
-      position: stop.position,
-    }));
-
-    const { error } = await supabase
-      .from("dealer_routes")
-      .upsert(inserts, { onConflict: "user_id,date,dealer_id" });
+    const { error } = await routesRepo.upsertStops(me!.id, dateStr, newStops);
 
     if (error) {
       console.error("load preset error:", error);
@@ -7209,10 +9828,7 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
     }
 
     // Update last_used_at
-    await supabase
-      .from("route_presets")
-      .update({ last_used_at: new Date().toISOString() })
-      .eq("id", presetId);
+    await presetsRepo.markUsed(presetId);
 
     showToast(`Preset "${preset.name}" loaded! ${newStops.length} dealers added.`, "success");
     setLoadModalOpen(false);
@@ -7221,10 +9837,8 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // Update an existing preset
   const updatePreset = async (presetId: string, updates: { name?: string; dealer_ids?: string[] }) => {
-    const { error } = await supabase
-      .from("route_presets")
-      .update({ ...updates, updated_at: new Date().toISOString() })
-      .eq("id", presetId);
+    if (blockWrite()) return;
+    const { error } = await presetsRepo.update(presetId, updates);
 
     if (error) {
       console.error("update preset error:", error);
@@ -7238,15 +9852,13 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // Delete a preset
   const deletePreset = async (presetId: string) => {
+    if (blockWrite()) return;
     const preset = presets.find(p => p.id === presetId);
     if (!preset) return;
 
     if (!confirm(`Delete preset "${preset.name}"?`)) return;
 
-    const { error } = await supabase
-      .from("route_presets")
-      .delete()
-      .eq("id", presetId);
+    const { error } = await presetsRepo.remove(presetId);
 
     if (error) {
       console.error("delete preset error:", error);
@@ -7260,37 +9872,20 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
 
   // Duplicate a preset
   const duplicatePreset = async (presetId: string) => {
+    if (blockWrite()) return;
     const preset = presets.find(p => p.id === presetId);
     if (!preset) return;
 
     const newName = `${preset.name} (Copy)`;
 
-    const { data, error } = await supabase
-      .from("route_presets")
-      .insert({
-        rep_username: me!.username,
-        name: newName,
-        dealer_ids: preset.dealer_ids,
-      })
-      .select()
-      .single();
+    const { data: newPreset, error } = await presetsRepo.insert(me!.username, newName, preset.dealer_ids);
 
-    if (error) {
+    if (error || !newPreset) {
       console.error("duplicate preset error:", error);
       showToast("Failed to duplicate preset", "error");
       return;
     }
 
-    const newPreset: RoutePreset = {
-      id: data.id,
-      rep_username: data.rep_username,
-      name: data.name,
-      dealer_ids: data.dealer_ids,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-      last_used_at: data.last_used_at,
-    };
-
     setPresets(prev => [newPreset, ...prev]);
     showToast(`Preset duplicated as "${newName}"`, "success");
   };
@@ -7337,14 +9932,6 @@ const RepRouteView: React.FC<RepRouteViewProps> = (props) => {
   };
 
   // navigation to a dealer’s notes page
-  // Build a Google Maps URL for a dealer address
-const mapUrl = (d: Dealer) => {
-  const q = [d.name, d.address1, d.address2, d.city, d.state, d.zip]
-    .filter(Boolean)
-    .join(", ");
-  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(q)}`;
-};
-
   const viewDealer = (dealerId: string) => {
     saveLS(LS_LAST_SELECTED_DEALER, dealerId);
     setRoute("dealer-notes");
@@ -7354,10 +9941,15 @@ const mapUrl = (d: Dealer) => {
   const actionBtn = "px-2.5 py-1.5 md:px-3 md:py-2 rounded-lg border text-sm md:text-base whitespace-nowrap";
 
   // --- render ---
-  const sortedRoute = [...route].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  const sortedRoute = useMemo(() => [...route].sort((a, b) => (a.position ?? 0) - (b.position ?? 0)), [route]);
 
   // Daily Summary modal state
   const [dailyOpen, setDailyOpen] = useState(false);
+  const [optimizeOpen, setOptimizeOpen] = useState(false);
+  const routeDealers = useMemo(
+    () => sortedRoute.map((r) => dealers.find((x) => x.id === r.dealerId)).filter((d): d is Dealer => !!d),
+    [sortedRoute, dealers]
+  );
 
   // Precompute daily notes for this rep + date
   const todaysDealerIds = new Set(sortedRoute.map((r) => r.dealerId));
@@ -7503,6 +10095,14 @@ const exportDailySummaryCSV = () => {
             </svg>
             <span className="hidden sm:inline">Manage</span>
           </button>
+          <button
+            className="px-3 py-2 rounded-lg border disabled:opacity-50"
+            disabled={sortedRoute.length < 2}
+            onClick={() => setOptimizeOpen(true)}
+            title="Reorder the day's stops to drive less"
+          >
+            Optimize route
+          </button>
           <button className="px-3 py-2 rounded-lg border" onClick={clearDay}>
             Clear Day
           </button>
@@ -7634,24 +10234,66 @@ const exportDailySummaryCSV = () => {
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4">
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-semibold">Route for {dateStr}</h2>
-          <span className="text-sm text-slate-500">{sortedRoute.length} stop(s)</span>
+          <span className="text-sm text-slate-500">
+            {sortedRoute.length} stop(s)
+            {sortedRoute.some((r) => r.checkedOutAtISO) ? ` · ${sortedRoute.filter((r) => r.checkedOutAtISO).length} visited` : ""}
+          </span>
         </div>
+        {isToday && !readOnly && sortedRoute.length > 0 && (
+          <label className="mb-3 flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={recordPosition} onChange={(e) => toggleRecordPosition(e.target.checked)} />
+            Record my location when I check in and out
+          </label>
+        )}
 
         {sortedRoute.length === 0 ? (
           <div className="p-6 text-center text-slate-500">No dealers in the route yet. Add some from above.</div>
         ) : (
           <div className="space-y-2">
-            {sortedRoute.map((r, idx) => {
+            {(dragOrder ? dragOrder.map((id) => sortedRoute.find((r) => r.dealerId === id)!) : sortedRoute).map((r, idx) => {
               const d = dealers.find((x) => x.id === r.dealerId);
+              const dragging = dragId === r.dealerId;
               return (
-                <div key={r.dealerId} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 bg-slate-50 border border-slate-200 rounded-xl p-3">
-                  <div>
-                    <div className="font-semibold">{idx + 1}. {d?.name || "(dealer removed)"}</div>
-                    <div className="text-sm text-slate-600">
-                      {[d?.address1, d?.address2, d?.city, d?.state, d?.zip].filter(Boolean).join(", ")}
+                <div
+                  key={r.dealerId}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(r.dealerId, el);
+                    else rowRefs.current.delete(r.dealerId);
+                  }}
+                  className={`flex flex-col md:flex-row md:items-center md:justify-between gap-3 border rounded-xl p-3 ${
+                    dragging ? "bg-blue-50 border-blue-300 shadow-lg" : "bg-slate-50 border-slate-200"
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    {!readOnly && (
+                      <button
+                        className="shrink-0 px-1.5 py-2 -my-1 rounded text-slate-400 hover:text-slate-600 cursor-grab active:cursor-grabbing select-none"
+                        style={{ touchAction: "none" }}
+                        onPointerDown={(e) => startDrag(e, r.dealerId)}
+                        onPointerMove={dragMove}
+                        onPointerUp={() => endDrag(true)}
+                        onPointerCancel={() => endDrag(false)}
+                        aria-label={`Drag to reorder ${d?.name || "stop"}`}
+                        title="Drag to reorder"
+                      >
+                        ⠿
+                      </button>
+                    )}
+                    <div>
+                      <div className="font-semibold">{idx + 1}. {d?.name || "(dealer removed)"}</div>
+                      <div className="text-sm text-slate-600">
+                        {[d?.address1, d?.address2, d?.city, d?.state, d?.zip].filter(Boolean).join(", ")}
+                      </div>
+                      <div className="text-xs text-slate-500">{d?.region || ""}</div>
+                      <div className="text-xs text-slate-500">Last Visited: {d?.lastVisited || "—"}</div>
+                      {r.checkedInAtISO && (
+                        <div className={`mt-1 inline-block text-[11px] px-1.5 py-0.5 rounded-full ${r.checkedOutAtISO ? "bg-emerald-100 text-emerald-800" : "bg-blue-100 text-blue-800"}`}>
+                          {r.checkedOutAtISO
+                            ? `Visited ${formatClock(r.checkedInAtISO)}–${formatClock(r.checkedOutAtISO)}${r.visitNoteClientId ? " · note added" : ""}`
+                            : `Checked in ${formatClock(r.checkedInAtISO)}`}
+                        </div>
+                      )}
                     </div>
-                    <div className="text-xs text-slate-500">{d?.region || ""}</div>
-                    <div className="text-xs text-slate-500">Last Visited: {d?.lastVisited || "—"}</div>
                   </div>
 
                   <div className="flex flex-wrap gap-2 w-full md:w-auto md:ml-auto md:justify-end">
@@ -7663,6 +10305,16 @@ const exportDailySummaryCSV = () => {
                     >
                       Maps
                     </a>
+                    {isToday && !r.checkedInAtISO && (
+                      <button className={`${actionBtn} border-blue-300 text-blue-700`} disabled={checkBusy} onClick={() => checkIn(r.dealerId)}>
+                        Check in
+                      </button>
+                    )}
+                    {isToday && r.checkedInAtISO && !r.checkedOutAtISO && (
+                      <button className={`${actionBtn} border-emerald-300 text-emerald-700`} disabled={checkBusy} onClick={() => startCheckOut(r)}>
+                        Check out
+                      </button>
+                    )}
                     <button className={actionBtn} onClick={() => viewDealer(r.dealerId)}>View</button>
                     <button className={actionBtn} onClick={() => move(r.dealerId, "up")}>&uarr;</button>
                     <button className={actionBtn} onClick={() => move(r.dealerId, "down")}>&darr;</button>
@@ -7749,6 +10401,47 @@ const exportDailySummaryCSV = () => {
     </Modal>
       )}
 
+      {checkingOut && (
+        <Modal title={`Check out · ${checkingOut.dealer?.name || "Dealer"}`} onClose={() => !checkBusy && setCheckingOut(null)}>
+          <div className="space-y-4">
+            <label className="block">
+              <div className="text-xs text-slate-500 mb-1">Visit note</div>
+              <textarea
+                className="w-full min-h-[120px] rounded-lg border px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+                value={checkingOut.text}
+                onChange={(e) => setCheckingOut({ ...checkingOut, text: e.target.value })}
+                autoFocus
+              />
+            </label>
+            <div className="text-xs text-slate-500">Saved as a Visit note on the dealer, which also updates Last Visited.</div>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button className="px-4 py-2 rounded-lg border" disabled={checkBusy} onClick={() => finishCheckOut(false)}>
+                Check out without note
+              </button>
+              <button
+                className={`${brand.primary} text-white px-4 py-2 rounded-lg disabled:opacity-50`}
+                disabled={checkBusy}
+                onClick={() => finishCheckOut(true)}
+              >
+                {checkBusy ? "Saving…" : "Save note & check out"}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      )}
+
+      {optimizeOpen && (
+        <RouteOptimizerModal
+          username={session.username}
+          dateStr={dateStr}
+          stops={routeDealers}
+          readOnly={readOnly}
+          onApply={applyOrder}
+          onClose={() => setOptimizeOpen(false)}
+          showToast={showToast}
+        />
+      )}
+
       {/* === PRESET MODALS === */}
       
       {/* Save Preset Modal */}
@@ -0,0 +1,18 @@
+import { supabase } from './supabaseClient';
+
+// Calls to our own /api handlers. They all check the caller's Supabase
+// session, so every request carries the current access token.
+
+/** POST `body` as JSON (or nothing) to an /api route as the signed-in user. */
+export const apiPost = async (path: string, body?: unknown): Promise<Response> => {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  const headers: Record<string, string> = {};
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (body !== undefined) headers['content-type'] = 'application/json';
+  return fetch(path, {
+    method: 'POST',
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEALER_EDIT_FIELDS, dealerEditChanges, dealerFieldContested, type DealerEditField } from './dealerMerge';
+import { dealersRepo } from './repository';
+import { supabase } from './supabaseClient';
+import type { Dealer } from './types';
+
+const LAKESHORE = '10000000-0000-4000-8000-000000000001';
+
+const field = (key: keyof Dealer): DealerEditField => DEALER_EDIT_FIELDS.find((f) => f.key === key)!;
+
+const readDealer = async () => {
+  const { data, error } = await dealersRepo.byIds([LAKESHORE]);
+  expect(error).toBeNull();
+  return data[0];
+};
+
+describe('dealer merge', () => {
+  it('only sends the fields the draft changed', () => {
+    const base = { id: LAKESHORE, name: 'Lakeshore Auto', state: 'IL', region: 'Chicago', city: 'Chicago' } as Dealer;
+    expect(dealerEditChanges(base, { name: 'Lakeshore Auto', city: 'Evanston', zip: '' })).toEqual({ city: 'Evanston' });
+  });
+
+  it('marks a field two users changed to different values as contested', async () => {
+    await supabase.auth.signInWithPassword({ email: 'admin@example.com', password: 'admin123' });
+    const base = await readDealer();
+
+    // Someone else saves the name and city first
+    const theirs = await dealersRepo.updateIfUnchanged(LAKESHORE, { name: 'Lakeshore Motors', city: 'Evanston' }, base.updatedAt);
+    expect(theirs.data.saved?.name).toBe('Lakeshore Motors');
+
+    // This user's save of the name and zip, from the same starting copy, is refused
+    const mine = dealerEditChanges(base, { ...base, name: 'Lakeshore Auto Group', zip: '60601' });
+    const { data } = await dealersRepo.updateIfUnchanged(LAKESHORE, mine, base.updatedAt);
+    expect(data.saved).toBeNull();
+    const server = data.current!;
+
+    expect(dealerFieldContested(base, mine, server, field('name'))).toBe(true);
+    expect(dealerFieldContested(base, mine, server, field('zip'))).toBe(false);
+    // Against the server copy as its own base nothing would look contested
+    expect(dealerFieldContested(server, mine, server, field('name'))).toBe(false);
+
+    // Retrying against the copy just merged with goes through
+    const retry = await dealersRepo.updateIfUnchanged(LAKESHORE, mine, server.updatedAt);
+    expect(retry.data.saved?.name).toBe('Lakeshore Auto Group');
+  });
+
+  it('does not contest a field both users set to the same value', () => {
+    const base = { id: LAKESHORE, name: 'Lakeshore Auto', state: 'IL', region: 'Chicago' } as Dealer;
+    const server = { ...base, name: 'Lakeshore Motors' };
+    expect(dealerFieldContested(base, { name: 'Lakeshore Motors' }, server, field('name'))).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { dealerToRow } from './repository';
+import type { Dealer } from './types';
+
+/* ============================================================================
+   Field-level comparison behind the dealer edit form: what a save sends, and
+   which fields need a decision when someone else saved the dealer first.
+============================================================================ */
+
+export type DealerEditField = { key: keyof Dealer; column: string };
+
+// Fields saved by the dealer edit form, compared in DB-column form so "" and
+// undefined count as the same value and labels/formatting match the audit log
+export const DEALER_EDIT_FIELDS: DealerEditField[] = [
+  { key: 'name', column: 'name' },
+  { key: 'address1', column: 'address1' },
+  { key: 'address2', column: 'address2' },
+  { key: 'city', column: 'city' },
+  { key: 'zip', column: 'zip' },
+  { key: 'state', column: 'state' },
+  { key: 'region', column: 'region' },
+  { key: 'contacts', column: 'contacts' },
+  { key: 'sendingDeals', column: 'sending_deals' },
+  { key: 'noDealReasons', column: 'no_deal_reasons' },
+];
+
+export const dealerFieldValue = (d: Partial<Dealer>, f: DealerEditField) =>
+  (dealerToRow({ [f.key]: d[f.key] }) as Record<string, unknown>)[f.column] ?? null;
+
+export const sameDealerField = (a: Partial<Dealer>, b: Partial<Dealer>, f: DealerEditField) =>
+  JSON.stringify(dealerFieldValue(a, f)) === JSON.stringify(dealerFieldValue(b, f));
+
+/** Only the fields of `draft` that differ from `base`. */
+export const dealerEditChanges = (base: Dealer, draft: Partial<Dealer>): Partial<Dealer> => {
+  const out: Partial<Dealer> = {};
+  for (const f of DEALER_EDIT_FIELDS) {
+    if (f.key in draft && !sameDealerField(base, draft, f)) Object.assign(out, { [f.key]: draft[f.key] });
+  }
+  return out;
+};
+
+/**
+ * A field both sides changed, to different values. `base` is the dealer as it
+ * was when this user started editing, not the server copy that rejected the save.
+ */
+export const dealerFieldContested = (base: Dealer, mine: Partial<Dealer>, server: Dealer, f: DealerEditField) =>
+  !sameDealerField(base, server, f) && !sameDealerField(mine, server, f);
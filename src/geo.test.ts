@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { clusterByGrid, optimizeRouteOrder, routeMiles, zipCentroid, type LatLng, type RouteEnds } from './geo';
+
+// Stops along one parallel, so the shortest order is easy to state
+const east = (lng: number): LatLng => ({ lat: 41.9, lng });
+
+// Deterministic scatter around Chicago (no Math.random in tests)
+const scatter = (count: number, seed: number): LatLng[] => {
+  let s = seed;
+  const next = () => (s = (s * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+  return Array.from({ length: count }, () => ({ lat: 41.6 + next() * 0.6, lng: -88.1 + next() * 0.6 }));
+};
+
+const reversed = (order: number[], i: number, j: number) => [
+  ...order.slice(0, i),
+  ...order.slice(i, j + 1).reverse(),
+  ...order.slice(j + 1),
+];
+
+describe('optimizeRouteOrder', () => {
+  it('handles an empty day and a single stop', () => {
+    expect(optimizeRouteOrder([])).toEqual([]);
+    expect(optimizeRouteOrder([east(-87.6)], { start: east(-88), end: east(-87) })).toEqual([0]);
+  });
+
+  it('keeps the fixed start and end outside the order and routes between them', () => {
+    const stops = [east(-87.7), east(-87.9), east(-87.6), east(-87.8)];
+
+    // Start in the east, finish in the west: the stops come east to west
+    expect(optimizeRouteOrder(stops, { start: east(-87.5), end: east(-88.0) })).toEqual([2, 0, 3, 1]);
+    // And the other way round
+    expect(optimizeRouteOrder(stops, { start: east(-88.0), end: east(-87.5) })).toEqual([1, 3, 0, 2]);
+  });
+
+  it('returns every stop exactly once', () => {
+    const stops = scatter(9, 7);
+    const order = optimizeRouteOrder(stops, { start: stops[4] });
+    expect([...order].sort((a, b) => a - b)).toEqual(stops.map((_, i) => i));
+  });
+
+  it('never makes the route longer, and no single reversal shortens it further', () => {
+    const cases: [LatLng[], RouteEnds][] = [
+      [scatter(8, 1), {}],
+      [scatter(10, 2), { start: east(-88.2) }],
+      [scatter(10, 3), { start: east(-88.2), end: east(-87.4) }],
+      [scatter(6, 4), { end: east(-87.4) }],
+    ];
+    for (const [stops, ends] of cases) {
+      const order = optimizeRouteOrder(stops, ends);
+      const miles = routeMiles(order.map((i) => stops[i]), ends);
+      expect(miles).toBeLessThanOrEqual(routeMiles(stops, ends) + 1e-9);
+
+      for (let i = 0; i < order.length - 1; i++) {
+        for (let j = i + 1; j < order.length; j++) {
+          const other = reversed(order, i, j).map((k) => stops[k]);
+          expect(routeMiles(other, ends)).toBeGreaterThanOrEqual(miles - 1e-6);
+        }
+      }
+    }
+  });
+});
+
+describe('clusterByGrid', () => {
+  const at = (x: number, y: number, item: string) => ({ x, y, item });
+
+  it('groups by cell, with each cell edge belonging to the next cell', () => {
+    const clusters = clusterByGrid([at(0, 0, 'a'), at(59.9, 59.9, 'b'), at(60, 0, 'c'), at(119.9, 30, 'd'), at(0, 60, 'e')], 60);
+    expect(clusters.map((c) => c.items)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('places a cluster at the mean of its members', () => {
+    const [pair, single] = clusterByGrid([at(10, 20, 'a'), at(30, 40, 'b'), at(61, 5, 'c')], 60);
+    expect(pair).toEqual({ x: 20, y: 30, items: ['a', 'b'] });
+    expect(single).toEqual({ x: 61, y: 5, items: ['c'] });
+  });
+
+  it('returns nothing for no items', () => {
+    expect(clusterByGrid([], 60)).toEqual([]);
+  });
+});
+
+describe('zipCentroid', () => {
+  it('reads 5-digit, ZIP+4 and 4-digit ZIPs by their 3-digit prefix', () => {
+    const chicago = zipCentroid('60601');
+    expect(chicago).not.toBeNull();
+    expect(zipCentroid('60601-1234')).toEqual(chicago);
+    expect(zipCentroid('2134')).toEqual(zipCentroid('02134'));
+  });
+
+  it('falls back to the state for an unknown or malformed ZIP', () => {
+    const illinois = zipCentroid(undefined, 'IL');
+    expect(illinois).not.toBeNull();
+    expect(zipCentroid('00000', 'il')).toEqual(illinois);
+    expect(zipCentroid('606', 'IL')).toEqual(illinois);
+  });
+
+  it('returns null when neither the ZIP nor the state is known', () => {
+    expect(zipCentroid('00000')).toBeNull();
+    expect(zipCentroid('00000', 'ZZ')).toBeNull();
+    expect(zipCentroid('', '')).toBeNull();
+  });
+});
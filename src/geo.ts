@@ -0,0 +1,452 @@
+/* ============================================================================
+   Geography for dealers: the geocoder contract shared by the browser and the
+   /api handlers, the bundled ZIP-centroid fallback, the Web Mercator and
+   clustering maths behind the Dealer Search map, and the distance maths behind
+   the Rep Route optimizer. No imports, so the serverless functions can load
+   this file as-is.
+============================================================================ */
+
+export type LatLng = { lat: number; lng: number };
+
+export type GeocodeAddress = { address1?: string; city?: string; state?: string; zip?: string };
+
+/**
+ * A geocoding backend. Return null when the address can't be placed; throw
+ * only for failures worth surfacing (bad key, quota, network).
+ */
+export type Geocoder = {
+  /** Stored in dealers.geocode_source. */
+  name: string;
+  geocode: (address: GeocodeAddress) => Promise<LatLng | null>;
+};
+
+export type GeocodeHit = LatLng & { source: string };
+
+/** Source name of the offline fallback; its positions are approximate. */
+export const ZIP_CENTROID_SOURCE = 'zip';
+
+/**
+ * Try each geocoder in order and keep the first hit. A geocoder that throws is
+ * skipped (its error is reported if nothing else places the address), so an
+ * outage at the provider still leaves the ZIP fallback.
+ */
+export async function geocodeWith(geocoders: Geocoder[], address: GeocodeAddress): Promise<GeocodeHit | null> {
+  let failure: unknown = null;
+  for (const g of geocoders) {
+    try {
+      const hit = await g.geocode(address);
+      if (hit) return { ...hit, source: g.name };
+    } catch (e) {
+      failure ??= e;
+    }
+  }
+  if (failure) throw failure;
+  return null;
+}
+
+/** One-line address for provider queries. */
+export const formatAddress = (a: GeocodeAddress) =>
+  [a.address1, a.city, [a.state, a.zip].filter(Boolean).join(' ')].map((s) => (s || '').trim()).filter(Boolean).join(', ');
+
+/* ------------------------------ ZIP centroids ------------------------------ */
+// Approximate centres of the 3-digit ZIP prefixes (the USPS sectional centres),
+// as [first prefix, last prefix, lat, lng]. Good to a county or two, which is
+// all the map needs before a real geocoder has run. Prefixes missing here fall
+// back to the state's centre.
+const ZIP3_CENTROIDS: [number, number, number, number][] = [
+  [5, 5, 40.81, -73.05],
+  [6, 7, 18.22, -66.4], [8, 8, 18.34, -64.9], [9, 9, 18.4, -66.06],
+  // MA / RI
+  [10, 11, 42.1, -72.59], [12, 12, 42.45, -73.25], [13, 13, 42.59, -72.6], [14, 14, 42.58, -71.8],
+  [15, 16, 42.26, -71.8], [17, 17, 42.28, -71.42], [18, 18, 42.48, -71.15], [19, 19, 42.47, -70.95],
+  [20, 20, 42.08, -71.02], [21, 22, 42.34, -71.07], [23, 23, 41.95, -71.0], [24, 24, 42.37, -71.24],
+  [25, 25, 41.75, -70.4], [26, 26, 41.68, -70.2], [27, 27, 41.7, -71.0], [28, 29, 41.82, -71.42],
+  // NH / ME / VT
+  [30, 31, 42.99, -71.46], [32, 33, 43.4, -71.6], [34, 34, 42.93, -72.28], [35, 35, 44.3, -71.77],
+  [36, 36, 43.2, -72.2], [37, 37, 43.6, -72.3], [38, 38, 43.07, -70.95], [39, 41, 43.7, -70.3],
+  [42, 42, 44.1, -70.2], [43, 43, 44.3, -69.78], [44, 44, 44.8, -68.8], [45, 45, 44.0, -69.5],
+  [46, 46, 44.55, -68.4], [47, 47, 46.1, -67.9], [48, 48, 44.1, -69.1], [49, 49, 44.55, -69.63],
+  [50, 51, 43.65, -72.4], [52, 52, 42.88, -73.2], [53, 53, 42.85, -72.56], [54, 54, 44.48, -73.2],
+  [56, 56, 44.3, -72.6], [57, 57, 43.6, -72.97], [58, 59, 44.5, -72.0],
+  // CT
+  [60, 61, 41.76, -72.68], [62, 62, 41.7, -72.2], [63, 63, 41.36, -72.1], [64, 65, 41.3, -72.92],
+  [66, 66, 41.19, -73.2], [67, 67, 41.56, -73.05], [68, 69, 41.1, -73.5],
+  // NJ
+  [70, 71, 40.74, -74.2], [72, 72, 40.66, -74.22], [73, 73, 40.72, -74.07], [74, 75, 40.92, -74.2],
+  [76, 76, 40.89, -74.04], [77, 77, 40.3, -74.1], [78, 78, 40.88, -74.56], [79, 79, 40.72, -74.36],
+  [80, 81, 39.9, -75.05], [82, 82, 39.4, -74.6], [83, 83, 39.4, -75.0], [84, 84, 39.4, -74.5],
+  [85, 86, 40.25, -74.7], [87, 87, 40.05, -74.2], [88, 89, 40.5, -74.45],
+  // NY
+  [100, 102, 40.78, -73.97], [103, 103, 40.58, -74.15], [104, 104, 40.84, -73.87], [105, 106, 41.03, -73.76],
+  [107, 107, 40.93, -73.88], [108, 108, 40.92, -73.78], [109, 109, 41.12, -74.05], [110, 110, 40.73, -73.73],
+  [111, 111, 40.75, -73.93], [112, 112, 40.65, -73.95], [113, 113, 40.74, -73.83], [114, 114, 40.69, -73.8],
+  [115, 115, 40.7, -73.62], [116, 116, 40.6, -73.77], [117, 117, 40.8, -73.2], [118, 118, 40.77, -73.52],
+  [119, 119, 40.92, -72.66], [120, 123, 42.7, -73.8], [124, 124, 41.93, -74.0], [125, 126, 41.7, -73.9],
+  [127, 127, 41.65, -74.7], [128, 128, 43.3, -73.65], [129, 129, 44.7, -73.45], [130, 132, 43.05, -76.15],
+  [133, 135, 43.1, -75.23], [136, 136, 43.97, -75.9], [137, 139, 42.1, -75.9], [140, 143, 42.9, -78.85],
+  [144, 146, 43.16, -77.6], [147, 147, 42.1, -79.24], [148, 149, 42.09, -76.8],
+  // PA
+  [150, 152, 40.44, -80.0], [153, 153, 40.17, -80.25], [154, 154, 39.9, -79.72], [155, 155, 40.0, -79.08],
+  [156, 156, 40.3, -79.54], [157, 157, 40.62, -79.15], [158, 158, 41.12, -78.76], [159, 159, 40.33, -78.92],
+  [160, 161, 41.0, -80.35], [162, 162, 40.8, -79.52], [163, 163, 41.43, -79.7], [164, 165, 42.1, -80.08],
+  [166, 166, 40.52, -78.4], [167, 167, 41.96, -78.64], [168, 168, 40.8, -77.86], [169, 169, 41.75, -77.3],
+  [170, 171, 40.27, -76.88], [172, 172, 39.94, -77.66], [173, 174, 39.96, -76.73], [175, 176, 40.04, -76.3],
+  [177, 177, 41.24, -77.0], [178, 178, 40.86, -76.8], [179, 179, 40.68, -76.2], [180, 181, 40.6, -75.45],
+  [182, 182, 40.96, -75.97], [183, 183, 41.0, -75.18], [184, 185, 41.41, -75.66], [186, 187, 41.25, -75.88],
+  [188, 188, 41.83, -75.87], [189, 189, 40.31, -75.13], [190, 192, 39.98, -75.15], [193, 193, 40.0, -75.5],
+  [194, 194, 40.12, -75.34], [195, 196, 40.34, -75.93],
+  // DE / DC / MD
+  [197, 198, 39.72, -75.6], [199, 199, 39.16, -75.52], [200, 205, 38.9, -77.03], [206, 206, 38.6, -76.9],
+  [207, 208, 38.95, -76.9], [209, 209, 39.0, -77.02], [210, 212, 39.3, -76.6], [214, 214, 38.98, -76.5],
+  [215, 215, 39.65, -78.76], [216, 216, 38.77, -76.07], [217, 217, 39.41, -77.41], [218, 218, 38.37, -75.6],
+  [219, 219, 39.6, -75.83],
+  // VA
+  [220, 223, 38.85, -77.25], [224, 225, 38.3, -77.46], [226, 226, 39.18, -78.16], [227, 227, 38.47, -78.0],
+  [228, 228, 38.45, -78.87], [229, 229, 38.03, -78.48], [230, 232, 37.54, -77.44], [233, 235, 36.85, -76.29],
+  [236, 236, 37.08, -76.47], [237, 237, 36.83, -76.3], [238, 238, 37.2, -77.4], [239, 239, 37.3, -78.39],
+  [240, 241, 37.27, -79.94], [242, 242, 36.6, -82.18], [243, 243, 36.9, -80.3], [244, 244, 38.15, -79.07],
+  [245, 245, 37.41, -79.14], [246, 246, 37.25, -81.6],
+  // WV
+  [247, 248, 37.3, -81.3], [249, 249, 37.8, -80.45], [250, 253, 38.35, -81.63], [254, 254, 39.45, -77.96],
+  [255, 257, 38.42, -82.44], [258, 259, 37.78, -81.19], [260, 260, 40.06, -80.72], [261, 261, 39.27, -81.56],
+  [262, 264, 39.28, -80.34], [265, 265, 39.63, -79.96], [266, 266, 38.67, -80.77], [267, 267, 39.34, -78.76],
+  [268, 268, 39.0, -79.12],
+  // NC / SC
+  [270, 274, 36.07, -79.9], [275, 276, 35.8, -78.64], [277, 277, 35.99, -78.9], [278, 278, 35.94, -77.8],
+  [279, 279, 36.3, -76.22], [280, 282, 35.23, -80.84], [283, 283, 35.05, -78.88], [284, 284, 34.23, -77.94],
+  [285, 285, 35.26, -77.58], [286, 286, 35.73, -81.34], [287, 289, 35.6, -82.55], [290, 292, 34.0, -81.03],
+  [293, 293, 34.85, -82.4], [294, 294, 32.78, -79.94], [295, 295, 34.2, -79.76], [296, 296, 34.6, -82.5],
+  [297, 297, 34.92, -81.02], [298, 298, 33.55, -81.72], [299, 299, 32.43, -80.67],
+  // GA
+  [300, 303, 33.75, -84.39], [304, 304, 32.6, -82.33], [305, 305, 34.3, -83.8], [306, 306, 33.95, -83.38],
+  [307, 307, 34.8, -85.0], [308, 309, 33.47, -82.01], [310, 312, 32.84, -83.63], [313, 314, 32.08, -81.09],
+  [315, 315, 31.21, -82.35], [316, 316, 30.83, -83.28], [317, 317, 31.58, -84.16], [318, 319, 32.46, -84.99],
+  // FL
+  [320, 320, 30.33, -81.66], [321, 321, 29.21, -81.02], [322, 322, 30.33, -81.66], [323, 323, 30.44, -84.28],
+  [324, 324, 30.16, -85.66], [325, 325, 30.42, -87.22], [326, 326, 29.65, -82.32], [327, 328, 28.54, -81.38],
+  [329, 329, 28.08, -80.61], [330, 332, 25.77, -80.2], [333, 333, 26.12, -80.14], [334, 334, 26.71, -80.06],
+  [335, 336, 27.95, -82.46], [337, 337, 27.77, -82.64], [338, 338, 28.04, -81.95], [339, 339, 26.64, -81.87],
+  [341, 341, 26.14, -81.79], [342, 342, 27.34, -82.53], [344, 344, 29.19, -82.14], [346, 346, 28.2, -82.6],
+  [347, 347, 28.3, -81.4], [349, 349, 27.2, -80.3],
+  // AL
+  [350, 352, 33.52, -86.8], [354, 354, 33.21, -87.57], [355, 355, 33.83, -87.28], [356, 356, 34.6, -86.98],
+  [357, 358, 34.73, -86.59], [359, 359, 34.01, -86.0], [360, 361, 32.37, -86.3], [362, 362, 33.66, -85.83],
+  [363, 363, 31.22, -85.39], [364, 364, 31.43, -86.95], [365, 366, 30.69, -88.04], [367, 367, 32.41, -87.02],
+  [368, 368, 32.65, -85.38], [369, 369, 32.3, -88.0],
+  // TN
+  [370, 372, 36.16, -86.78], [373, 374, 35.05, -85.31], [376, 376, 36.31, -82.35], [377, 379, 35.96, -83.92],
+  [380, 381, 35.15, -90.05], [382, 382, 36.13, -88.52], [383, 383, 35.61, -88.81], [384, 384, 35.61, -87.04],
+  [385, 385, 36.16, -85.5],
+  // MS
+  [386, 386, 34.6, -89.9], [387, 387, 33.41, -91.06], [388, 388, 34.26, -88.7], [389, 389, 33.77, -89.81],
+  [390, 392, 32.3, -90.18], [393, 393, 32.36, -88.7], [394, 394, 31.33, -89.29], [395, 395, 30.37, -89.09],
+  [396, 396, 31.24, -90.45], [397, 397, 33.5, -88.43], [398, 398, 31.58, -84.16], [399, 399, 33.75, -84.39],
+  // KY
+  [400, 402, 38.25, -85.76], [403, 405, 38.04, -84.5], [406, 406, 38.2, -84.87], [407, 409, 37.13, -84.08],
+  [410, 410, 38.95, -84.55], [411, 412, 38.48, -82.64], [413, 414, 37.74, -83.55], [415, 416, 37.48, -82.52],
+  [417, 418, 37.25, -83.19], [420, 420, 37.08, -88.6], [421, 422, 36.99, -86.44], [423, 423, 37.77, -87.11],
+  [424, 424, 37.84, -87.59], [425, 426, 37.09, -84.6], [427, 427, 37.69, -85.86],
+  // OH
+  [430, 432, 39.96, -83.0], [433, 433, 40.59, -83.13], [434, 436, 41.65, -83.54], [437, 438, 39.94, -82.01],
+  [439, 439, 40.36, -80.63], [440, 441, 41.5, -81.69], [442, 443, 41.08, -81.52], [444, 445, 41.1, -80.65],
+  [446, 447, 40.8, -81.38], [448, 449, 40.76, -82.52], [450, 452, 39.1, -84.51], [453, 455, 39.76, -84.19],
+  [456, 456, 39.33, -82.98], [457, 457, 39.33, -82.1], [458, 458, 40.74, -84.1],
+  // IN
+  [460, 462, 39.77, -86.16], [463, 464, 41.59, -87.35], [465, 466, 41.68, -86.25], [467, 468, 41.08, -85.14],
+  [469, 469, 40.49, -86.13], [470, 470, 39.2, -85.0], [471, 471, 38.3, -85.76], [472, 472, 39.2, -85.92],
+  [473, 473, 40.19, -85.39], [474, 474, 39.17, -86.53], [475, 475, 38.66, -87.17], [476, 477, 37.97, -87.57],
+  [478, 478, 39.47, -87.41], [479, 479, 40.42, -86.88],
+  // MI
+  [480, 483, 42.45, -83.15], [484, 485, 43.01, -83.69], [486, 487, 43.42, -83.95], [488, 489, 42.73, -84.56],
+  [490, 491, 42.29, -85.59], [492, 492, 42.25, -84.4], [493, 495, 42.96, -85.67], [496, 496, 44.76, -85.62],
+  [497, 497, 45.03, -84.67], [498, 499, 46.3, -87.4],
+  // IA
+  [500, 503, 41.59, -93.62], [504, 504, 43.15, -93.2], [505, 505, 42.5, -94.17], [506, 507, 42.49, -92.34],
+  [508, 508, 41.06, -94.36], [509, 509, 41.6, -93.6], [510, 511, 42.5, -96.4], [512, 512, 43.18, -95.86],
+  [513, 513, 43.14, -95.14], [514, 514, 42.07, -94.87], [515, 515, 41.26, -95.86], [516, 516, 40.77, -95.37],
+  [520, 520, 42.5, -90.66], [521, 521, 43.3, -91.79], [522, 524, 41.98, -91.67], [525, 525, 41.02, -92.41],
+  [526, 526, 40.81, -91.11], [527, 528, 41.52, -90.58],
+  // WI
+  [530, 532, 43.04, -87.91], [534, 534, 42.73, -87.78], [535, 535, 43.07, -89.4], [537, 537, 43.07, -89.4],
+  [538, 538, 42.9, -90.2], [539, 539, 43.54, -89.46], [540, 540, 45.0, -92.4], [541, 543, 44.51, -88.01],
+  [544, 544, 44.96, -89.63], [545, 545, 45.64, -89.41], [546, 546, 43.8, -91.24], [547, 547, 44.81, -91.5],
+  [548, 548, 45.82, -91.89], [549, 549, 44.02, -88.54],
+  // MN
+  [550, 551, 44.95, -93.09], [553, 555, 44.98, -93.27], [556, 558, 46.79, -92.1], [559, 559, 44.02, -92.47],
+  [560, 560, 44.16, -94.0], [561, 561, 43.87, -95.12], [562, 562, 45.12, -95.04], [563, 563, 45.56, -94.16],
+  [564, 564, 46.36, -94.2], [565, 565, 46.82, -95.85], [566, 566, 47.47, -94.88], [567, 567, 48.12, -96.18],
+  // SD / ND / MT
+  [570, 571, 43.55, -96.73], [572, 572, 44.9, -97.12], [573, 573, 43.71, -98.03], [574, 574, 45.46, -98.49],
+  [575, 575, 44.37, -100.35], [576, 576, 45.54, -100.43], [577, 577, 44.08, -103.23], [580, 581, 46.88, -96.79],
+  [582, 582, 47.93, -97.03], [583, 583, 48.11, -98.86], [584, 584, 46.91, -98.71], [585, 585, 46.81, -100.78],
+  [586, 586, 46.88, -102.79], [587, 587, 48.23, -101.3], [588, 588, 48.15, -103.62], [590, 591, 45.78, -108.5],
+  [592, 592, 48.09, -105.64], [593, 593, 46.41, -105.84], [594, 594, 47.5, -111.3], [595, 595, 48.55, -109.68],
+  [596, 596, 46.59, -112.04], [597, 597, 46.0, -112.53], [598, 598, 46.87, -113.99], [599, 599, 48.2, -114.31],
+  // IL
+  [600, 603, 42.07, -87.95], [604, 604, 41.55, -87.75], [605, 605, 41.78, -88.2], [606, 608, 41.85, -87.68],
+  [609, 609, 41.12, -87.86], [610, 611, 42.27, -89.09], [612, 612, 41.5, -90.5], [613, 613, 41.33, -89.09],
+  [614, 614, 40.95, -90.37], [615, 616, 40.69, -89.59], [617, 617, 40.48, -88.99], [618, 619, 40.12, -88.24],
+  [620, 620, 38.7, -90.0], [622, 622, 38.62, -90.15], [623, 623, 39.94, -91.41], [624, 624, 39.12, -88.54],
+  [625, 627, 39.8, -89.64], [628, 628, 38.52, -89.13], [629, 629, 37.73, -89.22],
+  // MO
+  [630, 631, 38.63, -90.2], [633, 633, 38.8, -90.7], [634, 634, 39.7, -91.36], [635, 635, 40.19, -92.58],
+  [636, 636, 37.85, -90.5], [637, 637, 37.31, -89.52], [638, 638, 36.88, -89.59], [639, 639, 36.76, -90.39],
+  [640, 641, 39.1, -94.58], [644, 645, 39.77, -94.85], [646, 646, 39.79, -93.55], [647, 647, 38.65, -94.35],
+  [648, 648, 37.08, -94.51], [650, 651, 38.58, -92.17], [652, 652, 38.95, -92.33], [653, 653, 38.7, -93.23],
+  [654, 655, 37.95, -91.77], [656, 658, 37.21, -93.29],
+  // KS / NE
+  [660, 662, 39.05, -94.75], [664, 666, 39.05, -95.68], [667, 667, 37.84, -94.71], [668, 668, 38.4, -96.18],
+  [669, 669, 39.3, -97.6], [670, 672, 37.69, -97.34], [673, 673, 37.22, -95.71], [674, 674, 38.84, -97.61],
+  [675, 675, 38.06, -97.93], [676, 676, 38.88, -99.33], [677, 677, 39.4, -101.05], [678, 678, 37.75, -100.02],
+  [679, 679, 37.04, -100.92], [680, 681, 41.26, -96.0], [683, 685, 40.81, -96.7], [686, 687, 42.03, -97.42],
+  [688, 688, 40.92, -98.34], [689, 689, 40.59, -98.39], [690, 690, 40.2, -100.63], [691, 691, 41.12, -100.77],
+  [692, 692, 42.87, -100.55], [693, 693, 42.1, -102.87],
+  // LA / AR / OK
+  [700, 701, 29.95, -90.07], [703, 703, 29.8, -90.82], [704, 704, 30.5, -90.46], [705, 705, 30.22, -92.02],
+  [706, 706, 30.23, -93.22], [707, 708, 30.45, -91.15], [710, 711, 32.52, -93.75], [712, 712, 32.51, -92.12],
+  [713, 714, 31.31, -92.45], [716, 716, 34.23, -92.0], [717, 717, 33.58, -92.83], [718, 718, 33.44, -94.04],
+  [719, 719, 34.5, -93.06], [720, 722, 34.75, -92.29], [723, 723, 35.15, -90.18], [724, 724, 35.84, -90.7],
+  [725, 725, 35.77, -91.64], [726, 726, 36.23, -93.1], [727, 727, 36.06, -94.16], [728, 728, 35.28, -93.13],
+  [729, 729, 35.39, -94.4], [730, 731, 35.47, -97.52], [734, 734, 34.17, -97.14], [735, 735, 34.6, -98.39],
+  [736, 736, 35.52, -98.97], [737, 737, 36.4, -97.88], [738, 738, 36.43, -99.39], [739, 739, 36.68, -101.48],
+  [740, 741, 36.15, -95.99], [743, 743, 36.3, -95.6], [744, 744, 35.75, -95.37], [745, 745, 34.93, -95.77],
+  [746, 746, 36.71, -97.09], [747, 747, 33.99, -96.37], [748, 748, 35.33, -96.93], [749, 749, 35.05, -94.62],
+  // TX
+  [750, 753, 32.78, -96.8], [754, 754, 33.14, -96.11], [755, 755, 33.43, -94.05], [756, 756, 32.5, -94.74],
+  [757, 757, 32.35, -95.3], [758, 758, 31.76, -95.63], [759, 759, 31.34, -94.73], [760, 761, 32.75, -97.33],
+  [762, 762, 33.21, -97.13], [763, 763, 33.91, -98.49], [764, 764, 32.22, -98.2], [765, 765, 31.1, -97.34],
+  [766, 767, 31.55, -97.15], [768, 768, 31.71, -98.99], [769, 769, 31.46, -100.44], [770, 772, 29.76, -95.37],
+  [773, 773, 30.31, -95.46], [774, 774, 29.58, -95.76], [775, 775, 29.5, -95.1], [776, 777, 30.08, -94.1],
+  [778, 778, 30.67, -96.37], [779, 779, 28.81, -97.0], [780, 782, 29.42, -98.49], [783, 784, 27.8, -97.4],
+  [785, 785, 26.2, -98.23], [786, 787, 30.27, -97.74], [788, 788, 29.21, -99.79], [789, 789, 30.18, -96.94],
+  [790, 791, 35.22, -101.83], [792, 792, 34.43, -100.2], [793, 794, 33.58, -101.85], [795, 796, 32.45, -99.73],
+  [797, 797, 31.99, -102.08], [798, 799, 31.76, -106.49],
+  // CO / WY / ID / UT
+  [800, 802, 39.74, -104.99], [803, 803, 40.01, -105.27], [804, 804, 39.75, -105.22], [805, 805, 40.17, -105.1],
+  [806, 806, 40.4, -104.7], [807, 807, 40.25, -103.8], [808, 809, 38.83, -104.82], [810, 810, 38.25, -104.61],
+  [811, 811, 37.47, -105.87], [812, 812, 38.53, -106.0], [813, 813, 37.28, -107.88], [814, 815, 39.06, -108.55],
+  [816, 816, 39.55, -107.32], [820, 820, 41.14, -104.82], [821, 821, 44.6, -110.5], [822, 822, 42.05, -104.95],
+  [823, 823, 41.79, -107.24], [824, 824, 44.02, -107.96], [825, 825, 43.02, -108.38], [826, 826, 42.87, -106.31],
+  [827, 827, 44.29, -105.5], [828, 828, 44.8, -106.96], [829, 831, 41.59, -109.2], [832, 832, 42.87, -112.45],
+  [833, 833, 42.56, -114.46], [834, 834, 43.49, -112.03], [835, 835, 46.42, -117.02], [836, 837, 43.62, -116.2],
+  [838, 838, 47.68, -116.78], [840, 841, 40.76, -111.89], [843, 844, 41.22, -111.97], [845, 845, 39.6, -110.8],
+  [846, 846, 40.23, -111.66], [847, 847, 37.68, -113.06],
+  // AZ / NM / NV
+  [850, 853, 33.45, -112.07], [855, 855, 33.39, -110.79], [856, 857, 32.22, -110.97], [859, 859, 34.25, -110.03],
+  [860, 860, 35.2, -111.65], [863, 863, 34.54, -112.47], [864, 864, 35.19, -114.05], [865, 865, 35.5, -109.5],
+  [870, 871, 35.08, -106.65], [873, 873, 35.53, -108.74], [874, 874, 36.73, -108.22], [875, 875, 35.1, -106.6],
+  [877, 877, 35.59, -105.22], [878, 878, 34.06, -106.89], [879, 879, 33.13, -107.25], [880, 880, 32.32, -106.76],
+  [881, 881, 34.4, -103.2], [882, 882, 33.39, -104.52], [883, 883, 33.64, -105.88], [884, 884, 35.17, -103.72],
+  [885, 885, 31.76, -106.49], [889, 891, 36.17, -115.14], [893, 893, 39.25, -114.89], [894, 895, 39.53, -119.81],
+  [897, 897, 39.16, -119.77], [898, 898, 40.83, -115.76],
+  // CA
+  [900, 905, 34.05, -118.25], [906, 908, 33.8, -118.15], [910, 912, 34.15, -118.2], [913, 916, 34.2, -118.45],
+  [917, 918, 34.05, -117.9], [919, 921, 32.72, -117.16], [922, 922, 33.8, -116.5], [923, 924, 34.1, -117.29],
+  [925, 925, 33.95, -117.4], [926, 928, 33.75, -117.87], [930, 930, 34.2, -119.18], [931, 931, 34.42, -119.7],
+  [932, 933, 35.37, -119.02], [934, 934, 35.0, -120.5], [935, 935, 35.05, -118.17], [936, 938, 36.74, -119.79],
+  [939, 939, 36.68, -121.66], [940, 940, 37.55, -122.3], [941, 941, 37.77, -122.42], [942, 942, 38.58, -121.49],
+  [943, 943, 37.44, -122.14], [944, 944, 37.56, -122.32], [945, 946, 37.8, -122.27], [947, 947, 37.87, -122.27],
+  [948, 948, 37.94, -122.35], [949, 949, 38.0, -122.55], [950, 951, 37.34, -121.89], [952, 953, 37.96, -121.29],
+  [954, 954, 38.44, -122.71], [955, 955, 40.8, -124.16], [956, 958, 38.58, -121.49], [959, 959, 39.15, -121.59],
+  [960, 960, 40.59, -122.39], [961, 961, 40.42, -120.65],
+  // HI / OR / WA / AK
+  [967, 968, 21.31, -157.86], [969, 969, 13.44, 144.79], [970, 972, 45.52, -122.68], [973, 973, 44.94, -123.04],
+  [974, 974, 44.05, -123.09], [975, 975, 42.33, -122.87], [976, 976, 42.22, -121.78], [977, 977, 44.06, -121.31],
+  [978, 978, 45.67, -118.79], [979, 979, 44.03, -116.96], [980, 981, 47.61, -122.33], [982, 982, 47.98, -122.2],
+  [983, 984, 47.25, -122.44], [985, 985, 47.04, -122.9], [986, 986, 45.64, -122.66], [988, 988, 47.42, -120.31],
+  [989, 989, 46.6, -120.51], [990, 992, 47.66, -117.43], [993, 993, 46.24, -119.1], [994, 994, 46.42, -117.05],
+  [995, 997, 61.22, -149.9], [998, 998, 58.3, -134.42], [999, 999, 55.34, -131.64],
+];
+
+// Rough geographic centres, for dealers with no usable ZIP.
+const STATE_CENTROIDS: Record<string, [number, number]> = {
+  AL: [32.8, -86.8], AK: [64.2, -149.5], AZ: [34.3, -111.7], AR: [34.9, -92.4], CA: [37.2, -119.5],
+  CO: [39.0, -105.5], CT: [41.6, -72.7], DE: [39.0, -75.5], DC: [38.9, -77.03], FL: [28.6, -82.4],
+  GA: [32.7, -83.4], HI: [20.8, -156.3], ID: [44.4, -114.6], IL: [40.0, -89.2], IN: [39.9, -86.3],
+  IA: [42.1, -93.5], KS: [38.5, -98.4], KY: [37.5, -85.3], LA: [31.1, -92.0], ME: [45.4, -69.2],
+  MD: [39.0, -76.8], MA: [42.3, -71.8], MI: [44.3, -85.4], MN: [46.3, -94.3], MS: [32.7, -89.7],
+  MO: [38.4, -92.5], MT: [47.0, -109.6], NE: [41.5, -99.8], NV: [39.3, -116.6], NH: [43.7, -71.6],
+  NJ: [40.2, -74.7], NM: [34.4, -106.1], NY: [42.9, -75.5], NC: [35.6, -79.4], ND: [47.5, -100.5],
+  OH: [40.3, -82.8], OK: [35.6, -97.5], OR: [43.9, -120.6], PA: [40.9, -77.8], RI: [41.7, -71.5],
+  SC: [33.9, -80.9], SD: [44.4, -100.2], TN: [35.9, -86.4], TX: [31.5, -99.3], UT: [39.3, -111.7],
+  VT: [44.1, -72.7], VA: [37.5, -78.8], WA: [47.4, -120.5], WV: [38.6, -80.6], WI: [44.6, -89.9],
+  WY: [43.0, -107.6], PR: [18.2, -66.5],
+};
+
+/**
+ * Offline position for a ZIP (5 digits, ZIP+4, or a spreadsheet-mangled
+ * 4-digit one), else for the state. Null when neither is known.
+ */
+export const zipCentroid = (zip?: string, state?: string): LatLng | null => {
+  const digits = String(zip || '').trim().match(/^(\d{4,5})(?:-\d{4})?$/)?.[1];
+  if (digits) {
+    const prefix = Number(digits.padStart(5, '0').slice(0, 3));
+    const hit = ZIP3_CENTROIDS.find(([first, last]) => prefix >= first && prefix <= last);
+    if (hit) return { lat: hit[2], lng: hit[3] };
+  }
+  const st = STATE_CENTROIDS[String(state || '').trim().toUpperCase()];
+  return st ? { lat: st[0], lng: st[1] } : null;
+};
+
+/** Bundled fallback; never needs the network. */
+export const zipCentroidGeocoder: Geocoder = {
+  name: ZIP_CENTROID_SOURCE,
+  geocode: async (a) => zipCentroid(a.zip, a.state),
+};
+
+/* ------------------------------- Web Mercator ------------------------------ */
+export const TILE_SIZE = 256;
+const MAX_LAT = 85.05112878;
+
+/** World pixel position at `zoom` (the world is TILE_SIZE * 2^zoom wide). */
+export const project = ({ lat, lng }: LatLng, zoom: number) => {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LAT, Math.min(MAX_LAT, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = (x: number, y: number, zoom: number): LatLng => {
+  const size = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  };
+};
+
+/** Highest whole zoom at which every point fits in width x height (minus padding). */
+export const fitZoom = (points: LatLng[], width: number, height: number, padding = 40, maxZoom = 15): number => {
+  if (points.length < 2) return Math.min(maxZoom, 11);
+  const xs = points.map((p) => project(p, 0));
+  const spanX = Math.max(...xs.map((p) => p.x)) - Math.min(...xs.map((p) => p.x));
+  const spanY = Math.max(...xs.map((p) => p.y)) - Math.min(...xs.map((p) => p.y));
+  const zx = spanX > 0 ? Math.log2((width - 2 * padding) / spanX) : maxZoom;
+  const zy = spanY > 0 ? Math.log2((height - 2 * padding) / spanY) : maxZoom;
+  return Math.max(1, Math.min(maxZoom, Math.floor(Math.min(zx, zy))));
+};
+
+/** Centre of the points' bounding box. */
+export const boundsCenter = (points: LatLng[]): LatLng => {
+  const xs = points.map((p) => project(p, 0));
+  const midX = (Math.min(...xs.map((p) => p.x)) + Math.max(...xs.map((p) => p.x))) / 2;
+  const midY = (Math.min(...xs.map((p) => p.y)) + Math.max(...xs.map((p) => p.y))) / 2;
+  return unproject(midX, midY, 0);
+};
+
+/* -------------------------------- Clustering ------------------------------- */
+export type Cluster<T> = { x: number; y: number; items: T[] };
+
+/**
+ * Group items whose world pixels share a `cellPx` grid cell. Each cluster sits
+ * at the mean of its members, so a single-member cluster is the item itself.
+ */
+export const clusterByGrid = <T>(items: { x: number; y: number; item: T }[], cellPx: number): Cluster<T>[] => {
+  const cells = new Map<string, { sx: number; sy: number; items: T[] }>();
+  for (const { x, y, item } of items) {
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key) ?? { sx: 0, sy: 0, items: [] };
+    cell.sx += x;
+    cell.sy += y;
+    cell.items.push(item);
+    cells.set(key, cell);
+  }
+  return Array.from(cells.values()).map((c) => ({ x: c.sx / c.items.length, y: c.sy / c.items.length, items: c.items }));
+};
+
+/* ------------------------------ Route planning ----------------------------- */
+const EARTH_RADIUS_MI = 3958.8;
+
+/** Driving is longer than the crow flies; rough metro average. */
+export const ROAD_FACTOR = 1.25;
+
+/** Great-circle distance in miles. */
+export const haversineMiles = (a: LatLng, b: LatLng): number => {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLng = (b.lng - a.lng) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MI * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/** Fixed places the day starts from and returns to (home, office); either may be open. */
+export type RouteEnds = { start?: LatLng | null; end?: LatLng | null };
+
+/** Estimated driving miles for visiting `stops` in order, via the fixed ends when given. */
+export const routeMiles = (stops: LatLng[], ends: RouteEnds = {}): number => {
+  const path = [ends.start, ...stops, ends.end].filter((p): p is LatLng => !!p);
+  let miles = 0;
+  for (let i = 1; i < path.length; i++) miles += haversineMiles(path[i - 1], path[i]);
+  return miles * ROAD_FACTOR;
+};
+
+/**
+ * Visiting order for `stops` (indexes into it) that keeps the day short:
+ * nearest neighbour, then 2-opt until no reversal helps. With no fixed start
+ * every stop is tried as the first one. Heuristic, not optimal, but a 10-stop
+ * day gets within a few percent.
+ */
+export const optimizeRouteOrder = (stops: LatLng[], ends: RouteEnds = {}): number[] => {
+  const n = stops.length;
+  if (n < 2) return stops.map((_, i) => i);
+  const dist = stops.map((a) => stops.map((b) => haversineMiles(a, b)));
+  const fromStart = ends.start ? stops.map((p) => haversineMiles(ends.start!, p)) : null;
+  const toEnd = ends.end ? stops.map((p) => haversineMiles(p, ends.end!)) : null;
+
+  // Legs into order[i] and out of order[j]; a missing neighbour is an open end
+  const legIn = (order: number[], i: number) => (i > 0 ? dist[order[i - 1]][order[i]] : fromStart?.[order[i]] ?? 0);
+  const legOut = (order: number[], j: number) => (j < n - 1 ? dist[order[j]][order[j + 1]] : toEnd?.[order[j]] ?? 0);
+  const length = (order: number[]) => order.reduce((sum, _, i) => sum + legIn(order, i), 0) + legOut(order, n - 1);
+
+  const nearestNeighbour = (first: number | null) => {
+    const left = new Set(stops.map((_, i) => i));
+    const order: number[] = [];
+    let at = first;
+    if (at == null) {
+      // From the fixed start: closest stop first
+      at = [...left].reduce((best, i) => (fromStart![i] < fromStart![best] ? i : best));
+    }
+    while (at != null) {
+      order.push(at);
+      left.delete(at);
+      const from: number = at;
+      at = left.size ? [...left].reduce((best, i) => (dist[from][i] < dist[from][best] ? i : best)) : null;
+    }
+    return order;
+  };
+
+  // Reverse order[i..j] whenever that shortens the route
+  const twoOpt = (order: number[]) => {
+    for (let improved = true; improved; ) {
+      improved = false;
+      for (let i = 0; i < n - 1; i++) {
+        for (let j = i + 1; j < n; j++) {
+          const before = legIn(order, i) + legOut(order, j);
+          const inJ = i > 0 ? dist[order[i - 1]][order[j]] : fromStart?.[order[j]] ?? 0;
+          const outI = j < n - 1 ? dist[order[i]][order[j + 1]] : toEnd?.[order[i]] ?? 0;
+          if (inJ + outI < before - 1e-9) {
+            const mid = order.slice(i, j + 1).reverse();
+            order.splice(i, mid.length, ...mid);
+            improved = true;
+          }
+        }
+      }
+    }
+    return order;
+  };
+
+  const seeds = fromStart ? [null] : stops.map((_, i) => i);
+  let best: number[] = [];
+  let bestLength = Infinity;
+  for (const seed of seeds) {
+    const order = twoOpt(nearestNeighbour(seed));
+    const len = length(order);
+    if (len < bestLength - 1e-9) {
+      best = order;
+      bestLength = len;
+    }
+  }
+  return best;
+};
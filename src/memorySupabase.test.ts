@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { createMemorySupabase, DEFAULT_SEED } from './memorySupabase';
+
+const LAKESHORE = '10000000-0000-4000-8000-000000000001';
+const SOUTH_SIDE = '10000000-0000-4000-8000-000000000002';
+const CALUMET = '10000000-0000-4000-8000-000000000003';
+
+const memory = () => createMemorySupabase({ storageKey: null, verbose: false });
+
+const signIn = async (client: ReturnType<typeof memory>, who: string) => {
+  const user = DEFAULT_SEED.users.find((u) => u.email === `${who}@example.com`)!;
+  const { data, error } = await client.auth.signInWithPassword({ email: user.email, password: user.password });
+  expect(error).toBeNull();
+  return data.user!;
+};
+
+// The SQL source of everything the stand-in imitates
+const migrations = Object.values(
+  import.meta.glob('../supabase/migrations/*.sql', { query: '?raw', import: 'default', eager: true }) as Record<
+    string,
+    string
+  >
+).join('\n');
+
+describe('memory supabase: queries', () => {
+  it('filters, orders and pages like PostgREST', async () => {
+    const client = memory();
+    const { data, count } = await client
+      .from('dealers')
+      .select('*', { count: 'exact' })
+      .eq('state', 'IL')
+      .order('name', { ascending: false })
+      .range(0, 0);
+    expect(count).toBe(2);
+    expect(data?.map((d) => d.name)).toEqual(['South Side Motors']);
+
+    const { data: some } = await client.from('dealers').select('id').in('id', [LAKESHORE, CALUMET]);
+    expect(some?.map((d) => d.id).sort()).toEqual([LAKESHORE, CALUMET]);
+
+    const { data: either } = await client.from('dealers').select('name').or('status.eq.Pending,name.ilike.%lake%');
+    expect(either?.map((d) => d.name).sort()).toEqual(['Calumet Cars', 'Lakeshore Auto']);
+
+    const { data: none } = await client.from('dealers').select('name').not('state', 'in', '(IL,IN)');
+    expect(none).toEqual([]);
+  });
+
+  it('enforces unique keys and resolves upserts on the conflict target', async () => {
+    const client = memory();
+    const { error } = await client.from('dealers').insert({ name: 'Lakeshore Auto', state: 'IL' });
+    expect(error?.code).toBe('23505');
+
+    await client.from('dealer_notes').upsert({ dealer_id: LAKESHORE, client_id: 'c-1', text: 'first' }, { onConflict: 'client_id' });
+    await client.from('dealer_notes').upsert({ dealer_id: LAKESHORE, client_id: 'c-1', text: 'again' }, { onConflict: 'client_id' });
+    const { data } = await client.from('dealer_notes').select('text').eq('client_id', 'c-1');
+    expect(data).toEqual([{ text: 'again' }]);
+  });
+
+  it('reports single() misses with the PostgREST error', async () => {
+    const client = memory();
+    const { data, error } = await client.from('dealers').select('*').eq('id', 'nope').single();
+    expect(data).toBeNull();
+    expect(error?.code).toBe('PGRST116');
+  });
+});
+
+describe('memory supabase: triggers', () => {
+  it('keeps last_visited on the newest Visit note', async () => {
+    const client = memory();
+    await client.from('dealer_notes').insert([
+      { dealer_id: SOUTH_SIDE, category: 'Visit', text: 'old', created_at: '2026-03-01T15:00:00.000Z' },
+      { dealer_id: SOUTH_SIDE, category: 'Visit', text: 'new', created_at: '2026-04-02T15:00:00.000Z' },
+      { dealer_id: SOUTH_SIDE, category: 'Call', text: 'not a visit', created_at: '2026-05-01T15:00:00.000Z' },
+    ]);
+    const read = async () => (await client.from('dealers').select('last_visited').eq('id', SOUTH_SIDE).single()).data;
+    expect(await read()).toEqual({ last_visited: '2026-04-02' });
+
+    await client.from('dealer_notes').update({ deleted_at: new Date().toISOString() }).eq('text', 'new');
+    expect(await read()).toEqual({ last_visited: '2026-03-01' });
+  });
+
+  it('audits dealer edits and clears the geocode when the address moves', async () => {
+    const client = memory();
+    await signIn(client, 'admin');
+    await client.from('dealers').update({ lat: 41.9, lng: -87.6, geocode_source: 'census' }).eq('id', LAKESHORE);
+    await client.from('dealers').update({ address1: '1 E Oak St' }).eq('id', LAKESHORE);
+
+    const { data: dealer } = await client.from('dealers').select('lat, lng, geocode_source').eq('id', LAKESHORE).single();
+    expect(dealer).toEqual({ lat: null, lng: null, geocode_source: null });
+
+    const { data: audit } = await client.from('dealer_audit').select('field, actor_username').eq('dealer_id', LAKESHORE);
+    expect(audit).toEqual([{ field: 'address1', actor_username: 'admin' }]);
+  });
+
+  it('soft-deletes notes with their dealer and purges past the retention window', async () => {
+    const client = memory();
+    await signIn(client, 'admin');
+    await client.from('dealer_notes').insert({ dealer_id: CALUMET, category: 'Call', text: 'hello' });
+    await client.from('dealers').update({ deleted_at: '2000-01-01T00:00:00.000Z' }).eq('id', CALUMET);
+
+    const { data: trashed } = await client.from('dealers').select('deleted_at, deleted_by').eq('id', CALUMET).single();
+    expect(trashed?.deleted_by).toBe('admin');
+    // The server stamps the time, not the client
+    expect(trashed?.deleted_at).not.toBe('2000-01-01T00:00:00.000Z');
+    const { data: note } = await client.from('dealer_notes').select('deleted_at').eq('dealer_id', CALUMET).single();
+    expect(note?.deleted_at).toBe(trashed?.deleted_at);
+
+    // Nothing is old enough yet
+    expect((await client.rpc('purge_trash')).data).toEqual({ notes: 0, dealers: 0, retention_days: 30 });
+  });
+});
+
+describe('memory supabase: functions', () => {
+  it('serves only functions the migrations define', () => {
+    for (const fn of ['purge_trash', 'set_rep_coverage', 'offboard_summary', 'offboard_user', 'reorder_route']) {
+      expect(migrations).toMatch(new RegExp(`create or replace function public\\.${fn}\\(`));
+    }
+  });
+
+  it('reorder_route renumbers the caller’s day and keeps unlisted stops after the listed ones', async () => {
+    const client = memory();
+    const rep = await signIn(client, 'rep');
+    await client.from('dealer_routes').insert([
+      { user_id: rep.id, date: '2026-10-19', dealer_id: LAKESHORE, position: 1 },
+      { user_id: rep.id, date: '2026-10-19', dealer_id: SOUTH_SIDE, position: 2 },
+      { user_id: rep.id, date: '2026-10-19', dealer_id: CALUMET, position: 3 },
+    ]);
+    const { data, error } = await client.rpc('reorder_route', { p_date: '2026-10-19', p_dealer_ids: [CALUMET, LAKESHORE] });
+    expect(error).toBeNull();
+    expect((data as { dealer_id: string; position: number }[]).map((r) => [r.dealer_id, r.position])).toEqual([
+      [CALUMET, 1],
+      [LAKESHORE, 2],
+      [SOUTH_SIDE, 3],
+    ]);
+  });
+
+  it('reorder_route refuses anonymous callers', async () => {
+    const { error } = await memory().rpc('reorder_route', { p_date: '2026-10-19', p_dealer_ids: [] });
+    expect(error?.code).toBe('42501');
+  });
+
+  it('an unknown function fails like PostgREST', async () => {
+    const { error } = await memory().rpc('does_not_exist');
+    expect(error?.code).toBe('PGRST202');
+  });
+});
+
+describe('memory supabase: auth', () => {
+  it('signs in, rejects bad passwords and bans deactivated users', async () => {
+    const client = memory();
+    const bad = await client.auth.signInWithPassword({ email: 'rep@example.com', password: 'wrong' });
+    expect(bad.error?.message).toBe('Invalid login credentials');
+
+    const rep = await signIn(client, 'rep');
+    expect((await client.auth.getSession()).data.session?.user.id).toBe(rep.id);
+
+    await signIn(client, 'admin');
+    await client.from('profiles').update({ status: 'Inactive' }).eq('id', rep.id);
+    const banned = await client.auth.signInWithPassword({ email: 'rep@example.com', password: 'rep123' });
+    expect(banned.error?.message).toBe('User is banned');
+  });
+
+  it('delivers realtime changes that match the channel filter', async () => {
+    const client = memory();
+    const seen: string[] = [];
+    client
+      .channel('notes')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'dealer_notes', filter: `dealer_id=eq.${LAKESHORE}` }, (p) =>
+        seen.push(String(p.new.text))
+      )
+      .subscribe();
+    await client.from('dealer_notes').insert([
+      { dealer_id: LAKESHORE, text: 'mine' },
+      { dealer_id: CALUMET, text: 'not mine' },
+    ]);
+    await new Promise((r) => setTimeout(r, 5));
+    expect(seen).toEqual(['mine']);
+  });
+});
@@ -0,0 +1,1307 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_CAPABILITIES, LOCKED_ROLES } from './permissions';
+
+// In-memory stand-in for the Supabase client, used in the StackBlitz sandbox
+// (or when VITE_SUPABASE_MEMORY=1) so the whole app runs with no network.
+// It implements the PostgREST builder subset the app actually calls, fake
+// email/password auth, and postgres_changes events for Realtime channels.
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+
+type PgError = { message: string; code: string; details: string | null; hint: string | null };
+type Result = { data: unknown; error: PgError | null; count: number | null; status: number; statusText: string };
+
+export type MemoryAuthUser = {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata: Record<string, unknown>;
+  banned?: boolean;
+};
+
+export type MemorySeed = { users: MemoryAuthUser[]; tables: Partial<Tables> };
+
+export type MemoryClientOptions = {
+  /** Starting data; defaults to a small demo book (see DEFAULT_SEED). */
+  seed?: MemorySeed;
+  /** Persist tables + session to localStorage under this key prefix. Off when null. */
+  storageKey?: string | null;
+  /** Log invite/recovery links and other fake side effects. */
+  verbose?: boolean;
+};
+
+/* ------------------------------- schema ------------------------------- */
+export const MEMORY_TABLES = [
+  'dealers',
+  'dealer_notes',
+  'dealer_tasks',
+  'profiles',
+  'rep_coverage',
+  'regions_catalog',
+  'dealer_routes',
+  'route_presets',
+  'dealer_audit',
+  'app_settings',
+  'user_invites',
+  'role_capabilities',
+  'impersonation_sessions',
+] as const;
+
+// Unique keys per table (first entry is the primary key). Used for
+// insert conflicts and as the default upsert target.
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  dealers: [['id'], ['name', 'state']],
+  dealer_notes: [['id'], ['client_id']],
+  dealer_tasks: [['id']],
+  profiles: [['id']],
+  rep_coverage: [['id']],
+  regions_catalog: [['id'], ['state', 'region']],
+  dealer_routes: [['id'], ['user_id', 'date', 'dealer_id']],
+  route_presets: [['id'], ['rep_username', 'name']],
+  dealer_audit: [['id']],
+  app_settings: [['key']],
+  user_invites: [['id']],
+  role_capabilities: [['role', 'capability']],
+  impersonation_sessions: [['id']],
+};
+
+// Written by the geocoder; neither a dealer edit nor audit-worthy
+const GEOCODE_COLUMNS = ['lat', 'lng', 'geocode_source', 'geocoded_at'];
+
+// Columns that get a value on insert when the caller leaves them out
+const COLUMN_DEFAULTS: Record<string, () => Row> = {
+  dealers: () => ({ contacts: [], updated_at: nowISO(), lat: null, lng: null, geocode_source: null, geocoded_at: null }),
+  dealer_notes: () => ({ created_at: nowISO() }),
+  dealer_tasks: () => ({ created_at: nowISO(), completed_at: null }),
+  profiles: () => ({ status: 'Active', role: 'Rep', created_at: nowISO() }),
+  rep_coverage: () => ({ valid_from: nowISO().slice(0, 10), valid_to: null }),
+  regions_catalog: () => ({}),
+  dealer_routes: () => ({
+    position: 1,
+    created_at: nowISO(),
+    checked_in_at: null,
+    checked_out_at: null,
+    check_in_lat: null,
+    check_in_lng: null,
+    check_out_lat: null,
+    check_out_lng: null,
+    visit_note_client_id: null,
+  }),
+  route_presets: () => ({ dealer_ids: [], created_at: nowISO(), updated_at: nowISO(), last_used_at: null }),
+  dealer_audit: () => ({ changed_at: nowISO() }),
+  app_settings: () => ({ updated_at: nowISO() }),
+  impersonation_sessions: () => ({ started_at: nowISO(), ended_at: null }),
+};
+
+const nowISO = () => new Date().toISOString();
+
+const uuid = (): string => {
+  const c = (globalThis as { crypto?: Crypto }).crypto;
+  if (c?.randomUUID) return c.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (ch) => {
+    const r = (Math.random() * 16) | 0;
+    return (ch === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+const clone = <T,>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+const pgError = (message: string, code: string, details: string | null = null): PgError => ({
+  message,
+  code,
+  details,
+  hint: null,
+});
+
+/* ------------------------------ seed data ----------------------------- */
+const SEED_IDS = {
+  admin: '00000000-0000-4000-8000-000000000001',
+  manager: '00000000-0000-4000-8000-000000000002',
+  rep: '00000000-0000-4000-8000-000000000003',
+  regional: '00000000-0000-4000-8000-000000000004',
+  viewer: '00000000-0000-4000-8000-000000000005',
+};
+
+export const DEFAULT_SEED: MemorySeed = {
+  users: [
+    { id: SEED_IDS.admin, email: 'admin@example.com', password: 'admin123', user_metadata: { username: 'admin' } },
+    { id: SEED_IDS.manager, email: 'manager@example.com', password: 'manager123', user_metadata: { username: 'manager' } },
+    { id: SEED_IDS.rep, email: 'rep@example.com', password: 'rep123', user_metadata: { username: 'rep' } },
+    { id: SEED_IDS.regional, email: 'regional@example.com', password: 'regional123', user_metadata: { username: 'regional' } },
+    { id: SEED_IDS.viewer, email: 'viewer@example.com', password: 'viewer123', user_metadata: { username: 'viewer' } },
+  ],
+  tables: {
+    app_settings: [{ key: 'trash_retention_days', value: 30, updated_at: '2026-01-01T00:00:00.000Z' }],
+    role_capabilities: Object.entries(DEFAULT_CAPABILITIES)
+      .filter(([role]) => !LOCKED_ROLES.includes(role as keyof typeof DEFAULT_CAPABILITIES))
+      .flatMap(([role, caps]) => caps.map((capability) => ({ role, capability }))),
+    profiles: [
+      { id: SEED_IDS.admin, email: 'admin@example.com', username: 'admin', name: 'Avery Admin', role: 'Admin', status: 'Active' },
+      { id: SEED_IDS.manager, email: 'manager@example.com', username: 'manager', name: 'Morgan Manager', role: 'Manager', status: 'Active' },
+      { id: SEED_IDS.rep, email: 'rep@example.com', username: 'rep', name: 'Riley Rep', role: 'Rep', status: 'Active', manager_id: SEED_IDS.manager },
+      { id: SEED_IDS.regional, email: 'regional@example.com', username: 'regional', name: 'Reese Regional', role: 'Regional Manager', status: 'Active' },
+      { id: SEED_IDS.viewer, email: 'viewer@example.com', username: 'viewer', name: 'Vic Viewer', role: 'Viewer', status: 'Active' },
+    ],
+    rep_coverage: [
+      { id: uuid(), user_id: SEED_IDS.rep, state: 'IL', region: 'Chicago North', valid_from: '2000-01-01', valid_to: null },
+      { id: uuid(), user_id: SEED_IDS.rep, state: 'IL', region: 'Chicago South', valid_from: '2000-01-01', valid_to: null },
+      { id: uuid(), user_id: SEED_IDS.regional, state: 'IL', region: null, valid_from: '2000-01-01', valid_to: null },
+    ],
+    regions_catalog: [
+      { id: uuid(), state: 'IL', region: 'Chicago North' },
+      { id: uuid(), state: 'IL', region: 'Chicago South' },
+      { id: uuid(), state: 'IN', region: 'Northwest' },
+    ],
+    dealers: [
+      {
+        id: '10000000-0000-4000-8000-000000000001',
+        name: 'Lakeshore Auto',
+        state: 'IL',
+        region: 'Chicago North',
+        type: 'Independent',
+        status: 'Active',
+        address1: '100 N Lake Shore Dr',
+        city: 'Chicago',
+        zip: '60611',
+        contacts: [{ name: 'Pat', phone: '312-555-0101' }],
+        sending_deals: true,
+        updated_at: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        id: '10000000-0000-4000-8000-000000000002',
+        name: 'South Side Motors',
+        state: 'IL',
+        region: 'Chicago South',
+        type: 'Franchise',
+        status: 'Prospect',
+        address1: '4500 S Halsted St',
+        city: 'Chicago',
+        zip: '60609',
+        contacts: [],
+        updated_at: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        id: '10000000-0000-4000-8000-000000000003',
+        name: 'Calumet Cars',
+        state: 'IN',
+        region: 'Northwest',
+        type: 'Independent',
+        status: 'Pending',
+        address1: '200 Calumet Ave',
+        city: 'Hammond',
+        zip: '46320',
+        contacts: [],
+        updated_at: '2026-01-01T00:00:00.000Z',
+      },
+    ],
+  },
+};
+
+/* ------------------------------ filtering ----------------------------- */
+// Column readers for untyped rows
+const str = (v: unknown): string => (v == null ? '' : String(v));
+const num = (v: unknown, fallback: number): number => (v == null || v === '' ? fallback : Number(v));
+
+const same = (a: unknown, b: unknown) => {
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  // PostgREST compares on the text form, so 1 == '1' and true == 'true'
+  return String(a) === String(b);
+};
+
+const cmp = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+};
+
+const likeToRegExp = (pattern: string, flags: string) =>
+  new RegExp(
+    '^' + pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.') + '$',
+    flags
+  );
+
+// Strip PostgREST double quotes (and their backslash escapes) from a value
+const unquote = (raw: string) =>
+  raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+
+// Split on commas that are outside parens and quotes
+const splitTopLevel = (expr: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let buf = '';
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quoted && ch === '\\') {
+      buf += ch + (expr[++i] ?? '');
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    if (!quoted && ch === '(') depth++;
+    if (!quoted && ch === ')') depth--;
+    if (!quoted && ch === ',' && depth === 0) {
+      parts.push(buf);
+      buf = '';
+    } else buf += ch;
+  }
+  if (buf) parts.push(buf);
+  return parts;
+};
+
+// Parse a PostgREST literal from an or()/filter() string ("null", "true", "(a,b)")
+const parseLiteral = (raw: string): unknown => {
+  if (raw === 'null') return null;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw.startsWith('(') && raw.endsWith(')')) {
+    return splitTopLevel(raw.slice(1, -1)).map((s) => unquote(s.trim()));
+  }
+  return unquote(raw);
+};
+
+// in.(a,b) / cs.{a,b}: an array, or the literal list form from a filter string
+const toList = (value: unknown): unknown[] => {
+  const v = Array.isArray(value) ? value : parseLiteral(String(value));
+  return Array.isArray(v) ? v : [v];
+};
+
+const makePredicate = (column: string, op: string, value: unknown): ((r: Row) => boolean) => {
+  switch (op) {
+    case 'eq':
+      return (r) => same(r[column], value);
+    case 'neq':
+      return (r) => !same(r[column], value);
+    case 'gt':
+      return (r) => r[column] != null && cmp(r[column], value) > 0;
+    case 'gte':
+      return (r) => r[column] != null && cmp(r[column], value) >= 0;
+    case 'lt':
+      return (r) => r[column] != null && cmp(r[column], value) < 0;
+    case 'lte':
+      return (r) => r[column] != null && cmp(r[column], value) <= 0;
+    case 'in': {
+      const list = toList(value);
+      return (r) => list.some((v) => same(r[column], v));
+    }
+    case 'is':
+      return (r) => (value === null ? r[column] == null : same(r[column], value));
+    case 'like':
+      return (r) => r[column] != null && likeToRegExp(String(value), '').test(String(r[column]));
+    case 'ilike':
+      return (r) => r[column] != null && likeToRegExp(String(value), 'i').test(String(r[column]));
+    case 'cs': {
+      const list = toList(value);
+      return (r) => {
+        const cell = r[column];
+        return Array.isArray(cell) && list.every((v) => cell.some((x) => same(x, v)));
+      };
+    }
+    default:
+      throw new Error(`Unsupported filter operator "${op}"`);
+  }
+};
+
+// One or()/and() operand: "col.op.value", "col.not.op.value" or a nested "and(...)"/"or(...)"
+const parseCondition = (cond: string): ((r: Row) => boolean) => {
+  const p = cond.trim();
+  const group = /^(not\.)?(and|or)\((.*)\)$/s.exec(p);
+  if (group) {
+    const preds = splitTopLevel(group[3]).map(parseCondition);
+    const test = group[2] === 'and' ? (r: Row) => preds.every((f) => f(r)) : (r: Row) => preds.some((f) => f(r));
+    return group[1] ? (r) => !test(r) : test;
+  }
+  const [column, op, ...rest] = p.split('.');
+  if (op === 'not') {
+    const [innerOp, ...innerRest] = rest;
+    const inner = makePredicate(column, innerOp, parseLiteral(innerRest.join('.')));
+    return (r: Row) => !inner(r);
+  }
+  return makePredicate(column, op, parseLiteral(rest.join('.')));
+};
+
+// "a.eq.1,and(b.eq.2,c.ilike.%x%)" → OR of the individual predicates
+const parseOr = (expr: string): ((r: Row) => boolean) => {
+  const preds = splitTopLevel(expr).map(parseCondition);
+  return (r) => preds.some((p) => p(r));
+};
+
+const project = (row: Row, columns: string) => {
+  const cols = columns
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean);
+  if (!cols.length || cols.includes('*')) return clone(row);
+  const out: Row = {};
+  for (const c of cols) {
+    // support "alias:column"
+    const [alias, source] = c.includes(':') ? c.split(':').map((s) => s.trim()) : [c, c];
+    out[alias] = row[source] === undefined ? null : clone(row[source]);
+  }
+  return out;
+};
+
+/* ------------------------------- backend ------------------------------ */
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+type ChangePayload = {
+  schema: string;
+  table: string;
+  commit_timestamp: string;
+  eventType: ChangeEvent;
+  new: Row;
+  old: Row;
+  errors: null;
+};
+type ChannelFilter = { event?: ChangeEvent | '*'; schema?: string; table?: string; filter?: string };
+type Listener = {
+  event: ChangeEvent | '*';
+  table?: string;
+  filter?: string;
+  cb: (payload: ChangePayload) => void;
+};
+
+class MemoryChannel {
+  listeners: Listener[] = [];
+  subscribed = false;
+  constructor(public topic: string, private backend: MemoryBackend) {}
+
+  on(type: string, opts: ChannelFilter | undefined, cb: (payload: ChangePayload) => void) {
+    if (type === 'postgres_changes') {
+      this.listeners.push({ event: opts?.event ?? '*', table: opts?.table, filter: opts?.filter, cb });
+    }
+    return this;
+  }
+
+  subscribe(cb?: (status: string) => void) {
+    this.subscribed = true;
+    this.backend.channels.add(this);
+    if (cb) setTimeout(() => cb('SUBSCRIBED'), 0);
+    return this;
+  }
+
+  async unsubscribe() {
+    this.subscribed = false;
+    this.backend.channels.delete(this);
+    return 'ok';
+  }
+}
+
+class MemoryBackend {
+  tables: Tables = {};
+  channels = new Set<MemoryChannel>();
+
+  constructor(seed: MemorySeed, private storageKey: string | null) {
+    const saved = this.load();
+    for (const t of MEMORY_TABLES) this.tables[t] = clone(saved?.[t] ?? seed.tables[t] ?? []);
+  }
+
+  private load(): Tables | null {
+    if (!this.storageKey || typeof localStorage === 'undefined') return null;
+    try {
+      const raw = localStorage.getItem(`${this.storageKey}_tables`);
+      return raw ? (JSON.parse(raw) as Tables) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  persist() {
+    if (!this.storageKey || typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(`${this.storageKey}_tables`, JSON.stringify(this.tables));
+    } catch {
+      /* quota — keep running in memory */
+    }
+  }
+
+  emit(table: string, eventType: ChangeEvent, next: Row | null, prev: Row | null) {
+    this.runTriggers(table, eventType, next, prev);
+    // Like Realtime with the default replica identity, DELETE only carries the key
+    const old = eventType === 'DELETE' ? { id: prev?.id } : eventType === 'UPDATE' ? { id: prev?.id } : {};
+    const payload = {
+      schema: 'public',
+      table,
+      commit_timestamp: nowISO(),
+      eventType,
+      new: next ? clone(next) : {},
+      old,
+      errors: null,
+    };
+    for (const ch of this.channels) {
+      for (const l of ch.listeners) {
+        if (l.table && l.table !== table) continue;
+        if (l.event !== '*' && l.event !== eventType) continue;
+        if (l.filter) {
+          const m = /^([a-z_]+)=(eq|neq|lt|lte|gt|gte|in)\.(.*)$/.exec(l.filter);
+          const subject = eventType === 'DELETE' ? old : next;
+          if (!m || !subject || !makePredicate(m[1], m[2], parseLiteral(m[3]))(subject)) continue;
+        }
+        setTimeout(() => l.cb(payload), 0);
+      }
+    }
+  }
+
+  /** auth.uid() for trigger stand-ins; wired to the fake auth by createMemorySupabase. */
+  actorId: () => string | null = () => null;
+
+  /** Ban/unban in the fake auth (profiles_sync_auth_ban); wired by createMemorySupabase. */
+  setBanned: (userId: string, banned: boolean) => void = () => {};
+
+  // Postgres now() is fixed per transaction; cascades reuse the parent's stamp
+  private txNow: string | null = null;
+
+  private actorUsername(): string | null {
+    const id = this.actorId();
+    const username = id ? this.tables.profiles.find((p) => same(p.id, id))?.username : null;
+    return username == null ? null : str(username);
+  }
+
+  // Stand-ins for the database triggers in supabase/migrations
+  private runTriggers(table: string, eventType: ChangeEvent, next: Row | null, prev: Row | null) {
+    if ((table === 'dealers' || table === 'dealer_notes') && eventType === 'UPDATE') this.stampSoftDelete(next!, prev!);
+    if (table === 'dealers') {
+      if (eventType === 'UPDATE') this.clearStaleGeocode(next!, prev!);
+      if (eventType === 'UPDATE') this.touchDealerVersion(next!, prev!);
+      this.auditDealer(eventType, next, prev);
+      if (eventType === 'UPDATE') this.cascadeSoftDelete(next!, prev!);
+      if (eventType === 'DELETE') this.cascadeDelete(prev!);
+    }
+    if (table === 'profiles' && next && (eventType === 'INSERT' || next.status !== prev?.status)) {
+      this.setBanned(String(next.id), next.status === 'Inactive');
+    }
+    if (table === 'dealer_notes') {
+      const isVisit = (r: Row | null) => !!r && (r.category === 'Visit' || r.category === 'Visited');
+      const ids = new Set<string>();
+      if (isVisit(prev)) ids.add(String(prev!.dealer_id));
+      if (isVisit(next)) ids.add(String(next!.dealer_id));
+      for (const id of ids) this.refreshLastVisited(id);
+    }
+  }
+
+  // dealers_clear_stale_geocode: an address edit queues the dealer for the geocoder again
+  private clearStaleGeocode(next: Row, prev: Row) {
+    const moved = ['address1', 'city', 'state', 'zip'].some((k) => (next[k] ?? null) !== (prev[k] ?? null));
+    const placed = (next.lat ?? null) !== (prev.lat ?? null) || (next.lng ?? null) !== (prev.lng ?? null);
+    if (moved && !placed) Object.assign(next, { lat: null, lng: null, geocode_source: null, geocoded_at: null });
+  }
+
+  // dealers_touch_updated_at: only edits bump the version, never trigger-maintained columns
+  private touchDealerVersion(next: Row, prev: Row) {
+    const ignore = ['updated_at', 'last_visited', 'deleted_at', 'deleted_by', ...GEOCODE_COLUMNS];
+    const edited = Object.keys(next).some((k) => !ignore.includes(k) && JSON.stringify(next[k]) !== JSON.stringify(prev[k]));
+    // Strictly later than the old stamp so two saves in one millisecond still differ
+    next.updated_at = edited
+      ? new Date(Math.max(Date.now(), Date.parse(str(prev.updated_at)) + 1 || 0)).toISOString()
+      : prev.updated_at;
+  }
+
+  // stamp_soft_delete: server decides when and who
+  private stampSoftDelete(next: Row, prev: Row) {
+    if (next.deleted_at && !prev.deleted_at) {
+      next.deleted_at = this.txNow ?? nowISO();
+      next.deleted_by = this.actorUsername() ?? next.deleted_by ?? null;
+    } else if (!next.deleted_at) {
+      next.deleted_at = null;
+      next.deleted_by = null;
+    }
+  }
+
+  // dealers_cascade_soft_delete: notes follow their dealer into and out of the trash
+  private cascadeSoftDelete(next: Row, prev: Row) {
+    const trashing = next.deleted_at && !prev.deleted_at;
+    const restoring = !next.deleted_at && prev.deleted_at;
+    if (!trashing && !restoring) return;
+    this.txNow = next.deleted_at == null ? null : str(next.deleted_at);
+    try {
+      for (const n of this.tables.dealer_notes) {
+        if (!same(n.dealer_id, next.id)) continue;
+        if (trashing ? n.deleted_at : n.deleted_at !== prev.deleted_at) continue;
+        const before = clone(n);
+        n.deleted_at = trashing ? next.deleted_at : null;
+        this.emit('dealer_notes', 'UPDATE', n, before);
+      }
+    } finally {
+      this.txNow = null;
+    }
+  }
+
+  // ON DELETE CASCADE from dealers
+  private cascadeDelete(dealer: Row) {
+    for (const table of ['dealer_notes', 'dealer_tasks', 'dealer_routes']) {
+      const hits = this.tables[table].filter((r) => same(r.dealer_id, dealer.id));
+      if (!hits.length) continue;
+      this.tables[table] = this.tables[table].filter((r) => !hits.includes(r));
+      for (const r of hits) this.emit(table, 'DELETE', null, r);
+    }
+  }
+
+  /** purge_trash(): hard-delete rows trashed longer than the retention window. */
+  purgeTrash() {
+    const setting = this.tables.app_settings.find((r) => r.key === 'trash_retention_days');
+    const days = Number(setting?.value) > 0 ? Number(setting!.value) : 30;
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    const purge = (table: string) => {
+      const hits = this.tables[table].filter((r) => r.deleted_at && Date.parse(str(r.deleted_at)) < cutoff);
+      this.tables[table] = this.tables[table].filter((r) => !hits.includes(r));
+      for (const r of hits) this.emit(table, 'DELETE', null, r);
+      return hits.length;
+    };
+    const notes = purge('dealer_notes');
+    const dealers = purge('dealers');
+    this.persist();
+    return { notes, dealers, retention_days: days };
+  }
+
+  /** offboard_summary(): what a user still owns. Throws a PgError like the function raises. */
+  offboardSummary(userId: string) {
+    const user = this.tables.profiles.find((p) => same(p.id, userId));
+    if (!user) throw pgError('User not found', 'P0002');
+    const today = nowISO().slice(0, 10);
+    const owned = this.tables.dealers.filter((d) => d.assigned_rep_username === user.username);
+    const byRegion = new Map<string, { state: string; region: string; count: number }>();
+    for (const d of owned) {
+      const key = `${d.state}|${d.region}`;
+      const g = byRegion.get(key) ?? { state: str(d.state), region: str(d.region), count: 0 };
+      g.count++;
+      byRegion.set(key, g);
+    }
+    return {
+      dealers: owned.length,
+      dealers_by_region: Array.from(byRegion.values()).sort(
+        (a, b) => a.state.localeCompare(b.state) || a.region.localeCompare(b.region)
+      ),
+      open_tasks: this.tables.dealer_tasks.filter((t) => t.rep_username === user.username && !t.completed_at).length,
+      upcoming_stops: this.tables.dealer_routes.filter((r) => same(r.user_id, userId) && str(r.date) >= today).length,
+      presets: this.tables.route_presets.filter((r) => r.rep_username === user.username).length,
+      direct_reports: this.tables.profiles.filter((p) => same(p.manager_id, userId)).length,
+    };
+  }
+
+  /** offboard_user(): hand everything to the successors. Validates before touching any row. */
+  offboardUser(args: Row) {
+    const userId = String(args.p_user_id);
+    const actor = this.actorId();
+    if (actor && same(actor, userId)) throw pgError('You cannot offboard your own account', '42501');
+    const user = this.tables.profiles.find((p) => same(p.id, userId));
+    if (!user) throw pgError('User not found', 'P0002');
+
+    const activeOther = (id: unknown) =>
+      this.tables.profiles.find((p) => same(p.id, id) && !same(p.id, userId) && p.status !== 'Inactive');
+    const successor = activeOther(args.p_successor_id);
+    if (!successor) throw pgError('Pick an active successor other than this user', '22023');
+    const names: Record<string, string> = {};
+    for (const [key, id] of Object.entries((args.p_region_successors || {}) as Record<string, string>)) {
+      const p = activeOther(id);
+      if (!p) throw pgError('Every region successor must be an active user other than this one', '22023');
+      names[key] = str(p.username);
+    }
+    const successorFor = (d: Row) => names[`${d.state}|${d.region}`] ?? successor.username;
+
+    const update = (table: string, r: Row, patch: Row) => {
+      const prev = clone(r);
+      Object.assign(r, patch);
+      this.emit(table, 'UPDATE', r, prev);
+    };
+
+    let dealers = 0;
+    for (const d of this.tables.dealers) {
+      if (d.assigned_rep_username !== user.username) continue;
+      update('dealers', d, { assigned_rep_username: successorFor(d) });
+      dealers++;
+    }
+
+    let openTasks = 0;
+    for (const t of this.tables.dealer_tasks) {
+      if (t.rep_username !== user.username || t.completed_at) continue;
+      const d = this.tables.dealers.find((x) => same(x.id, t.dealer_id));
+      if (!d) continue;
+      update('dealer_tasks', t, { rep_username: successorFor(d) });
+      openTasks++;
+    }
+
+    const today = nowISO().slice(0, 10);
+    const routes = this.tables.dealer_routes;
+    const moving = routes
+      .filter((r) => same(r.user_id, userId) && str(r.date) >= today)
+      .sort((a, b) => num(a.position, Infinity) - num(b.position, Infinity));
+    let stops = 0;
+    const nextPos: Record<string, number> = {};
+    for (const r of moving) {
+      const taken = routes.some((s) => same(s.user_id, successor.id) && s.date === r.date && same(s.dealer_id, r.dealer_id));
+      if (taken) continue;
+      const date = str(r.date);
+      nextPos[date] ??= Math.max(0, ...routes.filter((s) => same(s.user_id, successor.id) && s.date === date).map((s) => num(s.position, 0)));
+      const row = { ...COLUMN_DEFAULTS.dealer_routes(), id: uuid(), user_id: successor.id, date, dealer_id: r.dealer_id, position: ++nextPos[date] };
+      routes.push(row);
+      this.emit('dealer_routes', 'INSERT', row, null);
+      stops++;
+    }
+    this.tables.dealer_routes = routes.filter((r) => !moving.includes(r));
+    for (const r of moving) this.emit('dealer_routes', 'DELETE', null, r);
+
+    let presets = 0;
+    for (const rp of this.tables.route_presets) {
+      if (rp.rep_username !== user.username) continue;
+      const clash = this.tables.route_presets.some((o) => o.rep_username === successor.username && o.name === rp.name);
+      update('route_presets', rp, {
+        rep_username: successor.username,
+        name: clash ? `${rp.name} (from ${user.username})` : rp.name,
+        updated_at: nowISO(),
+      });
+      presets++;
+    }
+
+    let directReports = 0;
+    for (const p of this.tables.profiles) {
+      if (!same(p.manager_id, userId)) continue;
+      update('profiles', p, { manager_id: same(p.id, successor.id) ? user.manager_id ?? null : successor.id });
+      directReports++;
+    }
+
+    const deactivate = !!args.p_deactivate;
+    if (deactivate) update('profiles', user, { status: 'Inactive' });
+
+    this.persist();
+    return { dealers, open_tasks: openTasks, stops, presets, direct_reports: directReports, deactivated: deactivate };
+  }
+
+  /** set_rep_coverage(): close dropped rows as of today, open new ones. */
+  setRepCoverage(args: Row) {
+    const userId = String(args.p_user_id);
+    const today = nowISO().slice(0, 10);
+    const keyOf = (state: unknown, region: unknown) => `${state}|${region ?? ''}`;
+    const wanted = new Map<string, { state: string; region: string | null }>();
+    for (const e of (args.p_rows || []) as Row[]) {
+      const state = String(e.state ?? '').trim().toUpperCase();
+      if (!state) continue;
+      const region = String(e.region ?? '').trim() || null;
+      wanted.set(keyOf(state, region), { state, region });
+    }
+
+    const current = this.tables.rep_coverage.filter((c) => same(c.user_id, userId) && c.valid_to == null);
+    for (const c of current) {
+      if (wanted.delete(keyOf(c.state, c.region))) continue;
+      if (str(c.valid_from) >= today) {
+        this.tables.rep_coverage = this.tables.rep_coverage.filter((r) => r !== c);
+        this.emit('rep_coverage', 'DELETE', null, c);
+      } else {
+        const prev = clone(c);
+        c.valid_to = today;
+        this.emit('rep_coverage', 'UPDATE', c, prev);
+      }
+    }
+    for (const { state, region } of wanted.values()) {
+      const row = { ...COLUMN_DEFAULTS.rep_coverage(), id: uuid(), user_id: userId, state, region, valid_from: today };
+      this.tables.rep_coverage.push(row);
+      this.emit('rep_coverage', 'INSERT', row, null);
+    }
+    this.persist();
+    return null;
+  }
+
+  /** reorder_route(): the caller's stops for the day renumbered 1..N, listed ones first. */
+  reorderRoute(args: Row) {
+    const userId = this.actorId();
+    if (!userId) throw pgError('Sign in to reorder a route', '42501');
+    const ids = ((args.p_dealer_ids || []) as unknown[]).map(String);
+    const rank = (r: Row) => {
+      const i = ids.indexOf(String(r.dealer_id));
+      return i < 0 ? Number.MAX_SAFE_INTEGER : i;
+    };
+    const day = this.tables.dealer_routes
+      .filter((r) => same(r.user_id, userId) && r.date === args.p_date)
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          num(a.position, Number.MAX_SAFE_INTEGER) - num(b.position, Number.MAX_SAFE_INTEGER) ||
+          String(a.created_at).localeCompare(String(b.created_at))
+      );
+    day.forEach((r, idx) => {
+      if (r.position === idx + 1) return;
+      const prev = clone(r);
+      r.position = idx + 1;
+      this.emit('dealer_routes', 'UPDATE', r, prev);
+    });
+    this.persist();
+    return day.map(clone);
+  }
+
+  // dealers_write_audit: one row per changed column, whole row on insert/delete
+  private auditDealer(eventType: ChangeEvent, next: Row | null, prev: Row | null) {
+    const skip = ['created_at', 'updated_at', 'last_visited', 'deleted_by', ...GEOCODE_COLUMNS];
+    const strip = (r: Row) => {
+      const out = clone(r);
+      for (const k of skip) delete out[k];
+      return out;
+    };
+    const base = { actor_id: this.actorId(), actor_username: this.actorUsername(), changed_at: nowISO() };
+    const row = (next || prev)!;
+    const audit = this.tables.dealer_audit;
+
+    if (eventType === 'INSERT' || eventType === 'DELETE') {
+      audit.push({
+        id: uuid(),
+        dealer_id: row.id,
+        dealer_name: row.name ?? null,
+        action: eventType.toLowerCase(),
+        field: null,
+        old_value: eventType === 'DELETE' ? strip(prev!) : null,
+        new_value: eventType === 'INSERT' ? strip(next!) : null,
+        ...base,
+      });
+      return;
+    }
+    const before = strip(prev!);
+    const after = strip(next!);
+    for (const key of Object.keys(after)) {
+      if (JSON.stringify(before[key] ?? null) === JSON.stringify(after[key] ?? null)) continue;
+      audit.push({
+        id: uuid(),
+        dealer_id: row.id,
+        dealer_name: row.name ?? null,
+        action: 'update',
+        field: key,
+        old_value: before[key] ?? null,
+        new_value: after[key] ?? null,
+        ...base,
+      });
+    }
+  }
+
+  // dealers.last_visited = UTC date of the newest Visit note (dealer_notes_sync_last_visited)
+  private refreshLastVisited(dealerId: string) {
+    const dealer = this.tables.dealers.find((d) => same(d.id, dealerId));
+    if (!dealer) return;
+    let latest: string | null = null;
+    for (const n of this.tables.dealer_notes) {
+      if (!same(n.dealer_id, dealerId) || n.deleted_at || (n.category !== 'Visit' && n.category !== 'Visited')) continue;
+      const day = new Date(str(n.created_at)).toISOString().slice(0, 10);
+      if (!latest || day > latest) latest = day;
+    }
+    if (dealer.last_visited === latest) return;
+    const prev = clone(dealer);
+    dealer.last_visited = latest;
+    this.emit('dealers', 'UPDATE', dealer, prev);
+  }
+
+  conflictFor(table: string, row: Row, keys: string[][], ignore?: Row): { key: string[]; existing: Row } | null {
+    for (const key of keys) {
+      if (key.some((k) => row[k] === undefined || row[k] === null)) continue;
+      const existing = this.tables[table].find((r) => r !== ignore && key.every((k) => same(r[k], row[k])));
+      if (existing) return { key, existing };
+    }
+    return null;
+  }
+}
+
+/* ---------------------------- query builder --------------------------- */
+type Op = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+
+class MemoryQuery implements PromiseLike<Result> {
+  private op: Op = 'select';
+  private filters: ((r: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+  private rangeFrom: number | null = null;
+  private rangeTo: number | null = null;
+  private limitN: number | null = null;
+  private columns: string | null = null;
+  private countMode: string | null = null;
+  private headOnly = false;
+  private cardinality: 'many' | 'single' | 'maybe' = 'many';
+  private values: Row[] = [];
+  private patch: Row = {};
+  private onConflict: string | null = null;
+  private ignoreDuplicates = false;
+
+  constructor(private backend: MemoryBackend, private table: string) {}
+
+  /* ---- verbs ---- */
+  select(columns = '*', opts?: { count?: string; head?: boolean }) {
+    this.columns = columns;
+    if (opts?.count) this.countMode = opts.count;
+    if (opts?.head) this.headOnly = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.op = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], opts?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    this.op = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = opts?.onConflict ?? null;
+    this.ignoreDuplicates = !!opts?.ignoreDuplicates;
+    return this;
+  }
+
+  update(patch: Row) {
+    this.op = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.op = 'delete';
+    return this;
+  }
+
+  /* ---- filters ---- */
+  eq(column: string, value: unknown) {
+    return this.where(column, 'eq', value);
+  }
+  neq(column: string, value: unknown) {
+    return this.where(column, 'neq', value);
+  }
+  gt(column: string, value: unknown) {
+    return this.where(column, 'gt', value);
+  }
+  gte(column: string, value: unknown) {
+    return this.where(column, 'gte', value);
+  }
+  lt(column: string, value: unknown) {
+    return this.where(column, 'lt', value);
+  }
+  lte(column: string, value: unknown) {
+    return this.where(column, 'lte', value);
+  }
+  in(column: string, values: unknown[]) {
+    return this.where(column, 'in', values);
+  }
+  is(column: string, value: unknown) {
+    return this.where(column, 'is', value);
+  }
+  like(column: string, pattern: string) {
+    return this.where(column, 'like', pattern);
+  }
+  ilike(column: string, pattern: string) {
+    return this.where(column, 'ilike', pattern);
+  }
+  contains(column: string, values: unknown[]) {
+    return this.where(column, 'cs', values);
+  }
+  match(query: Row) {
+    for (const [k, v] of Object.entries(query)) this.where(k, 'eq', v);
+    return this;
+  }
+  not(column: string, op: string, value: unknown) {
+    const p = makePredicate(column, op, typeof value === 'string' ? parseLiteral(value) : value);
+    this.filters.push((r) => !p(r));
+    return this;
+  }
+  filter(column: string, op: string, value: unknown) {
+    return this.where(column, op, typeof value === 'string' ? parseLiteral(value) : value);
+  }
+  or(expr: string) {
+    this.filters.push(parseOr(expr));
+    return this;
+  }
+
+  private where(column: string, op: string, value: unknown) {
+    this.filters.push(makePredicate(column, op, value));
+    return this;
+  }
+
+  /* ---- modifiers ---- */
+  order(column: string, opts?: { ascending?: boolean; nullsFirst?: boolean }) {
+    const ascending = opts?.ascending ?? true;
+    this.orders.push({ column, ascending, nullsFirst: opts?.nullsFirst ?? !ascending });
+    return this;
+  }
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+  limit(n: number) {
+    this.limitN = n;
+    return this;
+  }
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+  maybeSingle() {
+    this.cardinality = 'maybe';
+    return this;
+  }
+
+  then<A = Result, B = never>(
+    onfulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  /* ---- execution ---- */
+  private async execute(): Promise<Result> {
+    // Resolve on a later tick like a network call would
+    await new Promise((r) => setTimeout(r, 0));
+
+    const rows = this.backend.tables[this.table];
+    if (!rows) {
+      return this.fail(pgError(`relation "public.${this.table}" does not exist`, '42P01'), 404);
+    }
+
+    try {
+      switch (this.op) {
+        case 'select':
+          return this.finish(rows.filter((r) => this.matches(r)), 200);
+        case 'insert':
+          return this.runInsert();
+        case 'upsert':
+          return this.runUpsert();
+        case 'update':
+          return this.runUpdate();
+        case 'delete':
+          return this.runDelete();
+      }
+    } catch (e: unknown) {
+      return this.fail(pgError((e instanceof Error && e.message) || 'memory backend error', 'XX000'), 400);
+    }
+  }
+
+  private matches(r: Row) {
+    return this.filters.every((f) => f(r));
+  }
+
+  private withDefaults(values: Row): Row {
+    const defaults = COLUMN_DEFAULTS[this.table]?.() ?? {};
+    const row: Row = { id: uuid(), ...defaults };
+    for (const [k, v] of Object.entries(values)) if (v !== undefined) row[k] = clone(v);
+    return row;
+  }
+
+  private uniqueKeys() {
+    return UNIQUE_KEYS[this.table] ?? [['id']];
+  }
+
+  private duplicate(key: string[]) {
+    return pgError(
+      `duplicate key value violates unique constraint "${this.table}_${key.join('_')}_key"`,
+      '23505',
+      `Key (${key.join(', ')}) already exists.`
+    );
+  }
+
+  private runInsert(): Result {
+    const keys = this.uniqueKeys();
+    const staged: Row[] = [];
+    for (const v of this.values) {
+      const row = this.withDefaults(v);
+      const clash =
+        this.backend.conflictFor(this.table, row, keys) ||
+        keys
+          .map((key) => ({ key, existing: staged.find((s) => key.every((k) => row[k] != null && same(s[k], row[k]))) }))
+          .find((c) => c.existing);
+      if (clash) return this.fail(this.duplicate(clash.key), 409);
+      staged.push(row);
+    }
+    this.backend.tables[this.table].push(...staged);
+    for (const r of staged) this.backend.emit(this.table, 'INSERT', r, null);
+    this.backend.persist();
+    return this.finish(staged, 201);
+  }
+
+  private runUpsert(): Result {
+    const target = this.onConflict
+      ? this.onConflict.split(',').map((s) => s.trim())
+      : this.uniqueKeys()[0];
+    const out: Row[] = [];
+    for (const v of this.values) {
+      const existing = this.backend.tables[this.table].find((r) => target.every((k) => v[k] != null && same(r[k], v[k])));
+      if (existing) {
+        if (this.ignoreDuplicates) continue;
+        const prev = clone(existing);
+        for (const [k, val] of Object.entries(v)) if (val !== undefined && k !== 'id') existing[k] = clone(val);
+        if ('updated_at' in existing && !('updated_at' in v)) existing.updated_at = nowISO();
+        this.backend.emit(this.table, 'UPDATE', existing, prev);
+        out.push(existing);
+      } else {
+        const row = this.withDefaults(v);
+        const clash = this.backend.conflictFor(this.table, row, this.uniqueKeys());
+        if (clash) return this.fail(this.duplicate(clash.key), 409);
+        this.backend.tables[this.table].push(row);
+        this.backend.emit(this.table, 'INSERT', row, null);
+        out.push(row);
+      }
+    }
+    this.backend.persist();
+    return this.finish(out, 201);
+  }
+
+  private runUpdate(): Result {
+    const hits = this.backend.tables[this.table].filter((r) => this.matches(r));
+    for (const r of hits) {
+      const candidate = { ...r, ...clone(this.patch) };
+      const clash = this.backend.conflictFor(this.table, candidate, this.uniqueKeys().slice(1), r);
+      if (clash) return this.fail(this.duplicate(clash.key), 409);
+    }
+    for (const r of hits) {
+      const prev = clone(r);
+      for (const [k, v] of Object.entries(this.patch)) if (v !== undefined) r[k] = clone(v);
+      if ('updated_at' in r && !('updated_at' in this.patch)) r.updated_at = nowISO();
+      this.backend.emit(this.table, 'UPDATE', r, prev);
+    }
+    this.backend.persist();
+    return this.finish(hits, 200);
+  }
+
+  private runDelete(): Result {
+    const all = this.backend.tables[this.table];
+    const hits = all.filter((r) => this.matches(r));
+    this.backend.tables[this.table] = all.filter((r) => !hits.includes(r));
+    for (const r of hits) this.backend.emit(this.table, 'DELETE', null, r);
+    this.backend.persist();
+    return this.finish(hits, 200);
+  }
+
+  // Shape the response like PostgREST: ordering, paging, projection, cardinality
+  private finish(rows: Row[], status: number): Result {
+    const isRead = this.op === 'select';
+    // Mutations only return rows when .select() was chained
+    if (!isRead && this.columns === null) {
+      return { data: null, error: null, count: null, status: status === 201 ? 201 : 204, statusText: 'OK' };
+    }
+
+    let list = [...rows];
+    for (const o of [...this.orders].reverse()) {
+      list.sort((a, b) => {
+        const an = a[o.column] == null;
+        const bn = b[o.column] == null;
+        if (an !== bn) return an === o.nullsFirst ? -1 : 1;
+        const c = cmp(a[o.column], b[o.column]);
+        return o.ascending ? c : -c;
+      });
+    }
+    const count = this.countMode ? list.length : null;
+    if (this.rangeFrom !== null && this.rangeTo !== null) list = list.slice(this.rangeFrom, this.rangeTo + 1);
+    if (this.limitN !== null) list = list.slice(0, this.limitN);
+
+    const data = list.map((r) => project(r, this.columns || '*'));
+    if (this.headOnly) return { data: null, error: null, count, status: 200, statusText: 'OK' };
+
+    if (this.cardinality === 'many') return { data, error: null, count, status, statusText: 'OK' };
+    if (data.length === 1) return { data: data[0], error: null, count, status, statusText: 'OK' };
+    if (data.length === 0 && this.cardinality === 'maybe') return { data: null, error: null, count, status, statusText: 'OK' };
+    return this.fail(
+      pgError(
+        'JSON object requested, multiple (or no) rows returned',
+        'PGRST116',
+        `The result contains ${data.length} rows`
+      ),
+      406
+    );
+  }
+
+  private fail(error: PgError, status: number): Result {
+    return { data: null, error, count: null, status, statusText: 'Error' };
+  }
+}
+
+/* --------------------------------- auth -------------------------------- */
+type MemorySession = {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+  expires_at: number;
+  user: ReturnType<MemoryAuth['publicUser']>;
+};
+type AuthListener = (event: string, session: MemorySession | null) => void;
+
+class MemoryAuth {
+  private listeners = new Set<AuthListener>();
+  private session: MemorySession | null = null;
+
+  constructor(private users: MemoryAuthUser[], private storageKey: string | null, private verbose: boolean) {
+    if (storageKey && typeof localStorage !== 'undefined') {
+      try {
+        const raw = localStorage.getItem(`${storageKey}_session`);
+        this.session = raw ? JSON.parse(raw) : null;
+      } catch {
+        this.session = null;
+      }
+    }
+  }
+
+  private publicUser(u: MemoryAuthUser) {
+    return {
+      id: u.id,
+      aud: 'authenticated',
+      role: 'authenticated',
+      email: u.email,
+      user_metadata: clone(u.user_metadata),
+      app_metadata: { provider: 'email' },
+      created_at: nowISO(),
+    };
+  }
+
+  private makeSession(u: MemoryAuthUser): MemorySession {
+    return {
+      access_token: `memory-${u.id}`,
+      refresh_token: `memory-refresh-${u.id}`,
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user: this.publicUser(u),
+    };
+  }
+
+  private setCurrent(session: MemorySession | null, event: string) {
+    this.session = session;
+    if (this.storageKey && typeof localStorage !== 'undefined') {
+      if (session) localStorage.setItem(`${this.storageKey}_session`, JSON.stringify(session));
+      else localStorage.removeItem(`${this.storageKey}_session`);
+    }
+    for (const l of this.listeners) setTimeout(() => l(event, session), 0);
+  }
+
+  private userFromToken(token: string) {
+    const id = token.replace(/^memory-(refresh-)?/, '');
+    return this.users.find((u) => u.id === id) || null;
+  }
+
+  private authError(message: string, status = 400) {
+    return { name: 'AuthApiError', message, status };
+  }
+
+  get currentUserId(): string | null {
+    return this.session?.user?.id ?? null;
+  }
+
+  /** Register an extra fake account (e.g. after an invite in tests). */
+  addUser(user: MemoryAuthUser) {
+    this.users.push(user);
+  }
+
+  /** Like banned_until: a banned user can't sign in, and their sessions are revoked. */
+  setBanned(userId: string, banned: boolean) {
+    const u = this.users.find((x) => x.id === userId);
+    if (!u) return;
+    u.banned = banned;
+    if (banned && this.currentUserId === userId) this.setCurrent(null, 'SIGNED_OUT');
+  }
+
+  async signInWithPassword({ email, password }: { email: string; password: string }) {
+    const u = this.users.find((x) => x.email.toLowerCase() === String(email).toLowerCase());
+    if (!u || u.password !== password) {
+      return { data: { user: null, session: null }, error: this.authError('Invalid login credentials') };
+    }
+    if (u.banned) return { data: { user: null, session: null }, error: this.authError('User is banned') };
+    const session = this.makeSession(u);
+    this.setCurrent(session, 'SIGNED_IN');
+    return { data: { user: session.user, session }, error: null };
+  }
+
+  async signOut() {
+    this.setCurrent(null, 'SIGNED_OUT');
+    return { error: null };
+  }
+
+  async getSession() {
+    return { data: { session: this.session }, error: null };
+  }
+
+  async getUser() {
+    if (!this.session) return { data: { user: null }, error: this.authError('Auth session missing!', 400) };
+    const u = this.userFromToken(this.session.access_token);
+    return u
+      ? { data: { user: this.publicUser(u) }, error: null }
+      : { data: { user: null }, error: this.authError('User not found', 404) };
+  }
+
+  async setSession({ access_token }: { access_token: string; refresh_token?: string }) {
+    const u = this.userFromToken(access_token || '');
+    if (!u) return { data: { session: null, user: null }, error: this.authError('Invalid token', 401) };
+    if (u.banned) return { data: { session: null, user: null }, error: this.authError('User is banned') };
+    const session = this.makeSession(u);
+    this.setCurrent(session, 'SIGNED_IN');
+    return { data: { session, user: session.user }, error: null };
+  }
+
+  async updateUser(attrs: { password?: string; email?: string; data?: Record<string, unknown> }) {
+    if (!this.session) return { data: { user: null }, error: this.authError('Auth session missing!', 401) };
+    const u = this.userFromToken(this.session.access_token);
+    if (!u) return { data: { user: null }, error: this.authError('User not found', 404) };
+    if (attrs.password) u.password = attrs.password;
+    if (attrs.email) u.email = attrs.email;
+    if (attrs.data) u.user_metadata = { ...u.user_metadata, ...attrs.data };
+    const session = this.makeSession(u);
+    this.setCurrent(session, 'USER_UPDATED');
+    return { data: { user: session.user }, error: null };
+  }
+
+  async resetPasswordForEmail(email: string, opts?: { redirectTo?: string }) {
+    const u = this.users.find((x) => x.email.toLowerCase() === String(email).toLowerCase());
+    // Real Supabase doesn't reveal whether the address exists; neither do we
+    if (u && this.verbose) {
+      const base = opts?.redirectTo || (typeof location !== 'undefined' ? location.origin : '');
+      console.info(`[memory-auth] recovery link for ${u.email}: ${base}#type=recovery&access_token=memory-${u.id}`);
+    }
+    return { data: {}, error: null };
+  }
+
+  onAuthStateChange(cb: AuthListener) {
+    this.listeners.add(cb);
+    setTimeout(() => cb('INITIAL_SESSION', this.session), 0);
+    return { data: { subscription: { id: uuid(), unsubscribe: () => this.listeners.delete(cb) } } };
+  }
+}
+
+/* -------------------------------- client ------------------------------- */
+export const createMemorySupabase = (opts: MemoryClientOptions = {}): SupabaseClient => {
+  const seed = clone(opts.seed ?? DEFAULT_SEED);
+  const storageKey = opts.storageKey === undefined ? 'dn_memory_supabase' : opts.storageKey;
+  const backend = new MemoryBackend(seed, storageKey);
+  const auth = new MemoryAuth(seed.users, storageKey, opts.verbose ?? true);
+  if (opts.verbose ?? true) {
+    console.warn(`[supabase] Demo sign-ins: ${seed.users.map((u) => `${u.email} / ${u.password}`).join(', ')}`);
+  }
+  backend.actorId = () => auth.currentUserId;
+  backend.setBanned = (userId, banned) => auth.setBanned(userId, banned);
+  // Bans live on the auth user, which isn't persisted; rebuild them from profiles
+  for (const p of backend.tables.profiles) if (p.status === 'Inactive') auth.setBanned(String(p.id), true);
+
+  const client = {
+    auth,
+    from: (table: string) => new MemoryQuery(backend, table),
+    rpc: async (fn: string, args: Row = {}) => {
+      if (fn === 'purge_trash') return { data: backend.purgeTrash(), error: null, count: null, status: 200, statusText: 'OK' };
+      if (fn === 'set_rep_coverage') return { data: backend.setRepCoverage(args), error: null, count: null, status: 200, statusText: 'OK' };
+      if (fn === 'offboard_summary' || fn === 'offboard_user' || fn === 'reorder_route') {
+        try {
+          const data =
+            fn === 'offboard_summary'
+              ? backend.offboardSummary(String(args.p_user_id))
+              : fn === 'offboard_user'
+                ? backend.offboardUser(args)
+                : backend.reorderRoute(args);
+          return { data, error: null, count: null, status: 200, statusText: 'OK' };
+        } catch (e) {
+          return { data: null, error: e as PgError, count: null, status: 400, statusText: 'Error' };
+        }
+      }
+      return {
+        data: null,
+        error: pgError(`Could not find the function public.${fn} in the schema cache`, 'PGRST202'),
+        count: null,
+        status: 404,
+        statusText: 'Error',
+      };
+    },
+    channel: (topic: string) => new MemoryChannel(topic, backend),
+    removeChannel: async (ch: MemoryChannel) => ch.unsubscribe(),
+    removeAllChannels: async () => {
+      for (const ch of Array.from(backend.channels)) await ch.unsubscribe();
+      return [];
+    },
+    getChannels: () => Array.from(backend.channels),
+  };
+
+  return client as unknown as SupabaseClient;
+};
@@ -0,0 +1,205 @@
+import { supabase } from './supabaseClient';
+
+// Durable outbox for dealer notes written while the connection is flaky.
+// Rows are stored exactly as they will be upserted into `dealer_notes`; the
+// `client_id` unique key makes a replay of an already-saved row harmless.
+// Every read and replay only sees the signed-in user's rows, so on a shared
+// device one user's notes never go out under another user's session.
+
+export type OutboxNoteRow = {
+  client_id: string;
+  dealer_id: string;
+  user_id: string;
+  author_username: string;
+  category: string;
+  text: string;
+  created_at: string;
+};
+
+export type OutboxEntry = OutboxNoteRow & {
+  attempts: number;
+  last_error?: string | null;
+  /** The server refused it for good (permissions, constraint); kept so the user can see it, never retried */
+  rejected?: boolean;
+};
+
+/** failed = will be retried; rejected = refused for good this run */
+export type OutboxFlushResult = { synced: string[]; failed: string[]; rejected: string[] };
+
+const DB_NAME = 'dealer-notes';
+const DB_VERSION = 2;
+const STORE = 'note_outbox';
+
+// Fallback when IndexedDB is unavailable (some private browsing modes).
+// Not durable across reloads, but keeps the same API working.
+const memoryStore = new Map<string, OutboxEntry>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('[outbox] IndexedDB unavailable, using in-memory outbox');
+      resolve(null);
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const store = db.objectStoreNames.contains(STORE)
+        ? req.transaction!.objectStore(STORE)
+        : db.createObjectStore(STORE, { keyPath: 'client_id' });
+      if (!store.indexNames.contains('dealer_id')) store.createIndex('dealer_id', 'dealer_id', { unique: false });
+      if (!store.indexNames.contains('user_id')) store.createIndex('user_id', 'user_id', { unique: false });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.warn('[outbox] IndexedDB open failed, using in-memory outbox', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T,>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  if (!db) throw new Error('no-idb');
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// The cached session, so this works offline too
+const signedInUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user?.id ?? null;
+};
+
+// PostgreSQL data/constraint/permission errors and PostgREST request errors
+// won't go away by retrying; anything else (network, 5xx, expired JWT) might.
+const isPermanentError = (error: { code?: string }) => /^(22|23|42|PGRST[12])/.test(error.code || '');
+
+/* ---------------------------- change events ---------------------------- */
+const events = new EventTarget();
+
+const emitChange = (detail: Partial<OutboxFlushResult> = {}) => {
+  events.dispatchEvent(new CustomEvent('change', { detail }));
+};
+
+/** Subscribe to outbox changes (enqueue, removal, flush results). Returns an unsubscribe fn. */
+export const onOutboxChange = (cb: (detail: Partial<OutboxFlushResult>) => void) => {
+  const handler = (e: Event) => cb((e as CustomEvent).detail || {});
+  events.addEventListener('change', handler);
+  return () => events.removeEventListener('change', handler);
+};
+
+/* ------------------------------ store ops ------------------------------ */
+const putEntry = async (entry: OutboxEntry) => {
+  try {
+    await run('readwrite', (s) => s.put(entry));
+  } catch {
+    memoryStore.set(entry.client_id, entry);
+  }
+};
+
+export const enqueueNote = async (row: OutboxNoteRow) => {
+  await putEntry({ ...row, attempts: 0, last_error: null });
+  emitChange();
+};
+
+export const removeQueuedNote = async (clientId: string) => {
+  try {
+    await run('readwrite', (s) => s.delete(clientId));
+  } catch {
+    memoryStore.delete(clientId);
+  }
+  emitChange();
+};
+
+/** The signed-in user's queued notes (rejected ones included), oldest first. */
+export const listQueuedNotes = async (dealerId?: string): Promise<OutboxEntry[]> => {
+  const userId = await signedInUserId();
+  if (!userId) return [];
+  let all: OutboxEntry[];
+  try {
+    all = await run<OutboxEntry[]>('readonly', (s) => s.index('user_id').getAll(userId));
+  } catch {
+    all = Array.from(memoryStore.values()).filter((e) => e.user_id === userId);
+  }
+  return all
+    .filter((e) => !dealerId || e.dealer_id === dealerId)
+    .sort((a, b) => (a.created_at < b.created_at ? -1 : 1));
+};
+
+/** How many of the signed-in user's notes are still waiting, and how many the server refused. */
+export const countQueuedNotes = async (): Promise<{ waiting: number; rejected: number }> => {
+  const all = await listQueuedNotes();
+  const rejected = all.filter((e) => e.rejected).length;
+  return { waiting: all.length - rejected, rejected };
+};
+
+/* -------------------------------- replay ------------------------------- */
+let flushing: Promise<OutboxFlushResult> | null = null;
+
+/**
+ * Push the signed-in user's queued notes to Supabase, oldest first. Safe to
+ * call repeatedly: concurrent calls share one run, and rows already on the
+ * server are no-ops thanks to the `client_id` upsert. A note the server
+ * refuses for good is marked rejected and left for the user to deal with.
+ */
+export const flushNoteOutbox = (): Promise<OutboxFlushResult> => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const result: OutboxFlushResult = { synced: [], failed: [], rejected: [] };
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return result;
+
+    const entries = (await listQueuedNotes()).filter((e) => !e.rejected);
+    for (const entry of entries) {
+      const row: OutboxNoteRow = {
+        client_id: entry.client_id,
+        dealer_id: entry.dealer_id,
+        user_id: entry.user_id,
+        author_username: entry.author_username,
+        category: entry.category,
+        text: entry.text,
+        created_at: entry.created_at,
+      };
+      let errorMsg: string | null = null;
+      let permanent = false;
+      try {
+        const { error } = await supabase.from('dealer_notes').upsert(row, { onConflict: 'client_id' });
+        if (error) {
+          errorMsg = error.message || 'upsert failed';
+          permanent = isPermanentError(error);
+        }
+      } catch (e) {
+        errorMsg = e instanceof Error ? e.message : 'network error';
+      }
+      if (errorMsg) {
+        await putEntry({ ...entry, attempts: entry.attempts + 1, last_error: errorMsg, rejected: permanent });
+        (permanent ? result.rejected : result.failed).push(entry.client_id);
+        continue;
+      }
+      try {
+        await run('readwrite', (s) => s.delete(entry.client_id));
+      } catch {
+        memoryStore.delete(entry.client_id);
+      }
+      result.synced.push(entry.client_id);
+    }
+
+    if (entries.length) emitChange(result);
+    return result;
+  })().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
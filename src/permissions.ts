@@ -0,0 +1,125 @@
+import type { Dealer, Role, User } from './types';
+
+/* ============================================================================
+   Capabilities: what each role may do. The matrix lives in
+   public.role_capabilities (Admins edit it under User Management); the /api
+   handlers, RLS policies and triggers read the same table, so every write the
+   UI hides is refused by the server too. Two things stay client-side: the
+   coverage limit on dealer.edit, and the team.view / reporting.view scoping of
+   what a screen lists (the rows themselves follow RLS). Admin always holds
+   every capability so nobody can lock the last Admin out of this screen.
+============================================================================ */
+
+export type Capability =
+  | 'dealer.create'
+  | 'dealer.edit'
+  | 'dealer.edit.any'
+  | 'dealer.reassign'
+  | 'dealer.delete'
+  | 'note.delete.own'
+  | 'note.delete.any'
+  | 'note.manager'
+  | 'team.view'
+  | 'reporting.view'
+  | 'users.manage'
+  | 'users.impersonate'
+  | 'trash.manage'
+  | 'export.all';
+
+export type CapabilityInfo = { key: Capability; label: string; description: string };
+
+/** Display order for the matrix editor. */
+export const CAPABILITIES: CapabilityInfo[] = [
+  { key: 'dealer.create', label: 'Add dealers', description: 'Reps are always assigned the dealers they add.' },
+  { key: 'dealer.edit', label: 'Edit covered dealers', description: 'Edit dealers assigned to them or in their states, and add notes.' },
+  { key: 'dealer.edit.any', label: 'Edit any dealer', description: 'Every dealer they can see, regardless of coverage.' },
+  { key: 'dealer.reassign', label: 'Reassign dealers', description: "Change a dealer's assigned rep." },
+  { key: 'dealer.delete', label: 'Delete dealers', description: 'Move dealers they can edit to the Trash.' },
+  { key: 'note.delete.own', label: 'Delete own notes', description: 'Notes they wrote.' },
+  { key: 'note.delete.any', label: "Delete anyone's notes", description: '' },
+  { key: 'note.manager', label: 'Manager notes & tasks', description: 'Write Manager notes, which open a task for the assigned rep.' },
+  { key: 'team.view', label: "See the whole team's activity", description: "Every rep's notes in the Daily Summary and every open task." },
+  { key: 'reporting.view', label: 'Reporting', description: 'The Reporting tab and their own report dashboard.' },
+  { key: 'users.manage', label: 'Manage users', description: 'User Management: accounts, coverage, invites and the dealer audit.' },
+  { key: 'users.impersonate', label: 'View as another user', description: 'Browse as someone else, read-only. Every session is logged.' },
+  { key: 'trash.manage', label: 'Trash', description: 'Restore, purge and set the retention window.' },
+  { key: 'export.all', label: 'Export everything', description: 'Download every table as a ZIP (Regional Managers get their coverage).' },
+];
+
+export type CapabilityMatrix = Record<Role, Capability[]>;
+
+/** Shipped defaults; mirrors the seed rows in the role_capabilities migration. */
+export const DEFAULT_CAPABILITIES: CapabilityMatrix = {
+  Admin: CAPABILITIES.map((c) => c.key),
+  Manager: [
+    'dealer.create',
+    'dealer.edit',
+    'dealer.edit.any',
+    'dealer.reassign',
+    'dealer.delete',
+    'note.delete.own',
+    'note.delete.any',
+    'note.manager',
+    'team.view',
+    'reporting.view',
+    'export.all',
+  ],
+  'Regional Manager': [
+    'dealer.create',
+    'dealer.edit',
+    'dealer.edit.any',
+    'dealer.reassign',
+    'dealer.delete',
+    'note.delete.own',
+    'note.delete.any',
+    'note.manager',
+    'team.view',
+    'reporting.view',
+    'export.all',
+  ],
+  Rep: ['dealer.create', 'dealer.edit', 'dealer.delete', 'note.delete.own'],
+  Viewer: ['team.view', 'reporting.view'],
+};
+
+/** Matrix column order. */
+export const ROLES = Object.keys(DEFAULT_CAPABILITIES) as Role[];
+
+/** Roles whose row can't be edited (they always have everything). */
+export const LOCKED_ROLES: Role[] = ['Admin'];
+
+export const hasCapability = (matrix: CapabilityMatrix, role: Role | undefined, cap: Capability): boolean => {
+  if (!role) return false;
+  if (LOCKED_ROLES.includes(role)) return true;
+  return (matrix[role] || []).includes(cap);
+};
+
+/** Bound check handed to views: `can('dealer.reassign')`. */
+export type Can = (cap: Capability) => boolean;
+
+/* ----------------------------- territory scope ----------------------------- */
+// Roles that only see dealers (and reps) inside their own rep_coverage. RLS
+// applies the same rule for Regional Managers; Reps are scoped by search.
+export const TERRITORY_ROLES: Role[] = ['Rep', 'Regional Manager'];
+
+type Coverage = Pick<User, 'states' | 'regionsByState'>;
+
+/** Does the coverage include the dealer's state and region? */
+export const coversDealer = (u: Coverage, d: Pick<Dealer, 'state' | 'region'>): boolean =>
+  u.states.includes(d.state) && (u.regionsByState[d.state]?.includes(d.region) ?? false);
+
+/** Do two users cover at least one common state/region? */
+export const sharesTerritory = (a: Coverage, b: Coverage): boolean =>
+  a.states.some((st) => (a.regionsByState[st] || []).some((r) => b.regionsByState[st]?.includes(r)));
+
+/* ------------------------------- team scope -------------------------------- */
+/**
+ * Usernames a manager's team views cover: themselves plus their direct reports
+ * (profiles.manager_id). null means everyone: an Admin looking at all teams,
+ * or anyone with no team assigned yet (so unassigned managers keep the old view).
+ */
+export const teamUsernames = (users: User[], viewer: User | null, allTeams: boolean): Set<string> | null => {
+  if (!viewer || (viewer.role === 'Admin' && allTeams)) return null;
+  const team = users.filter((u) => u.managerId === viewer.id);
+  if (team.length === 0) return null;
+  return new Set([viewer.username, ...team.map((u) => u.username)]);
+};
@@ -0,0 +1,1206 @@
+import { DEFAULT_CAPABILITIES, LOCKED_ROLES, ROLES, type Capability, type CapabilityMatrix } from './permissions';
+import { supabase } from './supabaseClient';
+import type { LatLng } from './geo';
+import type {
+  Dealer,
+  DealerAuditAction,
+  DealerAuditEntry,
+  DealerStatus,
+  DealerType,
+  ImpersonationSession,
+  Invite,
+  OffboardResult,
+  OffboardSummary,
+  InviteStatus,
+  Note,
+  NoteCategory,
+  Role,
+  RoutePreset,
+  RouteStop,
+  Task,
+  Trashed,
+  User,
+  UserStatus,
+} from './types';
+
+/* ============================================================================
+   Data access: one row type, column list and mapper per Supabase table.
+   Views go through these so a column added here shows up everywhere.
+============================================================================ */
+
+type Result<T> = { data: T; error: { message: string } | null };
+
+// Below the default PostgREST max-rows (1000), so a full page means "ask again"
+const LIST_PAGE_SIZE = 500;
+
+/** Every row of a query, read a page at a time so the max-rows cap can't cut it short. Needs a total order. */
+const allPages = async <R,>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<Result<R[]>> => {
+  const rows: R[] = [];
+  for (let from = 0; ; from += LIST_PAGE_SIZE) {
+    const { data, error } = await page(from, from + LIST_PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...((data || []) as R[]));
+    if (!data || data.length < LIST_PAGE_SIZE) return { data: rows, error: null };
+  }
+};
+
+// Soft-deleted rows carry these; every normal read filters on deleted_at IS NULL.
+type SoftDeleteColumns = { deleted_at: string; deleted_by: string | null };
+const SOFT_DELETE_COLUMNS = 'deleted_at,deleted_by';
+
+const trashedFrom = <T,>(item: T, r: SoftDeleteColumns): Trashed<T> => ({
+  ...item,
+  deletedAtISO: r.deleted_at,
+  deletedBy: r.deleted_by || undefined,
+});
+
+/* --------------------------------- dealers -------------------------------- */
+export type DealerRow = {
+  id: string;
+  name: string;
+  state: string;
+  region: string;
+  type: DealerType | null;
+  status: DealerStatus | null;
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  zip: string | null;
+  contacts: { name: string; phone: string }[] | null;
+  assigned_rep_username: string | null;
+  last_visited: string | null;
+  sending_deals: boolean | null;
+  no_deal_reasons: Dealer['noDealReasons'] | null;
+  updated_at: string | null;
+  lat: number | null;
+  lng: number | null;
+  geocode_source: string | null;
+};
+
+export const DEALER_COLUMNS =
+  'id,name,state,region,type,status,address1,address2,city,zip,contacts,assigned_rep_username,last_visited,sending_deals,no_deal_reasons,updated_at,lat,lng,geocode_source';
+
+export const dealerFromRow = (r: DealerRow): Dealer => ({
+  id: r.id,
+  name: r.name,
+  state: r.state,
+  region: r.region,
+  type: r.type || 'Independent',
+  status: r.status || 'Active',
+  address1: r.address1 || '',
+  address2: r.address2 || '',
+  city: r.city || '',
+  zip: r.zip || '',
+  contacts: Array.isArray(r.contacts) ? r.contacts : [],
+  assignedRepUsername: r.assigned_rep_username || undefined,
+  lastVisited: r.last_visited ? String(r.last_visited).slice(0, 10) : undefined, // keep YYYY-MM-DD
+  sendingDeals: typeof r.sending_deals === 'boolean' ? r.sending_deals : undefined,
+  noDealReasons: r.no_deal_reasons || undefined,
+  updatedAt: r.updated_at || undefined,
+  lat: r.lat ?? undefined,
+  lng: r.lng ?? undefined,
+  geocodeSource: r.geocode_source || undefined,
+});
+
+/**
+ * Map only the keys present in `patch`, so partial updates don't null other columns.
+ * `updatedAt` is never written; the server stamps it on every update. Nor are
+ * the coordinates: /api/geocode-dealers owns them.
+ */
+export const dealerToRow = (patch: Partial<Dealer>): Partial<DealerRow> => {
+  const row: Partial<DealerRow> = {};
+  if ('id' in patch) row.id = patch.id;
+  if ('name' in patch) row.name = patch.name;
+  if ('state' in patch) row.state = patch.state;
+  if ('region' in patch) row.region = patch.region;
+  if ('type' in patch) row.type = patch.type ?? null;
+  if ('status' in patch) row.status = patch.status ?? null;
+  if ('address1' in patch) row.address1 = patch.address1 || null;
+  if ('address2' in patch) row.address2 = patch.address2 || null;
+  if ('city' in patch) row.city = patch.city || null;
+  if ('zip' in patch) row.zip = patch.zip || null;
+  if ('contacts' in patch) row.contacts = patch.contacts ?? [];
+  if ('assignedRepUsername' in patch) row.assigned_rep_username = patch.assignedRepUsername || null;
+  if ('lastVisited' in patch) row.last_visited = patch.lastVisited || null;
+  if ('sendingDeals' in patch) row.sending_deals = patch.sendingDeals ?? null;
+  if ('noDealReasons' in patch) row.no_deal_reasons = patch.noDealReasons ?? null;
+  return row;
+};
+
+export type DealerSearchQuery = {
+  q?: string;
+  /** Dealers this rep covers: assigned to them, or unassigned inside their territory. */
+  rep?: string;
+  state?: string;
+  region?: string;
+  type?: string;
+  status?: string;
+  /** Restrict to dealers this username may see (Rep sessions). */
+  scopeUsername?: string;
+  /** 'recent' = never-visited first, then newest visit. */
+  sort?: 'name' | 'recent';
+  page?: number;
+  pageSize?: number;
+};
+
+export type DealerSearchPage = { rows: Dealer[]; total: number };
+
+/** `saved` is set when the write went through; otherwise the save was stale. */
+export type DealerSaveOutcome = { saved: Dealer | null; current: Dealer | null };
+
+// PostgREST or() values are quoted so commas, dots and parens in user input stay literal.
+const orValue = (v: string) => `"${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * or() clause matching a rep's territory, read from rep_coverage on the
+ * server rather than from the browser's copy. A NULL region covers the whole state.
+ */
+const territoryClauses = async (username: string): Promise<Result<string[]>> => {
+  const { data: prof, error: pErr } = await supabase.from('profiles').select('id').eq('username', username).maybeSingle();
+  if (pErr || !prof) return { data: [], error: pErr };
+  const { data, error } = await supabase
+    .from('rep_coverage')
+    .select(COVERAGE_COLUMNS)
+    .eq('user_id', (prof as { id: string }).id)
+    .is('valid_to', null);
+  if (error) return { data: [], error };
+
+  const byState = new Map<string, Set<string> | null>();
+  for (const row of (data || []) as CoverageRow[]) {
+    if (!row.state) continue;
+    if (row.region == null || row.region === '') byState.set(row.state, null);
+    else if (byState.get(row.state) !== null) {
+      const set = byState.get(row.state) || new Set<string>();
+      set.add(row.region);
+      byState.set(row.state, set);
+    }
+  }
+  const clauses: string[] = [];
+  for (const [st, regions] of byState) {
+    clauses.push(
+      regions
+        ? `and(state.eq.${orValue(st)},region.in.(${Array.from(regions).map(orValue).join(',')}))`
+        : `state.eq.${orValue(st)}`
+    );
+  }
+  return { data: clauses, error: null };
+};
+
+export const dealersRepo = {
+  /**
+   * Every live dealer, or the book `scopeUsername` covers, fetched a page at a
+   * time so PostgREST's max-rows cap can't cut it short. Only for views that
+   * total a whole book; screens that show a page use search().
+   */
+  async list(scopeUsername?: string): Promise<Result<Dealer[]>> {
+    const rows: Dealer[] = [];
+    for (let page = 1; ; page++) {
+      const { data, error } = await dealersRepo.search({ scopeUsername, sort: 'name', page, pageSize: LIST_PAGE_SIZE });
+      if (error) return { data: rows, error };
+      rows.push(...data.rows);
+      if (data.rows.length < LIST_PAGE_SIZE || rows.length >= data.total) return { data: rows, error: null };
+    }
+  },
+
+  /** One page of dealers matching `query`, plus the total match count. */
+  async search(query: DealerSearchQuery): Promise<Result<DealerSearchPage>> {
+    const pageSize = query.pageSize ?? 10;
+    const from = ((query.page ?? 1) - 1) * pageSize;
+    let req = supabase.from('dealers').select(DEALER_COLUMNS, { count: 'exact' }).is('deleted_at', null);
+
+    if (query.scopeUsername) {
+      const { data: territory, error } = await territoryClauses(query.scopeUsername);
+      if (error) return { data: { rows: [], total: 0 }, error };
+      req = req.or([`assigned_rep_username.eq.${orValue(query.scopeUsername)}`, ...territory].join(','));
+    }
+    if (query.rep) {
+      // An explicit assignment wins over territory, so territory only counts for unassigned dealers
+      const { data: territory, error } = await territoryClauses(query.rep);
+      if (error) return { data: { rows: [], total: 0 }, error };
+      const unassigned = territory.map((c) => `and(assigned_rep_username.is.null,${c})`);
+      req = req.or([`assigned_rep_username.eq.${orValue(query.rep)}`, ...unassigned].join(','));
+    }
+
+    const q = query.q?.trim();
+    if (q) {
+      const like = orValue(`%${q}%`);
+      req = req.or(['name', 'city', 'state', 'region'].map((c) => `${c}.ilike.${like}`).join(','));
+    }
+    if (query.state) req = req.eq('state', query.state);
+    if (query.region) req = req.eq('region', query.region);
+    if (query.type) req = req.eq('type', query.type);
+    if (query.status) req = req.eq('status', query.status);
+
+    if (query.sort === 'recent') req = req.order('last_visited', { ascending: false, nullsFirst: true });
+    // id breaks name ties so pages never overlap
+    const { data, error, count } = await req.order('name').order('id').range(from, from + pageSize - 1);
+    return {
+      data: { rows: ((data || []) as DealerRow[]).map(dealerFromRow), total: count ?? 0 },
+      error,
+    };
+  },
+
+  async byIds(ids: string[]): Promise<Result<Dealer[]>> {
+    if (!ids.length) return { data: [], error: null };
+    const { data, error } = await supabase.from('dealers').select(DEALER_COLUMNS).in('id', ids).is('deleted_at', null);
+    return { data: ((data || []) as DealerRow[]).map(dealerFromRow), error };
+  },
+
+  async insert(dealer: Omit<Dealer, 'id'>): Promise<Result<Dealer | null>> {
+    const { data, error } = await supabase
+      .from('dealers')
+      .insert([dealerToRow(dealer)])
+      .select(DEALER_COLUMNS)
+      .single();
+    return { data: data ? dealerFromRow(data as DealerRow) : null, error };
+  },
+
+  /** Unconditional update; returns the saved row (null if RLS hid it). */
+  async update(id: string, patch: Partial<Dealer>): Promise<Result<Dealer | null>> {
+    const { data, error } = await supabase
+      .from('dealers')
+      .update(dealerToRow(patch))
+      .eq('id', id)
+      .select(DEALER_COLUMNS)
+      .maybeSingle();
+    return { data: data ? dealerFromRow(data as DealerRow) : null, error };
+  },
+
+  /**
+   * Update only if the row still has the `updated_at` the editor loaded. The
+   * check and the write are one statement, so two concurrent saves can't both
+   * pass. On a stale save nothing is written and `current` holds the server's
+   * row (null if it was deleted or is no longer visible).
+   */
+  async updateIfUnchanged(
+    id: string,
+    patch: Partial<Dealer>,
+    expectedUpdatedAt: string | undefined
+  ): Promise<Result<DealerSaveOutcome>> {
+    let req = supabase.from('dealers').update(dealerToRow(patch)).eq('id', id);
+    req = expectedUpdatedAt ? req.eq('updated_at', expectedUpdatedAt) : req.is('updated_at', null);
+    const { data, error } = await req.select(DEALER_COLUMNS).maybeSingle();
+    if (error) return { data: { saved: null, current: null }, error };
+    if (data) return { data: { saved: dealerFromRow(data as DealerRow), current: null }, error: null };
+
+    const { data: cur, error: cErr } = await supabase
+      .from('dealers')
+      .select(DEALER_COLUMNS)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .maybeSingle();
+    return { data: { saved: null, current: cur ? dealerFromRow(cur as DealerRow) : null }, error: cErr };
+  },
+
+  /** Bulk upsert keyed on (name, state), as used by the CSV import. */
+  async upsertMany(dealers: Partial<Dealer>[]): Promise<Result<null>> {
+    const { error } = await supabase
+      .from('dealers')
+      .upsert(dealers.map(dealerToRow), { onConflict: 'name,state', ignoreDuplicates: false });
+    return { data: null, error };
+  },
+
+  /** Move every dealer in one state/region to another; returns the moved ids. */
+  async moveRegion(
+    from: { state: string; region: string },
+    to: { state: string; region: string }
+  ): Promise<Result<string[]>> {
+    const { data, error } = await supabase
+      .from('dealers')
+      .update(dealerToRow(to))
+      .eq('state', from.state)
+      .eq('region', from.region)
+      .select('id');
+    return { data: ((data || []) as { id: string }[]).map((r) => String(r.id)), error };
+  },
+
+  /** Soft delete; the server stamps deleted_at/deleted_by and trashes the dealer's notes too. */
+  async trash(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealers').update({ deleted_at: new Date().toISOString() }).eq('id', id);
+    return { data: null, error };
+  },
+
+  async restore(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealers').update({ deleted_at: null }).eq('id', id);
+    return { data: null, error };
+  },
+
+  /** Newest deletions first. */
+  async listTrashed(): Promise<Result<Trashed<Dealer>[]>> {
+    const { data, error } = await supabase
+      .from('dealers')
+      .select(`${DEALER_COLUMNS},${SOFT_DELETE_COLUMNS}`)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+    const rows = (data || []) as (DealerRow & SoftDeleteColumns)[];
+    return { data: rows.map((r) => trashedFrom(dealerFromRow(r), r)), error };
+  },
+
+  /** Permanent delete (purge from the trash). Notes/tasks go with it via FK cascade. */
+  async remove(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealers').delete().eq('id', id);
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ dealer_notes ------------------------------ */
+export type NoteRow = {
+  id: string | number;
+  dealer_id: string;
+  user_id?: string | null;
+  author_username: string;
+  created_at: string;
+  category: NoteCategory;
+  text: string | null;
+  client_id?: string | null;
+};
+
+export const NOTE_COLUMNS = 'id,dealer_id,author_username,created_at,category,text,client_id';
+
+export const noteFromRow = (r: NoteRow): Note => ({
+  id: String(r.id),
+  dealerId: r.dealer_id,
+  authorUsername: r.author_username,
+  tsISO: new Date(r.created_at).toISOString(),
+  category: r.category,
+  text: r.text ?? '',
+});
+
+/** Shape written on insert; client_id is the idempotency key for retries. */
+export type NoteInsertRow = {
+  dealer_id: string;
+  user_id: string;
+  author_username: string;
+  created_at: string;
+  category: NoteCategory;
+  text: string;
+  client_id: string;
+};
+
+export const noteToRow = (n: Omit<Note, 'id'>, extra: { user_id: string; client_id: string }): NoteInsertRow => ({
+  dealer_id: n.dealerId,
+  author_username: n.authorUsername,
+  created_at: n.tsISO,
+  category: n.category,
+  text: n.text,
+  ...extra,
+});
+
+export type NoteQuery = {
+  dealerId?: string;
+  author?: string;
+  /** any of these authors (e.g. the reps on a report) */
+  authors?: string[];
+  category?: NoteCategory;
+  /** inclusive ISO lower bound on created_at */
+  since?: string;
+  /** exclusive ISO upper bound on created_at */
+  until?: string;
+};
+
+export const notesRepo = {
+  async list(q: NoteQuery = {}): Promise<Result<Note[]>> {
+    if (q.authors && !q.authors.length) return { data: [], error: null };
+    const { data, error } = await allPages<NoteRow>((from, to) => {
+      let query = supabase.from('dealer_notes').select(NOTE_COLUMNS).is('deleted_at', null);
+      if (q.dealerId) query = query.eq('dealer_id', q.dealerId);
+      if (q.author) query = query.eq('author_username', q.author);
+      if (q.authors) query = query.in('author_username', q.authors);
+      if (q.category) query = query.eq('category', q.category);
+      if (q.since) query = query.gte('created_at', q.since);
+      if (q.until) query = query.lt('created_at', q.until);
+      return query.order('created_at', { ascending: false }).order('id').range(from, to);
+    });
+    return { data: data.map(noteFromRow), error };
+  },
+
+  /** Raw rows for a dealer — callers need client_id to reconcile the offline outbox. */
+  async rowsForDealer(dealerId: string): Promise<Result<NoteRow[]>> {
+    const { data, error } = await supabase
+      .from('dealer_notes')
+      .select(NOTE_COLUMNS)
+      .eq('dealer_id', dealerId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+    return { data: (data || []) as NoteRow[], error };
+  },
+
+  async byClientIds(clientIds: string[]): Promise<Result<NoteRow[]>> {
+    if (!clientIds.length) return { data: [], error: null };
+    const { data, error } = await supabase
+      .from('dealer_notes')
+      .select(NOTE_COLUMNS)
+      .in('client_id', clientIds)
+      .is('deleted_at', null);
+    return { data: (data || []) as NoteRow[], error };
+  },
+
+  /** Idempotent on client_id, so retries and outbox replays never duplicate. */
+  async upsertByClientId(row: NoteInsertRow): Promise<Result<Note | null>> {
+    const { error } = await supabase.from('dealer_notes').upsert(row, { onConflict: 'client_id' });
+    if (error) return { data: null, error };
+    const { data, error: fetchErr } = await supabase
+      .from('dealer_notes')
+      .select(NOTE_COLUMNS)
+      .eq('client_id', row.client_id)
+      .single();
+    return { data: data ? noteFromRow(data as NoteRow) : null, error: fetchErr };
+  },
+
+  /** Soft delete; the server stamps deleted_at/deleted_by. */
+  async trash(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealer_notes').update({ deleted_at: new Date().toISOString() }).eq('id', id);
+    return { data: null, error };
+  },
+
+  async restore(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealer_notes').update({ deleted_at: null }).eq('id', id);
+    return { data: null, error };
+  },
+
+  /** Newest deletions first, including notes trashed along with their dealer. */
+  async listTrashed(): Promise<Result<Trashed<Note>[]>> {
+    const { data, error } = await supabase
+      .from('dealer_notes')
+      .select(`${NOTE_COLUMNS},${SOFT_DELETE_COLUMNS}`)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+    const rows = (data || []) as (NoteRow & SoftDeleteColumns)[];
+    return { data: rows.map((r) => trashedFrom(noteFromRow(r), r)), error };
+  },
+
+  /** Permanent delete (purge from the trash). */
+  async remove(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealer_notes').delete().eq('id', id);
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ dealer_tasks ------------------------------ */
+export type TaskRow = {
+  id: string;
+  dealer_id: string;
+  rep_username: string;
+  text: string;
+  created_at: string;
+  completed_at: string | null;
+};
+
+export const TASK_COLUMNS = 'id,dealer_id,rep_username,text,created_at,completed_at';
+
+export const taskFromRow = (r: TaskRow): Task => ({
+  id: r.id,
+  dealerId: r.dealer_id,
+  repUsername: r.rep_username,
+  text: r.text,
+  createdAtISO: r.created_at,
+  completedAtISO: r.completed_at || undefined,
+});
+
+export const taskToRow = (t: Partial<Task>): Partial<TaskRow> => {
+  const row: Partial<TaskRow> = {};
+  if ('id' in t) row.id = t.id;
+  if ('dealerId' in t) row.dealer_id = t.dealerId;
+  if ('repUsername' in t) row.rep_username = t.repUsername;
+  if ('text' in t) row.text = t.text;
+  if ('createdAtISO' in t) row.created_at = t.createdAtISO;
+  if ('completedAtISO' in t) row.completed_at = t.completedAtISO || null;
+  return row;
+};
+
+export const tasksRepo = {
+  /** All tasks, or only one rep's when `repUsername` is given. Newest first. */
+  async list(repUsername?: string): Promise<Result<Task[]>> {
+    let query = supabase.from('dealer_tasks').select(TASK_COLUMNS);
+    if (repUsername) query = query.eq('rep_username', repUsername);
+    const { data, error } = await query.order('created_at', { ascending: false });
+    return { data: ((data || []) as TaskRow[]).map(taskFromRow), error };
+  },
+
+  async update(id: string, patch: Partial<Task>): Promise<Result<null>> {
+    const { error } = await supabase.from('dealer_tasks').update(taskToRow(patch)).eq('id', id);
+    return { data: null, error };
+  },
+};
+
+/* -------------------------------- profiles -------------------------------- */
+export type ProfileRow = {
+  id: string;
+  username: string;
+  email: string | null;
+  role: Role | null;
+  status: UserStatus | null;
+  name: string | null;
+  phone: string | null;
+  report_url: string | null;
+  manager_id: string | null;
+};
+
+export const PROFILE_COLUMNS = 'id,username,email,role,status,name,phone,report_url,manager_id';
+
+/** Profiles carry no territory; pass the user's coverage to fill states/regions. */
+export const profileFromRow = (r: ProfileRow, coverage?: UserCoverage): User => ({
+  id: String(r.id),
+  username: String(r.username || (r.email ? r.email.split('@')[0] : '')),
+  name: String(r.name || r.username || r.email || ''),
+  email: r.email || undefined,
+  role: (r.role || 'Rep') as Role,
+  states: coverage?.states ?? [],
+  regionsByState: coverage?.regionsByState ?? {},
+  phone: r.phone || undefined,
+  status: (r.status || 'Active') as UserStatus,
+  reportUrl: r.report_url || undefined,
+  managerId: r.manager_id || undefined,
+});
+
+export const profileToRow = (u: Partial<User>): Partial<ProfileRow> => {
+  const row: Partial<ProfileRow> = {};
+  if ('id' in u) row.id = u.id;
+  if ('username' in u) row.username = u.username;
+  if ('email' in u) row.email = u.email || null;
+  if ('role' in u) row.role = u.role ?? null;
+  if ('status' in u) row.status = u.status ?? null;
+  if ('name' in u) row.name = u.name || null;
+  if ('phone' in u) row.phone = u.phone || null;
+  if ('reportUrl' in u) row.report_url = u.reportUrl || null;
+  if ('managerId' in u) row.manager_id = u.managerId || null;
+  return row;
+};
+
+export const profilesRepo = {
+  async list(): Promise<Result<ProfileRow[]>> {
+    const { data, error } = await supabase.from('profiles').select(PROFILE_COLUMNS).order('username', { ascending: true });
+    return { data: (data || []) as ProfileRow[], error };
+  },
+
+  async get(id: string): Promise<Result<ProfileRow | null>> {
+    const { data, error } = await supabase.from('profiles').select(PROFILE_COLUMNS).eq('id', id).maybeSingle();
+    return { data: (data as ProfileRow | null) ?? null, error };
+  },
+
+  async update(id: string, patch: Partial<User>): Promise<Result<null>> {
+    const { error } = await supabase.from('profiles').update(profileToRow(patch)).eq('id', id);
+    return { data: null, error };
+  },
+
+  /** Update by email (for invited users whose id we don't know yet); returns the id or null if no row. */
+  async updateByEmail(email: string, patch: Partial<User>): Promise<Result<string | null>> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(profileToRow(patch))
+      .eq('email', email)
+      .select('id')
+      .maybeSingle();
+    return { data: (data as { id: string } | null)?.id ?? null, error };
+  },
+
+  async upsert(row: Partial<ProfileRow> & { id: string }): Promise<Result<null>> {
+    const { error } = await supabase.from('profiles').upsert(row, { onConflict: 'id' });
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ user_invites ------------------------------ */
+// Written only by the /api invite handlers; Admins can read.
+type InviteRow = {
+  id: string;
+  email: string;
+  username: string | null;
+  role: string | null;
+  mode: Invite['mode'];
+  status: InviteStatus;
+  invited_by_username: string | null;
+  created_at: string;
+  last_sent_at: string;
+  send_count: number;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  revoked_by_username: string | null;
+  last_emailed_at: string | null;
+};
+
+const INVITE_COLUMNS =
+  'id,email,username,role,mode,status,invited_by_username,created_at,last_sent_at,send_count,expires_at,accepted_at,revoked_at,revoked_by_username,last_emailed_at';
+
+/** A pending row past its expiry reads as expired even before the cron job flips it. */
+export const inviteFromRow = (r: InviteRow): Invite => ({
+  id: r.id,
+  email: r.email,
+  username: r.username || undefined,
+  role: r.role || undefined,
+  mode: r.mode,
+  status: r.status === 'pending' && Date.parse(r.expires_at) <= Date.now() ? 'expired' : r.status,
+  invitedByUsername: r.invited_by_username || undefined,
+  createdAtISO: r.created_at,
+  lastSentAtISO: r.last_sent_at,
+  sendCount: r.send_count,
+  expiresAtISO: r.expires_at,
+  acceptedAtISO: r.accepted_at || undefined,
+  revokedAtISO: r.revoked_at || undefined,
+  revokedByUsername: r.revoked_by_username || undefined,
+  lastEmailedAtISO: r.last_emailed_at || undefined,
+});
+
+export const invitesRepo = {
+  /** Most recently sent first. Open = pending or expired (both can be resent). */
+  async list(opts: { includeClosed?: boolean } = {}): Promise<Result<Invite[]>> {
+    let req = supabase.from('user_invites').select(INVITE_COLUMNS);
+    if (!opts.includeClosed) req = req.in('status', ['pending', 'expired']);
+    const { data, error } = await req.order('last_sent_at', { ascending: false }).limit(500);
+    return { data: ((data || []) as InviteRow[]).map(inviteFromRow), error };
+  },
+};
+
+/* ------------------------------ rep_coverage ------------------------------ */
+// Rows are effective-dated: [valid_from, valid_to), valid_to null while current.
+export type CoverageRow = { user_id: string; state: string; region: string | null };
+export type CoverageHistoryRow = CoverageRow & { valid_from: string; valid_to: string | null };
+export type UserCoverage = { states: string[]; regionsByState: Record<string, string[]> };
+
+export const COVERAGE_COLUMNS = 'user_id,state,region';
+const COVERAGE_HISTORY_COLUMNS = 'user_id,state,region,valid_from,valid_to';
+
+/**
+ * Fold coverage rows into per-user states/regions. A NULL region means
+ * "every region in that state", expanded against the current catalog.
+ */
+export const coverageByUserId = (
+  rows: CoverageRow[],
+  catalog: Record<string, string[]>
+): Map<string, UserCoverage> => {
+  const acc = new Map<string, { states: Set<string>; map: Record<string, Set<string>> }>();
+  for (const row of rows) {
+    const uid = String(row.user_id || '');
+    const st = row.state;
+    if (!uid || !st) continue;
+    if (!acc.has(uid)) acc.set(uid, { states: new Set(), map: {} });
+    const entry = acc.get(uid)!;
+    entry.states.add(st);
+    if (row.region == null || row.region === '') {
+      entry.map[st] = new Set(catalog[st] || []);
+    } else {
+      if (!entry.map[st]) entry.map[st] = new Set();
+      entry.map[st].add(row.region);
+    }
+  }
+
+  const out = new Map<string, UserCoverage>();
+  for (const [uid, cv] of acc) {
+    const regionsByState: Record<string, string[]> = {};
+    for (const st of Object.keys(cv.map)) regionsByState[st] = Array.from(cv.map[st]).sort();
+    out.set(uid, { states: Array.from(cv.states).sort(), regionsByState });
+  }
+  return out;
+};
+
+export const coverageToRows = (userId: string, cov: UserCoverage): CoverageRow[] => {
+  const rows: CoverageRow[] = [];
+  for (const st of cov.states || []) {
+    for (const rg of cov.regionsByState?.[st] || []) rows.push({ user_id: userId, state: st, region: rg });
+  }
+  return rows;
+};
+
+/** Coverage in force on `date` (YYYY-MM-DD), folded like coverageByUserId. */
+export const coverageAsOf = (
+  rows: CoverageHistoryRow[],
+  date: string,
+  catalog: Record<string, string[]>
+): Map<string, UserCoverage> =>
+  coverageByUserId(
+    rows.filter((r) => r.valid_from <= date && (r.valid_to == null || r.valid_to > date)),
+    catalog
+  );
+
+export const coverageRepo = {
+  /** Current territories. */
+  async list(): Promise<Result<CoverageRow[]>> {
+    const { data, error } = await supabase.from('rep_coverage').select(COVERAGE_COLUMNS).is('valid_to', null);
+    return { data: (data || []) as CoverageRow[], error };
+  },
+
+  /** Every row, closed ones included; pair with coverageAsOf(). */
+  async history(): Promise<Result<CoverageHistoryRow[]>> {
+    const { data, error } = await supabase.from('rep_coverage').select(COVERAGE_HISTORY_COLUMNS);
+    return { data: (data || []) as CoverageHistoryRow[], error };
+  },
+
+  /**
+   * Make `cov` the user's current territory. set_rep_coverage() closes dropped
+   * rows as of today rather than deleting them.
+   */
+  async replaceForUser(userId: string, cov: UserCoverage): Promise<Result<null>> {
+    const rows = coverageToRows(userId, cov).map(({ state, region }) => ({ state, region }));
+    const { error } = await supabase.rpc('set_rep_coverage', { p_user_id: userId, p_rows: rows });
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ dealer_routes ----------------------------- */
+export type RouteRow = {
+  user_id: string;
+  dealer_id: string;
+  date: string;
+  position: number | null;
+  checked_in_at?: string | null;
+  checked_out_at?: string | null;
+  check_in_lat?: number | null;
+  check_in_lng?: number | null;
+  check_out_lat?: number | null;
+  check_out_lng?: number | null;
+  visit_note_client_id?: string | null;
+};
+
+export const ROUTE_COLUMNS =
+  'dealer_id,position,checked_in_at,checked_out_at,check_in_lat,check_in_lng,check_out_lat,check_out_lng,visit_note_client_id';
+
+const pointOrUndefined = (lat?: number | null, lng?: number | null) =>
+  lat != null && lng != null ? { lat: Number(lat), lng: Number(lng) } : undefined;
+
+export const routeStopFromRow = (r: Omit<RouteRow, 'user_id' | 'date'>): RouteStop => ({
+  dealerId: r.dealer_id,
+  position: r.position ?? 1,
+  checkedInAtISO: r.checked_in_at ? new Date(r.checked_in_at).toISOString() : undefined,
+  checkedOutAtISO: r.checked_out_at ? new Date(r.checked_out_at).toISOString() : undefined,
+  checkInAt: pointOrUndefined(r.check_in_lat, r.check_in_lng),
+  checkOutAt: pointOrUndefined(r.check_out_lat, r.check_out_lng),
+  visitNoteClientId: r.visit_note_client_id ?? undefined,
+});
+
+export const routeStopToRow = (userId: string, date: string, stop: RouteStop): RouteRow => ({
+  user_id: userId,
+  dealer_id: stop.dealerId,
+  date,
+  position: stop.position,
+});
+
+const routeStopUpdate = async (
+  userId: string,
+  date: string,
+  dealerId: string,
+  patch: Partial<RouteRow>
+): Promise<Result<RouteStop | null>> => {
+  const { data, error } = await supabase
+    .from('dealer_routes')
+    .update(patch)
+    .eq('user_id', userId)
+    .eq('date', date)
+    .eq('dealer_id', dealerId)
+    .select(ROUTE_COLUMNS)
+    .maybeSingle();
+  return { data: data ? routeStopFromRow(data as RouteRow) : null, error };
+};
+
+export type PlannedStop = RouteStop & { userId: string; date: string };
+
+export const routesRepo = {
+  async listForDay(userId: string, date: string): Promise<Result<RouteStop[]>> {
+    const { data, error } = await supabase
+      .from('dealer_routes')
+      .select(ROUTE_COLUMNS)
+      .eq('user_id', userId)
+      .eq('date', date)
+      .order('position', { ascending: true });
+    return { data: ((data || []) as RouteRow[]).map(routeStopFromRow), error };
+  },
+
+  /** Planned stops of several users over a date range (inclusive), for reporting. */
+  async listRange(userIds: string[], from: string, to: string): Promise<Result<PlannedStop[]>> {
+    if (!userIds.length) return { data: [], error: null };
+    const { data, error } = await allPages<RouteRow>((start, end) =>
+      supabase
+        .from('dealer_routes')
+        .select(`user_id,date,${ROUTE_COLUMNS}`)
+        .in('user_id', userIds)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .order('position', { ascending: true })
+        .order('id')
+        .range(start, end)
+    );
+    return {
+      data: data.map((r) => ({ ...routeStopFromRow(r), userId: r.user_id, date: r.date })),
+      error,
+    };
+  },
+
+  /** Insert or re-position stops; (user_id, date, dealer_id) is unique. */
+  async upsertStops(userId: string, date: string, stops: RouteStop[]): Promise<Result<null>> {
+    if (!stops.length) return { data: null, error: null };
+    const { error } = await supabase
+      .from('dealer_routes')
+      .upsert(stops.map((s) => routeStopToRow(userId, date, s)), { onConflict: 'user_id,date,dealer_id' });
+    return { data: null, error };
+  },
+
+  /**
+   * Save the signed-in user's order for a day in one call. The server
+   * renumbers 1..N (stops not in `dealerIds` go last) and returns the day.
+   */
+  async reorder(date: string, dealerIds: string[]): Promise<Result<RouteStop[]>> {
+    const { data, error } = await supabase.rpc('reorder_route', { p_date: date, p_dealer_ids: dealerIds });
+    return { data: ((data || []) as RouteRow[]).map(routeStopFromRow), error };
+  },
+
+  /** Stamp the arrival (and where, when the browser shared it). */
+  async checkIn(userId: string, date: string, dealerId: string, at: string, point?: LatLng | null): Promise<Result<RouteStop | null>> {
+    return routeStopUpdate(userId, date, dealerId, {
+      checked_in_at: at,
+      check_in_lat: point?.lat ?? null,
+      check_in_lng: point?.lng ?? null,
+    });
+  },
+
+  /** Stamp the departure; `visitNoteClientId` links the Visit note written for it. */
+  async checkOut(
+    userId: string,
+    date: string,
+    dealerId: string,
+    at: string,
+    point?: LatLng | null,
+    visitNoteClientId?: string | null
+  ): Promise<Result<RouteStop | null>> {
+    return routeStopUpdate(userId, date, dealerId, {
+      checked_out_at: at,
+      check_out_lat: point?.lat ?? null,
+      check_out_lng: point?.lng ?? null,
+      visit_note_client_id: visitNoteClientId ?? null,
+    });
+  },
+
+  async removeStop(userId: string, date: string, dealerId: string): Promise<Result<null>> {
+    const { error } = await supabase
+      .from('dealer_routes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('date', date)
+      .eq('dealer_id', dealerId);
+    return { data: null, error };
+  },
+
+  async clearDay(userId: string, date: string): Promise<Result<null>> {
+    const { error } = await supabase.from('dealer_routes').delete().eq('user_id', userId).eq('date', date);
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ route_presets ----------------------------- */
+export type PresetRow = {
+  id: string;
+  rep_username: string;
+  name: string;
+  dealer_ids: string[] | null;
+  created_at: string;
+  updated_at: string;
+  last_used_at: string | null;
+};
+
+export const presetFromRow = (r: PresetRow): RoutePreset => ({
+  id: r.id,
+  rep_username: r.rep_username,
+  name: r.name,
+  dealer_ids: r.dealer_ids || [],
+  created_at: r.created_at,
+  updated_at: r.updated_at,
+  last_used_at: r.last_used_at,
+});
+
+export const presetsRepo = {
+  async listForRep(repUsername: string): Promise<Result<RoutePreset[]>> {
+    const { data, error } = await supabase
+      .from('route_presets')
+      .select('*')
+      .eq('rep_username', repUsername)
+      .order('updated_at', { ascending: false });
+    return { data: ((data || []) as PresetRow[]).map(presetFromRow), error };
+  },
+
+  async insert(repUsername: string, name: string, dealerIds: string[]): Promise<Result<RoutePreset | null>> {
+    const { data, error } = await supabase
+      .from('route_presets')
+      .insert({ rep_username: repUsername, name, dealer_ids: dealerIds })
+      .select()
+      .single();
+    return { data: data ? presetFromRow(data as PresetRow) : null, error };
+  },
+
+  async update(id: string, patch: Partial<Pick<RoutePreset, 'name' | 'dealer_ids' | 'last_used_at'>>): Promise<Result<null>> {
+    const { error } = await supabase
+      .from('route_presets')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  /** Stamp last use without touching updated_at (which orders the list). */
+  async markUsed(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('route_presets').update({ last_used_at: new Date().toISOString() }).eq('id', id);
+    return { data: null, error };
+  },
+
+  async remove(id: string): Promise<Result<null>> {
+    const { error } = await supabase.from('route_presets').delete().eq('id', id);
+    return { data: null, error };
+  },
+};
+
+/* ------------------------------ dealer_audit ------------------------------ */
+// Rows are written by the dealers_audit trigger; the app only reads them.
+export type AuditRow = {
+  id: string | number;
+  dealer_id: string;
+  dealer_name: string | null;
+  action: DealerAuditAction;
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  actor_username: string | null;
+  changed_at: string;
+};
+
+export const AUDIT_COLUMNS = 'id,dealer_id,dealer_name,action,field,old_value,new_value,actor_username,changed_at';
+
+export const auditFromRow = (r: AuditRow): DealerAuditEntry => ({
+  id: String(r.id),
+  dealerId: String(r.dealer_id),
+  dealerName: r.dealer_name || undefined,
+  action: r.action,
+  field: r.field || undefined,
+  oldValue: r.old_value ?? null,
+  newValue: r.new_value ?? null,
+  actorUsername: r.actor_username || undefined,
+  changedAtISO: r.changed_at,
+});
+
+export type AuditQuery = {
+  dealerName?: string;
+  actor?: string;
+  field?: string;
+  since?: string; // ISO, inclusive
+  until?: string; // ISO, exclusive
+  page?: number;
+  pageSize?: number;
+};
+
+export const auditRepo = {
+  /** Newest first. */
+  async forDealer(dealerId: string, limit = 200): Promise<Result<DealerAuditEntry[]>> {
+    const { data, error } = await supabase
+      .from('dealer_audit')
+      .select(AUDIT_COLUMNS)
+      .eq('dealer_id', dealerId)
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+    return { data: ((data || []) as AuditRow[]).map(auditFromRow), error };
+  },
+
+  /** One page across all dealers, plus the total match count. */
+  async search(query: AuditQuery): Promise<Result<{ rows: DealerAuditEntry[]; total: number }>> {
+    const pageSize = query.pageSize ?? 25;
+    const from = ((query.page ?? 1) - 1) * pageSize;
+    let req = supabase.from('dealer_audit').select(AUDIT_COLUMNS, { count: 'exact' });
+    if (query.dealerName?.trim()) req = req.ilike('dealer_name', `%${query.dealerName.trim()}%`);
+    if (query.actor) req = req.eq('actor_username', query.actor);
+    if (query.field) req = req.eq('field', query.field);
+    if (query.since) req = req.gte('changed_at', query.since);
+    if (query.until) req = req.lt('changed_at', query.until);
+    const { data, error, count } = await req.order('changed_at', { ascending: false }).range(from, from + pageSize - 1);
+    return { data: { rows: ((data || []) as AuditRow[]).map(auditFromRow), total: count ?? 0 }, error };
+  },
+};
+
+/* ------------------------------ app_settings ------------------------------ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const settingsRepo = {
+  async trashRetentionDays(): Promise<Result<number>> {
+    const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'trash_retention_days').maybeSingle();
+    const days = Number((data as { value: unknown } | null)?.value);
+    return { data: Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS, error };
+  },
+
+  async setTrashRetentionDays(days: number): Promise<Result<null>> {
+    const { error } = await supabase
+      .from('app_settings')
+      .update({ value: days, updated_at: new Date().toISOString() })
+      .eq('key', 'trash_retention_days');
+    return { data: null, error };
+  },
+
+  /** Run the retention purge now (it also runs nightly on the server). */
+  async purgeExpiredTrash(): Promise<Result<{ notes: number; dealers: number } | null>> {
+    const { data, error } = await supabase.rpc('purge_trash');
+    return { data: (data as { notes: number; dealers: number } | null) ?? null, error };
+  },
+};
+
+/* ---------------------------- role_capabilities --------------------------- */
+type CapabilityRow = { role: Role; capability: Capability };
+
+/** Fold grant rows into a matrix. Admin is implicit and never has rows. */
+export const capabilityMatrixFromRows = (rows: CapabilityRow[]): CapabilityMatrix => {
+  const matrix = Object.fromEntries(
+    ROLES.map((role) => [role, LOCKED_ROLES.includes(role) ? DEFAULT_CAPABILITIES[role] : []])
+  ) as CapabilityMatrix;
+  for (const r of rows) {
+    if (LOCKED_ROLES.includes(r.role) || !matrix[r.role]) continue;
+    matrix[r.role] = [...matrix[r.role], r.capability];
+  }
+  return matrix;
+};
+
+export const capabilitiesRepo = {
+  /** Falls back to the shipped defaults when the table can't be read. */
+  async matrix(): Promise<Result<CapabilityMatrix>> {
+    const { data, error } = await supabase.from('role_capabilities').select('role,capability');
+    if (error) return { data: DEFAULT_CAPABILITIES, error };
+    return { data: capabilityMatrixFromRows((data || []) as CapabilityRow[]), error: null };
+  },
+
+  async grant(role: Role, capability: Capability): Promise<Result<null>> {
+    const { error } = await supabase.from('role_capabilities').upsert({ role, capability });
+    return { data: null, error };
+  },
+
+  async revoke(role: Role, capability: Capability): Promise<Result<null>> {
+    const { error } = await supabase.from('role_capabilities').delete().eq('role', role).eq('capability', capability);
+    return { data: null, error };
+  },
+};
+
+/* ------------------------- impersonation_sessions ------------------------- */
+// One row per Admin "View as" session. Written from the Admin's browser (RLS
+// only lets them stamp ended_at on their own rows); read under User Management.
+type ImpersonationRow = {
+  id: string;
+  admin_username: string;
+  target_username: string;
+  target_role: string | null;
+  started_at: string;
+  ended_at: string | null;
+};
+
+const IMPERSONATION_COLUMNS = 'id,admin_username,target_username,target_role,started_at,ended_at';
+
+export const impersonationFromRow = (r: ImpersonationRow): ImpersonationSession => ({
+  id: r.id,
+  adminUsername: r.admin_username,
+  targetUsername: r.target_username,
+  targetRole: r.target_role || undefined,
+  startedAtISO: r.started_at,
+  endedAtISO: r.ended_at || undefined,
+});
+
+export const impersonationRepo = {
+  /** Returns the new session id; the caller must not enter View as without it. */
+  async start(admin: User, target: User): Promise<Result<string | null>> {
+    const { data, error } = await supabase
+      .from('impersonation_sessions')
+      .insert({
+        admin_id: admin.id,
+        admin_username: admin.username,
+        target_user_id: target.id,
+        target_username: target.username,
+        target_role: target.role,
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      })
+      .select('id')
+      .single();
+    return { data: (data as { id: string } | null)?.id ?? null, error };
+  },
+
+  async end(id: string): Promise<Result<null>> {
+    const { error } = await supabase
+      .from('impersonation_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  /** Newest first. */
+  async list(limit = 100): Promise<Result<ImpersonationSession[]>> {
+    const { data, error } = await supabase
+      .from('impersonation_sessions')
+      .select(IMPERSONATION_COLUMNS)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+    return { data: ((data || []) as ImpersonationRow[]).map(impersonationFromRow), error };
+  },
+};
+
+/* ------------------------------- offboarding ------------------------------- */
+// Both functions check users.manage themselves; offboard_user runs as a single
+// transaction, so a failed transfer leaves everything where it was.
+type OffboardSummaryRow = {
+  dealers: number;
+  dealers_by_region: { state: string; region: string; count: number }[];
+  open_tasks: number;
+  upcoming_stops: number;
+  presets: number;
+  direct_reports: number;
+};
+
+type OffboardResultRow = {
+  dealers: number;
+  open_tasks: number;
+  stops: number;
+  presets: number;
+  direct_reports: number;
+  deactivated: boolean;
+};
+
+/** 'STATE|Region', the key offboard_user expects in its region map. */
+export const offboardRegionKey = (state: string, region: string) => `${state}|${region}`;
+
+export const offboardRepo = {
+  async summary(userId: string): Promise<Result<OffboardSummary | null>> {
+    const { data, error } = await supabase.rpc('offboard_summary', { p_user_id: userId });
+    const r = data as OffboardSummaryRow | null;
+    return {
+      data: r
+        ? {
+            dealers: Number(r.dealers) || 0,
+            dealersByRegion: r.dealers_by_region || [],
+            openTasks: Number(r.open_tasks) || 0,
+            upcomingStops: Number(r.upcoming_stops) || 0,
+            presets: Number(r.presets) || 0,
+            directReports: Number(r.direct_reports) || 0,
+          }
+        : null,
+      error,
+    };
+  },
+
+  /** `regionSuccessors` maps offboardRegionKey() to a profile id; the rest go to `successorId`. */
+  async transfer(
+    userId: string,
+    successorId: string,
+    regionSuccessors: Record<string, string>,
+    deactivate: boolean
+  ): Promise<Result<OffboardResult | null>> {
+    const { data, error } = await supabase.rpc('offboard_user', {
+      p_user_id: userId,
+      p_successor_id: successorId,
+      p_region_successors: regionSuccessors,
+      p_deactivate: deactivate,
+    });
+    const r = data as OffboardResultRow | null;
+    return {
+      data: r
+        ? {
+            dealers: r.dealers,
+            openTasks: r.open_tasks,
+            stops: r.stops,
+            presets: r.presets,
+            directReports: r.direct_reports,
+            deactivated: r.deactivated,
+          }
+        : null,
+      error,
+    };
+  },
+};
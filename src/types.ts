@@ -0,0 +1,169 @@
+/* ----------------------------- Types & Models -----------------------------
+   Shared app models. Supabase rows are mapped to these in repository.ts.
+=========================================================================== */
+// Regional Manager: a Manager limited to their coverage. Viewer: read-only browsing.
+export type Role = "Admin" | "Manager" | "Regional Manager" | "Rep" | "Viewer";
+export type UserStatus = "Active" | "Inactive";
+
+export type User = {
+  id: string;
+  name: string;
+  username: string;
+  email?: string;
+  role: Role;
+  states: string[];
+  regionsByState: Record<string, string[]>;
+  phone?: string; // ← NEW
+  status?: UserStatus; // ← NEW (login gating)
+  reportUrl?: string; // ← NEW (external report dashboard for Reps)
+  managerId?: string; // profiles.manager_id: whose team this user is on
+};
+
+/* -------------------------------- Invites -------------------------------- */
+export type InviteStatus = "pending" | "accepted" | "expired" | "revoked";
+export type Invite = {
+  id: string;
+  email: string;
+  username?: string;
+  role?: string;
+  mode: "invite" | "recovery"; // recovery = the address already had an account
+  status: InviteStatus;
+  invitedByUsername?: string;
+  createdAtISO: string;
+  lastSentAtISO: string;
+  sendCount: number;
+  expiresAtISO: string;
+  acceptedAtISO?: string;
+  revokedAtISO?: string;
+  revokedByUsername?: string;
+  lastEmailedAtISO?: string; // set when the server emailed the link
+};
+
+/* ------------------------------ View as (audit) ------------------------------ */
+export type ImpersonationSession = {
+  id: string;
+  adminUsername: string;
+  targetUsername: string;
+  targetRole?: string;
+  startedAtISO: string;
+  endedAtISO?: string; // unset if the tab closed before "Exit"
+};
+
+/* ------------------------------- Offboarding ------------------------------- */
+/** What a user still owns (offboard_summary). */
+export type OffboardSummary = {
+  dealers: number;
+  dealersByRegion: { state: string; region: string; count: number }[];
+  openTasks: number;
+  upcomingStops: number;
+  presets: number;
+  directReports: number;
+};
+
+/** What offboard_user moved. */
+export type OffboardResult = {
+  dealers: number;
+  openTasks: number;
+  stops: number;
+  presets: number;
+  directReports: number;
+  deactivated: boolean;
+};
+
+export type Contact = { name: string; phone: string };
+
+export type DealerStatus = "Active" | "Pending" | "Prospect" | "Inactive" | "Black Listed";
+export type DealerType = "Franchise" | "Independent";
+
+export type Dealer = {
+  id: string;
+  name: string;
+  state: string;
+  region: string;
+  type: DealerType;
+  status: DealerStatus;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  zip?: string;
+  contacts: Contact[];
+  assignedRepUsername?: string; // override
+  lastVisited?: string; // YYYY-MM-DD
+  sendingDeals?: boolean;
+  noDealReasons?: {
+    funding?: boolean;
+    agreement?: boolean;
+    feesRates?: boolean;
+    programDiff?: boolean;
+    eContracting?: boolean;
+    notSigned?: boolean;
+    other?: string;
+  };
+  updatedAt?: string; // raw updated_at from the server; the version an edit was based on
+  lat?: number; // set by /api/geocode-dealers; unset until geocoded
+  lng?: number;
+  geocodeSource?: string; // "zip" = approximate (ZIP centroid)
+};
+/* ----------------- Note type (extended for optimistic UI) ----------------- */
+export type NoteCategory = "Visit" | "Problem" | "Other" | "Manager";
+export type Note = {
+  id: string;                 // can be temp like "temp_..."
+  dealerId: string;
+  authorUsername: string;
+  tsISO: string;
+  category: NoteCategory;
+  text: string;
+  pending?: boolean;          // true while saving
+  failed?: boolean;           // true if last save failed
+  queued?: boolean;           // true while waiting in the offline outbox
+};
+
+export type Task = {
+  id: string;
+  dealerId: string;
+  repUsername: string;
+  text: string; // dealer name for quick glance
+  createdAtISO: string;
+  completedAtISO?: string; // ← NEW (for “Complete Task”)
+};
+
+/* ------------------------------- Rep routes ------------------------------- */
+export type RouteStop = {
+  dealerId: string;
+  position: number;
+  checkedInAtISO?: string;
+  checkedOutAtISO?: string;
+  checkInAt?: { lat: number; lng: number }; // browser position, when allowed
+  checkOutAt?: { lat: number; lng: number };
+  visitNoteClientId?: string; // Visit note written at check-out
+};
+export type RouteByDate = Record<string, RouteStop[]>;
+
+// Presets keep their column names; the preset UI was written against the row shape
+export type RoutePreset = {
+  id: string;
+  rep_username: string;
+  name: string;
+  dealer_ids: string[];
+  created_at: string;
+  updated_at: string;
+  last_used_at: string | null;
+};
+
+/* ---------------------------------- Trash --------------------------------- */
+// Soft-deleted rows as shown on the Admin Trash screen
+export type Trashed<T> = T & { deletedAtISO: string; deletedBy?: string };
+
+/* ------------------------------ Dealer audit ------------------------------ */
+export type DealerAuditAction = "insert" | "update" | "delete";
+export type DealerAuditEntry = {
+  id: string;
+  dealerId: string;
+  dealerName?: string;
+  action: DealerAuditAction;
+  field?: string; // DB column name; only set for "update"
+  oldValue: unknown;
+  newValue: unknown;
+  actorUsername?: string; // missing for system/service-role writes
+  changedAtISO: string;
+};
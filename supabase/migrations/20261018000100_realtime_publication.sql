@@ -0,0 +1,4 @@
+-- Stream row changes for the live dealer / note / task views in the app.
+alter publication supabase_realtime add table public.dealers;
+alter publication supabase_realtime add table public.dealer_notes;
+alter publication supabase_realtime add table public.dealer_tasks;
@@ -0,0 +1,10 @@
+-- Back the paged dealer search: substring matches on name/city, territory
+-- filters on (state, region), rep assignment, and the "recently visited" default.
+create extension if not exists pg_trgm;
+
+create index if not exists dealers_name_trgm_idx on public.dealers using gin (name gin_trgm_ops);
+create index if not exists dealers_city_trgm_idx on public.dealers using gin (city gin_trgm_ops);
+create index if not exists dealers_state_region_idx on public.dealers (state, region);
+create index if not exists dealers_assigned_rep_idx on public.dealers (assigned_rep_username);
+create index if not exists dealers_last_visited_idx on public.dealers (last_visited desc nulls first, name);
+create index if not exists rep_coverage_user_idx on public.rep_coverage (user_id);
@@ -0,0 +1,63 @@
+-- Keep dealers.last_visited in step with Visit notes on the server.
+-- last_visited is the UTC date of the newest "Visit" (or legacy "Visited") note,
+-- or NULL once the last one is deleted.
+
+create index if not exists dealer_notes_visits_idx
+  on public.dealer_notes (dealer_id, created_at desc)
+  where category in ('Visit', 'Visited');
+
+-- Recompute only the dealers this row touches (both sides of a dealer/category change).
+create or replace function public.dealer_notes_sync_last_visited()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.dealers d
+     set last_visited = (
+       select max((n.created_at at time zone 'utc')::date)
+         from public.dealer_notes n
+        where n.dealer_id = d.id
+          and n.category in ('Visit', 'Visited')
+     )
+   where (tg_op <> 'INSERT' and old.category in ('Visit', 'Visited') and d.id = old.dealer_id)
+      or (tg_op <> 'DELETE' and new.category in ('Visit', 'Visited') and d.id = new.dealer_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists dealer_notes_last_visited on public.dealer_notes;
+create trigger dealer_notes_last_visited
+  after insert or delete or update of category, dealer_id, created_at on public.dealer_notes
+  for each row execute function public.dealer_notes_sync_last_visited();
+
+-- One-shot rebuild for every dealer; called by /api/backfill-last-visited.
+create or replace function public.backfill_dealer_last_visited()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed integer;
+begin
+  with latest as (
+    select n.dealer_id, max((n.created_at at time zone 'utc')::date) as visited
+      from public.dealer_notes n
+     where n.category in ('Visit', 'Visited')
+     group by n.dealer_id
+  )
+  update public.dealers d
+     set last_visited = l.visited
+    from public.dealers d2
+    left join latest l on l.dealer_id = d2.id
+   where d.id = d2.id
+     and d.last_visited is distinct from l.visited;
+  get diagnostics changed = row_count;
+  return changed;
+end;
+$$;
+
+revoke all on function public.backfill_dealer_last_visited() from public, anon, authenticated;
+grant execute on function public.backfill_dealer_last_visited() to service_role;
@@ -0,0 +1,76 @@
+-- Field-level change history for dealers: who changed what, when, from/to.
+-- Written by trigger so every path (app, CSV import, region moves, SQL) is covered.
+
+create table if not exists public.dealer_audit (
+  id bigint generated always as identity primary key,
+  dealer_id uuid not null,            -- no FK: history outlives the dealer
+  dealer_name text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  field text,                         -- NULL for insert/delete (whole row in old/new_value)
+  old_value jsonb,
+  new_value jsonb,
+  actor_id uuid,
+  actor_username text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists dealer_audit_dealer_idx on public.dealer_audit (dealer_id, changed_at desc);
+create index if not exists dealer_audit_changed_idx on public.dealer_audit (changed_at desc);
+create index if not exists dealer_audit_actor_idx on public.dealer_audit (actor_username, changed_at desc);
+
+create or replace function public.dealers_write_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  -- bookkeeping columns; last_visited is derived from notes, not edited
+  v_skip text[] := array['created_at', 'updated_at', 'last_visited'];
+  v_old jsonb;
+  v_new jsonb;
+  v_key text;
+begin
+  if v_actor is not null then
+    select p.username into v_actor_name from public.profiles p where p.id = v_actor;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, new_value, actor_id, actor_username)
+    values (new.id, new.name, 'insert', to_jsonb(new) - v_skip, v_actor, v_actor_name);
+  elsif tg_op = 'DELETE' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, old_value, actor_id, actor_username)
+    values (old.id, old.name, 'delete', to_jsonb(old) - v_skip, v_actor, v_actor_name);
+  else
+    v_old := to_jsonb(old) - v_skip;
+    v_new := to_jsonb(new) - v_skip;
+    for v_key in select jsonb_object_keys(v_new) loop
+      if v_old -> v_key is distinct from v_new -> v_key then
+        insert into public.dealer_audit (dealer_id, dealer_name, action, field, old_value, new_value, actor_id, actor_username)
+        values (new.id, new.name, 'update', v_key, v_old -> v_key, v_new -> v_key, v_actor, v_actor_name);
+      end if;
+    end loop;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists dealers_audit on public.dealers;
+create trigger dealers_audit
+  after insert or update or delete on public.dealers
+  for each row execute function public.dealers_write_audit();
+
+-- Read-only for clients: Admin/Manager see everything, others only dealers they can see.
+alter table public.dealer_audit enable row level security;
+
+drop policy if exists dealer_audit_select on public.dealer_audit;
+create policy dealer_audit_select on public.dealer_audit
+  for select to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role in ('Admin', 'Manager'))
+    or exists (select 1 from public.dealers d where d.id = dealer_audit.dealer_id)
+  );
+
+revoke insert, update, delete on public.dealer_audit from anon, authenticated;
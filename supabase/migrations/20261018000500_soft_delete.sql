@@ -0,0 +1,193 @@
+-- Soft delete for dealers and notes. Clients only flip deleted_at; the server
+-- stamps who/when, trashes a dealer's notes along with it, and purges rows
+-- that have sat in the trash longer than app_settings.trash_retention_days.
+
+alter table public.dealers
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+alter table public.dealer_notes
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists dealers_deleted_idx on public.dealers (deleted_at) where deleted_at is not null;
+create index if not exists dealer_notes_deleted_idx on public.dealer_notes (deleted_at) where deleted_at is not null;
+
+-- Server-side stamp so deleted_by can't be spoofed and clocks don't matter
+create or replace function public.stamp_soft_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    new.deleted_at := now();
+    new.deleted_by := coalesce((select p.username from public.profiles p where p.id = auth.uid()), new.deleted_by);
+  elsif new.deleted_at is null then
+    new.deleted_by := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dealers_stamp_soft_delete on public.dealers;
+create trigger dealers_stamp_soft_delete
+  before update of deleted_at on public.dealers
+  for each row execute function public.stamp_soft_delete();
+
+drop trigger if exists dealer_notes_stamp_soft_delete on public.dealer_notes;
+create trigger dealer_notes_stamp_soft_delete
+  before update of deleted_at on public.dealer_notes
+  for each row execute function public.stamp_soft_delete();
+
+-- A dealer's live notes go to the trash with it, and come back with it on restore.
+-- Notes trashed on their own earlier keep their own stamp and stay in the trash.
+create or replace function public.dealers_cascade_soft_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    update public.dealer_notes set deleted_at = new.deleted_at
+     where dealer_id = new.id and deleted_at is null;
+  elsif new.deleted_at is null and old.deleted_at is not null then
+    update public.dealer_notes set deleted_at = null
+     where dealer_id = new.id and deleted_at = old.deleted_at;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists dealers_cascade_soft_delete on public.dealers;
+create trigger dealers_cascade_soft_delete
+  after update of deleted_at on public.dealers
+  for each row execute function public.dealers_cascade_soft_delete();
+
+-- Visits in the trash no longer count towards last_visited
+create or replace function public.dealer_notes_sync_last_visited()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.dealers d
+     set last_visited = (
+       select max((n.created_at at time zone 'utc')::date)
+         from public.dealer_notes n
+        where n.dealer_id = d.id
+          and n.category in ('Visit', 'Visited')
+          and n.deleted_at is null
+     )
+   where (tg_op <> 'INSERT' and old.category in ('Visit', 'Visited') and d.id = old.dealer_id)
+      or (tg_op <> 'DELETE' and new.category in ('Visit', 'Visited') and d.id = new.dealer_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists dealer_notes_last_visited on public.dealer_notes;
+create trigger dealer_notes_last_visited
+  after insert or delete or update of category, dealer_id, created_at, deleted_at on public.dealer_notes
+  for each row execute function public.dealer_notes_sync_last_visited();
+
+-- deleted_by is implied by the deleted_at audit row's actor
+create or replace function public.dealers_write_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_skip text[] := array['created_at', 'updated_at', 'last_visited', 'deleted_by'];
+  v_old jsonb;
+  v_new jsonb;
+  v_key text;
+begin
+  if v_actor is not null then
+    select p.username into v_actor_name from public.profiles p where p.id = v_actor;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, new_value, actor_id, actor_username)
+    values (new.id, new.name, 'insert', to_jsonb(new) - v_skip, v_actor, v_actor_name);
+  elsif tg_op = 'DELETE' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, old_value, actor_id, actor_username)
+    values (old.id, old.name, 'delete', to_jsonb(old) - v_skip, v_actor, v_actor_name);
+  else
+    v_old := to_jsonb(old) - v_skip;
+    v_new := to_jsonb(new) - v_skip;
+    for v_key in select jsonb_object_keys(v_new) loop
+      if v_old -> v_key is distinct from v_new -> v_key then
+        insert into public.dealer_audit (dealer_id, dealer_name, action, field, old_value, new_value, actor_id, actor_username)
+        values (new.id, new.name, 'update', v_key, v_old -> v_key, v_new -> v_key, v_actor, v_actor_name);
+      end if;
+    end loop;
+  end if;
+  return null;
+end;
+$$;
+
+/* ------------------------------ retention ------------------------------ */
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.app_settings (key, value) values ('trash_retention_days', '30')
+on conflict (key) do nothing;
+
+alter table public.app_settings enable row level security;
+
+drop policy if exists app_settings_read on public.app_settings;
+create policy app_settings_read on public.app_settings
+  for select to authenticated using (true);
+
+drop policy if exists app_settings_admin_write on public.app_settings;
+create policy app_settings_admin_write on public.app_settings
+  for update to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'));
+
+-- Hard-delete anything trashed longer than the retention window.
+-- Dealer purges take their notes/tasks/routes with them via the existing FKs.
+-- Admins only when called from the app; cron runs it with no auth.uid().
+create or replace function public.purge_trash()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer;
+  v_notes integer;
+  v_dealers integer;
+begin
+  if auth.uid() is not null
+     and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin') then
+    raise exception 'Not allowed to purge the Trash' using errcode = '42501';
+  end if;
+
+  select coalesce((value #>> '{}')::integer, 30) into v_days
+    from public.app_settings where key = 'trash_retention_days';
+  v_days := coalesce(v_days, 30);
+
+  delete from public.dealer_notes where deleted_at < now() - make_interval(days => v_days);
+  get diagnostics v_notes = row_count;
+  delete from public.dealers where deleted_at < now() - make_interval(days => v_days);
+  get diagnostics v_dealers = row_count;
+
+  return jsonb_build_object('notes', v_notes, 'dealers', v_dealers, 'retention_days', v_days);
+end;
+$$;
+
+revoke all on function public.purge_trash() from public, anon;
+grant execute on function public.purge_trash() to authenticated, service_role;
+
+create extension if not exists pg_cron;
+select cron.schedule('purge-trash', '17 3 * * *', 'select public.purge_trash()');
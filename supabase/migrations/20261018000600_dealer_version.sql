@@ -0,0 +1,29 @@
+-- updated_at is the dealer's version for optimistic concurrency: the app saves
+-- with `where updated_at = <value it loaded>` and treats zero rows as stale.
+-- The server owns the stamp, so client clocks and spoofed values don't matter.
+
+alter table public.dealers
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Only edits bump the version. Trigger-maintained columns (last_visited, trash
+-- stamps) change behind the user's back and must not make an open edit stale.
+create or replace function public.dealers_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_ignore text[] := array['updated_at', 'last_visited', 'deleted_at', 'deleted_by'];
+begin
+  if (to_jsonb(new) - v_ignore) is distinct from (to_jsonb(old) - v_ignore) then
+    new.updated_at := now();
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dealers_touch_updated_at on public.dealers;
+create trigger dealers_touch_updated_at
+  before update on public.dealers
+  for each row execute function public.dealers_touch_updated_at();
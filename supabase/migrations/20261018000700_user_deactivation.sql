@@ -0,0 +1,57 @@
+-- Deactivation is enforced by the server, not the browser. profiles.status is
+-- the source of truth; flipping it to Inactive bans the auth user (no sign-in,
+-- no token refresh) and revokes every session, so no device stays signed in
+-- past its current access token. Flipping back to Active lifts the ban.
+
+-- Only Admins (or the service role) may change anyone's status or role, including
+-- their own, so a profile update can't reactivate or promote its owner.
+create or replace function public.profiles_guard_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status is distinct from old.status or new.role is distinct from old.role)
+     and auth.uid() is not null
+     and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin') then
+    raise exception 'Only an Admin can change a user''s status or role' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_status on public.profiles;
+create trigger profiles_guard_status
+  before update of status, role on public.profiles
+  for each row execute function public.profiles_guard_status();
+
+create or replace function public.profiles_sync_auth_ban()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+  if new.status = 'Inactive' then
+    update auth.users set banned_until = 'infinity' where id = new.id;
+    delete from auth.sessions where user_id = new.id;
+  else
+    update auth.users set banned_until = null where id = new.id and banned_until is not null;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_sync_auth_ban on public.profiles;
+create trigger profiles_sync_auth_ban
+  after insert or update of status on public.profiles
+  for each row execute function public.profiles_sync_auth_ban();
+
+-- Users deactivated before this migration only had their password hidden in
+-- one browser; ban them properly now.
+update auth.users u
+   set banned_until = 'infinity'
+  from public.profiles p
+ where p.id = u.id
+   and p.status = 'Inactive';
@@ -0,0 +1,84 @@
+-- Server-side record of every invite/recovery link an Admin hands out.
+-- Rows are written by /api/generate-invite, /api/resend-invite and
+-- /api/revoke-invite (service role); the browser only reads them.
+
+create table if not exists public.user_invites (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  username text,
+  user_id uuid references auth.users (id) on delete set null,
+  mode text not null default 'invite' check (mode in ('invite', 'recovery')),
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'expired', 'revoked')),
+  invited_by uuid references auth.users (id) on delete set null,
+  invited_by_username text,
+  created_at timestamptz not null default now(),
+  last_sent_at timestamptz not null default now(),
+  send_count integer not null default 1,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by_username text
+);
+
+-- At most one live invite per address; re-inviting reuses it
+create unique index if not exists user_invites_one_pending
+  on public.user_invites (lower(email)) where status = 'pending';
+create index if not exists user_invites_status_idx on public.user_invites (status, created_at desc);
+
+alter table public.user_invites enable row level security;
+
+drop policy if exists user_invites_admin_read on public.user_invites;
+create policy user_invites_admin_read on public.user_invites
+  for select to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'));
+
+revoke insert, update, delete on public.user_invites from anon, authenticated;
+
+-- The first sign-in through the link (invite or recovery) accepts it.
+create or replace function public.user_invites_mark_accepted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.last_sign_in_at is distinct from old.last_sign_in_at then
+    update public.user_invites
+       set status = 'accepted', accepted_at = now()
+     where user_id = new.id
+       and status = 'pending'
+       and expires_at > now();
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists user_invites_mark_accepted on auth.users;
+create trigger user_invites_mark_accepted
+  after update of last_sign_in_at on auth.users
+  for each row execute function public.user_invites_mark_accepted();
+
+-- Automatic expiry. Supabase's own link lifetime still applies on top of this.
+create or replace function public.expire_user_invites()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.user_invites
+     set status = 'expired'
+   where status = 'pending'
+     and expires_at <= now();
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.expire_user_invites() from public, anon, authenticated;
+grant execute on function public.expire_user_invites() to service_role;
+
+create extension if not exists pg_cron;
+select cron.schedule('expire-user-invites', '*/15 * * * *', 'select public.expire_user_invites()');
@@ -0,0 +1,5 @@
+-- Invite emails: remember the role the invite was for (it goes in the email and
+-- is reused on resend) and when the link was last emailed rather than copied.
+alter table public.user_invites
+  add column if not exists role text,
+  add column if not exists last_emailed_at timestamptz;
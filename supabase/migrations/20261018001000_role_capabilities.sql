@@ -0,0 +1,195 @@
+-- Capability matrix: one row per (role, capability) a role is granted. The app
+-- hides controls with it, the /api handlers check it with the service role,
+-- and the policies and triggers below use has_capability(). Admin is
+-- implicitly granted everything (and has no rows), so the matrix can't lock
+-- Admins out of it.
+-- Keep the seed in step with DEFAULT_CAPABILITIES in src/permissions.ts.
+create table if not exists public.role_capabilities (
+  role text not null,
+  capability text not null,
+  primary key (role, capability)
+);
+
+insert into public.role_capabilities (role, capability) values
+  ('Manager', 'dealer.create'),
+  ('Manager', 'dealer.edit.any'),
+  ('Manager', 'dealer.reassign'),
+  ('Manager', 'dealer.delete'),
+  ('Manager', 'note.delete.own'),
+  ('Manager', 'note.delete.any'),
+  ('Manager', 'note.manager'),
+  ('Manager', 'team.view'),
+  ('Manager', 'reporting.view'),
+  -- Managers could export everything before capabilities; they keep it
+  ('Manager', 'export.all'),
+  ('Rep', 'dealer.create'),
+  ('Rep', 'dealer.delete'),
+  ('Rep', 'note.delete.own')
+on conflict do nothing;
+
+create or replace function public.role_has_capability(p_role text, p_capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_role = 'Admin'
+      or exists (select 1 from public.role_capabilities rc where rc.role = p_role and rc.capability = p_capability);
+$$;
+
+-- For the signed-in caller. Inactive accounts have nothing.
+create or replace function public.has_capability(p_capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+     where p.id = auth.uid()
+       and p.status is distinct from 'Inactive'
+       and public.role_has_capability(p.role, p_capability)
+  );
+$$;
+
+grant execute on function public.role_has_capability(text, text) to authenticated, service_role;
+grant execute on function public.has_capability(text) to authenticated, service_role;
+
+alter table public.role_capabilities enable row level security;
+
+drop policy if exists role_capabilities_read on public.role_capabilities;
+create policy role_capabilities_read on public.role_capabilities
+  for select to authenticated using (true);
+
+drop policy if exists role_capabilities_admin_write on public.role_capabilities;
+create policy role_capabilities_admin_write on public.role_capabilities
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'))
+  with check (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin')
+    and role <> 'Admin'
+  );
+
+-- Move the earlier hard-coded Admin checks onto capabilities.
+drop policy if exists app_settings_admin_write on public.app_settings;
+create policy app_settings_admin_write on public.app_settings
+  for update to authenticated
+  using (public.has_capability('trash.manage'))
+  with check (public.has_capability('trash.manage'));
+
+drop policy if exists user_invites_admin_read on public.user_invites;
+create policy user_invites_admin_read on public.user_invites
+  for select to authenticated
+  using (public.has_capability('users.manage'));
+
+create or replace function public.profiles_guard_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status is distinct from old.status or new.role is distinct from old.role)
+     and auth.uid() is not null
+     and not public.has_capability('users.manage') then
+    raise exception 'Only a user manager can change a user''s status or role' using errcode = '42501';
+  end if;
+  -- Making, unmaking or deactivating an Admin stays with Admins
+  if (new.status is distinct from old.status or new.role is distinct from old.role)
+     and 'Admin' in (old.role, new.role)
+     and auth.uid() is not null
+     and not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin') then
+    raise exception 'Only an Admin can change an Admin''s status or role' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+-- purge_trash() was Admin-only from the app; trash.manage now decides. Cron still
+-- runs it with no auth.uid().
+create or replace function public.purge_trash()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_days integer;
+  v_notes integer;
+  v_dealers integer;
+begin
+  if auth.uid() is not null and not public.has_capability('trash.manage') then
+    raise exception 'Not allowed to purge the Trash' using errcode = '42501';
+  end if;
+
+  select coalesce((value #>> '{}')::integer, 30) into v_days
+    from public.app_settings where key = 'trash_retention_days';
+  v_days := coalesce(v_days, 30);
+
+  delete from public.dealer_notes where deleted_at < now() - make_interval(days => v_days);
+  get diagnostics v_notes = row_count;
+  delete from public.dealers where deleted_at < now() - make_interval(days => v_days);
+  get diagnostics v_dealers = row_count;
+
+  return jsonb_build_object('notes', v_notes, 'dealers', v_dealers, 'retention_days', v_days);
+end;
+$$;
+
+-- Column gates the row policies can't express: reassigning a dealer and
+-- trashing or restoring dealers and notes are plain UPDATEs, which the
+-- dealer.edit policies would otherwise let through. Cascades from another
+-- trigger (a dealer's notes following it into the trash) are not re-checked.
+create or replace function public.dealers_guard_capabilities()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 then
+    return new;
+  end if;
+  if new.assigned_rep_username is distinct from old.assigned_rep_username
+     and not public.has_capability('dealer.reassign') then
+    raise exception 'Not allowed to reassign dealers' using errcode = '42501';
+  end if;
+  if (new.deleted_at is null) <> (old.deleted_at is null)
+     and not (public.has_capability('dealer.delete') or public.has_capability('trash.manage')) then
+    raise exception 'Not allowed to delete or restore dealers' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dealers_guard_capabilities on public.dealers;
+create trigger dealers_guard_capabilities
+  before update of assigned_rep_username, deleted_at on public.dealers
+  for each row execute function public.dealers_guard_capabilities();
+
+create or replace function public.dealer_notes_guard_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 or (new.deleted_at is null) = (old.deleted_at is null) then
+    return new;
+  end if;
+  if public.has_capability('note.delete.any') or public.has_capability('trash.manage') then
+    return new;
+  end if;
+  if public.has_capability('note.delete.own')
+     and old.author_username = (select p.username from public.profiles p where p.id = auth.uid()) then
+    return new;
+  end if;
+  raise exception 'Not allowed to delete or restore this note' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists dealer_notes_guard_delete on public.dealer_notes;
+create trigger dealer_notes_guard_delete
+  before update of deleted_at on public.dealer_notes
+  for each row execute function public.dealer_notes_guard_delete();
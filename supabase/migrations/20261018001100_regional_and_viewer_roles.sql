@@ -0,0 +1,119 @@
+-- Two more roles:
+--   Regional Manager: Manager powers, but only over dealers inside their own
+--     rep_coverage (same states/regions model reps use).
+--   Viewer: finance/compliance browsing. Sees dealers and notes, never writes.
+-- Writes are now gated on capabilities at the row level too, so Viewer stays
+-- read-only even if someone calls PostgREST directly.
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('Admin', 'Manager', 'Regional Manager', 'Rep', 'Viewer'));
+
+-- New base capability: edit the dealers you cover and add notes.
+insert into public.role_capabilities (role, capability) values
+  ('Manager', 'dealer.edit'),
+  ('Rep', 'dealer.edit'),
+  ('Regional Manager', 'dealer.create'),
+  ('Regional Manager', 'dealer.edit'),
+  ('Regional Manager', 'dealer.edit.any'),
+  ('Regional Manager', 'dealer.reassign'),
+  ('Regional Manager', 'dealer.delete'),
+  ('Regional Manager', 'note.delete.own'),
+  ('Regional Manager', 'note.delete.any'),
+  ('Regional Manager', 'note.manager'),
+  ('Regional Manager', 'team.view'),
+  ('Regional Manager', 'reporting.view'),
+  -- /api/export-everything narrows it to their coverage
+  ('Regional Manager', 'export.all'),
+  ('Viewer', 'team.view'),
+  ('Viewer', 'reporting.view')
+on conflict do nothing;
+
+create or replace function public.auth_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.role from public.profiles p where p.id = auth.uid();
+$$;
+
+-- NULL region on a coverage row means every region in that state.
+create or replace function public.covers_dealer(p_state text, p_region text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.rep_coverage c
+     where c.user_id = auth.uid()
+       and c.state = p_state
+       and (c.region is null or c.region = p_region)
+  );
+$$;
+
+grant execute on function public.auth_role() to authenticated;
+grant execute on function public.covers_dealer(text, text) to authenticated;
+
+-- Regional scope. Restrictive policies AND with the existing permissive ones.
+drop policy if exists dealers_regional_scope on public.dealers;
+create policy dealers_regional_scope on public.dealers
+  as restrictive for select to authenticated
+  using (public.auth_role() is distinct from 'Regional Manager' or public.covers_dealer(state, region));
+
+-- Notes and tasks follow their dealer (the subquery is itself filtered by RLS).
+drop policy if exists dealer_notes_regional_scope on public.dealer_notes;
+create policy dealer_notes_regional_scope on public.dealer_notes
+  as restrictive for select to authenticated
+  using (
+    public.auth_role() is distinct from 'Regional Manager'
+    or exists (select 1 from public.dealers d where d.id = dealer_notes.dealer_id)
+  );
+
+drop policy if exists dealer_tasks_regional_scope on public.dealer_tasks;
+create policy dealer_tasks_regional_scope on public.dealer_tasks
+  as restrictive for select to authenticated
+  using (
+    public.auth_role() is distinct from 'Regional Manager'
+    or exists (select 1 from public.dealers d where d.id = dealer_tasks.dealer_id)
+  );
+
+-- Write gates.
+drop policy if exists dealers_insert_capability on public.dealers;
+create policy dealers_insert_capability on public.dealers
+  as restrictive for insert to authenticated
+  with check (public.has_capability('dealer.create'));
+
+drop policy if exists dealers_update_capability on public.dealers;
+create policy dealers_update_capability on public.dealers
+  as restrictive for update to authenticated
+  using (public.has_capability('dealer.edit') or public.has_capability('dealer.edit.any'));
+
+drop policy if exists dealers_delete_capability on public.dealers;
+create policy dealers_delete_capability on public.dealers
+  as restrictive for delete to authenticated
+  using (public.has_capability('dealer.delete'));
+
+drop policy if exists dealer_notes_write_capability on public.dealer_notes;
+create policy dealer_notes_write_capability on public.dealer_notes
+  as restrictive for insert to authenticated
+  with check (public.has_capability('dealer.edit') or public.has_capability('dealer.edit.any'));
+
+drop policy if exists dealer_notes_update_capability on public.dealer_notes;
+create policy dealer_notes_update_capability on public.dealer_notes
+  as restrictive for update to authenticated
+  using (public.has_capability('dealer.edit') or public.has_capability('dealer.edit.any'));
+
+drop policy if exists dealer_tasks_insert_capability on public.dealer_tasks;
+create policy dealer_tasks_insert_capability on public.dealer_tasks
+  as restrictive for insert to authenticated
+  with check (public.has_capability('note.manager'));
+
+drop policy if exists dealer_tasks_update_capability on public.dealer_tasks;
+create policy dealer_tasks_update_capability on public.dealer_tasks
+  as restrictive for update to authenticated
+  using (public.has_capability('dealer.edit') or public.has_capability('dealer.edit.any'));
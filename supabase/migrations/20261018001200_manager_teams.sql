@@ -0,0 +1,72 @@
+-- Teams: each profile may report to one manager. Reporting, the Daily Summary
+-- and task lists default to the signed-in manager's direct reports.
+alter table public.profiles
+  add column if not exists manager_id uuid references public.profiles(id) on delete set null;
+
+alter table public.profiles drop constraint if exists profiles_manager_not_self;
+alter table public.profiles
+  add constraint profiles_manager_not_self check (manager_id is null or manager_id <> id);
+
+create index if not exists profiles_manager_id_idx on public.profiles (manager_id);
+
+-- Only user managers (users.manage) may move people between teams: manager_id
+-- joins status and role in the profile guard.
+create or replace function public.profiles_guard_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.status is distinct from old.status
+      or new.role is distinct from old.role
+      or new.manager_id is distinct from old.manager_id)
+     and auth.uid() is not null
+     and not public.has_capability('users.manage') then
+    raise exception 'Only a user manager can change a user''s status, role or manager' using errcode = '42501';
+  end if;
+  -- Making, unmaking or deactivating an Admin stays with Admins
+  if (new.status is distinct from old.status or new.role is distinct from old.role)
+     and 'Admin' in (old.role, new.role)
+     and auth.uid() is not null
+     and public.auth_role() is distinct from 'Admin' then
+    raise exception 'Only an Admin can change an Admin''s status or role' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_status on public.profiles;
+create trigger profiles_guard_status
+  before update of status, role, manager_id on public.profiles
+  for each row execute function public.profiles_guard_status();
+
+-- A team chain may not loop back on itself.
+create or replace function public.profiles_guard_manager()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.manager_id is not distinct from old.manager_id then
+    return new;
+  end if;
+  if new.manager_id is not null and exists (
+    with recursive chain(id) as (
+      select p.manager_id from public.profiles p where p.id = new.manager_id
+      union
+      select p.manager_id from public.profiles p join chain c on p.id = c.id
+    )
+    select 1 from chain where id = new.id
+  ) then
+    raise exception 'That manager already reports to this user' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_manager on public.profiles;
+create trigger profiles_guard_manager
+  before update of manager_id on public.profiles
+  for each row execute function public.profiles_guard_manager();
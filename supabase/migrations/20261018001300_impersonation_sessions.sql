@@ -0,0 +1,70 @@
+-- "View as": an Admin browses the app as another user, read-only. Each session
+-- is recorded here by the Admin's browser before the view switches, and stamped
+-- with ended_at on exit (left null if the tab closes first).
+create table if not exists public.impersonation_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid default auth.uid() references public.profiles(id) on delete set null,
+  admin_username text not null,
+  target_user_id uuid references public.profiles(id) on delete set null,
+  target_username text not null,
+  target_role text,
+  user_agent text,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz
+);
+
+create index if not exists impersonation_sessions_started_idx
+  on public.impersonation_sessions (started_at desc);
+
+alter table public.impersonation_sessions enable row level security;
+
+drop policy if exists impersonation_sessions_read on public.impersonation_sessions;
+create policy impersonation_sessions_read on public.impersonation_sessions
+  for select to authenticated
+  using (public.has_capability('users.manage'));
+
+drop policy if exists impersonation_sessions_insert on public.impersonation_sessions;
+create policy impersonation_sessions_insert on public.impersonation_sessions
+  for insert to authenticated
+  with check (admin_id = auth.uid() and public.has_capability('users.impersonate'));
+
+drop policy if exists impersonation_sessions_end on public.impersonation_sessions;
+create policy impersonation_sessions_end on public.impersonation_sessions
+  for update to authenticated
+  using (admin_id = auth.uid())
+  with check (admin_id = auth.uid());
+
+-- The log is append-only apart from closing your own session.
+revoke update, delete on public.impersonation_sessions from anon, authenticated;
+grant update (ended_at) on public.impersonation_sessions to authenticated;
+
+-- Route data is owner-only, so an open session also lets the Admin read the
+-- target's stops and presets. Open = not ended and started in the last 12
+-- hours (a closed tab never stamps ended_at).
+create or replace function public.viewing_as(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_capability('users.impersonate') and exists (
+    select 1 from public.impersonation_sessions s
+     where s.admin_id = auth.uid()
+       and s.target_user_id = p_user_id
+       and s.ended_at is null
+       and s.started_at > now() - interval '12 hours'
+  );
+$$;
+
+grant execute on function public.viewing_as(uuid) to authenticated;
+
+drop policy if exists dealer_routes_select_view_as on public.dealer_routes;
+create policy dealer_routes_select_view_as on public.dealer_routes
+  for select to authenticated
+  using (public.viewing_as(user_id));
+
+drop policy if exists route_presets_select_view_as on public.route_presets;
+create policy route_presets_select_view_as on public.route_presets
+  for select to authenticated
+  using (public.viewing_as((select p.id from public.profiles p where p.username = route_presets.rep_username)));
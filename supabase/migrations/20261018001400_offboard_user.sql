@@ -0,0 +1,159 @@
+-- Offboarding: hand everything a user owns to a successor in one transaction
+-- before they are deactivated or removed. Dealers and open tasks can be
+-- re-mapped per region ('STATE|Region' -> profile id); whatever isn't mapped,
+-- plus upcoming route stops, presets and direct reports, goes to the default
+-- successor. Completed tasks and past route stops stay as history.
+
+-- What the user still owns, with the dealer counts per region for the wizard.
+create or replace function public.offboard_summary(p_user_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_username text;
+begin
+  if auth.uid() is not null and not public.has_capability('users.manage') then
+    raise exception 'Not allowed to offboard users' using errcode = '42501';
+  end if;
+
+  select p.username into v_username from public.profiles p where p.id = p_user_id;
+  if v_username is null then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  return jsonb_build_object(
+    'dealers', (select count(*) from public.dealers d where d.assigned_rep_username = v_username),
+    'dealers_by_region', coalesce((
+      select jsonb_agg(jsonb_build_object('state', g.state, 'region', g.region, 'count', g.n) order by g.state, g.region)
+        from (
+          select d.state, d.region, count(*) as n
+            from public.dealers d
+           where d.assigned_rep_username = v_username
+           group by d.state, d.region
+        ) g
+    ), '[]'::jsonb),
+    'open_tasks', (select count(*) from public.dealer_tasks t where t.rep_username = v_username and t.completed_at is null),
+    'upcoming_stops', (select count(*) from public.dealer_routes r where r.user_id = p_user_id and r.date >= current_date),
+    'presets', (select count(*) from public.route_presets rp where rp.rep_username = v_username),
+    'direct_reports', (select count(*) from public.profiles p where p.manager_id = p_user_id)
+  );
+end;
+$$;
+
+create or replace function public.offboard_user(
+  p_user_id uuid,
+  p_successor_id uuid,
+  p_region_successors jsonb default '{}'::jsonb,
+  p_deactivate boolean default false
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_username text;
+  v_manager uuid;
+  v_successor text;
+  v_names jsonb;
+  v_dealers integer;
+  v_tasks integer;
+  v_stops integer;
+  v_presets integer;
+  v_reports integer;
+begin
+  if auth.uid() is not null and not public.has_capability('users.manage') then
+    raise exception 'Not allowed to offboard users' using errcode = '42501';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'You cannot offboard your own account' using errcode = '42501';
+  end if;
+
+  select p.username, p.manager_id into v_username, v_manager
+    from public.profiles p where p.id = p_user_id
+    for update;
+  if v_username is null then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  -- Successors must be other, active users
+  select p.username into v_successor
+    from public.profiles p
+   where p.id = p_successor_id and p.id <> p_user_id and p.status is distinct from 'Inactive';
+  if v_successor is null then
+    raise exception 'Pick an active successor other than this user' using errcode = '22023';
+  end if;
+
+  select coalesce(jsonb_object_agg(e.key, p.username), '{}'::jsonb) into v_names
+    from jsonb_each_text(coalesce(p_region_successors, '{}'::jsonb)) e
+    left join public.profiles p
+      on p.id::text = e.value and p.id <> p_user_id and p.status is distinct from 'Inactive';
+  if exists (select 1 from jsonb_each(v_names) e where e.value = 'null'::jsonb) then
+    raise exception 'Every region successor must be an active user other than this one' using errcode = '22023';
+  end if;
+
+  -- Dealers (trashed ones too, so a restore doesn't bring back a dangling rep)
+  update public.dealers d
+     set assigned_rep_username = coalesce(v_names ->> (d.state || '|' || d.region), v_successor)
+   where d.assigned_rep_username = v_username;
+  get diagnostics v_dealers = row_count;
+
+  -- Open tasks follow the dealer's region mapping
+  update public.dealer_tasks t
+     set rep_username = coalesce(v_names ->> (d.state || '|' || d.region), v_successor)
+    from public.dealers d
+   where d.id = t.dealer_id
+     and t.rep_username = v_username
+     and t.completed_at is null;
+  get diagnostics v_tasks = row_count;
+
+  -- Upcoming stops go after the successor's own stops that day
+  insert into public.dealer_routes (user_id, date, dealer_id, position)
+  select p_successor_id, r.date, r.dealer_id,
+         coalesce((select max(s.position) from public.dealer_routes s where s.user_id = p_successor_id and s.date = r.date), 0)
+           + row_number() over (partition by r.date order by r.position nulls last)
+    from public.dealer_routes r
+   where r.user_id = p_user_id and r.date >= current_date
+  on conflict (user_id, date, dealer_id) do nothing;
+  get diagnostics v_stops = row_count;
+  delete from public.dealer_routes where user_id = p_user_id and date >= current_date;
+
+  -- Presets keep their names unless the successor already has one by that name
+  update public.route_presets rp
+     set name = rp.name || ' (from ' || v_username || ')'
+   where rp.rep_username = v_username
+     and exists (select 1 from public.route_presets o where o.rep_username = v_successor and o.name = rp.name);
+  update public.route_presets
+     set rep_username = v_successor, updated_at = now()
+   where rep_username = v_username;
+  get diagnostics v_presets = row_count;
+
+  -- Direct reports move to the successor; a successor who reported to this
+  -- user moves up to this user's manager instead
+  update public.profiles
+     set manager_id = case when id = p_successor_id then v_manager else p_successor_id end
+   where manager_id = p_user_id;
+  get diagnostics v_reports = row_count;
+
+  if p_deactivate then
+    update public.profiles set status = 'Inactive' where id = p_user_id;
+  end if;
+
+  return jsonb_build_object(
+    'dealers', v_dealers,
+    'open_tasks', v_tasks,
+    'stops', v_stops,
+    'presets', v_presets,
+    'direct_reports', v_reports,
+    'deactivated', p_deactivate
+  );
+end;
+$$;
+
+revoke execute on function public.offboard_summary(uuid) from public, anon;
+revoke execute on function public.offboard_user(uuid, uuid, jsonb, boolean) from public, anon;
+grant execute on function public.offboard_summary(uuid) to authenticated, service_role;
+grant execute on function public.offboard_user(uuid, uuid, jsonb, boolean) to authenticated, service_role;
@@ -0,0 +1,112 @@
+-- Effective-dated coverage. A rep_coverage row now covers [valid_from, valid_to);
+-- valid_to is null while it's current. Territory changes close rows instead of
+-- deleting them, so reports can ask who covered a region on any past date.
+-- Everything that means "today's territory" filters on valid_to is null.
+alter table public.rep_coverage
+  add column if not exists valid_from date not null default current_date,
+  add column if not exists valid_to date;
+
+-- We don't know when existing rows started; treat them as covering all along.
+update public.rep_coverage set valid_from = date '2000-01-01' where valid_to is null;
+
+alter table public.rep_coverage drop constraint if exists rep_coverage_valid_range;
+alter table public.rep_coverage
+  add constraint rep_coverage_valid_range check (valid_to is null or valid_to > valid_from);
+
+-- The old (user_id, state, region) uniqueness now only holds for current rows.
+do $$
+declare
+  v_name text;
+begin
+  for v_name in
+    select c.conname
+      from pg_constraint c
+     where c.conrelid = 'public.rep_coverage'::regclass
+       and c.contype = 'u'
+  loop
+    execute format('alter table public.rep_coverage drop constraint %I', v_name);
+  end loop;
+  for v_name in
+    select i.relname
+      from pg_index x
+      join pg_class i on i.oid = x.indexrelid
+     where x.indrelid = 'public.rep_coverage'::regclass
+       and x.indisunique
+       and not x.indisprimary
+  loop
+    execute format('drop index if exists public.%I', v_name);
+  end loop;
+end;
+$$;
+
+create unique index if not exists rep_coverage_current_uidx
+  on public.rep_coverage (user_id, state, coalesce(region, ''))
+  where valid_to is null;
+create index if not exists rep_coverage_history_idx
+  on public.rep_coverage (state, region, valid_from);
+
+-- Set a user's current territory to exactly p_rows ([{state, region}], region
+-- null = the whole state). Rows that stay are untouched, dropped ones are
+-- closed as of today (or deleted if they only started today), new ones open today.
+create or replace function public.set_rep_coverage(p_user_id uuid, p_rows jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- 'STATE|region' ('' for the whole state), compared against current rows
+  v_keys text[];
+begin
+  if auth.uid() is not null and not public.has_capability('users.manage') then
+    raise exception 'Only a user manager can change coverage' using errcode = '42501';
+  end if;
+
+  select coalesce(array_agg(distinct upper(trim(e ->> 'state')) || '|' || coalesce(trim(e ->> 'region'), '')), '{}')
+    into v_keys
+    from jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) e
+   where coalesce(trim(e ->> 'state'), '') <> '';
+
+  delete from public.rep_coverage c
+   where c.user_id = p_user_id
+     and c.valid_to is null
+     and c.valid_from >= current_date
+     and (c.state || '|' || coalesce(c.region, '')) <> all (v_keys);
+
+  update public.rep_coverage c
+     set valid_to = current_date
+   where c.user_id = p_user_id
+     and c.valid_to is null
+     and (c.state || '|' || coalesce(c.region, '')) <> all (v_keys);
+
+  insert into public.rep_coverage (user_id, state, region, valid_from)
+  select p_user_id, split_part(k, '|', 1), nullif(substr(k, strpos(k, '|') + 1), ''), current_date
+    from unnest(v_keys) k
+   where not exists (
+     select 1 from public.rep_coverage c
+      where c.user_id = p_user_id
+        and c.valid_to is null
+        and (c.state || '|' || coalesce(c.region, '')) = k
+   );
+end;
+$$;
+
+revoke execute on function public.set_rep_coverage(uuid, jsonb) from public, anon;
+grant execute on function public.set_rep_coverage(uuid, jsonb) to authenticated, service_role;
+
+-- Current coverage only
+create or replace function public.covers_dealer(p_state text, p_region text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.rep_coverage c
+     where c.user_id = auth.uid()
+       and c.valid_to is null
+       and c.state = p_state
+       and (c.region is null or c.region = p_region)
+  );
+$$;
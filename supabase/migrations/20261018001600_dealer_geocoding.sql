@@ -0,0 +1,102 @@
+-- Dealer coordinates for the Dealer Search map. Filled by /api/geocode-dealers
+-- (a provider, or the bundled ZIP centroids when there is none); the app never
+-- writes them itself.
+--   geocode_source: which geocoder placed it ('google', 'nominatim', 'zip' = approximate)
+--   geocoded_at:    when it was last attempted; null = waiting for the geocoder
+alter table public.dealers
+  add column if not exists lat double precision,
+  add column if not exists lng double precision,
+  add column if not exists geocode_source text,
+  add column if not exists geocoded_at timestamptz;
+
+alter table public.dealers drop constraint if exists dealers_lat_lng_check;
+alter table public.dealers
+  add constraint dealers_lat_lng_check check (
+    (lat is null) = (lng is null)
+    and (lat is null or (lat between -90 and 90 and lng between -180 and 180))
+  );
+
+create index if not exists dealers_geocode_pending_idx
+  on public.dealers (id)
+  where geocoded_at is null and deleted_at is null;
+
+-- An address edit makes the old position wrong; queue the dealer again.
+-- Runs before dealers_touch_updated_at (triggers fire in name order).
+create or replace function public.dealers_clear_stale_geocode()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.address1, new.city, new.state, new.zip) is distinct from (old.address1, old.city, old.state, old.zip)
+     and (new.lat, new.lng) is not distinct from (old.lat, old.lng) then
+    new.lat := null;
+    new.lng := null;
+    new.geocode_source := null;
+    new.geocoded_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dealers_clear_stale_geocode on public.dealers;
+create trigger dealers_clear_stale_geocode
+  before update on public.dealers
+  for each row execute function public.dealers_clear_stale_geocode();
+
+-- The geocoder works behind the user's back: it must not make an open edit stale...
+create or replace function public.dealers_touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_ignore text[] := array['updated_at', 'last_visited', 'deleted_at', 'deleted_by',
+                           'lat', 'lng', 'geocode_source', 'geocoded_at'];
+begin
+  if (to_jsonb(new) - v_ignore) is distinct from (to_jsonb(old) - v_ignore) then
+    new.updated_at := now();
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
+
+-- ...or fill the dealer's history with coordinates
+create or replace function public.dealers_write_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_skip text[] := array['created_at', 'updated_at', 'last_visited', 'deleted_by',
+                         'lat', 'lng', 'geocode_source', 'geocoded_at'];
+  v_old jsonb;
+  v_new jsonb;
+  v_key text;
+begin
+  if v_actor is not null then
+    select p.username into v_actor_name from public.profiles p where p.id = v_actor;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, new_value, actor_id, actor_username)
+    values (new.id, new.name, 'insert', to_jsonb(new) - v_skip, v_actor, v_actor_name);
+  elsif tg_op = 'DELETE' then
+    insert into public.dealer_audit (dealer_id, dealer_name, action, old_value, actor_id, actor_username)
+    values (old.id, old.name, 'delete', to_jsonb(old) - v_skip, v_actor, v_actor_name);
+  else
+    v_old := to_jsonb(old) - v_skip;
+    v_new := to_jsonb(new) - v_skip;
+    for v_key in select jsonb_object_keys(v_new) loop
+      if v_old -> v_key is distinct from v_new -> v_key then
+        insert into public.dealer_audit (dealer_id, dealer_name, action, field, old_value, new_value, actor_id, actor_username)
+        values (new.id, new.name, 'update', v_key, v_old -> v_key, v_new -> v_key, v_actor, v_actor_name);
+      end if;
+    end loop;
+  end if;
+  return null;
+end;
+$$;
@@ -0,0 +1,46 @@
+-- Save a whole day's stop order in one call. The caller's stops for p_date are
+-- renumbered 1..N in the order of p_dealer_ids; stops missing from the list
+-- (added in another tab meanwhile) keep their relative order after them.
+-- One statement, so a failed save leaves the old order intact and positions
+-- can't end up duplicated.
+create or replace function public.reorder_route(p_date date, p_dealer_ids uuid[])
+returns setof public.dealer_routes
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to reorder a route' using errcode = '42501';
+  end if;
+
+  -- Two tabs saving the same day take turns
+  perform 1
+     from public.dealer_routes r
+    where r.user_id = auth.uid() and r.date = p_date
+      for update;
+
+  update public.dealer_routes r
+     set position = o.new_position
+    from (
+      select s.id,
+             row_number() over (
+               order by coalesce(array_position(p_dealer_ids, s.dealer_id), 2147483647),
+                        s.position nulls last,
+                        s.created_at
+             ) as new_position
+        from public.dealer_routes s
+       where s.user_id = auth.uid() and s.date = p_date
+    ) o
+   where r.id = o.id
+     and r.position is distinct from o.new_position;
+
+  return query
+    select r.*
+      from public.dealer_routes r
+     where r.user_id = auth.uid() and r.date = p_date
+     order by r.position;
+end;
+$$;
+
+revoke execute on function public.reorder_route(date, uuid[]) from public, anon;
+grant execute on function public.reorder_route(date, uuid[]) to authenticated;
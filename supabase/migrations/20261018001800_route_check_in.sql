@@ -0,0 +1,31 @@
+-- Check-in / check-out on route stops, so a day's plan can be compared with
+-- what was actually visited.
+--   checked_in_at / checked_out_at: when the rep pressed the buttons
+--   check_in_lat/lng, check_out_lat/lng: browser position, when the rep allowed it
+--   visit_note_client_id: client_id of the Visit note written at check-out
+--     (client_id rather than id: the note may still be in the offline outbox)
+alter table public.dealer_routes
+  add column if not exists checked_in_at timestamptz,
+  add column if not exists checked_out_at timestamptz,
+  add column if not exists check_in_lat double precision,
+  add column if not exists check_in_lng double precision,
+  add column if not exists check_out_lat double precision,
+  add column if not exists check_out_lng double precision,
+  add column if not exists visit_note_client_id text;
+
+alter table public.dealer_routes drop constraint if exists dealer_routes_check_out_after_in;
+alter table public.dealer_routes
+  add constraint dealer_routes_check_out_after_in check (
+    checked_out_at is null or (checked_in_at is not null and checked_out_at >= checked_in_at)
+  );
+
+alter table public.dealer_routes drop constraint if exists dealer_routes_check_positions;
+alter table public.dealer_routes
+  add constraint dealer_routes_check_positions check (
+    (check_in_lat is null) = (check_in_lng is null)
+    and (check_out_lat is null) = (check_out_lng is null)
+  );
+
+create index if not exists dealer_routes_visit_note_idx
+  on public.dealer_routes (visit_note_client_id)
+  where visit_note_client_id is not null;
@@ -0,0 +1,24 @@
+-- Route adherence reporting: whoever can see Reporting may read every rep's
+-- planned stops (reps still only write their own), Regional Managers only the
+-- stops inside their coverage. The reporting policy is permissive, so it only
+-- widens the existing owner-only read; the regional one narrows it again.
+drop policy if exists dealer_routes_select_reporting on public.dealer_routes;
+create policy dealer_routes_select_reporting
+  on public.dealer_routes
+  for select
+  to authenticated
+  using (public.has_capability('reporting.view'));
+
+-- Regional Managers only see stops at dealers inside their coverage, like
+-- notes and tasks (the subquery is itself filtered by dealers_regional_scope).
+drop policy if exists dealer_routes_regional_scope on public.dealer_routes;
+create policy dealer_routes_regional_scope on public.dealer_routes
+  as restrictive for select to authenticated
+  using (
+    public.auth_role() is distinct from 'Regional Manager'
+    or user_id = auth.uid()
+    or exists (select 1 from public.dealers d where d.id = dealer_routes.dealer_id)
+  );
+
+create index if not exists dealer_routes_date_user_idx
+  on public.dealer_routes (date, user_id);
@@ -1,7 +1,12 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // Modules that import the shared client run against the in-memory stand-in
+    env: { VITE_SUPABASE_MEMORY: '1' },
+  },
 })